@@ -1,28 +1,50 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { useDocumentAccessibility } from "@/hooks/use-accessibility";
+import { useUpdatePrompt } from "@/hooks/use-app-update";
+import { useUiClickSounds } from "@/hooks/use-audio";
+import { queryClient } from "@/lib/query-client";
 import Index from "./pages/Index";
 import GamePage from "./pages/GamePage";
+import Profile from "./pages/Profile";
+import Achievements from "./pages/Achievements";
+import Daily from "./pages/Daily";
+import Settings from "./pages/Settings";
+import Replays from "./pages/Replays";
+import ReplayPage from "./pages/ReplayPage";
+import Leaderboards from "./pages/Leaderboards";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const App = () => {
+  useUiClickSounds();
+  useDocumentAccessibility();
+  useUpdatePrompt();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/game/:gameId" element={<GamePage />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
-);
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/game/:gameId" element={<GamePage />} />
+            <Route path="/profile" element={<Profile />} />
+            <Route path="/achievements" element={<Achievements />} />
+            <Route path="/daily" element={<Daily />} />
+            <Route path="/settings" element={<Settings />} />
+            <Route path="/replays" element={<Replays />} />
+            <Route path="/replays/:replayId" element={<ReplayPage />} />
+            <Route path="/leaderboards" element={<Leaderboards />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
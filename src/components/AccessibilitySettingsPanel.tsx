@@ -0,0 +1,84 @@
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAccessibilitySettings } from '@/hooks/use-accessibility';
+import {
+  fontScales,
+  gameSpeeds,
+  resetAccessibility,
+  updateAccessibility,
+  type AccessibilitySettings,
+} from '@/lib/accessibility-settings';
+
+type ToggleKey = 'reducedMotion' | 'highContrast' | 'colorBlindPalette';
+
+const toggles: { key: ToggleKey; label: string; description: string }[] = [
+  { key: 'reducedMotion', label: 'Reduce motion', description: 'Turns off particle bursts, floating backgrounds and UI animations' },
+  { key: 'highContrast', label: 'High contrast', description: 'Black surfaces with brighter text, borders and neon colours' },
+  { key: 'colorBlindPalette', label: 'Colour-blind safe colours', description: 'Swaps the colours in Simon, Stack and Breakout for a palette that stays distinct' },
+];
+
+const speedLabels: Record<number, string> = { 1: 'Normal', 0.75: 'Slower', 0.5: 'Half speed' };
+
+export function AccessibilitySettingsPanel() {
+  const settings = useAccessibilitySettings();
+  const set = (patch: Partial<AccessibilitySettings>) => updateAccessibility(patch);
+
+  return (
+    <div className="game-card space-y-6">
+      {toggles.map(({ key, label, description }) => (
+        <div key={key} className="flex items-center justify-between gap-4">
+          <label htmlFor={`a11y-${key}`}>
+            <div className="font-bold text-foreground">{label}</div>
+            <div className="text-sm text-muted-foreground">{description}</div>
+          </label>
+          <Switch id={`a11y-${key}`} checked={settings[key]} onCheckedChange={checked => set({ [key]: checked })} />
+        </div>
+      ))}
+
+      <div>
+        <div className="font-bold text-foreground mb-2">Text size</div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={String(settings.fontScale)}
+          // a single-select group reports '' when the active item is clicked again; keep the current size
+          onValueChange={value => value && set({ fontScale: Number(value) })}
+          className="justify-start flex-wrap"
+        >
+          {fontScales.map(scale => (
+            <ToggleGroupItem key={scale} value={String(scale)} aria-label={`${scale * 100}% text`}>
+              {scale * 100}%
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div>
+        <div className="font-bold text-foreground">Slow mode</div>
+        <div className="text-sm text-muted-foreground mb-2">Runs action games at a fraction of their normal speed</div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={String(settings.gameSpeed)}
+          onValueChange={value => value && set({ gameSpeed: Number(value) })}
+          className="justify-start flex-wrap"
+        >
+          {gameSpeeds.map(speed => (
+            <ToggleGroupItem key={speed} value={String(speed)}>
+              {speedLabels[speed]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={resetAccessibility}>
+          <RotateCcw className="w-4 h-4" />
+          Reset accessibility
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { Volume2, VolumeX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { useAudioSettings } from '@/hooks/use-audio';
+import { playSfx, startMusic, stopMusic } from '@/lib/audio';
+import { setBusVolume, setMuted, type AudioBus } from '@/lib/audio-settings';
+
+const busLabels: Record<AudioBus, string> = {
+  master: 'Master volume',
+  sfx: 'Sound effects',
+  music: 'Music',
+};
+
+export function AudioSettingsPanel() {
+  const settings = useAudioSettings();
+
+  return (
+    <div className="game-card">
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <label htmlFor="audio-muted" className="flex items-center gap-2 font-bold text-foreground">
+          {settings.muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+          Mute all sound
+        </label>
+        <Switch id="audio-muted" checked={settings.muted} onCheckedChange={setMuted} />
+      </div>
+
+      <div className="space-y-6">
+        {(Object.keys(busLabels) as AudioBus[]).map(bus => (
+          <div key={bus} className="grid grid-cols-[10rem_1fr_3rem] items-center gap-4">
+            <span className="text-sm text-muted-foreground">{busLabels[bus]}</span>
+            <Slider
+              aria-label={busLabels[bus]}
+              value={[Math.round(settings[bus] * 100)]}
+              max={100}
+              step={5}
+              disabled={settings.muted}
+              onValueChange={([value]) => setBusVolume(bus, value / 100)}
+              // preview the effects level once the thumb is let go, rather than on every step
+              onValueCommit={() => {
+                if (bus !== 'music') playSfx('score');
+              }}
+            />
+            <span className="text-sm text-right tabular-nums">{Math.round(settings[bus] * 100)}%</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end mt-6">
+        <Button
+          variant="outline"
+          // two bars of the in-game loop, so the music level can be judged outside a game
+          onClick={() => {
+            startMusic();
+            window.setTimeout(stopMusic, 2400);
+          }}
+          disabled={settings.muted}
+        >
+          Preview music
+        </Button>
+      </div>
+    </div>
+  );
+}
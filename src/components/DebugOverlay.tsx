@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Bug, Pause, Play, StepForward, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useDebugReadout, useDebugSettings } from '@/hooks/use-debug';
+import { debugTimeScales, getDebugTarget, updateDebug } from '@/lib/debug';
+
+const formatValue = (value: number | string | boolean) =>
+  typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(2) : String(value);
+
+function Row({ label, value }: { label: string; value: number | string | boolean }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="tabular-nums">{formatValue(value)}</dd>
+    </div>
+  );
+}
+
+/**
+ * Live numbers and tuning switches for the sim run on screen. Only mounted in development builds;
+ * the sim runner records the time scale, freezes, single steps, invulnerability and level jumps in the run as
+ * debug commands, so a run played with any of them can't be submitted as a score.
+ */
+export function DebugOverlay() {
+  const settings = useDebugSettings();
+  const readout = useDebugReadout(settings.open);
+  const [level, setLevel] = useState(1);
+  if (!settings.open) return null;
+
+  const target = getDebugTarget();
+  const debug = target?.sim.debug;
+
+  const step = () => {
+    target?.send(['debug:step', 1]);
+    target?.loop()?.stepFrames();
+  };
+
+  return (
+    <aside
+      aria-label="Debug overlay"
+      // clicks here must not reach games that treat any window click as input
+      onClick={(e) => e.stopPropagation()}
+      className="fixed bottom-4 left-4 z-50 w-64 rounded-lg border border-border bg-background/90 p-3 font-mono text-xs text-foreground shadow-lg backdrop-blur-sm"
+    >
+      <div className="mb-2 flex items-center justify-between">
+        <span className="flex items-center gap-1 font-semibold">
+          <Bug className="w-3 h-3" />
+          Debug
+        </span>
+        <button type="button" aria-label="Close debug overlay" onClick={() => updateDebug({ open: false })}>
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {!readout ? (
+        <p className="text-muted-foreground">This game doesn't run on a sim, so there is nothing to inspect.</p>
+      ) : (
+        <>
+          <dl className="space-y-0.5">
+            {readout.frame && (
+              <>
+                <Row label="fps" value={Math.round(readout.frame.fps)} />
+                <Row label="frame ms" value={readout.frame.frameMs} />
+                <Row label="steps/frame" value={readout.frame.stepsPerFrame} />
+              </>
+            )}
+            <Row label="tick" value={readout.tick} />
+            <Row label="seed" value={readout.seed ?? '—'} />
+            {Object.entries(readout.stats).map(([label, value]) => (
+              <Row key={label} label={label} value={value} />
+            ))}
+          </dl>
+
+          <div className="mt-3 flex flex-wrap gap-1">
+            {debugTimeScales.map(scale => (
+              <Button
+                key={scale}
+                size="sm"
+                variant={settings.timeScale === scale ? 'secondary' : 'outline'}
+                className="h-6 px-2 text-xs"
+                onClick={() => updateDebug({ timeScale: scale })}
+              >
+                {scale}×
+              </Button>
+            ))}
+          </div>
+          <div className="mt-1 flex gap-1">
+            <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => updateDebug({ frozen: !settings.frozen })}>
+              {settings.frozen ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+              {settings.frozen ? 'Resume' : 'Freeze'}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-xs"
+              disabled={!settings.frozen}
+              onClick={step}
+            >
+              <StepForward className="w-3 h-3" />
+              Step
+            </Button>
+          </div>
+
+          <div className="mt-3 space-y-2">
+            <label className="flex items-center justify-between">
+              Hitboxes
+              <Switch
+                checked={settings.hitboxes}
+                disabled={!debug?.hitboxes}
+                onCheckedChange={hitboxes => updateDebug({ hitboxes })}
+              />
+            </label>
+            <label className="flex items-center justify-between">
+              Invulnerable
+              <Switch checked={settings.invulnerable} disabled={!debug?.invulnerability} onCheckedChange={invulnerable => updateDebug({ invulnerable })} />
+            </label>
+          </div>
+
+          {debug?.maxLevel && (
+            <form
+              className="mt-3 flex items-center gap-1"
+              onSubmit={(e) => {
+                e.preventDefault();
+                target?.send(['debug:level', level]);
+              }}
+            >
+              <Input
+                type="number"
+                min={1}
+                max={debug.maxLevel}
+                value={level}
+                onChange={(e) => setLevel(Number(e.target.value) || 1)}
+                className="h-6 w-16 px-2 text-xs"
+                aria-label="Level"
+              />
+              <Button type="submit" size="sm" variant="outline" className="h-6 px-2 text-xs">
+                Jump to level
+              </Button>
+            </form>
+          )}
+        </>
+      )}
+    </aside>
+  );
+}
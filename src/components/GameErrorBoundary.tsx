@@ -0,0 +1,51 @@
+import { Component, type ErrorInfo, type ReactNode } from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface GameErrorBoundaryProps {
+  gameName: string;
+  // called before the boundary clears, so the parent can remount the game from scratch
+  onReset: () => void;
+  children: ReactNode;
+}
+
+interface GameErrorBoundaryState {
+  error: Error | null;
+}
+
+/** Contains a crash (or a failed chunk load) to the game panel instead of unmounting the whole app. */
+export class GameErrorBoundary extends Component<GameErrorBoundaryProps, GameErrorBoundaryState> {
+  state: GameErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): GameErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.error(`${this.props.gameName} crashed:`, error, info.componentStack);
+  }
+
+  reset = () => {
+    this.props.onReset();
+    this.setState({ error: null });
+  };
+
+  render() {
+    const { error } = this.state;
+    if (!error) return this.props.children;
+
+    return (
+      <div role="alert" className="flex flex-col items-center gap-4 px-8 py-12 text-center">
+        <AlertTriangle className="w-12 h-12 text-destructive" />
+        <h2 className="text-2xl font-display font-bold text-foreground">This game crashed</h2>
+        <p className="max-w-sm text-muted-foreground">
+          Something went wrong inside {this.props.gameName}. The rest of the arcade is fine.
+        </p>
+        <Button variant="neon" onClick={this.reset}>
+          <RotateCcw className="w-4 h-4" />
+          Restart
+        </Button>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { useLayoutEffect, useRef, useState, type ReactNode } from 'react';
+import { Smartphone, X } from 'lucide-react';
+import { remeasureCanvasSurfaces } from '@/lib/engine';
+
+type Size = { width: number; height: number };
+
+// Below this gain, turning the phone isn't worth suggesting
+const ROTATE_HINT_GAIN = 1.4;
+
+const sameSize = (a: Size | null, b: Size) => a !== null && a.width === b.width && a.height === b.height;
+
+interface GameStageProps {
+  children: ReactNode;
+  // largest scale a game is grown to; small boards shouldn't turn into billboards
+  maxScale: number;
+}
+
+/**
+ * Letterboxes a game into whatever room the stage is given. The game lays out at its own fixed size (its logical
+ * resolution), and the stage scales it with a transform to the largest size that fits, keeping its aspect ratio.
+ * Canvas surfaces are told to measure again when the scale changes, so scaled boards are still drawn at full resolution.
+ * On touch screens, a hint suggests turning the device when the other orientation would fit the game much bigger.
+ */
+export function GameStage({ children, maxScale }: GameStageProps) {
+  const stageRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [room, setRoom] = useState<Size | null>(null);
+  const [natural, setNatural] = useState<Size | null>(null);
+  const [hintDismissed, setHintDismissed] = useState(false);
+
+  // offset sizes are layout sizes, so the content's own transform doesn't feed back into its measurement
+  useLayoutEffect(() => {
+    const stage = stageRef.current;
+    const content = contentRef.current;
+    if (!stage || !content) return;
+    const measure = () => {
+      const nextRoom = { width: stage.clientWidth, height: stage.clientHeight };
+      const nextNatural = { width: content.offsetWidth, height: content.offsetHeight };
+      setRoom(prev => (sameSize(prev, nextRoom) ? prev : nextRoom));
+      setNatural(prev => (sameSize(prev, nextNatural) ? prev : nextNatural));
+    };
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(stage);
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, []);
+
+  const fit = (width: number, height: number) =>
+    natural && natural.width > 0 && natural.height > 0
+      ? Math.min(maxScale, width / natural.width, height / natural.height)
+      : 1;
+  const scale = room ? fit(room.width, room.height) : 1;
+
+  // a transform resizes the canvases inside without anything a ResizeObserver would see
+  useLayoutEffect(() => {
+    remeasureCanvasSurfaces();
+  }, [scale]);
+
+  // the stage's room turned sideways stands in for the rotated viewport, since the page chrome around it rotates too
+  const coarsePointer = typeof window !== 'undefined' && window.matchMedia?.('(pointer: coarse)').matches;
+  const rotated = room ? fit(room.height, room.width) : 1;
+  const showHint = coarsePointer && !hintDismissed && rotated >= scale * ROTATE_HINT_GAIN;
+  const turnTo = room && room.width < room.height ? 'landscape' : 'portrait';
+
+  return (
+    <div ref={stageRef} className="relative flex h-full w-full items-center justify-center overflow-hidden">
+      <div
+        className="relative shrink-0"
+        style={natural ? { width: natural.width * scale, height: natural.height * scale } : undefined}
+      >
+        <div
+          ref={contentRef}
+          className="absolute left-0 top-0 w-max origin-top-left"
+          style={{ transform: scale === 1 ? undefined : `scale(${scale})` }}
+        >
+          {children}
+        </div>
+      </div>
+      {showHint && (
+        <div
+          role="status"
+          className="absolute bottom-3 left-1/2 z-30 flex -translate-x-1/2 items-center gap-2 rounded-full border border-border bg-background/90 px-4 py-2 text-sm text-foreground shadow-lg backdrop-blur-sm"
+        >
+          <Smartphone className={turnTo === 'landscape' ? 'w-4 h-4 rotate-90' : 'w-4 h-4'} />
+          Turn your device to {turnTo} for a bigger board
+          <button
+            type="button"
+            aria-label="Dismiss"
+            onClick={(e) => {
+              e.stopPropagation();
+              setHintDismissed(true);
+            }}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Link } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Game } from '@/types/games';
+import { useGameStats } from '@/hooks/use-stats';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { formatDuration } from '@/lib/utils';
+
+interface GameStatsCardProps {
+  game: Game;
+}
+
+const chartConfig = {
+  score: { label: 'Score', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+export function GameStatsCard({ game }: GameStatsCardProps) {
+  const stats = useGameStats(game.id);
+  const data = stats.history.map((run, i) => ({
+    run: i + 1,
+    score: run.score,
+    date: new Date(run.endedAt).toLocaleDateString(),
+  }));
+
+  return (
+    <div className="game-card border-2 border-transparent">
+      <div className="flex items-center gap-3 mb-4">
+        <img src={game.icon} alt={game.name} className="w-12 h-12 object-contain" />
+        <Link to={`/game/${game.id}`} className="font-display text-lg font-bold text-foreground hover:text-primary transition-colors">
+          {game.name}
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+        <div>
+          <div className="text-xs text-muted-foreground">Best</div>
+          <div className="text-lg font-bold text-primary">{stats.best ?? '-'}</div>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground">Plays</div>
+          <div className="text-lg font-bold text-foreground">{stats.plays}</div>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground">Time</div>
+          <div className="text-lg font-bold text-foreground">{formatDuration(stats.totalDurationMs)}</div>
+        </div>
+      </div>
+
+      {data.length > 1 ? (
+        <ChartContainer config={chartConfig} className="h-40 w-full">
+          <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="run" tickLine={false} axisLine={false} />
+            <YAxis width={32} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0]?.payload.date} />} />
+            <Line dataKey="score" type="monotone" stroke="var(--color-score)" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ChartContainer>
+      ) : (
+        <div className="h-40 flex items-center justify-center text-sm text-muted-foreground">
+          {data.length === 0 ? 'No runs yet' : 'Play again to see a trend'}
+        </div>
+      )}
+    </div>
+  );
+}
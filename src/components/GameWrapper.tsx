@@ -1,61 +1,124 @@
-import { useParams, Link } from 'react-router-dom';
-import { games } from '@/data/games';
-import { ArrowLeft } from 'lucide-react';
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { ArrowLeft, Maximize, Minimize, Pause, Trophy } from 'lucide-react';
+import { DebugOverlay } from '@/components/DebugOverlay';
+import { GameErrorBoundary } from '@/components/GameErrorBoundary';
+import { GameStage } from '@/components/GameStage';
+import { InitialsDialog } from '@/components/InitialsDialog';
+import { LeaderboardPanel } from '@/components/LeaderboardPanel';
+import { PauseOverlay } from '@/components/PauseOverlay';
+import { TouchControls } from '@/components/TouchControls';
 import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from '@/components/ui/sonner';
+import { useDebugToggleKey } from '@/hooks/use-debug';
+import { useFullscreen } from '@/hooks/use-fullscreen';
+import { useGameSession } from '@/hooks/use-game-session';
+import { useGlobalPause } from '@/hooks/use-global-pause';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useSwipe } from '@/hooks/use-swipe';
+import { evaluateAchievements } from '@/lib/achievements';
+import { debugToolsEnabled } from '@/lib/debug';
+import { playSfx, startMusic, stopMusic, type SoundEffect } from '@/lib/audio';
+import { leaderboardModeOf, leaderboardRankFor } from '@/lib/leaderboards';
+import { recordRun } from '@/lib/stats-store';
+import { cn } from '@/lib/utils';
+import { pressVirtualAction } from '@/lib/virtual-controls';
+import { SessionOutcome, SessionResult, SessionStatus } from '@/types/session';
+import { getRegisteredGame, resetRegisteredGame } from './games/registry';
 
-// Import all games
-import { MemoryMatch } from './games/MemoryMatch';
-import { TicTacToe} from './games/TicTacToe';
-import { Snake } from './games/Snake';
-import { FlappyBird } from './games/Game2048';
-import { WhackAMole } from './games/WhackAMole';
-import { SimonSays } from './games/SimonSays';
-import { RockPaperScissors } from './games/RockPaperScissors';
-import { NumberGuess } from './games/NumberGuess';
-import { NumberPlayMiniCricket} from './games/ReactionTime';
-import { StackBuilder } from './games/ColorMatch';
-import { TypingSpeed } from './games/TypingSpeed';
-import { GravitySwayRunner } from './games/MathQuiz';
-import { FlipDash } from './games/ClickSpeed';
-import { WordScramble } from './games/WordScramble';
-import { MazeGame } from './games/Hangman';
-import { SliceDash } from './games/PatternMatch';
-import { TankBattle } from './games/AimTrainer';
-import { NeonBreakoutBlitz } from './games/SequenceMemory';
-import { QuickMath } from './games/QuickMath';
-import { BulletDodge } from './games/EmojiMatch';
-
-const gameComponents: Record<string, React.ComponentType> = {
-  'memory-match': MemoryMatch,
-  'tic-tac-toe': TicTacToe,
-  'snake': Snake,
-  'flappy-bird': FlappyBird,
-  'whack-a-mole': WhackAMole,
-  'simon-says': SimonSays,
-  'rock-paper-scissors': RockPaperScissors,
-  'number-guess': NumberGuess,
-  'reaction-time': NumberPlayMiniCricket,
-  'color-match': StackBuilder,
-  'typing-speed': TypingSpeed,
-  'math-quiz': GravitySwayRunner,
-  'click-speed': FlipDash,
-  'word-scramble': WordScramble,
-  'hangman': MazeGame,
-  'pattern-match': SliceDash,
-  'aim-trainer': TankBattle,
-  'sequence-memory': NeonBreakoutBlitz,
-  'quick-math': QuickMath,
-  'emoji-match': BulletDodge,
+// How far the stage may grow a game: a little in the page, as much as the screen allows in fullscreen
+const PAGE_MAX_SCALE = 1.5;
+const FULLSCREEN_MAX_SCALE = 4;
+
+// Every game gets its end-of-run sting from here rather than wiring its own
+const outcomeSounds: Record<SessionOutcome, SoundEffect | null> = {
+  win: 'win',
+  completed: 'win',
+  draw: 'score',
+  loss: 'gameOver',
+  abandoned: null,
 };
 
-export function GameWrapper() {
-  const { gameId } = useParams<{ gameId: string }>();
-  const game = games.find(g => g.id === gameId);
-  const GameComponent = gameId ? gameComponents[gameId] : null;
+// Achievement rules read the stats store, so the run has to be recorded first.
+function handleRunEnd(result: SessionResult) {
+  recordRun(result);
+  const sound = outcomeSounds[result.outcome];
+  if (sound) playSfx(sound);
+  const unlocked = evaluateAchievements(result);
+  if (unlocked.length) playSfx('powerUp');
+  unlocked.forEach(a => {
+    toast(`${a.icon} Achievement unlocked: ${a.name}`, { description: a.description });
+  });
+}
+
+// Stand-in while the game's chunk downloads; roughly the footprint of the canvas games
+function GameSkeleton() {
+  return (
+    <div className="flex flex-col items-center gap-4" aria-busy="true" aria-label="Loading game">
+      <Skeleton className="h-6 w-40" />
+      <Skeleton className="h-[400px] w-[min(400px,80vw)]" />
+      <Skeleton className="h-10 w-28" />
+    </div>
+  );
+}
+
+interface GameWrapperProps {
+  // defaults to the :gameId route param
+  gameId?: string;
+  // fixed seed for seeded modes such as the daily challenge
+  seed?: number;
+  subtitle?: string;
+  // told whenever the session status changes, for pages that must not swap the game out mid-run
+  onStatusChange?: (status: SessionStatus) => void;
+}
+
+export function GameWrapper({ gameId: gameIdProp, seed, subtitle, onStatusChange }: GameWrapperProps) {
+  const params = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+  const gameId = gameIdProp ?? params.gameId;
+  // bumped by the restart buttons (pause menu, crash panel) to remount the game with fresh state
+  const [attempt, setAttempt] = useState(0);
+  const registered = getRegisteredGame(gameId);
+  // the side panel follows the mode of the last run; a qualifying run waits here for its initials
+  const [boardMode, setBoardMode] = useState<string | null>(null);
+  const [pendingScore, setPendingScore] = useState<SessionResult | null>(null);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  // below 2xl there's no room beside the stage, so the panel waits under it until asked for
+  const [boardShown, setBoardShown] = useState(false);
+  const onRunEnd = (result: SessionResult) => {
+    handleRunEnd(result);
+    setBoardMode(leaderboardModeOf(result));
+    if (leaderboardRankFor(result) !== null) setPendingScore(result);
+  };
+  const { session, status, reset } = useGameSession(gameId ?? '', { seed, onEnd: onRunEnd });
+  const { paused, togglePause, pauseKeys } = useGlobalPause(session, status);
+  useDebugToggleKey(debugToolsEnabled);
+  const fullscreen = useFullscreen();
 
-  if (!game || !GameComponent) {
+  useEffect(() => {
+    onStatusChange?.(status);
+  }, [status, onStatusChange]);
+
+  // the music bus only plays while a run is live
+  useEffect(() => {
+    if (status === 'running') startMusic();
+    else stopMusic();
+  }, [status]);
+  useEffect(() => stopMusic, []);
+
+  // on phones, games that opt in get thumb controls and swipe-to-steer over the board
+  const isMobile = useIsMobile();
+  const touchLayout = isMobile ? registered?.game.touchControls : undefined;
+  const boardRef = useRef<HTMLDivElement>(null);
+  useSwipe(boardRef, (direction) => {
+    pressVirtualAction(direction, true);
+    pressVirtualAction(direction, false);
+  }, !!touchLayout?.swipe && !paused);
+
+  if (!registered) {
     return (
-      <div className="h-screen flex items-center justify-center overflow-hidden">
+      <div className="flex-1 flex items-center justify-center overflow-hidden">
         <div className="text-center">
           <h1 className="text-4xl font-display text-foreground mb-4">Game Not Found</h1>
           <Link to="/">
@@ -66,30 +129,106 @@ export function GameWrapper() {
     );
   }
 
+  const { game, Component: GameComponent } = registered;
+
+  // the abandoned run is dropped rather than recorded
+  const restart = () => {
+    reset();
+    setAttempt(n => n + 1);
+  };
+
+  const recover = () => {
+    resetRegisteredGame(game.id);
+    restart();
+  };
+
+  // fullscreen drops the page chrome (header, title, leaderboard) and gives the stage the whole screen
+  const immersive = fullscreen.active;
+
   return (
-    <div className="h-screen py-8 overflow-hidden">
-     <div className="container mx-auto px-4">
-        <Link 
-          to="/" 
-          className="inline-flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors mb-8"
-        >
-          <ArrowLeft className="w-4 h-4" />
-          Back to Games
-        </Link>
-
-        <div className="text-center mb-8">
-          {/*<span className="text-6xl mb-4 block">{game.icon}</span>*/}
-          <h1 className="text-4xl font-display font-bold text-foreground mb-2">
-            {game.name}
-          </h1>
-          {/*<p className="text-muted-foreground">{game.description}</p>*/}
+    <div className={cn('flex flex-col overflow-hidden', immersive ? 'fixed inset-0 z-50 bg-background p-3' : 'flex-1 min-h-0 py-8')}>
+      <div className={cn('flex-1 min-h-0 flex flex-col mx-auto w-full', !immersive && 'container px-4')}>
+        <div className={cn('flex items-center justify-between', immersive ? 'mb-2' : 'mb-8')}>
+          {immersive ? (
+            <span className="font-display text-foreground">{game.name}</span>
+          ) : (
+            <Link
+              to="/"
+              className="inline-flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Games
+            </Link>
+          )}
+          <div className="flex items-center gap-2">
+            {!immersive && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="2xl:hidden"
+                onClick={(e) => { e.stopPropagation(); setBoardShown(shown => !shown); }}
+                aria-pressed={boardShown}
+              >
+                <Trophy className="w-4 h-4" />
+                Top scores
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              // some games treat any window click as input (flap, drop); this one shouldn't count
+              onClick={(e) => { e.stopPropagation(); togglePause(); }}
+              disabled={status !== 'running'}
+            >
+              <Pause className="w-4 h-4" />
+              Pause
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={(e) => { e.stopPropagation(); fullscreen.toggle(); }}
+              aria-pressed={immersive}
+            >
+              {immersive ? <Minimize className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
+              {immersive ? 'Exit fullscreen' : 'Fullscreen'}
+            </Button>
+          </div>
         </div>
 
-        <div className="flex justify-center">
-          <div className="bg-card/50 rounded-2xl p-8 border border-border">
-            <GameComponent />
+        {!immersive && (
+          <div className="text-center mb-8">
+            {/*<span className="text-6xl mb-4 block">{game.icon}</span>*/}
+            <h1 className="text-4xl font-display font-bold text-foreground mb-2">
+              {game.name}
+            </h1>
+            {subtitle && <p className="text-primary">{subtitle}</p>}
+            {/*<p className="text-muted-foreground">{game.description}</p>*/}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 flex flex-col 2xl:flex-row justify-center items-center 2xl:items-start gap-6">
+          <div className="flex-1 min-w-0 self-stretch">
+            <GameStage maxScale={immersive ? FULLSCREEN_MAX_SCALE : PAGE_MAX_SCALE}>
+              <div ref={boardRef} className="relative bg-card/50 rounded-2xl p-8 border border-border">
+                <GameErrorBoundary key={`${game.id}:${seed ?? ''}:${attempt}`} gameName={game.name} onReset={recover}>
+                  <Suspense fallback={<GameSkeleton />}>
+                    <GameComponent session={session} paused={paused} />
+                  </Suspense>
+                </GameErrorBoundary>
+                {paused && <PauseOverlay pauseKeys={pauseKeys} onResume={togglePause} onRestart={restart} onQuit={() => navigate('/')} />}
+              </div>
+            </GameStage>
           </div>
+          {/* wide games leave no room beside them on smaller screens, where the panel goes under the stage instead */}
+          {!immersive && (
+            <div className={cn(boardShown ? 'block' : 'hidden', '2xl:block')}>
+              <LeaderboardPanel gameId={game.id} mode={boardMode} onModeChange={setBoardMode} highlight={savedAt} />
+            </div>
+          )}
         </div>
+        <InitialsDialog result={pendingScore} onClose={() => setPendingScore(null)} onSaved={r => setSavedAt(r.endedAt)} />
+        {touchLayout && !paused && <TouchControls layout={touchLayout} labels={game.keyActions} />}
+        {debugToolsEnabled && <DebugOverlay />}
       </div>
     </div>
   );
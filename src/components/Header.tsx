@@ -1,7 +1,12 @@
 import { Link } from 'react-router-dom';
-import { Gamepad2 } from 'lucide-react';
+import { CalendarDays, Film, Gamepad, Gamepad2, ListOrdered, Trophy, UserRound } from 'lucide-react';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { SettingsSheet } from '@/components/SettingsSheet';
+import { useGamepadConnected } from '@/hooks/use-gamepad';
 
 export function Header() {
+  const gamepad = useGamepadConnected();
+
   return (
     <header className="sticky top-0 z-50 glass border-b border-border">
       <div className="container mx-auto px-4 py-4 flex items-center justify-between">
@@ -14,6 +19,54 @@ export function Header() {
             MiniGames
           </span>
         </Link>
+
+        <nav className="flex items-center gap-6">
+          <span
+            role="status"
+            title={gamepad ? `Controller connected: ${gamepad}` : 'No controller connected'}
+            aria-label={gamepad ? 'Controller connected' : 'No controller connected'}
+            className={gamepad ? 'text-primary' : 'text-muted-foreground/40'}
+          >
+            <Gamepad className="w-5 h-5" />
+          </span>
+          <Link
+            to="/daily"
+            className="flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors font-medium"
+          >
+            <CalendarDays className="w-5 h-5" />
+            Daily
+          </Link>
+          <Link
+            to="/achievements"
+            className="flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors font-medium"
+          >
+            <Trophy className="w-5 h-5" />
+            Achievements
+          </Link>
+          <Link
+            to="/leaderboards"
+            className="flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors font-medium"
+          >
+            <ListOrdered className="w-5 h-5" />
+            Leaderboards
+          </Link>
+          <Link
+            to="/replays"
+            className="flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors font-medium"
+          >
+            <Film className="w-5 h-5" />
+            Replays
+          </Link>
+          <Link
+            to="/profile"
+            className="flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors font-medium"
+          >
+            <UserRound className="w-5 h-5" />
+            Profile
+          </Link>
+          <SettingsSheet />
+          <ProfileSwitcher />
+        </nav>
         
         {/*<nav className="flex items-center gap-6">
           <Link 
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  addLeaderboardEntry,
+  boardKey,
+  cleanInitials,
+  defaultInitials,
+  INITIALS_LENGTH,
+  leaderboardModeOf,
+  leaderboardModes,
+  leaderboardRankFor,
+} from '@/lib/leaderboards';
+import { queueRemoteScore } from '@/lib/score-queue';
+import type { SessionResult } from '@/types/session';
+
+interface InitialsDialogProps {
+  // the qualifying run waiting for initials; the dialog is open while this is set
+  result: SessionResult | null;
+  onClose: () => void;
+  onSaved: (result: SessionResult) => void;
+}
+
+export function InitialsDialog({ result, onClose, onSaved }: InitialsDialogProps) {
+  const [initials, setInitials] = useState('');
+
+  useEffect(() => {
+    if (result) setInitials(defaultInitials());
+  }, [result]);
+
+  if (!result) return null;
+
+  const rank = leaderboardRankFor(result);
+  const modeId = leaderboardModeOf(result);
+  const modes = leaderboardModes(result.gameId);
+  const mode = modes.length > 1 ? modes.find(m => m.id === modeId)?.label : null;
+
+  const save = () => {
+    if (addLeaderboardEntry(result, initials) !== null) {
+      void queueRemoteScore(boardKey(result.gameId, modeId), cleanInitials(initials), result);
+      onSaved(result);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>New high score!</DialogTitle>
+          <DialogDescription>
+            {result.score} points takes #{rank} on the {mode ? `${mode} ` : ''}leaderboard.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (initials) save();
+          }}
+        >
+          <Input
+            aria-label="Initials"
+            value={initials}
+            maxLength={INITIALS_LENGTH}
+            autoFocus
+            autoComplete="off"
+            className="h-16 text-center font-display text-3xl font-bold tracking-[0.5em] uppercase"
+            onChange={e => setInitials(cleanInitials(e.target.value))}
+            // keep typing out of the game's window key listeners (restart on Space, steering on WASD)
+            onKeyDown={e => e.stopPropagation()}
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Skip</Button>
+            <Button type="submit" disabled={!initials}>Save score</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
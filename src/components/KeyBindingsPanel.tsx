@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { Plus, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { games } from '@/data/games';
+import { useKeyBindings } from '@/hooks/use-key-bindings';
+import { addKeyBinding, formatKeyCode, removeKeyBinding, resetKeyBindings } from '@/lib/key-bindings';
+import { actionLabels, type InputAction } from '@/types/input';
+
+export function KeyBindingsPanel() {
+  const [gameId, setGameId] = useState<string>(games[0].id);
+  const [listening, setListening] = useState<InputAction | null>(null);
+  const game = games.find(g => g.id === gameId);
+  const bindings = useKeyBindings(gameId);
+
+  // every game gets the wrapper's pause key; only some read the rest
+  const rows: [InputAction, string][] = [
+    ...(Object.entries(game.keyActions ?? {}) as [InputAction, string][]),
+    ['pause', 'Open the pause menu'],
+  ];
+
+  // Capture phase, so the next key press is recorded instead of reaching the page (or the pause hotkey)
+  useEffect(() => {
+    if (!listening) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      addKeyBinding(gameId, listening, e.code);
+      setListening(null);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [listening, gameId]);
+
+  return (
+    <div className="game-card">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <Select value={gameId} onValueChange={value => { setGameId(value); setListening(null); }}>
+          <SelectTrigger className="w-64" aria-label="Game">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {games.map(g => (
+              <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={() => resetKeyBindings(gameId)}>
+          <RotateCcw className="w-4 h-4" />
+          Reset to defaults
+        </Button>
+      </div>
+
+      <div className="divide-y divide-border">
+        {rows.map(([action, description]) => (
+          <div key={action} className="flex flex-wrap items-center justify-between gap-3 py-3">
+            <div>
+              <div className="font-bold text-foreground">{actionLabels[action]}</div>
+              <div className="text-sm text-muted-foreground">{description}</div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {bindings[action].map(code => (
+                <span key={code} className="inline-flex items-center gap-1 rounded-md border border-border bg-muted px-2 py-1 font-mono text-sm">
+                  {formatKeyCode(code)}
+                  <button
+                    type="button"
+                    onClick={() => removeKeyBinding(gameId, action, code)}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label={`Unbind ${formatKeyCode(code)} from ${actionLabels[action]}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              {listening === action ? (
+                <Button size="sm" variant="neon" onClick={() => setListening(null)}>
+                  Press a key… (click to cancel)
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => setListening(action)}>
+                  <Plus className="w-4 h-4" />
+                  Add key
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-4 text-xs text-muted-foreground">
+        Keys are matched by position on the keyboard, so the defaults sit under the same fingers on AZERTY or Dvorak.
+        A key can only drive one action per game; binding it again moves it.
+      </p>
+    </div>
+  );
+}
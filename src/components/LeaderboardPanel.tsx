@@ -0,0 +1,51 @@
+import { Link } from 'react-router-dom';
+import { ListOrdered } from 'lucide-react';
+import { LeaderboardTable } from '@/components/LeaderboardTable';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLeaderboard } from '@/hooks/use-leaderboards';
+import { leaderboardModes } from '@/lib/leaderboards';
+
+interface LeaderboardPanelProps {
+  gameId: string;
+  // falls back to the game's first board when unset or not one of its modes
+  mode: string | null;
+  onModeChange: (mode: string) => void;
+  highlight?: number | null;
+}
+
+/** The game's local top scores, shown beside the board while playing. */
+export function LeaderboardPanel({ gameId, mode, onModeChange, highlight }: LeaderboardPanelProps) {
+  const modes = leaderboardModes(gameId);
+  const active = modes.some(m => m.id === mode) ? mode : modes[0].id;
+  const entries = useLeaderboard(gameId, active);
+
+  return (
+    <aside className="w-64 shrink-0 bg-card/50 rounded-2xl p-4 border border-border" aria-label="Leaderboard">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-display font-bold text-foreground">Top scores</h2>
+        <Link
+          to={`/leaderboards?game=${gameId}&mode=${active}`}
+          className="text-muted-foreground hover:text-primary transition-colors"
+          aria-label="All leaderboards"
+        >
+          <ListOrdered className="w-4 h-4" />
+        </Link>
+      </div>
+      {modes.length > 1 ? (
+        <Select value={active} onValueChange={onModeChange}>
+          <SelectTrigger className="mb-2" aria-label="Mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {modes.map(m => (
+              <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <p className="text-xs text-muted-foreground mb-2">{modes[0].label}</p>
+      )}
+      <LeaderboardTable entries={entries} isHighlighted={entry => entry.recordedAt === highlight} />
+    </aside>
+  );
+}
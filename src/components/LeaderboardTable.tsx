@@ -0,0 +1,54 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { LeaderboardEntry } from '@/lib/leaderboards';
+
+// online boards send their own rank, which for an around-me slice doesn't start at 1, and who set each score
+type LeaderboardRow = LeaderboardEntry & { rank?: number; playerId?: string };
+
+interface LeaderboardTableProps {
+  entries: LeaderboardRow[];
+  // picks out rows, such as the entry just added or the player's own online scores
+  isHighlighted?: (entry: LeaderboardRow) => boolean;
+  // the full page has room for when each score was set; the in-game panel doesn't
+  showDates?: boolean;
+}
+
+export function LeaderboardTable({ entries, isHighlighted, showDates }: LeaderboardTableProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No scores yet. Be the first on the board.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          <TableHead>Player</TableHead>
+          <TableHead className="text-right">Score</TableHead>
+          {showDates && <TableHead className="text-right">Date</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry, i) => {
+          const highlighted = isHighlighted?.(entry) ?? false;
+          return (
+            <TableRow
+              key={`${entry.recordedAt}:${i}`}
+              data-state={highlighted ? 'selected' : undefined}
+              className={cn(highlighted && 'text-primary')}
+            >
+              <TableCell className="font-display">{entry.rank ?? i + 1}</TableCell>
+              <TableCell className="font-display font-bold tracking-widest">{entry.initials}</TableCell>
+              <TableCell className="text-right font-bold">{entry.score}</TableCell>
+              {showDates && (
+                <TableCell className="text-right text-muted-foreground">
+                  {new Date(entry.recordedAt).toLocaleDateString()}
+                </TableCell>
+              )}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
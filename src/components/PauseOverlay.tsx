@@ -0,0 +1,43 @@
+import { DoorOpen, Play, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatKeyCode } from '@/lib/key-bindings';
+
+interface PauseOverlayProps {
+  // KeyboardEvent.code values bound to pause for this game
+  pauseKeys: string[];
+  onResume: () => void;
+  onRestart: () => void;
+  onQuit: () => void;
+}
+
+export function PauseOverlay({ pauseKeys, onResume, onRestart, onQuit }: PauseOverlayProps) {
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Paused"
+      className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-6 rounded-2xl bg-background/80 backdrop-blur-sm"
+    >
+      <h2 className="text-4xl font-display font-bold text-foreground">Paused</h2>
+      <div className="flex flex-col gap-3 w-48">
+        <Button variant="neon" onClick={onResume} autoFocus>
+          <Play className="w-4 h-4" />
+          Resume
+        </Button>
+        <Button variant="outline" onClick={onRestart}>
+          <RotateCcw className="w-4 h-4" />
+          Restart
+        </Button>
+        <Button variant="outline" onClick={onQuit}>
+          <DoorOpen className="w-4 h-4" />
+          Quit
+        </Button>
+      </div>
+      {pauseKeys.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Press {pauseKeys.map(formatKeyCode).join(' or ')} to resume
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import type { Profile, ProfileColor } from '@/lib/profiles';
+import { cn } from '@/lib/utils';
+
+const colorClasses: Record<ProfileColor, string> = {
+  cyan: 'bg-neon-cyan/25 ring-neon-cyan',
+  pink: 'bg-neon-pink/25 ring-neon-pink',
+  purple: 'bg-neon-purple/25 ring-neon-purple',
+  green: 'bg-neon-green/25 ring-neon-green',
+  orange: 'bg-neon-orange/25 ring-neon-orange',
+  yellow: 'bg-neon-yellow/25 ring-neon-yellow',
+};
+
+interface ProfileAvatarProps {
+  profile: Pick<Profile, 'name' | 'avatar' | 'color'>;
+  className?: string;
+}
+
+export function ProfileAvatar({ profile, className }: ProfileAvatarProps) {
+  return (
+    <Avatar className={cn('ring-2', className)} title={profile.name}>
+      <AvatarFallback className={cn('text-lg', colorClasses[profile.color])}>
+        <span role="img" aria-label={profile.name}>{profile.avatar}</span>
+      </AvatarFallback>
+    </Avatar>
+  );
+}
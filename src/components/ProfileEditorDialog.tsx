@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { ProfileAvatar } from '@/components/ProfileAvatar';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  createProfile,
+  PROFILE_NAME_MAX,
+  profileAvatars,
+  profileColors,
+  updateProfile,
+  type Profile,
+  type ProfileColor,
+} from '@/lib/profiles';
+import { cn } from '@/lib/utils';
+
+// spelled out so Tailwind sees every class
+const swatchClasses: Record<ProfileColor, string> = {
+  cyan: 'bg-neon-cyan',
+  pink: 'bg-neon-pink',
+  purple: 'bg-neon-purple',
+  green: 'bg-neon-green',
+  orange: 'bg-neon-orange',
+  yellow: 'bg-neon-yellow',
+};
+
+interface ProfileEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // edits this profile; without one the dialog creates a new profile and switches to it
+  profile?: Profile;
+}
+
+export function ProfileEditorDialog({ open, onOpenChange, profile }: ProfileEditorDialogProps) {
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(profileAvatars[0]);
+  const [color, setColor] = useState<ProfileColor>('cyan');
+
+  // start from the profile being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(profile?.name ?? '');
+    setAvatar(profile?.avatar ?? profileAvatars[Math.floor(Math.random() * profileAvatars.length)]);
+    setColor(profile?.color ?? profileColors[Math.floor(Math.random() * profileColors.length)]);
+  }, [open, profile]);
+
+  const save = () => {
+    if (profile) updateProfile(profile.id, { name, avatar, color });
+    else createProfile(name, avatar, color);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{profile ? 'Edit profile' : 'New profile'}</DialogTitle>
+        </DialogHeader>
+
+        <form
+          className="space-y-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) save();
+          }}
+        >
+          <div className="flex items-center gap-4">
+            <ProfileAvatar profile={{ name: name || 'New profile', avatar, color }} className="w-14 h-14" />
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                value={name}
+                maxLength={PROFILE_NAME_MAX}
+                autoFocus
+                onChange={e => setName(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-medium mb-2">Avatar</div>
+            <div className="flex flex-wrap gap-2">
+              {profileAvatars.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-label={`Avatar ${option}`}
+                  aria-pressed={option === avatar}
+                  onClick={() => setAvatar(option)}
+                  className={cn(
+                    'w-10 h-10 rounded-full text-xl border-2 transition-colors',
+                    option === avatar ? 'border-primary bg-primary/20' : 'border-border hover:border-primary/50',
+                  )}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-medium mb-2">Colour</div>
+            <div className="flex flex-wrap gap-2">
+              {profileColors.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-label={option}
+                  aria-pressed={option === color}
+                  onClick={() => setColor(option)}
+                  className={cn(
+                    'w-8 h-8 rounded-full border-2',
+                    swatchClasses[option],
+                    option === color ? 'border-foreground' : 'border-transparent',
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={!name.trim()}>{profile ? 'Save' : 'Create profile'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, Plus, Users } from 'lucide-react';
+import { ProfileAvatar } from '@/components/ProfileAvatar';
+import { ProfileEditorDialog } from '@/components/ProfileEditorDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useProfiles } from '@/hooks/use-profiles';
+import { switchProfile } from '@/lib/profiles';
+
+/** Header menu showing who is playing, for switching between the profiles on a shared device. */
+export function ProfileSwitcher() {
+  const { activeId, profiles } = useProfiles();
+  const active = profiles.find(p => p.id === activeId);
+  const [creating, setCreating] = useState(false);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger
+          className="flex items-center gap-2 rounded-full text-muted-foreground hover:text-primary transition-colors font-medium"
+          aria-label={`Playing as ${active.name}. Switch profile`}
+        >
+          <ProfileAvatar profile={active} className="w-8 h-8" />
+          <span className="hidden md:inline max-w-[8rem] truncate">{active.name}</span>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Switch profile</DropdownMenuLabel>
+          {profiles.map(profile => (
+            <DropdownMenuItem key={profile.id} onSelect={() => switchProfile(profile.id)} className="gap-2">
+              <ProfileAvatar profile={profile} className="w-6 h-6 ring-1 text-sm" />
+              <span className="flex-1 truncate">{profile.name}</span>
+              {profile.id === activeId && <Check className="w-4 h-4 text-primary" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setCreating(true)} className="gap-2">
+            <Plus className="w-4 h-4" />
+            New profile
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild className="gap-2">
+            <Link to="/profile#profiles">
+              <Users className="w-4 h-4" />
+              Manage profiles
+            </Link>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ProfileEditorDialog open={creating} onOpenChange={setCreating} />
+    </>
+  );
+}
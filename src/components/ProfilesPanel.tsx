@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { ProfileAvatar } from '@/components/ProfileAvatar';
+import { ProfileEditorDialog } from '@/components/ProfileEditorDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useProfiles } from '@/hooks/use-profiles';
+import { deleteProfile, switchProfile, type Profile } from '@/lib/profiles';
+import { cn } from '@/lib/utils';
+
+/** Everyone who plays on this device; each profile keeps its own scores, stats, settings and key bindings. */
+export function ProfilesPanel() {
+  const { activeId, profiles } = useProfiles();
+  const [editing, setEditing] = useState<Profile | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [deleting, setDeleting] = useState<Profile | null>(null);
+
+  return (
+    <div className="game-card">
+      <div className="divide-y divide-border">
+        {profiles.map(profile => {
+          const active = profile.id === activeId;
+          return (
+            <div key={profile.id} className="flex flex-wrap items-center gap-4 py-3">
+              <ProfileAvatar profile={profile} />
+              <div className="flex-1 min-w-0">
+                <div className={cn('font-bold truncate', active ? 'text-primary' : 'text-foreground')}>{profile.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {active ? 'Playing now' : `Created ${new Date(profile.createdAt).toLocaleDateString()}`}
+                </div>
+              </div>
+              {!active && (
+                <Button variant="outline" size="sm" onClick={() => switchProfile(profile.id)}>
+                  Switch
+                </Button>
+              )}
+              <Button variant="ghost" size="icon" aria-label={`Edit ${profile.name}`} onClick={() => setEditing(profile)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Delete ${profile.name}`}
+                // there is always at least one profile to play as
+                disabled={profiles.length === 1}
+                onClick={() => setDeleting(profile)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <Button variant="outline" className="mt-4" onClick={() => setCreating(true)}>
+        <Plus className="w-4 h-4" />
+        New profile
+      </Button>
+
+      <ProfileEditorDialog open={creating} onOpenChange={setCreating} />
+      <ProfileEditorDialog
+        open={editing !== null}
+        onOpenChange={open => !open && setEditing(null)}
+        profile={editing ?? undefined}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their scores, stats, achievements, replays, settings and key bindings are removed from this device.
+              Export a backup from Settings first if you want to keep them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteProfile(deleting.id)}>Delete profile</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from '@/components/ui/sonner';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { achievements } from '@/data/achievements';
+import { games } from '@/data/games';
+import { leaderboardModes } from '@/lib/leaderboards';
+import {
+  applyProgress,
+  diffProgress,
+  downloadProgress,
+  isEmptyDiff,
+  parseProgressFile,
+  readProgress,
+  resolveImport,
+  type ImportMode,
+  type LeaderboardChange,
+  type ProgressFile,
+  type SettingChange,
+} from '@/lib/progress';
+import type { Replay } from '@/lib/replays';
+
+const modeDescriptions: Record<ImportMode, string> = {
+  merge:
+    'Adds the runs, leaderboard entries, replays and achievements in the backup to what is on this device. Your settings stay as they are.',
+  replace: 'Throws away the progress and settings on this device and restores the backup exactly.',
+};
+
+const settingLabels: Record<string, string> = {
+  reducedMotion: 'Reduced motion',
+  highContrast: 'High contrast',
+  colorBlindPalette: 'Colour-blind palette',
+  fontScale: 'Text size',
+  gameSpeed: 'Game speed',
+  master: 'Master volume',
+  sfx: 'Sound effects',
+  music: 'Music',
+  muted: 'Mute all sound',
+};
+
+const gameName = (gameId: string) => games.find(g => g.id === gameId)?.name ?? gameId;
+const achievementName = (id: string) => achievements.find(a => a.id === id)?.name ?? id;
+
+// every numeric setting is a fraction (volumes, text size, speed)
+const formatSetting = (value: number | boolean) =>
+  typeof value === 'boolean' ? (value ? 'On' : 'Off') : `${Math.round(value * 100)}%`;
+
+function formatSettingChange({ key, before, after }: SettingChange) {
+  return `${settingLabels[key] ?? key}: ${formatSetting(before)} → ${formatSetting(after)}`;
+}
+
+// "snake/all" -> "Snake (Classic)"
+function boardName(board: string) {
+  const split = board.lastIndexOf('/');
+  const gameId = board.slice(0, split);
+  const mode = leaderboardModes(gameId).find(m => m.id === board.slice(split + 1));
+  return mode ? `${gameName(gameId)} (${mode.label})` : gameName(gameId);
+}
+
+function formatLeaderboardChange({ before, after }: LeaderboardChange) {
+  return `top ${before[0]?.score ?? '-'} → ${after[0]?.score ?? '-'}, entries ${before.length} → ${after.length}`;
+}
+
+const formatReplay = (replay: Replay) =>
+  `${gameName(replay.gameId)}, ${replay.score} points, ${new Date(replay.recordedAt).toLocaleString()}`;
+
+interface ImportPreviewProps {
+  file: ProgressFile;
+  onClose: () => void;
+}
+
+function ImportPreview({ file, onClose }: ImportPreviewProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const local = useMemo(() => readProgress(), []);
+  const next = useMemo(() => resolveImport(local, file, mode), [local, file, mode]);
+  const diff = useMemo(() => diffProgress(local, next), [local, next]);
+  const empty = isEmptyDiff(diff);
+
+  const confirm = () => {
+    applyProgress(next);
+    toast(mode === 'merge' ? 'Backup merged' : 'Backup restored');
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Import progress</DialogTitle>
+        <DialogDescription>Backup from {new Date(file.exportedAt).toLocaleString()}</DialogDescription>
+      </DialogHeader>
+
+      <div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={mode}
+          // a single-select group reports '' when the active item is clicked again; keep the current mode
+          onValueChange={value => value && setMode(value as ImportMode)}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="merge">Merge</ToggleGroupItem>
+          <ToggleGroupItem value="replace">Replace</ToggleGroupItem>
+        </ToggleGroup>
+        <p className="text-sm text-muted-foreground mt-2">{modeDescriptions[mode]}</p>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto rounded-md border border-border p-4">
+        {empty ? (
+          <p className="text-sm text-muted-foreground">Nothing would change.</p>
+        ) : (
+          <div className="space-y-4 text-sm">
+            {diff.stats.length > 0 && (
+              <div>
+                <div className="font-bold text-foreground mb-1">Scores and stats</div>
+                <ul className="space-y-1 text-muted-foreground">
+                  {diff.stats.map(({ gameId, before, after }) => (
+                    <li key={gameId}>
+                      <span className="text-foreground">{gameName(gameId)}</span>
+                      {': '}
+                      {after
+                        ? `best ${before?.best ?? '-'} → ${after.best ?? '-'}, plays ${before?.plays ?? 0} → ${after.plays}`
+                        : 'stats removed'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {(diff.achievementsGained.length > 0 || diff.achievementsLost.length > 0) && (
+              <div>
+                <div className="font-bold text-foreground mb-1">Achievements</div>
+                <ul className="space-y-1 text-muted-foreground">
+                  {diff.achievementsGained.map(id => <li key={id} className="text-primary">+ {achievementName(id)}</li>)}
+                  {diff.achievementsLost.map(id => <li key={id} className="text-destructive">− {achievementName(id)}</li>)}
+                </ul>
+              </div>
+            )}
+
+            {diff.leaderboards.length > 0 && (
+              <div>
+                <div className="font-bold text-foreground mb-1">Leaderboards</div>
+                <ul className="space-y-1 text-muted-foreground">
+                  {diff.leaderboards.map(change => (
+                    <li key={change.board}>
+                      <span className="text-foreground">{boardName(change.board)}</span>
+                      {': '}
+                      {formatLeaderboardChange(change)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {(diff.replaysAdded.length > 0 || diff.replaysRemoved.length > 0) && (
+              <div>
+                <div className="font-bold text-foreground mb-1">Replays</div>
+                <ul className="space-y-1 text-muted-foreground">
+                  {diff.replaysAdded.map(replay => <li key={replay.id} className="text-primary">+ {formatReplay(replay)}</li>)}
+                  {diff.replaysRemoved.map(replay => <li key={replay.id} className="text-destructive">− {formatReplay(replay)}</li>)}
+                </ul>
+              </div>
+            )}
+
+            {diff.keyBindingGames.length > 0 && (
+              <div>
+                <div className="font-bold text-foreground mb-1">Key bindings</div>
+                <p className="text-muted-foreground">{diff.keyBindingGames.map(gameName).join(', ')}</p>
+              </div>
+            )}
+
+            {diff.settings.length > 0 && (
+              <div>
+                <div className="font-bold text-foreground mb-1">Settings</div>
+                <ul className="space-y-1 text-muted-foreground">
+                  {diff.settings.map(change => <li key={`${change.store}.${change.key}`}>{formatSettingChange(change)}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>Cancel</Button>
+        <Button variant={mode === 'replace' ? 'destructive' : 'default'} onClick={confirm} disabled={empty}>
+          {mode === 'merge' ? 'Merge' : 'Replace'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+/** Backup and restore of everything stored in this browser. */
+export function ProgressTransferPanel() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<ProgressFile | null>(null);
+
+  const onFileChosen = async (e: ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    // clear it so choosing the same file again still fires a change
+    e.target.value = '';
+    if (!chosen) return;
+    const parsed = parseProgressFile(await chosen.text());
+    if (parsed.ok === false) toast.error(parsed.error);
+    else setFile(parsed.file);
+  };
+
+  return (
+    <div className="game-card">
+      <p className="text-sm text-muted-foreground mb-6">
+        This profile's scores, stats, leaderboards, replays, achievements, settings and key bindings are only kept in
+        this browser. Export a backup to keep them safe or move them to another device.
+      </p>
+
+      <div className="flex flex-wrap gap-3">
+        <Button variant="outline" onClick={downloadProgress}>
+          <Download className="w-4 h-4" />
+          Export backup
+        </Button>
+        <Button variant="outline" onClick={() => inputRef.current?.click()}>
+          <Upload className="w-4 h-4" />
+          Import backup
+        </Button>
+        <input ref={inputRef} type="file" accept="application/json,.json" className="hidden" onChange={onFileChosen} />
+      </div>
+
+      <Dialog open={file !== null} onOpenChange={open => !open && setFile(null)}>
+        <DialogContent>{file && <ImportPreview file={file} onClose={() => setFile(null)} />}</DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { LeaderboardTable } from '@/components/LeaderboardTable';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { usePendingScoreCount, useRemoteAroundMe, useRemoteTopScores } from '@/hooks/use-remote-leaderboard';
+import { LEADERBOARD_SIZE } from '@/lib/leaderboards';
+import { flushScoreQueue, getRemotePlayerId } from '@/lib/score-queue';
+
+interface RemoteLeaderboardProps {
+  // boardKey() of the board to show
+  board: string;
+}
+
+/** The online counterpart of a local board: the global top scores and the player's own neighbourhood. */
+export function RemoteLeaderboard({ board }: RemoteLeaderboardProps) {
+  const top = useRemoteTopScores(board, LEADERBOARD_SIZE);
+  const around = useRemoteAroundMe(board);
+  const pending = usePendingScoreCount();
+  const playerId = getRemotePlayerId();
+  const mine = (entry: { playerId?: string }) => entry.playerId === playerId;
+
+  const retry = () => {
+    void flushScoreQueue();
+    void top.refetch();
+    void around.refetch();
+  };
+
+  return (
+    <div className="game-card">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="font-display text-xl font-bold text-foreground">Online</h2>
+        {pending > 0 && (
+          <span className="text-sm text-muted-foreground">
+            {pending} {pending === 1 ? 'score' : 'scores'} waiting to upload
+          </span>
+        )}
+      </div>
+
+      {top.isPending ? (
+        <div className="space-y-2" aria-busy="true">
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+        </div>
+      ) : top.isError ? (
+        <div className="flex flex-wrap items-center justify-between gap-4 py-4">
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CloudOff className="w-4 h-4" />
+            Couldn't reach the online leaderboard.
+          </p>
+          <Button variant="outline" size="sm" onClick={retry}>
+            <RefreshCw className="w-4 h-4" />
+            Try again
+          </Button>
+        </div>
+      ) : (
+        <>
+          <LeaderboardTable entries={top.data} isHighlighted={mine} showDates />
+          {/* only worth a second table when the player's best is outside the top rows */}
+          {around.data?.length > 0 && !top.data.some(mine) && (
+            <>
+              <h3 className="font-display font-bold text-foreground mt-6 mb-2">Around you</h3>
+              <LeaderboardTable entries={around.data} isHighlighted={mine} showDates />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { playSfx } from '@/lib/audio';
+import { createCanvasSurface, startFixedLoop } from '@/lib/engine';
+import type { Replay } from '@/lib/replays';
+import { createReplayPlayer, SIM_STEP_MS, type GameSim } from '@/lib/sim';
+import { formatDuration } from '@/lib/utils';
+
+const playbackSpeeds = [0.25, 0.5, 1, 2, 4];
+
+interface ReplayViewerProps {
+  replay: Replay;
+  sim: GameSim;
+}
+
+/** Re-runs a recorded run from its seed and inputs, with play/pause, scrubbing and playback speed. */
+export function ReplayViewer({ replay, sim }: ReplayViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const player = useMemo(() => createReplayPlayer(sim, replay), [sim, replay]);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [tick, setTick] = useState(0);
+
+  // the frame loop is set up once per replay, so it reads the controls through refs
+  const controlsRef = useRef({ playing, speed });
+  controlsRef.current = { playing, speed };
+
+  useEffect(() => {
+    const surface = createCanvasSurface(() => canvasRef.current);
+    // same loop as live play, so the replay moves exactly as the run did
+    const loop = startFixedLoop({
+      stepMs: SIM_STEP_MS,
+      running: () => controlsRef.current.playing,
+      speed: () => controlsRef.current.speed,
+      step: () => {
+        if (player.advance()) return;
+        // stop at the end without waiting for the re-render to catch up
+        controlsRef.current = { ...controlsRef.current, playing: false };
+        setPlaying(false);
+      },
+      render: alpha => {
+        // several ticks per frame at high speed would stack the same effect on itself
+        new Set(player.state.sounds.splice(0)).forEach(playSfx);
+
+        const { state } = player;
+        const ctx = surface.context(state.width, state.height);
+        if (ctx) sim.render(ctx, state, alpha);
+        setTick(player.tick);
+      },
+    });
+
+    return () => {
+      loop.stop();
+      surface.dispose();
+    };
+  }, [player, sim]);
+
+  const togglePlaying = () => {
+    // playing from the end starts over
+    if (!playing && player.tick >= replay.ticks) player.seek(0);
+    setPlaying(!playing);
+  };
+
+  const { width, height } = player.state;
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <canvas
+        ref={canvasRef}
+        className="rounded-lg border border-border bg-black"
+        style={{ width: '100%', maxWidth: width, aspectRatio: `${width} / ${height}`, display: 'block' }}
+      />
+
+      <div className="w-full max-w-3xl flex items-center gap-4">
+        <Button variant="outline" size="icon" aria-label={playing ? 'Pause' : 'Play'} onClick={togglePlaying}>
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Button variant="outline" size="icon" aria-label="Restart" onClick={() => player.seek(0)}>
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+        <Slider
+          value={[tick]}
+          max={replay.ticks}
+          step={1}
+          aria-label="Replay position"
+          onValueChange={([value]) => player.seek(value)}
+        />
+        <span className="text-sm text-muted-foreground tabular-nums whitespace-nowrap">
+          {formatDuration(tick * SIM_STEP_MS)} / {formatDuration(replay.ticks * SIM_STEP_MS)}
+        </span>
+      </div>
+
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        value={String(speed)}
+        // a single-select group reports '' when the active item is clicked again; keep the current speed
+        onValueChange={value => value && setSpeed(Number(value))}
+        aria-label="Playback speed"
+      >
+        {playbackSpeeds.map(option => (
+          <ToggleGroupItem key={option} value={String(option)}>
+            {option}×
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  );
+}
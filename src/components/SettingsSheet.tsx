@@ -0,0 +1,37 @@
+import { Link } from 'react-router-dom';
+import { Keyboard, Settings } from 'lucide-react';
+import { AccessibilitySettingsPanel } from '@/components/AccessibilitySettingsPanel';
+import { AudioSettingsPanel } from '@/components/AudioSettingsPanel';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+
+/** Quick settings from any page; key bindings stay on the full settings page since they need the room. */
+export function SettingsSheet() {
+  return (
+    <Sheet>
+      <SheetTrigger className="flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors font-medium">
+        <Settings className="w-5 h-5" />
+        Settings
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-display text-2xl">Settings</SheetTitle>
+          <SheetDescription>Changes apply immediately and are saved on this device.</SheetDescription>
+        </SheetHeader>
+
+        <h3 className="font-display font-bold text-foreground mt-6 mb-3">Accessibility</h3>
+        <AccessibilitySettingsPanel />
+
+        <h3 className="font-display font-bold text-foreground mt-8 mb-3">Audio</h3>
+        <AudioSettingsPanel />
+
+        <Link
+          to="/settings"
+          className="mt-8 flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors font-medium"
+        >
+          <Keyboard className="w-5 h-5" />
+          Controls &amp; key bindings
+        </Link>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent, type ReactNode } from 'react';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from 'lucide-react';
+import { pressVirtualAction, setVirtualStick } from '@/lib/virtual-controls';
+import { cn } from '@/lib/utils';
+import { actionLabels, type InputAction, type TouchLayout } from '@/types/input';
+
+// Joystick travel (px) from centre to full deflection, plus the same deadzone/threshold split the gamepad uses
+const STICK_RADIUS = 44;
+const STICK_DEADZONE = 0.2;
+const STICK_DIGITAL = 0.5;
+
+// Every control captures its pointer, so a thumb sliding off the button still releases it
+function capture(e: ReactPointerEvent<HTMLElement>) {
+  e.preventDefault();
+  e.currentTarget.setPointerCapture(e.pointerId);
+}
+
+interface HoldButtonProps {
+  action: InputAction;
+  className?: string;
+  children: ReactNode;
+  label: string;
+}
+
+function HoldButton({ action, className, children, label }: HoldButtonProps) {
+  const [held, setHeld] = useState(false);
+  const heldRef = useRef(false);
+
+  const setPressed = (pressed: boolean) => {
+    if (heldRef.current === pressed) return;
+    heldRef.current = pressed;
+    setHeld(pressed);
+    pressVirtualAction(action, pressed);
+  };
+
+  // unmounting mid-press (pause, game over) must not leave the action stuck down
+  useEffect(() => () => {
+    if (heldRef.current) pressVirtualAction(action, false);
+  }, [action]);
+
+  return (
+    <button
+      type="button"
+      aria-label={label}
+      className={cn(
+        'flex items-center justify-center rounded-full border border-border bg-card/70 text-foreground backdrop-blur-sm touch-none select-none transition-colors',
+        held && 'bg-primary/40 border-primary',
+        className,
+      )}
+      onPointerDown={(e) => {
+        capture(e);
+        setPressed(true);
+      }}
+      onPointerUp={() => setPressed(false)}
+      onPointerCancel={() => setPressed(false)}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {children}
+    </button>
+  );
+}
+
+function Dpad() {
+  const arrow = 'w-14 h-14 rounded-xl';
+  return (
+    <div className="grid grid-cols-3 grid-rows-3 gap-1">
+      <HoldButton action="up" label="Up" className={cn(arrow, 'col-start-2')}>
+        <ChevronUp className="w-6 h-6" />
+      </HoldButton>
+      <HoldButton action="left" label="Left" className={cn(arrow, 'col-start-1 row-start-2')}>
+        <ChevronLeft className="w-6 h-6" />
+      </HoldButton>
+      <HoldButton action="right" label="Right" className={cn(arrow, 'col-start-3 row-start-2')}>
+        <ChevronRight className="w-6 h-6" />
+      </HoldButton>
+      <HoldButton action="down" label="Down" className={cn(arrow, 'col-start-2 row-start-3')}>
+        <ChevronDown className="w-6 h-6" />
+      </HoldButton>
+    </div>
+  );
+}
+
+function Joystick() {
+  const baseRef = useRef<HTMLDivElement>(null);
+  const heldRef = useRef(new Set<InputAction>());
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+
+  // digital edges for games that only read directions, mirroring what the gamepad stick sends
+  const syncHeld = (x: number, y: number) => {
+    const next = new Set<InputAction>();
+    if (x <= -STICK_DIGITAL) next.add('left');
+    if (x >= STICK_DIGITAL) next.add('right');
+    if (y <= -STICK_DIGITAL) next.add('up');
+    if (y >= STICK_DIGITAL) next.add('down');
+    next.forEach(action => {
+      if (!heldRef.current.has(action)) pressVirtualAction(action, true);
+    });
+    heldRef.current.forEach(action => {
+      if (!next.has(action)) pressVirtualAction(action, false);
+    });
+    heldRef.current = next;
+  };
+
+  const move = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const rect = baseRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    let dx = e.clientX - (rect.left + rect.width / 2);
+    let dy = e.clientY - (rect.top + rect.height / 2);
+    const dist = Math.hypot(dx, dy);
+    if (dist > STICK_RADIUS) {
+      dx = (dx / dist) * STICK_RADIUS;
+      dy = (dy / dist) * STICK_RADIUS;
+    }
+    setKnob({ x: dx, y: dy });
+    const x = Math.abs(dx / STICK_RADIUS) < STICK_DEADZONE ? 0 : dx / STICK_RADIUS;
+    const y = Math.abs(dy / STICK_RADIUS) < STICK_DEADZONE ? 0 : dy / STICK_RADIUS;
+    setVirtualStick({ x, y });
+    syncHeld(x, y);
+  };
+
+  const release = () => {
+    setKnob({ x: 0, y: 0 });
+    setVirtualStick(null);
+    syncHeld(0, 0);
+  };
+
+  useEffect(() => () => {
+    setVirtualStick(null);
+    heldRef.current.forEach(action => pressVirtualAction(action, false));
+  }, []);
+
+  return (
+    <div
+      ref={baseRef}
+      role="application"
+      aria-label="Joystick"
+      className="relative w-32 h-32 rounded-full border border-border bg-card/60 backdrop-blur-sm touch-none select-none"
+      onPointerDown={(e) => {
+        capture(e);
+        move(e);
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) move(e);
+      }}
+      onPointerUp={release}
+      onPointerCancel={release}
+    >
+      <div
+        className="absolute left-1/2 top-1/2 w-14 h-14 -ml-7 -mt-7 rounded-full bg-primary/60 border border-primary"
+        style={{ transform: `translate(${knob.x}px, ${knob.y}px)` }}
+      />
+    </div>
+  );
+}
+
+interface TouchControlsProps {
+  layout: TouchLayout;
+  // the game's own names for its actions (Fire, Flap), falling back to the generic ones
+  labels?: Partial<Record<InputAction, string>>;
+}
+
+/** Thumb controls pinned to the bottom of the screen; only the controls themselves take touches. */
+export function TouchControls({ layout, labels }: TouchControlsProps) {
+  const { movement, buttons = [] } = layout;
+  if (!movement && buttons.length === 0) return null;
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-40 flex items-end justify-between p-6 pointer-events-none">
+      <div className="pointer-events-auto">
+        {movement === 'dpad' && <Dpad />}
+        {movement === 'joystick' && <Joystick />}
+      </div>
+      <div className="flex items-end gap-3 pointer-events-auto">
+        {buttons.map(action => {
+          const label = labels?.[action] ?? actionLabels[action];
+          return (
+            <HoldButton key={action} action={action} label={label} className="w-20 h-20 text-sm font-display">
+              {label}
+            </HoldButton>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
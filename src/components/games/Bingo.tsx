@@ -1,25 +1,13 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { useAudio } from '@/hooks/use-audio';
+import { BINGO_NUMBERS, chooseCpuNumber, hasBingo, makeBingoBoard, markNumber, shuffle, type BingoCell } from '@/lib/rules/bingo';
 import { cn } from '@/lib/utils';
+import { GameProps } from '@/types/session';
 
-type Cell = {
-  n: number;
-  idx: number; // 0..24
-};
-
-function shuffle<T>(arr: T[]) {
-  const a = arr.slice();
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
-
-export function NumberGuess() {
-  const POOL = useMemo(() => Array.from({ length: 25 }, (_, i) => i + 1), []);
-  const [playerBoard, setPlayerBoard] = useState<Cell[]>([]);
-  const [cpuBoard, setCpuBoard] = useState<Cell[]>([]);
+export function Bingo({ session }: GameProps) {
+  const [playerBoard, setPlayerBoard] = useState<BingoCell[]>([]);
+  const [cpuBoard, setCpuBoard] = useState<BingoCell[]>([]);
   const [drawPool, setDrawPool] = useState<number[]>([]);
   const [drawn, setDrawn] = useState<number[]>([]);
   const [lastDraw, setLastDraw] = useState<number | null>(null);
@@ -29,19 +17,15 @@ export function NumberGuess() {
   const [winner, setWinner] = useState<'player' | 'cpu' | 'tie' | null>(null);
   const [playerCall, setPlayerCall] = useState<string>(''); // player's manual call input
   const autoRef = useRef<number | null>(null);
+  const audio = useAudio();
   // kept for parity with earlier code (unused auto)
   const [auto, setAuto] = useState(false);
 
-  // create a board: shuffled 1..25 with index
-  const makeBoard = (): Cell[] => {
-    const shuffled = shuffle(POOL);
-    return shuffled.map((n, idx) => ({ n, idx }));
-  };
-
   const start = () => {
-    const p = makeBoard();
-    const c = makeBoard();
-    const pool = shuffle(POOL);
+    session.start();
+    const p = makeBingoBoard(session.random);
+    const c = makeBingoBoard(session.random);
+    const pool = shuffle(BINGO_NUMBERS, session.random);
     setPlayerBoard(p);
     setCpuBoard(c);
     setDrawPool(pool);
@@ -63,94 +47,20 @@ export function NumberGuess() {
     };
   }, []);
 
-  const markNumber = (n: number, board: Cell[], marks: Set<number>) => {
-    const found = board.find(c => c.n === n);
-    if (found) marks.add(found.idx);
-  };
-
-  const checkBingo = (marks: Set<number>) => {
-    // rows
-    for (let r = 0; r < 5; r++) {
-      let ok = true;
-      for (let c = 0; c < 5; c++) {
-        if (!marks.has(r * 5 + c)) { ok = false; break; }
-      }
-      if (ok) return true;
-    }
-    // cols
-    for (let c = 0; c < 5; c++) {
-      let ok = true;
-      for (let r = 0; r < 5; r++) {
-        if (!marks.has(r * 5 + c)) { ok = false; break; }
-      }
-      if (ok) return true;
-    }
-    // diag TL-BR
-    let ok = true;
-    for (let i = 0; i < 5; i++) if (!marks.has(i * 5 + i)) ok = false;
-    if (ok) return true;
-    // diag TR-BL
-    ok = true;
-    for (let i = 0; i < 5; i++) if (!marks.has(i * 5 + (4 - i))) ok = false;
-    if (ok) return true;
-
-    return false;
-  };
-
-  // CPU advantage: pick number from pool that is on CPU board and maximizes progress
-  const chooseCpuNumberAdvantageous = (pool: number[], cpuBd: Cell[], cpuMk: Set<number>): number | null => {
-    // candidates on CPU board still in pool
-    const candidates = pool.filter(n => cpuBd.some(c => c.n === n));
-    if (candidates.length === 0) return null;
-
-    // For each candidate, simulate marking and compute best line progress (max count in any row/col/diag)
-    const scoreForCandidate = (candidate: number) => {
-      const marks = new Set(cpuMk);
-      const found = cpuBd.find(c => c.n === candidate);
-      if (found) marks.add(found.idx);
-
-      // compute max count in any row/col/diag
-      let maxCount = 0;
-      // rows
-      for (let r = 0; r < 5; r++) {
-        let cnt = 0;
-        for (let c = 0; c < 5; c++) if (marks.has(r * 5 + c)) cnt++;
-        if (cnt > maxCount) maxCount = cnt;
-      }
-      // cols
-      for (let c = 0; c < 5; c++) {
-        let cnt = 0;
-        for (let r = 0; r < 5; r++) if (marks.has(r * 5 + c)) cnt++;
-        if (cnt > maxCount) maxCount = cnt;
-      }
-      // diag TL-BR
-      let cnt = 0;
-      for (let i = 0; i < 5; i++) if (marks.has(i * 5 + i)) cnt++;
-      if (cnt > maxCount) maxCount = cnt;
-      // diag TR-BL
-      cnt = 0;
-      for (let i = 0; i < 5; i++) if (marks.has(i * 5 + (4 - i))) cnt++;
-      if (cnt > maxCount) maxCount = cnt;
-
-      return maxCount;
-    };
+  useEffect(() => {
+    if (!winner) return;
+    session.end({
+      score: playerMarks.size,
+      outcome: winner === 'player' ? 'win' : winner === 'cpu' ? 'loss' : 'draw',
+      stats: { draws: drawn.length },
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [winner]);
 
-    // evaluate candidates and pick highest score (ties -> random among top)
-    let bestScore = -1;
-    const topCandidates: number[] = [];
-    for (const cand of candidates) {
-      const s = scoreForCandidate(cand);
-      if (s > bestScore) {
-        bestScore = s;
-        topCandidates.length = 0;
-        topCandidates.push(cand);
-      } else if (s === bestScore) {
-        topCandidates.push(cand);
-      }
-    }
-    if (topCandidates.length === 0) return null;
-    return topCandidates[Math.floor(Math.random() * topCandidates.length)];
-  };
+  // both the player's call and the CPU's reply land here, each with a tick
+  useEffect(() => {
+    if (lastDraw !== null) audio.play('click');
+  }, [lastDraw, audio]);
 
   // Player calls a number manually. After player's call, CPU immediately picks advantageous number.
   const callNumber = () => {
@@ -158,6 +68,7 @@ export function NumberGuess() {
     const n = parseInt(playerCall);
     if (Number.isNaN(n) || n < 1 || n > 25) {
       // invalid — just clear
+      audio.play('error');
       setPlayerCall('');
       return;
     }
@@ -177,16 +88,12 @@ export function NumberGuess() {
       // mark player's number
       setDrawn(d => [...d, n]);
       setLastDraw(n);
-      setPlayerMarks(pm => {
-        const next = new Set(pm);
-        markNumber(n, playerBoard, next);
-        return next;
-      });
+      setPlayerMarks(pm => markNumber(playerBoard, pm, n));
 
       // after player's mark, check if player wins immediately
       setTimeout(() => {
         setPlayerMarks(pmSnap => {
-          const playerWinsNow = checkBingo(pmSnap);
+          const playerWinsNow = hasBingo(pmSnap);
           if (playerWinsNow) {
             setWinner('player');
             setRunning(false);
@@ -195,37 +102,23 @@ export function NumberGuess() {
           }
 
           // CPU picks from remaining newPool
-          const cpuChoice = chooseCpuNumberAdvantageous(newPool, cpuBoard, cpuMarks);
-          let chosen = cpuChoice;
-          if (chosen === null) {
-            // pick random from pool
-            if (newPool.length > 0) chosen = newPool[Math.floor(Math.random() * newPool.length)];
-          }
-          if (chosen != null) {
+          const chosen = chooseCpuNumber(newPool, cpuBoard, cpuMarks, session.random);
+          if (chosen !== null) {
             // remove chosen from pool and mark
             setDrawPool(poolAfterCpu => poolAfterCpu.filter(x => x !== chosen));
-            setDrawn(d => [...d, chosen as number]);
-            setLastDraw(chosen as number);
+            setDrawn(d => [...d, chosen]);
+            setLastDraw(chosen);
 
-            // --- NEW: mark CPU choice on BOTH cpuMarks AND playerMarks ---
-            setCpuMarks(cm => {
-              const next = new Set(cm);
-              markNumber(chosen as number, cpuBoard, next);
-              return next;
-            });
-            setPlayerMarks(pm => {
-              const next = new Set(pm);
-              markNumber(chosen as number, playerBoard, next);
-              return next;
-            });
-            // --- end NEW ---
+            // the CPU's call marks both cards
+            setCpuMarks(cm => markNumber(cpuBoard, cm, chosen));
+            setPlayerMarks(pm => markNumber(playerBoard, pm, chosen));
           }
           // After CPU mark, check wins
           setTimeout(() => {
             setCpuMarks(cmSnap => {
-              const cpuWinsNow = checkBingo(cmSnap);
+              const cpuWinsNow = hasBingo(cmSnap);
               setPlayerMarks(pmSnap2 => {
-                const playerWinsAfter = checkBingo(pmSnap2);
+                const playerWinsAfter = hasBingo(pmSnap2);
                 if (playerWinsAfter && cpuWinsNow) setWinner('tie');
                 else if (playerWinsAfter) setWinner('player');
                 else if (cpuWinsNow) setWinner('cpu');
@@ -247,6 +140,7 @@ export function NumberGuess() {
   };
 
   const reset = () => {
+    if (running) session.end({ score: playerMarks.size, outcome: 'abandoned', stats: { draws: drawn.length } });
     setRunning(false);
     setAuto(false);
     setDrawPool([]);
@@ -261,7 +155,7 @@ export function NumberGuess() {
   };
 
   // helper to render a board as 5x5 (player only)
-  const renderBoard = (board: Cell[], marks: Set<number>) => {
+  const renderBoard = (board: BingoCell[], marks: Set<number>) => {
     return (
       <div className="grid grid-cols-5 gap-2">
         {board.map((c) => {
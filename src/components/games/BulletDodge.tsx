@@ -0,0 +1,127 @@
+import React, { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { useInputActions } from "@/hooks/use-input-actions";
+import { useSimRun } from "@/hooks/use-sim-run";
+import { toBoardPoint } from "@/lib/engine";
+import { usePersonalBest } from "@/hooks/use-stats";
+import { getStickAxes } from "@/lib/gamepad";
+import { quantizeAxis } from "@/lib/sim";
+import { bulletDodgeSim } from "@/lib/sims/bullet-dodge";
+import { GameProps } from "@/types/session";
+
+/**
+ * BulletDodge
+ *
+ * Controls:
+ * - Drag / touch / mouse to move the player horizontally (and vertically a bit).
+ * - Direction keys (arrows / WASD unless rebound) optionally move the player; a gamepad stick steers smoothly.
+ * - Start / Reset buttons.
+ *
+ * Mechanics (see lib/sims/bullet-dodge):
+ * - Bullets spawn in patterns (falling, aimed shots, radial bursts).
+ * - Collect power-ups: shield (one hit), slow-time (temporarily slows bullets).
+ * - Score increases over time + bonus per collected power-up.
+ * - Difficulty ramps up (spawn rate, bullet speed).
+ */
+
+const W = 520;
+const H = 490;
+
+// a key press steps the player this far
+const NUDGES: Partial<Record<string, [number, number]>> = { left: [-24, 0], right: [24, 0], up: [0, -18], down: [0, 18] };
+
+export function BulletDodge({ session, paused }: GameProps): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const best = usePersonalBest(session.gameId) ?? 0;
+
+  const { phase, hud, start, reset, send } = useSimRun(bulletDodgeSim, canvasRef, {
+    session,
+    paused,
+    hud: (s) => ({ score: s.score, lives: s.lives, shield: s.shield }),
+    poll: (send, s) => {
+      const stick = getStickAxes();
+      const x = quantizeAxis(stick.x);
+      const y = quantizeAxis(stick.y);
+      if (x !== s.stick.x || y !== s.stick.y) send(["stick", x, y]);
+    },
+  });
+
+  // input listeners are bound once, so they read the latest render through a ref
+  const latestRef = useRef({ phase, paused, start, send });
+  latestRef.current = { phase, paused, start, send };
+
+  // drag the player; pressing on the board also starts a run
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let dragging = false;
+
+    const moveTo = (e: PointerEvent) => {
+      const { x, y } = toBoardPoint(canvas, e.clientX, e.clientY, W, H);
+      latestRef.current.send(["move", x, y]);
+    };
+
+    const onDown = (e: PointerEvent) => {
+      e.preventDefault();
+      const { phase, paused, start } = latestRef.current;
+      if (paused) return;
+      dragging = true;
+      if (phase !== "running") start();
+      else moveTo(e);
+    };
+    const onMove = (e: PointerEvent) => {
+      if (!dragging || latestRef.current.paused) return;
+      moveTo(e);
+    };
+    const onUp = () => { dragging = false; };
+
+    canvas.addEventListener("pointerdown", onDown);
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+
+    return () => {
+      canvas.removeEventListener("pointerdown", onDown);
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+  }, []);
+
+  // keyboard / gamepad: directions nudge the player a step per press
+  useInputActions(session.gameId, (action, pressed) => {
+    if (!pressed || paused) return;
+    if (phase !== "running") {
+      if (action === "primary") start();
+      return;
+    }
+    const nudge = NUDGES[action];
+    if (nudge) send(["nudge", ...nudge]);
+  });
+
+  return (
+    <div className="h-[620px] max-w-2xl mx-auto p-4 bg-black rounded-2xl">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-display text-white"></h3>
+          <div className="text-xs text-muted-foreground">𝙳𝚛𝚊𝚐 𝚝𝚘 𝚖𝚘𝚟𝚎 • 𝙰𝚟𝚘𝚒𝚍 𝚋𝚞𝚕𝚕𝚎𝚝𝚜 • 𝙿𝚒𝚌𝚔 𝚙𝚘𝚠𝚎𝚛-𝚞𝚙𝚜</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="neon" onClick={start} disabled={phase === "running"}>Start</Button>
+          <Button variant="neon" onClick={reset}>Reset</Button>
+        </div>
+      </div>
+
+      <div className="h-[515px] bg-card p-3 rounded-xl border border-border">
+        <div className="rounded-lg overflow-hidden border border-white/6">
+          <canvas ref={canvasRef} style={{ width: W, height: H, display: "block", touchAction: "none" }} />
+        </div>
+
+        <div className="mt-3 flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">𝚂𝚌𝚘𝚛𝚎: <span className="font-bold text-primary">{hud.score}</span></div>
+          <div className="text-sm text-muted-foreground">𝙱𝚎𝚜𝚝: <span className="font-bold text-primary">{Math.max(best, hud.score)}</span></div>
+          <div className="text-sm text-muted-foreground">𝙻𝚒𝚟𝚎𝚜: <span className="font-bold">{hud.lives}</span></div>
+          <div className="text-sm text-muted-foreground">𝚂𝚑𝚒𝚎𝚕𝚍: <span className="font-bold">{hud.shield ? "ON" : "OFF"}</span></div>
+        </div>
+      </div>
+    </div>
+  );
+}
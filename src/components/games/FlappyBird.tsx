@@ -0,0 +1,108 @@
+import React, { useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { useInputActions } from "@/hooks/use-input-actions";
+import { useSimRun } from "@/hooks/use-sim-run";
+import { usePersonalBest } from "@/hooks/use-stats";
+import { flappySim } from "@/lib/sims/flappy-bird";
+import { GameProps } from "@/types/session";
+
+export function FlappyBird({ session, paused }: GameProps): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const best = usePersonalBest(session.gameId) ?? 0;
+
+  // the run is sized to the canvas as laid out when it starts
+  const { phase, hud, start, reset, send } = useSimRun(flappySim, canvasRef, {
+    session,
+    paused,
+    hud: (s) => ({ score: s.score }),
+    // the laid-out size, not the on-screen one, so the run doesn't change shape with the stage's scale
+    options: () => {
+      const canvas = canvasRef.current;
+      return canvas && canvas.offsetWidth > 0 ? { width: canvas.offsetWidth, height: canvas.offsetHeight } : {};
+    },
+    overlay: (ctx, s) => {
+      ctx.fillStyle = "rgba(255,255,255,0.5)";
+      ctx.font = "14px system-ui, sans-serif";
+      ctx.textAlign = "left";
+      ctx.fillText(`Best: ${Math.max(best, s.score)}`, 14, 46);
+    },
+  });
+  const shownBest = Math.max(best, hud.score);
+
+  // the first flap starts a run, and after a crash starts the next one
+  const flap = () => {
+    if (paused) return;
+    if (phase !== "running") {
+      start();
+      return;
+    }
+    send(["flap"]);
+  };
+
+  // keyboard / gamepad: primary flaps, secondary restarts after a crash
+  useInputActions(session.gameId, (action, pressed, e) => {
+    if (!pressed) return;
+    if (action === "primary") {
+      e?.preventDefault();
+      flap();
+    }
+    if (action === "secondary" && phase === "over") {
+      start();
+    }
+  });
+
+  // mouse / touch anywhere flaps; the buttons above the canvas do their own thing
+  const flapRef = useRef(flap);
+  flapRef.current = flap;
+  useEffect(() => {
+    const onPress = (e: Event) => {
+      if (e.target instanceof Element && e.target.closest("button")) return;
+      flapRef.current();
+    };
+
+    window.addEventListener("click", onPress);
+    window.addEventListener("touchstart", onPress);
+
+    return () => {
+      window.removeEventListener("click", onPress);
+      window.removeEventListener("touchstart", onPress);
+    };
+  }, []);
+
+  // small UI: full canvas + controls
+  return (
+    <div className="h-[600px] flex items-center justify-center p-6 bg-black relative overflow-hidden">
+      <div className="absolute inset-0 -z-10 animate-float bg-gradient-to-br from-purple-700 via-pink-600 to-cyan-500 opacity-30 mix-blend-screen filter blur-3xl"></div>
+
+      <div className="h-[590px] w-[28rem] rounded-3xl p-4 backdrop-blur-md bg-white/5 border border-white/10 shadow-2xl">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            {/*<h3 className="text-2xl font-display text-white">Neon Flappy</h3>*/}
+            <div className="text-sm text-muted-foreground">𝗧𝗮𝗽 / 𝗦𝗽𝗮𝗰𝗲 𝘁𝗼 𝗳𝗹𝗮𝗽 • 𝗥 𝘁𝗼 𝗿𝗲𝘀𝘁𝗮𝗿𝘁</div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <div className="text-right">
+              <div className="text-sm text-muted-foreground">𝗦𝗖𝗢𝗥𝗘</div>
+              <div className="text-lg font-bold text-primary">{hud.score}</div>
+            </div>
+            <Button variant="neon" onClick={start}>Start</Button>
+            <Button variant="neon" onClick={reset}>Reset</Button>
+          </div>
+        </div>
+
+        <div className="h-[450px] w-full aspect-[3/4] bg-card rounded-xl border-2 border-border overflow-hidden">
+          <canvas
+            ref={canvasRef}
+            style={{ width: "100%", height: "100%", display: "block", touchAction: "manipulation" }}
+          />
+        </div>
+
+        <div className="flex items-center justify-between mt-3">
+          <div className="text-sm text-muted-foreground">𝐁𝐄𝐒𝐓: <span className="text-primary font-bold">{shownBest}</span></div>
+          <div className="text-sm text-muted-foreground">𝗖𝗼𝗻𝘁𝗿𝗼𝗹𝘀: 𝗦𝗽𝗮𝗰𝗲 / 𝗖𝗹𝗶𝗰𝗸 / 𝗧𝗮𝗽</div>
+        </div>
+      </div>
+    </div>
+  );
+}
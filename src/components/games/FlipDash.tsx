@@ -1,6 +1,12 @@
 import React, { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { useAccessibilitySettings } from "@/hooks/use-accessibility";
+import { useAudio } from "@/hooks/use-audio";
+import { useInputActions } from "@/hooks/use-input-actions";
+import { usePersonalBest } from "@/hooks/use-stats";
 import { cn } from "@/lib/utils";
+import type { InputAction } from "@/types/input";
+import { GameProps } from "@/types/session";
 
 type Dir = "UP" | "DOWN" | "LEFT" | "RIGHT";
 const DIRS: Dir[] = ["UP", "DOWN", "LEFT", "RIGHT"];
@@ -12,6 +18,13 @@ const ICONS: Record<Dir, string> = {
   RIGHT: "→",
 };
 
+const ACTION_DIRS: Partial<Record<InputAction, Dir>> = {
+  up: "UP",
+  down: "DOWN",
+  left: "LEFT",
+  right: "RIGHT",
+};
+
 function opposite(d: Dir): Dir {
   if (d === "UP") return "DOWN";
   if (d === "DOWN") return "UP";
@@ -19,16 +32,19 @@ function opposite(d: Dir): Dir {
   return "LEFT";
 }
 
-export function FlipDash(): JSX.Element {
+export function FlipDash({ session, paused }: GameProps): JSX.Element {
   const [running, setRunning] = useState(false);
   const [current, setCurrent] = useState<Dir | null>(null);
   const [score, setScore] = useState(0);
   const [combo, setCombo] = useState(0);
-  const [best, setBest] = useState<number>(() => Number(localStorage.getItem("flipdash_best") || 0));
+  const [best, setBest] = useState<number>(usePersonalBest(session.gameId) ?? 0);
   const [intervalMs, setIntervalMs] = useState(1200);
   const [round, setRound] = useState(1);
   const timerRef = useRef<number | null>(null);
   const awaitingRef = useRef(true);
+  const audio = useAudio();
+  // slow mode gives each round longer on the clock
+  const { gameSpeed } = useAccessibilitySettings();
 
   useEffect(() => {
     return () => {
@@ -38,7 +54,7 @@ export function FlipDash(): JSX.Element {
 
   const pickNext = () => {
     // pick a random direction
-    const d = DIRS[Math.floor(Math.random() * DIRS.length)];
+    const d = DIRS[Math.floor(session.random() * DIRS.length)];
     setCurrent(d);
     awaitingRef.current = true;
   };
@@ -49,6 +65,7 @@ export function FlipDash(): JSX.Element {
     setRound(1);
     setIntervalMs(1500);
     setRunning(true);
+    session.start();
     pickNext();
     if (timerRef.current) window.clearInterval(timerRef.current);
     timerRef.current = window.setInterval(() => {
@@ -61,12 +78,12 @@ export function FlipDash(): JSX.Element {
       setRound(r => r + 1);
       // speed up slightly every few rounds
       setIntervalMs(prev => Math.max(320, prev - 12));
-    }, intervalMs);
+    }, intervalMs / gameSpeed);
   };
 
-  // keep interval in sync when intervalMs changes
+  // keep interval in sync when intervalMs changes; pausing clears it and resuming starts a fresh round clock
   useEffect(() => {
-    if (!running) return;
+    if (!running || paused) return;
     if (timerRef.current) window.clearInterval(timerRef.current);
     timerRef.current = window.setInterval(() => {
       if (awaitingRef.current) {
@@ -76,37 +93,38 @@ export function FlipDash(): JSX.Element {
       pickNext();
       setRound(r => r + 1);
       setIntervalMs(prev => Math.max(320, prev - 12));
-    }, intervalMs);
+    }, intervalMs / gameSpeed);
     return () => {
       if (timerRef.current) window.clearInterval(timerRef.current);
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [intervalMs, running]);
+  }, [intervalMs, running, paused, gameSpeed]);
 
   const stop = () => {
     setRunning(false);
     setCurrent(null);
     if (timerRef.current) window.clearInterval(timerRef.current);
-    if (score > best) {
-      setBest(score);
-      localStorage.setItem("flipdash_best", String(score));
-    }
+    if (score > best) setBest(score);
     awaitingRef.current = true;
+    // endless mode: stopping is how a run is banked
+    session.end({ score, outcome: "completed", stats: { rounds: round } });
   };
 
   const press = (d: Dir) => {
-    if (!running || !current) return;
+    if (!running || !current || paused) return;
     const required = opposite(current);
     if (!awaitingRef.current) return; // already answered / waiting
     awaitingRef.current = false;
     if (d === required) {
       // correct
+      audio.play("score");
       setCombo(c => c + 1);
       setScore(s => s + 1 + Math.floor(combo / 3)); // combo bonus
       // quick immediate next after short delay
       setTimeout(() => { pickNext(); awaitingRef.current = true; }, Math.max(120, intervalMs / 3));
     } else {
       // wrong
+      audio.play("error");
       setCombo(0);
       setScore(s => Math.max(0, s - 1));
       // show next after small pause
@@ -114,18 +132,12 @@ export function FlipDash(): JSX.Element {
     }
   };
 
-  // keyboard support
-  useEffect(() => {
-    const onKey = (e: KeyboardEvent) => {
-      if (!running || !current) return;
-      if (["ArrowUp", "w"].includes(e.key)) press("UP");
-      if (["ArrowDown", "s"].includes(e.key)) press("DOWN");
-      if (["ArrowLeft", "a"].includes(e.key)) press("LEFT");
-      if (["ArrowRight", "d"].includes(e.key)) press("RIGHT");
-    };
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [running, current, combo]);
+  // keyboard / gamepad support
+  useInputActions(session.gameId, (action, pressed) => {
+    if (!pressed || !running || !current || paused) return;
+    const dir = ACTION_DIRS[action];
+    if (dir) press(dir);
+  });
 
   return (
     <div className="w-[520px] mx-auto p-4 bg-black rounded-2xl p-6 bg-black">
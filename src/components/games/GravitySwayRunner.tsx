@@ -0,0 +1,97 @@
+import React, { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { useInputActions } from "@/hooks/use-input-actions";
+import { useSimRun } from "@/hooks/use-sim-run";
+import { usePersonalBest } from "@/hooks/use-stats";
+import { gravityRunnerSim } from "@/lib/sims/gravity-runner";
+import { GameProps } from "@/types/session";
+
+/**
+ * Gravity Sway Runner
+ *
+ * Controls:
+ * - Tap / Click / Space / ArrowUp -> flip gravity (instant)
+ * - Start / Reset buttons
+ *
+ * Mechanics:
+ * - Player is a small square that is constantly pushed by gravity direction
+ * - Obstacles are boxes on ground/ceiling that move leftwards
+ * - Passing each obstacle increases score; hitting obstacle = game over
+ * - Difficulty ramps: spawnInterval decreases, obstacle height increases over time
+ */
+
+export function GravitySwayRunner({ session, paused }: GameProps): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const best = usePersonalBest(session.gameId) ?? 0;
+
+  // world params, matching the sim's board
+  const WIDTH = 1135;
+  const HEIGHT = 200;
+
+  const { phase, hud, start, reset, send } = useSimRun(gravityRunnerSim, canvasRef, {
+    session,
+    paused,
+    hud: (s) => ({ score: s.score, gravityDown: s.gravityDown }),
+  });
+  const { score, gravityDown } = hud;
+
+  // a flip while idle starts the run, and after a crash starts the next one
+  function flipGravity() {
+    if (paused) return;
+    if (phase !== "running") {
+      start();
+      return;
+    }
+    send(["flip"]);
+  }
+
+  useInputActions(session.gameId, (action, pressed, e) => {
+    if (pressed && (action === "primary" || action === "up")) {
+      e?.preventDefault();
+      flipGravity();
+    }
+  });
+
+  return (
+    <div className="w-[1200px] h-[320px] -mx-auto p-4 bg-black rounded-2xl">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-xl font-display text-white"></h3>
+          <div className="text-xs text-muted-foreground">𝚃𝚊𝚙 / 𝚂𝚙𝚊𝚌𝚎 𝚝𝚘 𝚏𝚕𝚒𝚙 𝚐𝚛𝚊𝚟𝚒𝚝𝚢 • 𝚂𝚞𝚛𝚟𝚒𝚟𝚎 𝚊𝚗𝚍 𝚙𝚊𝚜𝚜 𝚘𝚋𝚜𝚝𝚊𝚌𝚕𝚎𝚜</div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="default" onClick={start} disabled={phase === "running"}>Start</Button>
+          <Button variant="outline" onClick={reset}>Reset</Button>
+        </div>
+      </div>
+
+      <div 
+        className="w-[1164px] h-[230px] bg-card p-3 rounded-xl border border-border cursor-pointer"
+        onClick={flipGravity}
+        onTouchStart={(e) => {
+          e.preventDefault();
+          flipGravity();
+        }}
+      >
+        <div className="rounded-lg overflow-hidden border border-white/6">
+          <canvas 
+            ref={canvasRef} 
+            style={{ 
+              width: WIDTH, 
+              height: HEIGHT, 
+              display: "block", 
+              touchAction: "none"
+            }} 
+          />
+        </div>
+
+        <div className="mt-3 flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">𝚂𝚌𝚘𝚛𝚎: <span className="font-bold text-primary">{score}</span></div>
+          <div className="text-sm text-muted-foreground">𝙱𝚎𝚜𝚝: <span className="font-bold text-primary">{Math.max(best, score)}</span></div>
+          <div className="text-sm text-muted-foreground">𝙶𝚛𝚊𝚟𝚒𝚝𝚢: <span className="font-bold">{gravityDown ? "Down ↓" : "Up ↑"}</span></div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
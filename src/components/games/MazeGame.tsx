@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useInputActions } from "@/hooks/use-input-actions";
+import { useSimRun } from "@/hooks/use-sim-run";
+import { mazeDifficulties, mazeSim, mazeTimeLeft, type MazeDifficulty } from "@/lib/sims/maze";
+import type { InputAction } from "@/types/input";
+import { GameProps } from "@/types/session";
+
+/**
+ * MazeGame (edited)
+ *
+ * - Flood-fill visibility: player only sees cells reachable through open passages up to a radius
+ * - Player rendered as a small dot moving through corridors
+ * - All other game logic (generation, hints, limits, controls) unchanged
+ */
+
+// index into the sim's N, E, S, W sides
+const moves: Partial<Record<InputAction, number>> = { up: 0, right: 1, down: 2, left: 3 };
+
+export function MazeGame({ session, paused }: GameProps): JSX.Element {
+  const [difficulty, setDifficulty] = useState<MazeDifficulty>("Easy");
+  // picks the layout; kept across Reset so the same maze can be tried again
+  const [mazeSeed, setMazeSeed] = useState<number>(() => Math.floor(session.random() * 1e9));
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  // constants used by rendering
+  const CANVAS_W = 620;
+  const CANVAS_H = 435;
+
+  const { phase, hud, start, reset, send } = useSimRun(mazeSim, canvasRef, {
+    session,
+    paused,
+    hud: (s) => ({ timeLeft: mazeTimeLeft(s), movesLeft: s.movesLeft, hintUsesLeft: s.hintsLeft, won: s.won, lost: s.lost }),
+    options: () => ({ difficulty: mazeDifficulties.indexOf(difficulty), mazeSeed }),
+  });
+  const { timeLeft, movesLeft, hintUsesLeft } = hud;
+  const running = phase === "running";
+  const message = hud.won ? "You Win" : hud.lost ? "You lost" : null;
+
+  // a new difficulty or layout replaces the maze on the board, without starting it
+  useEffect(() => {
+    reset();
+  }, [difficulty, mazeSeed, reset]);
+
+  function newMaze(level = difficulty) {
+    setDifficulty(level);
+    setMazeSeed(Math.floor(session.random() * 1e9));
+  }
+
+  // keyboard / gamepad controls
+  useInputActions(session.gameId, (action, pressed) => {
+    if (!pressed || !running || paused) return;
+    const dir = moves[action];
+    if (dir !== undefined) send(["move", dir]);
+  });
+
+  // button controls (touch)
+  function btnMove(dir: number) {
+    if (!running || paused) return;
+    send(["move", dir]);
+  }
+
+  // the wrapper's pause menu stops the clock and resumes the same run
+  function pauseRun() {
+    session.pause();
+  }
+
+  return (
+    <div className="w-[920px] h-[620px] mx-auto p-6 bg-black rounded-2xl">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-display text-white"></h3>
+
+        <div className="flex items-center gap-2">
+          <div className="text-sm text-muted-foreground">𝙳𝚒𝚏𝚏𝚒𝚌𝚞𝚕𝚝𝚢:</div>
+          <select value={difficulty} onChange={(e) => newMaze(e.target.value as MazeDifficulty)} className="bg-card border border-border px-2 py-1 rounded">
+            <option>Easy</option>
+            <option>Normal</option>
+            <option>Hard</option>
+            <option>Insane</option>
+          </select>
+
+          <Button variant="neon" onClick={() => newMaze()}>New Maze</Button>
+          <Button variant="neon" onClick={start} disabled={running}>Start</Button>
+          <Button variant="neon" onClick={() => pauseRun()} disabled={!running}>Pause</Button>
+          <Button variant="neon" onClick={reset}>Reset</Button>
+        </div>
+      </div>
+
+      <div className="h-[530px] bg-card p-4 rounded-xl border border-border flex gap-4">
+        <div style={{ width: 660 }}>
+          <div className="mb-2 flex items-center justify-between">
+            <div className="text-sm text-muted-foreground">𝚂𝚞𝚛𝚟𝚒𝚟𝚎 & 𝚛𝚎𝚊𝚌𝚑 𝚝𝚑𝚎 𝚎𝚡𝚒𝚝 — 𝚏𝚘𝚐-𝚘𝚏-𝚠𝚊𝚛 𝚑𝚒𝚍𝚎𝚜 𝚝𝚑𝚎 𝚖𝚊𝚣𝚎</div>
+           {/*} <div className="text-xs text-muted-foreground mt-1">Seed: <span className="font-mono text-white">{seed}</span></div>*/}
+          </div>
+
+          <div className="rounded-lg overflow-hidden border border-white/6 bg-black p-3 inline-block">
+            <canvas ref={canvasRef} style={{ width: CANVAS_W, height: CANVAS_H, display: "block" }} />
+          </div>
+
+          <div className="mt-3 flex items-center gap-3">
+            <div className="text-sm"></div>
+            <div className="grid grid-cols-3 gap-1">
+              <div />
+              <button onMouseDown={() => btnMove(0)} onTouchStart={() => btnMove(0)} ></button>
+              <div />
+              <button onMouseDown={() => btnMove(3)} onTouchStart={() => btnMove(3)} ></button>
+    
+              <button onMouseDown={() => btnMove(1)} onTouchStart={() => btnMove(1)} ></button>
+              <div />
+              <button onMouseDown={() => btnMove(2)} onTouchStart={() => btnMove(2)} ></button>
+              <div />
+            </div>
+          </div>
+        </div>
+
+        <aside style={{ width: 240 }}>
+          <div className="bg-black/30 p-3 rounded-lg border border-white/6 mb-3">
+            <div className="text-sm text-muted-foreground">𝚂𝚝𝚊𝚝𝚞𝚜</div>
+            <div className="text-lg font-bold text-primary mt-1">{message ?? (running ? "Running" : "Ready")}</div>
+            <div className="mt-3 text-xs text-muted-foreground flex items-center justify-between">𝚃𝚒𝚖𝚎 𝙻𝚎𝚏𝚝</div>
+            <div className="text-lg font-bold">{timeLeft}s</div>
+            <div className="mt-2 text-xs text-muted-foreground">𝙼𝚘𝚟𝚎𝚜 𝙻𝚎𝚏𝚝</div>
+            <div className="text-lg font-bold">{movesLeft}</div>
+            <div className="mt-2 text-xs text-muted-foreground">𝙷𝚒𝚗𝚝𝚜 𝙻𝚎𝚏𝚝</div>
+            <div className="text-lg font-bold">{hintUsesLeft}</div>
+            <div className="mt-3">
+              <Button variant="neon" onClick={() => send(["hint"])} disabled={!running || hintUsesLeft <= 0}>Use Hint</Button>
+            </div>
+            <div className="mt-3 text-xs text-muted-foreground">𝙶𝚘𝚊𝚕</div>
+            <div className="text-sm">𝙵𝚒𝚗𝚍 & 𝚛𝚎𝚊𝚌𝚑 𝚝𝚑𝚎 𝚐𝚕𝚘𝚠𝚒𝚗𝚐 𝚎𝚡𝚒𝚝 𝚝𝚒𝚕𝚎 𝚋𝚎𝚏𝚘𝚛𝚎 𝚝𝚒𝚖𝚎 𝚘𝚛 𝚖𝚘𝚟𝚎𝚜 𝚛𝚞𝚗 𝚘𝚞𝚝.</div>
+          </div>
+
+          <div className="h-[89px] bg-card/20 p-3 rounded-lg border border-border">
+            <div className="text-xs text-muted-foreground">𝙻𝚎𝚐𝚎𝚗𝚍</div>
+            <div className="flex gap-2 items-center mt-2 ">
+              <div style={{ width: 18, height: 18, background: "#fb7185", borderRadius: 6 }} />
+              <div className="text-xs">𝚈𝚘𝚞</div>
+              <div style={{ width: 18, height: 18, background: "#34D399", borderRadius: 6 }} />
+              <div className="text-xs">𝙴𝚡𝚒𝚝 </div>
+            </div>
+            
+            <div className="flex gap-2 items-center mt-2">
+              <div style={{ width: 18, height: 18, background: "#6366F1", borderRadius: 6 }} />
+              <div className="text-xs">𝙷𝚒𝚗𝚝 𝚙𝚊𝚝𝚑</div>
+            </div>
+          </div>
+
+        </aside>
+      </div>
+    </div>
+  );
+}
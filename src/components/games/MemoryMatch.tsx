@@ -1,15 +1,9 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { useSimRun } from '@/hooks/use-sim-run';
+import { DEFAULT_MOVE_LIMIT, MAX_MOVE_LIMIT, MIN_MOVE_LIMIT, memoryMatchSim } from '@/lib/sims/memory-match';
 import { cn } from '@/lib/utils';
-
-type Card = {
-  id: number;
-  img: string; // data URL or image URL
-  isFlipped: boolean;
-  isMatched: boolean;
-};
-
-const DEFAULT_MOVE_LIMIT = 30;
+import { GameProps } from '@/types/session';
 
 // helper: generate simple SVG data-URL images (keeps everything local, no external assets)
 function svgDataUrl(bg: string, fg: string, label: string) {
@@ -34,85 +28,27 @@ const IMAGE_SET = [
 ];
 
 
-export function MemoryMatch() {
-  const [cards, setCards] = useState<Card[]>([]);
-  const [flipped, setFlipped] = useState<number[]>([]);
-  const [moves, setMoves] = useState(0);
+export function MemoryMatch({ session, paused }: GameProps) {
   const [moveLimit, setMoveLimit] = useState(DEFAULT_MOVE_LIMIT);
-  const [remaining, setRemaining] = useState(DEFAULT_MOVE_LIMIT);
-  const [isWon, setIsWon] = useState(false);
-  const [isLost, setIsLost] = useState(false);
-
-  const initGame = (limit = DEFAULT_MOVE_LIMIT) => {
-    const imgs = IMAGE_SET.slice(0, 8);
-    const pairPool = [...imgs, ...imgs];
-    // shuffle
-    const shuffled = pairPool
-      .map((img) => ({ img, sort: Math.random() }))
-      .sort((a, b) => a.sort - b.sort)
-      .map((p, index) => ({ id: index, img: p.img, isFlipped: false, isMatched: false })) as Card[];
-
-    setCards(shuffled);
-    setFlipped([]);
-    setMoves(0);
-    setMoveLimit(limit);
-    setRemaining(limit);
-    setIsWon(false);
-    setIsLost(false);
-  };
-
-  useEffect(() => {
-    initGame(DEFAULT_MOVE_LIMIT);
-  }, []);
-
-  useEffect(() => {
-    if (flipped.length === 2) {
-      const [a, b] = flipped;
-      if (cards[a].img === cards[b].img) {
-        // mark matched
-        setCards(prev => prev.map(c => (c.id === a || c.id === b) ? { ...c, isMatched: true } : c));
-        setFlipped([]);
-        // check win
-        setTimeout(() => {
-          setCards(prev => {
-            if (prev.every(c => c.isMatched || c.id === a || c.id === b)) {
-              setIsWon(true);
-            }
-            return prev;
-          });
-        }, 100);
-      } else {
-        // flip back after short delay
-        setTimeout(() => {
-          setCards(prev => prev.map(c => (c.id === a || c.id === b) ? { ...c, isFlipped: false } : c));
-          setFlipped([]);
-        }, 900);
-      }
-    }
-  }, [flipped, cards]);
-
-  useEffect(() => {
-    if (moves > 0 && remaining <= 0 && !isWon) {
-      setIsLost(true);
-      // lock board
-      setCards(prev => prev.map(c => ({ ...c, isFlipped: false })));
-    }
-  }, [remaining, moves, isWon]);
+  // the board is drawn in the DOM, so the sim runs without a canvas
+  const { phase, hud, start, reset, send } = useSimRun(memoryMatchSim, null, {
+    session,
+    paused,
+    hud: (s) => ({ cards: s.cards, moves: s.moves, limit: s.moveLimit, isWon: s.won, isLost: s.lost }),
+    options: () => ({ moveLimit }),
+  });
+  const { cards, moves, limit, isWon, isLost } = hud;
+  const remaining = limit - moves;
 
   const handleCard = (id: number) => {
-    if (isWon || isLost) return;
-    const card = cards[id];
-    if (!card || card.isFlipped || card.isMatched) return;
-    // if two already flipped, ignore
-    if (flipped.length === 2) return;
-
-    setCards(prev => prev.map(c => c.id === id ? { ...c, isFlipped: true } : c));
-    setFlipped(prev => [...prev, id]);
-    setMoves(m => m + 1);
-    setRemaining(r => r - 1);
+    if (paused || isWon || isLost) return;
+    // the run starts with the first flip, not when the board is dealt; every card is face down until then
+    if (phase !== 'running') start();
+    send(['flip', id]);
   };
 
-  const restart = () => initGame(moveLimit);
+  // a finished board stays up until the player deals again
+  const restart = () => reset();
 
   return (
     <div className="h-[620px] flex items-center justify-center p-6 bg-black relative overflow-hidden">
@@ -135,24 +71,24 @@ export function MemoryMatch() {
 
         <div className="grid grid-cols-4 gap-1 overflow-hidden max-h-[360px] justify-center">
 
-          {cards.map(card => (
+          {cards.map((card, id) => (
          <button
-  key={card.id}
-  onClick={() => handleCard(card.id)}
-  disabled={card.isFlipped || card.isMatched || isWon || isLost}
+  key={id}
+  onClick={() => handleCard(id)}
+  disabled={card.flipped || card.matched || isWon || isLost}
             className={cn(
               // slightly smaller tile, a bit more rounded, and subtle shadow for depth
               'relative w-24 h-20 rounded-2xl overflow-hidden border-2 transition-transform duration-200 shadow-sm',
-              card.isFlipped || card.isMatched ? 'scale-100 border-primary' : 'bg-card/60 border-border hover:scale-105'
+              card.flipped || card.matched ? 'scale-100 border-primary' : 'bg-card/60 border-border hover:scale-105'
             )}
           >
             <div className={cn(
               'absolute inset-0 flex items-center justify-center p-2 transition-opacity duration-300',
-              card.isFlipped || card.isMatched ? 'opacity-100' : 'opacity-0'
+              card.flipped || card.matched ? 'opacity-100' : 'opacity-0'
             )}>
               {/* reduce image footprint and center it; use object-contain so it never crops */}
               <img
-                src={card.img}
+                src={IMAGE_SET[card.face]}
                 alt="tile"
                 className="w-20 h-16 object-contain rounded-md select-none pointer-events-none"
                 style={{ padding: '4px' }}
@@ -166,8 +102,8 @@ export function MemoryMatch() {
         <div className="mt-6 flex items-center justify-between">
           <div className="text-sm text-muted-foreground">𝚃𝚒𝚙: 𝚃𝚛𝚢 𝚝𝚘 𝚛𝚎𝚖𝚎𝚖𝚋𝚎𝚛 𝚙𝚘𝚜𝚒𝚝𝚒𝚘𝚗𝚜. 𝚈𝚘𝚞 𝚌𝚊𝚗 𝚌𝚑𝚊𝚗𝚐𝚎 𝚖𝚘𝚟𝚎 𝚕𝚒𝚖𝚒𝚝 𝚋𝚎𝚕𝚘𝚠.</div>
           <div className="flex items-center gap-2">
-            <input type="number" min={8} max={100} value={moveLimit} onChange={(e) => setMoveLimit(Math.max(8, Math.min(100, Number(e.target.value))))} className="w-20 bg-transparent border border-white/10 rounded px-2 py-1 text-white" />
-            <Button onClick={() => initGame(moveLimit)}>Start with Limit</Button>
+            <input type="number" min={MIN_MOVE_LIMIT} max={MAX_MOVE_LIMIT} value={moveLimit} onChange={(e) => setMoveLimit(Math.max(MIN_MOVE_LIMIT, Math.min(MAX_MOVE_LIMIT, Number(e.target.value))))} className="w-20 bg-transparent border border-white/10 rounded px-2 py-1 text-white" />
+            <Button onClick={restart}>Start with Limit</Button>
           </div>
         </div>
 
@@ -1,10 +1,12 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { useAudio } from '@/hooks/use-audio';
 import { cn } from '@/lib/utils';
+import { GameProps } from '@/types/session';
 
 type Phase = 'idle' | 'batting' | 'bowling' | 'finished';
 
-export function NumberPlayMiniCricket() {
+export function MiniCricket({ session }: GameProps) {
   const MAX_BALLS = 10;
   const [phase, setPhase] = useState<Phase>('idle');
 
@@ -20,9 +22,10 @@ export function NumberPlayMiniCricket() {
 
   // result message
   const [message, setMessage] = useState<string>('Press Start to bat first!');
+  const audio = useAudio();
 
   // helper: random 1..10
-  const rand = () => Math.floor(Math.random() * 10) + 1;
+  const rand = () => Math.floor(session.random() * 10) + 1;
 
   const startGame = () => {
     // reset everything and start batting
@@ -34,8 +37,16 @@ export function NumberPlayMiniCricket() {
     setCpuBalls(MAX_BALLS);
     setCpuOutBy(null);
     setMessage('You are batting — pick a number (1–10)');
+    session.start();
   };
 
+  useEffect(() => {
+    if (phase !== 'finished') return;
+    const won = cpuOutBy !== null || cpuScore < playerScore;
+    session.end({ score: playerScore, outcome: won ? 'win' : 'loss', stats: { cpuScore } });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase]);
+
   // player chooses a number while batting
   const playerBat = (n: number) => {
     if (phase !== 'batting') return;
@@ -44,6 +55,7 @@ export function NumberPlayMiniCricket() {
     const cpuPick = rand();
     // out if equal
     if (cpuPick === n) {
+      audio.play('error');
       setPlayerOutBy(cpuPick);
       setPlayerBalls(0);
       setMessage(`OUT! Computer picked ${cpuPick}. Your score: ${playerScore}`);
@@ -56,6 +68,7 @@ export function NumberPlayMiniCricket() {
     }
 
     // not out — add to score and decrement ball
+    audio.play('score');
     setPlayerScore(s => s + n);
     setPlayerBalls(b => b - 1);
 
@@ -87,6 +100,7 @@ export function NumberPlayMiniCricket() {
     }
 
     // cpu not out — add cpuPick to cpuScore
+    audio.play('hit');
     setCpuScore(s => {
       const next = s + cpuPick;
       // check if cpu reached or exceeded target -> cpu wins
@@ -118,6 +132,9 @@ export function NumberPlayMiniCricket() {
   };
 
   const restart = () => {
+    if (phase === 'batting' || phase === 'bowling') {
+      session.end({ score: playerScore, outcome: 'abandoned', stats: { cpuScore } });
+    }
     setPhase('idle');
     setPlayerScore(0);
     setPlayerBalls(MAX_BALLS);
@@ -0,0 +1,115 @@
+import React, { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { useInputActions } from "@/hooks/use-input-actions";
+import { useSimRun } from "@/hooks/use-sim-run";
+import { usePersonalBest } from "@/hooks/use-stats";
+import { getStickAxes } from "@/lib/gamepad";
+import { quantizeAxis } from "@/lib/sim";
+import { breakoutSim } from "@/lib/sims/neon-breakout";
+import type { InputAction } from "@/types/input";
+import { GameProps } from "@/types/session";
+
+const GAME_W = 600, GAME_H = 490;
+
+export function NeonBreakoutBlitz({ session, paused }: GameProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const heldRef = useRef<Set<InputAction>>(new Set());
+  const best = usePersonalBest(session.gameId) ?? 0;
+
+  const { phase, hud, start, reset, send } = useSimRun(breakoutSim, canvasRef, {
+    session,
+    paused,
+    hud: (s) => ({ score: s.score, lives: s.lives, level: s.level }),
+    poll: (send, s) => {
+      const x = quantizeAxis(getStickAxes().x);
+      if (x !== s.stick) send(["stick", x]);
+    },
+    overlay: (ctx, s) => {
+      if (!s.over) return;
+      ctx.font = "18px system-ui";
+      ctx.fillStyle = "#888";
+      ctx.textAlign = "center";
+      ctx.fillText(`Best: ${Math.max(best, s.score)}`, GAME_W / 2, GAME_H / 2 + 80);
+      ctx.textAlign = "left";
+    },
+  });
+
+  const sendRef = useRef(send);
+  sendRef.current = send;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleMove = (e: MouseEvent | TouchEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      let clientX: number;
+      if ("touches" in e && e.touches.length > 0) clientX = e.touches[0].clientX;
+      else if ("clientX" in e) clientX = e.clientX;
+      else return;
+      sendRef.current(["aim", Math.round(((clientX - rect.left) / rect.width) * GAME_W)]);
+    };
+
+    const handleClick = () => sendRef.current(["launch"]);
+
+    canvas.addEventListener("mousemove", handleMove);
+    canvas.addEventListener("touchmove", handleMove, { passive: true });
+    canvas.addEventListener("click", handleClick);
+    canvas.addEventListener("touchstart", handleClick, { passive: true });
+
+    return () => {
+      canvas.removeEventListener("mousemove", handleMove);
+      canvas.removeEventListener("touchmove", handleMove);
+      canvas.removeEventListener("click", handleClick);
+      canvas.removeEventListener("touchstart", handleClick);
+    };
+  }, []);
+
+  // held direction keys become one steer value, sent only when it changes
+  const sendSteer = () => {
+    const held = heldRef.current;
+    send(["steer", (held.has("right") ? 1 : 0) - (held.has("left") ? 1 : 0)]);
+  };
+
+  useInputActions(session.gameId, (action, pressed, e) => {
+    if (!pressed) {
+      if (heldRef.current.delete(action)) sendSteer();
+      return;
+    }
+    if (paused) return;
+    if (action === "left" || action === "right") {
+      heldRef.current.add(action);
+      sendSteer();
+    }
+    if (action === "primary") {
+      e?.preventDefault();
+      send(["launch"]);
+    }
+  });
+
+  return (
+    <div className="h-[620px] w-full max-w-3xl mx-auto p-4 bg-black rounded-2xl">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-xl font-display text-white"></h3>
+          <div className="text-xs text-muted-foreground">𝙼𝚘𝚟𝚎 𝚝𝚘 𝚌𝚘𝚗𝚝𝚛𝚘𝚕 • 𝙲𝚕𝚒𝚌𝚔 𝚝𝚘 𝚕𝚊𝚞𝚗𝚌𝚑 • 𝙲𝚊𝚝𝚌𝚑 𝚙𝚘𝚠𝚎𝚛-𝚞𝚙𝚜:</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="default" onClick={start} disabled={phase === "running"}>{phase === "over" ? "Play Again" : "Start"}</Button>
+          <Button variant="outline" onClick={reset}>Reset</Button>
+        </div>
+      </div>
+      <div className="h-[540px] bg-card p-3 rounded-xl border border-border">
+        <div className="rounded-lg overflow-hidden border border-white/6">
+          <canvas ref={canvasRef} style={{ width: GAME_W, height: GAME_H, display: "block", cursor: "none" }} />
+        </div>
+        <div className="mt-3 flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">𝚂𝚌𝚘𝚛𝚎: <span className="font-bold text-primary">{hud.score}</span></div>
+          <div className="text-sm text-muted-foreground">𝙻𝚎𝚟𝚎𝚕: <span className="font-bold text-cyan-400">{hud.level}</span></div>
+          <div className="text-sm text-muted-foreground">𝙻𝚒𝚟𝚎𝚜: <span className="font-bold text-red-500">{hud.lives}</span></div>
+          <div className="text-sm text-muted-foreground">𝙱𝚎𝚜𝚝: <span className="font-bold text-yellow-400">{Math.max(best, hud.score)}</span></div>
+        </div>
+      </div>
+    </div>
+  );
+}
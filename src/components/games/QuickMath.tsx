@@ -1,9 +1,12 @@
 import React, { useEffect, useState } from 'react';
+import { useAccessibilitySettings } from '@/hooks/use-accessibility';
+import { useAudio } from '@/hooks/use-audio';
+import { GameProps } from '@/types/session';
 
 type Level = 'easy' | 'medium' | 'hard' | 'complex';
 type Operation = '+' | '-' | '×';
 
-export function QuickMath() {
+export function QuickMath({ session, paused }: GameProps) {
   const [level, setLevel] = useState<Level>('easy');
   const [num1, setNum1] = useState(0);
   const [num2, setNum2] = useState(0);
@@ -14,6 +17,8 @@ export function QuickMath() {
   const [timeLeft, setTimeLeft] = useState(60);
   const [isPlaying, setIsPlaying] = useState(false);
   const [streak, setStreak] = useState(0);
+  const audio = useAudio();
+  const { reducedMotion } = useAccessibilitySettings();
 
   const settings = {
     easy: { maxA: 100, maxB: 50, time: 60, ops: ['+', '-'] as Operation[] },
@@ -26,14 +31,14 @@ export function QuickMath() {
     setTimeLeft(settings[level].time);
   }, [level]);
 
-  const randomInt = (max: number, min = 1) => Math.floor(Math.random() * (max - min + 1)) + min;
+  const randomInt = (max: number, min = 1) => Math.floor(session.random() * (max - min + 1)) + min;
 
   const generateProblem = () => {
     setExpression(null);
     const ops = settings[level].ops;
 
     if (level === 'easy') {
-      const op = ops[Math.floor(Math.random() * ops.length)];
+      const op = ops[Math.floor(session.random() * ops.length)];
       let a = randomInt(settings.easy.maxA, 1);
       let b = randomInt(settings.easy.maxB, 1);
       if (op === '-' && b > a) [a, b] = [b, a];
@@ -45,7 +50,7 @@ export function QuickMath() {
     }
 
     if (level === 'medium') {
-      const op = ops[Math.floor(Math.random() * ops.length)];
+      const op = ops[Math.floor(session.random() * ops.length)];
       let a = randomInt(settings.medium.maxA, 5);
       let b = randomInt(settings.medium.maxB, 2);
       if (op === '-' && b > a) [a, b] = [b, a];
@@ -57,7 +62,7 @@ export function QuickMath() {
     }
 
     if (level === 'hard') {
-      const op = ops[Math.floor(Math.random() * ops.length)];
+      const op = ops[Math.floor(session.random() * ops.length)];
       const a = randomInt(settings.hard.maxA, 10);
       const b = randomInt(settings.hard.maxB, 5);
       if (op === '-' && b > a) {
@@ -76,8 +81,8 @@ export function QuickMath() {
       const a = randomInt(settings.complex.maxA, 2);
       const b = randomInt(settings.complex.maxB, 1);
       const c = randomInt(settings.complex.maxA, 1);
-      const op1 = ops[Math.floor(Math.random() * ops.length)];
-      const op2 = ops[Math.floor(Math.random() * ops.length)];
+      const op1 = ops[Math.floor(session.random() * ops.length)];
+      const op2 = ops[Math.floor(session.random() * ops.length)];
       const expr = `${a} ${op1} ${b} ${op2} ${c}`;
       setExpression(expr);
       setNum1(0);
@@ -108,6 +113,7 @@ export function QuickMath() {
   };
 
   const startGame = (chosenLevel?: Level) => {
+    session.start();
     if (chosenLevel) setLevel(chosenLevel);
     setScore(0);
     setStreak(0);
@@ -117,7 +123,7 @@ export function QuickMath() {
   };
 
   useEffect(() => {
-    if (!isPlaying || timeLeft <= 0) return;
+    if (!isPlaying || paused || timeLeft <= 0) return;
     const timer = setInterval(() => {
       setTimeLeft(t => {
         if (t <= 1) {
@@ -128,6 +134,13 @@ export function QuickMath() {
       });
     }, 1000);
     return () => clearInterval(timer);
+  }, [isPlaying, paused, timeLeft]);
+
+  useEffect(() => {
+    if (!isPlaying && timeLeft === 0) {
+      session.end({ score, outcome: 'completed', stats: { level } });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isPlaying, timeLeft]);
 
   const checkAnswer = () => {
@@ -136,36 +149,42 @@ export function QuickMath() {
       const bonus = streak >= 8 ? 5 : streak >= 5 ? 3 : streak >= 3 ? 2 : 1;
       setScore(s => s + bonus);
       setStreak(s => s + 1);
+      audio.play('score');
     } else {
       setStreak(0);
+      audio.play('error');
     }
     generateProblem();
   };
 
   return (
     <div className="h-[635px] flex items-center justify-center p-4 bg-slate-950 relative overflow-hidden">
-      {/* Animated background gradients */}
-      <div className="absolute inset-0 -z-10">
-        <div className="absolute top-0 left-1/4 w-96 h-96 bg-purple-500 rounded-full mix-blend-multiply filter blur-3xl opacity-20 animate-blob"></div>
-        <div className="absolute top-0 right-1/4 w-96 h-96 bg-pink-500 rounded-full mix-blend-multiply filter blur-3xl opacity-20 animate-blob animation-delay-2000"></div>
-        <div className="absolute bottom-0 left-1/3 w-96 h-96 bg-cyan-500 rounded-full mix-blend-multiply filter blur-3xl opacity-20 animate-blob animation-delay-4000"></div>
-      </div>
+      {/* Animated background gradients and floating particles, both dropped for reduced motion */}
+      {!reducedMotion && (
+        <>
+          <div className="absolute inset-0 -z-10">
+            <div className="absolute top-0 left-1/4 w-96 h-96 bg-purple-500 rounded-full mix-blend-multiply filter blur-3xl opacity-20 animate-blob"></div>
+            <div className="absolute top-0 right-1/4 w-96 h-96 bg-pink-500 rounded-full mix-blend-multiply filter blur-3xl opacity-20 animate-blob animation-delay-2000"></div>
+            <div className="absolute bottom-0 left-1/3 w-96 h-96 bg-cyan-500 rounded-full mix-blend-multiply filter blur-3xl opacity-20 animate-blob animation-delay-4000"></div>
+          </div>
 
-      {/* Floating particles */}
-      <div className="absolute inset-0 -z-10 overflow-hidden">
-        {[...Array(20)].map((_, i) => (
-          <div
-            key={i}
-            className="absolute w-2 h-2 bg-white rounded-full opacity-10"
-            style={{
-              left: `${Math.random() * 100}%`,
-              top: `${Math.random() * 100}%`,
-              animation: `float ${5 + Math.random() * 10}s ease-in-out infinite`,
-              animationDelay: `${Math.random() * 5}s`,
-            }}
-          />
-        ))}
-      </div>
+          {/* Floating particles */}
+          <div className="absolute inset-0 -z-10 overflow-hidden">
+            {[...Array(20)].map((_, i) => (
+              <div
+                key={i}
+                className="absolute w-2 h-2 bg-white rounded-full opacity-10"
+                style={{
+                  left: `${Math.random() * 100}%`,
+                  top: `${Math.random() * 100}%`,
+                  animation: `float ${5 + Math.random() * 10}s ease-in-out infinite`,
+                  animationDelay: `${Math.random() * 5}s`,
+                }}
+              />
+            ))}
+          </div>
+        </>
+      )}
 
       <div className="h-[600px] max-w-2xl w-full flex flex-col">
         {/* Main game card */}
@@ -272,6 +291,7 @@ export function QuickMath() {
                     value={answer}
                     onChange={(e) => setAnswer(e.target.value)}
                     onKeyDown={(e) => e.key === 'Enter' && checkAnswer()}
+                    disabled={paused}
                     className="flex-1 px-5 py-3 rounded-lg text-center text-xl font-bold bg-slate-800/50 border-2 border-slate-700 text-white focus:border-purple-500 focus:outline-none transition-colors"
                     placeholder="?"
                     autoFocus
@@ -1,8 +1,9 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
+import { useAudio } from "@/hooks/use-audio";
+import { decideWinner, matchWinner, type Choice, type RoundWinner } from "@/lib/rules/rock-paper-scissors";
 import { cn } from "@/lib/utils";
-
-type Choice = "rock" | "paper" | "scissors";
+import { GameProps } from "@/types/session";
 
 // <-- image URLs you provided (mapped to choices)
 const IMAGE_URLS: Record<Choice, string> = {
@@ -17,19 +18,7 @@ const choices: { value: Choice; emoji: string; label: string }[] = [
   { value: "scissors", emoji: "✌️", label: "Scissors" },
 ];
 
-function decideWinner(p: Choice, c: Choice): "player" | "computer" | "tie" {
-  if (p === c) return "tie";
-  if (
-    (p === "rock" && c === "scissors") ||
-    (p === "paper" && c === "rock") ||
-    (p === "scissors" && c === "paper")
-  ) {
-    return "player";
-  }
-  return "computer";
-}
-
-export function RockPaperScissors() {
+export function RockPaperScissors({ session }: GameProps) {
   const [playerChoice, setPlayerChoice] = useState<Choice | null>(null);
   const [computerChoice, setComputerChoice] = useState<Choice | null>(null);
   const [result, setResult] = useState<string>("");
@@ -38,53 +27,12 @@ export function RockPaperScissors() {
   const [round, setRound] = useState(1);
   const [isThinking, setIsThinking] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
-  const [lastRoundOutcome, setLastRoundOutcome] = useState<"player" | "computer" | "tie" | null>(null);
+  const [lastRoundOutcome, setLastRoundOutcome] = useState<RoundWinner | null>(null);
 
-  // audio
-  const audioCtxRef = useRef<AudioContext | null>(null);
-  const masterGain = useRef<GainNode | null>(null);
-
-  useEffect(() => {
-    return () => {
-      try {
-        audioCtxRef.current?.close();
-      } catch {}
-    };
-  }, []);
-
-  const ensureAudio = () => {
-    if (!audioCtxRef.current) {
-      try {
-        const ac = new (window.AudioContext || (window as any).webkitAudioContext)();
-        const g = ac.createGain();
-        g.gain.value = 0.08;
-        g.connect(ac.destination);
-        audioCtxRef.current = ac;
-        masterGain.current = g;
-      } catch {
-        audioCtxRef.current = null;
-      }
-    }
-  };
+  const audio = useAudio();
 
   const playBeep = (freq: number, time = 0.12) => {
-    try {
-      ensureAudio();
-      const ac = audioCtxRef.current!;
-      const o = ac.createOscillator();
-      const g = ac.createGain();
-      o.type = "sine";
-      o.frequency.value = freq;
-      g.gain.setValueAtTime(0.0001, ac.currentTime);
-      g.gain.exponentialRampToValueAtTime(1, ac.currentTime + 0.01);
-      g.gain.exponentialRampToValueAtTime(0.001, ac.currentTime + time);
-      o.connect(g);
-      g.connect(masterGain.current!);
-      o.start();
-      o.stop(ac.currentTime + time + 0.02);
-    } catch {
-      // ignore audio errors
-    }
+    audio.playTone(freq, time * 1000, { gain: 0.15 });
   };
 
   // reset game
@@ -116,7 +64,7 @@ export function RockPaperScissors() {
   // Play a round: animate hands, delay for "thinking", then decide
   const play = (choice: Choice) => {
     if (isAnimating) return;
-    ensureAudio();
+    if (round === 1) session.start();
     setPlayerChoice(choice);
     setComputerChoice(null);
     setResult("");
@@ -130,7 +78,7 @@ export function RockPaperScissors() {
 
     setTimeout(() => {
       // pick computer choice
-      const comp = choices[Math.floor(Math.random() * choices.length)].value;
+      const comp = choices[Math.floor(session.random() * choices.length)].value;
       setComputerChoice(comp);
       playBeep(360, 0.12); // reveal tone
 
@@ -163,14 +111,16 @@ export function RockPaperScissors() {
 
   // check for overall winner
   useEffect(() => {
-    if (score.player >= roundsToWin) {
-      setResult("You won the match! ");
-      setIsAnimating(false);
-    } else if (score.computer >= roundsToWin) {
-      setResult("Computer won the match. Try again.");
-      setIsAnimating(false);
-    }
-  }, [score, roundsToWin]);
+    const winner = matchWinner(score, roundsToWin);
+    if (!winner) return;
+    setResult(winner === "player" ? "You won the match! " : "Computer won the match. Try again.");
+    setIsAnimating(false);
+    session.end({
+      score: score.player,
+      outcome: winner === "player" ? "win" : "loss",
+      stats: { roundsToWin, computer: score.computer },
+    });
+  }, [score, roundsToWin, session]);
 
   // Small helper to render big hand with realistic motion classes
   const Hand = ({ who, choice, highlight }: { who: "you" | "cpu"; choice: Choice | null; highlight?: boolean }) => {
@@ -236,8 +186,8 @@ export function RockPaperScissors() {
           </div>
         </div>
 
-        {/* controls / choices */}
-        <div className="flex items-center justify-center gap-3 mb-3">
+        {/* controls / choices - each pick already beeps */}
+        <div className="flex items-center justify-center gap-3 mb-3" data-sfx="off">
           {choices.map(c => {
             const disabled = isThinking || (score.player >= roundsToWin) || (score.computer >= roundsToWin);
             return (
@@ -1,6 +1,9 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { useAccessibilitySettings } from '@/hooks/use-accessibility';
+import { useAudio } from '@/hooks/use-audio';
 import { cn } from '@/lib/utils';
+import { GameProps } from '@/types/session';
 
 const COLORS = ['red', 'blue', 'green', 'yellow'] as const;
 type Color = typeof COLORS[number];
@@ -12,9 +15,17 @@ const colorStyles: Record<Color, { base: string; active: string; ring: string; t
   yellow: { base: 'bg-yellow-700/50 border-yellow-400', active: 'bg-yellow-500 shadow-[0_0_28px_rgba(250,204,21,0.65)]', ring: 'ring-yellow-400/60', tone: 260 },
 };
 
+// Okabe-Ito stand-ins for the colour-blind palette; the pads keep their names and tones
+const colorBlindStyles: Record<Color, { base: string; active: string; ring: string }> = {
+  red: { base: 'bg-[#D55E00]/50 border-[#D55E00]', active: 'bg-[#D55E00] shadow-[0_0_28px_rgba(213,94,0,0.65)]', ring: 'ring-[#D55E00]/60' },
+  blue: { base: 'bg-[#0072B2]/50 border-[#56B4E9]', active: 'bg-[#0072B2] shadow-[0_0_28px_rgba(0,114,178,0.65)]', ring: 'ring-[#56B4E9]/60' },
+  green: { base: 'bg-[#009E73]/50 border-[#009E73]', active: 'bg-[#009E73] shadow-[0_0_28px_rgba(0,158,115,0.65)]', ring: 'ring-[#009E73]/60' },
+  yellow: { base: 'bg-[#F0E442]/50 border-[#F0E442]', active: 'bg-[#F0E442] shadow-[0_0_28px_rgba(240,228,66,0.65)]', ring: 'ring-[#F0E442]/60' },
+};
+
 type Difficulty = 'easy' | 'medium' | 'hard';
 
-export function SimonSays() {
+export function SimonSays({ session, paused }: GameProps) {
   const [sequence, setSequence] = useState<Color[]>([]);
   const [playerSequence, setPlayerSequence] = useState<Color[]>([]);
   const [isShowingSequence, setIsShowingSequence] = useState(false);
@@ -25,47 +36,18 @@ export function SimonSays() {
   const [difficulty, setDifficulty] = useState<Difficulty>('easy');
   const [speedBoost, setSpeedBoost] = useState(0); // reduces flash duration as streak grows
   const [combo, setCombo] = useState(0);
+  // read by the async sequence playback, which outlives any single render
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
 
-  // sound
-  const audioCtxRef = useRef<AudioContext | null>(null);
-  const masterGain = useRef<GainNode | null>(null);
-
-  useEffect(() => {
-    // lazy init audio when user interacts (some browsers disallow autoplay)
-    return () => {
-      if (audioCtxRef.current) {
-        try { audioCtxRef.current.close(); } catch { /* ignore */ }
-      }
-    };
-  }, []);
-
+  const audio = useAudio();
+  const { colorBlindPalette, gameSpeed } = useAccessibilitySettings();
+  const padStyles = colorBlindPalette ? colorBlindStyles : colorStyles;
   const toneFor = (color: Color) => colorStyles[color].tone;
 
   const playTone = useCallback((freq: number, duration = 140) => {
-    try {
-      if (!audioCtxRef.current) {
-        const ac = new (window.AudioContext || (window as any).webkitAudioContext)();
-        audioCtxRef.current = ac;
-        masterGain.current = ac.createGain();
-        masterGain.current.gain.value = 0.12;
-        masterGain.current.connect(ac.destination);
-      }
-      const ac = audioCtxRef.current!;
-      const osc = ac.createOscillator();
-      osc.type = 'sine';
-      osc.frequency.value = freq;
-      const g = ac.createGain();
-      g.gain.setValueAtTime(0, ac.currentTime);
-      g.gain.linearRampToValueAtTime(1, ac.currentTime + 0.01);
-      g.gain.exponentialRampToValueAtTime(0.001, ac.currentTime + duration / 1000);
-      osc.connect(g);
-      g.connect(masterGain.current!);
-      osc.start();
-      osc.stop(ac.currentTime + duration / 1000 + 0.02);
-    } catch {
-      // silent failure if audio unavailable
-    }
-  }, []);
+    audio.playTone(freq, duration, { gain: 0.2 });
+  }, [audio]);
 
   // difficulty settings
   const settings: Record<Difficulty, { flash: number; pause: number }> = {
@@ -80,13 +62,16 @@ export function SimonSays() {
   // show sequence (async so we can await)
   const showSequence = useCallback(async (seq: Color[]) => {
     setIsShowingSequence(true);
-    const baseFlash = settings[difficulty].flash;
-    const basePause = settings[difficulty].pause;
+    // slow mode holds each flash and gap longer
+    const baseFlash = settings[difficulty].flash / gameSpeed;
+    const basePause = settings[difficulty].pause / gameSpeed;
 
     for (let i = 0; i < seq.length; i++) {
       const color = seq[i];
       // progressive speed boost based on combo and speedBoost counter
       const flash = Math.max(120, baseFlash - speedBoost * 20);
+      // hold the playback between flashes so no step of the sequence is shown behind the pause menu
+      while (pausedRef.current) await sleep(100);
       setActiveColor(color);
       playTone(toneFor(color), Math.round(flash * 0.75));
       await sleep(flash);
@@ -96,29 +81,19 @@ export function SimonSays() {
     // small final pause
     await sleep(120);
     setIsShowingSequence(false);
-  }, [difficulty, playTone, speedBoost]);
+  }, [difficulty, playTone, speedBoost, gameSpeed]);
 
   // add next random color
   const addNext = useCallback((prevSeq: Color[]) => {
-    const next = COLORS[Math.floor(Math.random() * COLORS.length)];
+    const next = COLORS[Math.floor(session.random() * COLORS.length)];
     return [...prevSeq, next];
-  }, []);
+  }, [session]);
 
   // start game
   const startGame = useCallback(() => {
-    // ensures audio context created on user gesture
-    if (!audioCtxRef.current) {
-      try {
-        audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-        masterGain.current = audioCtxRef.current.createGain();
-        masterGain.current.gain.value = 0.12;
-        masterGain.current.connect(audioCtxRef.current.destination);
-      } catch {
-        audioCtxRef.current = null;
-      }
-    }
+    session.start();
 
-    const first = COLORS[Math.floor(Math.random() * COLORS.length)];
+    const first = COLORS[Math.floor(session.random() * COLORS.length)];
     const seq = [first];
     setSequence(seq);
     setPlayerSequence([]);
@@ -129,11 +104,18 @@ export function SimonSays() {
     setSpeedBoost(0);
     // show after tiny delay so UI updates
     setTimeout(() => showSequence(seq), 420);
-  }, [showSequence]);
+  }, [showSequence, session]);
+
+  useEffect(() => {
+    if (gameOver) {
+      session.end({ score, outcome: 'loss', stats: { difficulty, rounds: sequence.length } });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameOver]);
 
   // handle player's click/tap/keyboard input
   const handleColorInput = useCallback((color: Color) => {
-    if (isShowingSequence || gameOver || !isPlaying) return;
+    if (isShowingSequence || gameOver || !isPlaying || paused) return;
     setPlayerSequence(prev => {
       const next = [...prev, color];
       const idx = next.length - 1;
@@ -158,6 +140,7 @@ export function SimonSays() {
         const newScore = score + 1 + Math.floor(combo / 3); // combo bonus
         setScore(newScore);
         setCombo(c => c + 1);
+        audio.play('score');
         // every 3 combos speed up slightly
         setSpeedBoost(sb => {
           if ((combo + 1) % 3 === 0) return Math.min(6, sb + 1);
@@ -172,12 +155,13 @@ export function SimonSays() {
       }
       return next;
     });
-  }, [isShowingSequence, gameOver, isPlaying, playTone, sequence, score, combo, addNext, showSequence]);
+  }, [isShowingSequence, gameOver, isPlaying, paused, audio, playTone, sequence, score, combo, addNext, showSequence]);
 
   // keyboard support (use keys: q,w,a,s mapped to colors)
   useEffect(() => {
     const map: Record<string, Color> = { q: 'red', w: 'blue', a: 'green', s: 'yellow' };
     const onKey = (e: KeyboardEvent) => {
+      if (pausedRef.current) return;
       const k = e.key.toLowerCase();
       if (k === 'r') {
         startGame();
@@ -258,8 +242,8 @@ export function SimonSays() {
           {renderParticles()}
         </div>
 
-        {/* grid */}
-        <div className="grid grid-cols-2 gap-4 px-6 py-4">
+        {/* grid - the pads play their own notes */}
+        <div className="grid grid-cols-2 gap-4 px-6 py-4" data-sfx="off">
           {COLORS.map((color) => {
             const isActive = activeColor === color || isShowingSequence && activeColor === color;
             return (
@@ -273,8 +257,8 @@ export function SimonSays() {
                 className={cn(
                   'relative flex items-center justify-center rounded-3xl border-4 transition-transform duration-150 active:scale-95',
                   'h-36 sm:h-44',
-                  colorStyles[color].base,
-                  isActive ? `${colorStyles[color].active} ${colorStyles[color].ring} ring-4` : 'hover:scale-105'
+                  padStyles[color].base,
+                  isActive ? `${padStyles[color].active} ${padStyles[color].ring} ring-4` : 'hover:scale-105'
                 )}
               >
                 {/* subtle inner glow */}
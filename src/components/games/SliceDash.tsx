@@ -0,0 +1,116 @@
+import React, { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { useSimRun } from "@/hooks/use-sim-run";
+import { toBoardPoint } from "@/lib/engine";
+import { usePersonalBest } from "@/hooks/use-stats";
+import { comboMultiplier, sliceDashSim } from "@/lib/sims/slice-dash";
+import { GameProps } from "@/types/session";
+
+/**
+ * SliceDash - fast swipe / slice mini-game
+ *
+ * Controls:
+ * - Tap & drag (mouse or touch) to slice falling objects.
+ * - Start / Reset buttons.
+ *
+ * Mechanics (see lib/sims/slice-dash):
+ * - Objects spawn from top and fall.
+ * - Slicing an object (segment vs circle collision) destroys it and increases score.
+ * - Combos increase multiplier; misses reduce combo.
+ * - Particles + floating points on slice.
+ * - Bomb penalty: -500 points (no game over)
+ * - Miss 10 objects: Game Over
+ */
+
+const GAME_W = 480;
+const GAME_H = 500;
+const MAX_MISSES = 10;
+
+export function SliceDash({ session, paused }: GameProps): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const best = usePersonalBest(session.gameId) ?? 0;
+
+  const { phase, hud, start, reset, send } = useSimRun(sliceDashSim, canvasRef, {
+    session,
+    paused,
+    hud: (s) => ({ score: s.score, missed: s.missed, combo: s.combo }),
+  });
+
+  const sendRef = useRef(send);
+  sendRef.current = send;
+
+  // pointer events cover mouse, pen and touch; positions are whole board pixels so replays stay compact
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let pointerDown = false;
+
+    const cut = (kind: string, e: PointerEvent) => {
+      const { x, y } = toBoardPoint(canvas, e.clientX, e.clientY, GAME_W, GAME_H);
+      sendRef.current([kind, x, y]);
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      e.preventDefault();
+      pointerDown = true;
+      cut("cut-start", e);
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      if (!pointerDown) return;
+      e.preventDefault();
+      cut("cut", e);
+    };
+    const onPointerUp = () => {
+      if (!pointerDown) return;
+      pointerDown = false;
+      sendRef.current(["cut-end"]);
+    };
+
+    canvas.addEventListener("pointerdown", onPointerDown);
+    window.addEventListener("pointermove", onPointerMove);
+    window.addEventListener("pointerup", onPointerUp);
+
+    return () => {
+      canvas.removeEventListener("pointerdown", onPointerDown);
+      window.removeEventListener("pointermove", onPointerMove);
+      window.removeEventListener("pointerup", onPointerUp);
+    };
+  }, []);
+
+  return (
+    <div className="h-[620px] max-w-xl mx-auto p-4 bg-black rounded-2xl">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-display text-white"></h3>
+          <div className="text-xs text-muted-foreground">𝚂𝚠𝚒𝚙𝚎 𝚝𝚘 𝚜𝚕𝚒𝚌𝚎 ✦ 𝚊𝚟𝚘𝚒𝚍 𝚋𝚘𝚖𝚋𝚜 (-𝟻𝟶𝟶𝚙𝚝𝚜) ✦ 𝚍𝚘𝚗'𝚝 𝚖𝚒𝚜𝚜 𝟷𝟶!</div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="default" onClick={start} disabled={phase === "running"}>Start</Button>
+          <Button variant="outline" onClick={reset}>Reset</Button>
+        </div>
+      </div>
+
+      <div className="h-[520px] bg-card p-3 rounded-xl border border-border">
+        <div className="rounded-lg overflow-hidden border border-white/6">
+          <canvas ref={canvasRef} style={{ width: GAME_W, height: GAME_H, display: "block", touchAction: "none" }} />
+        </div>
+
+        <div className="mt-3 flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            𝚂𝚌𝚘𝚛𝚎: <span className="font-bold text-primary">{hud.score}</span>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            𝙱𝚎𝚜𝚝: <span className="font-bold text-primary">{Math.max(best, hud.score)}</span>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            𝙼𝚒𝚜𝚜𝚎𝚍: <span className={`font-bold ${hud.missed >= MAX_MISSES - 3 ? 'text-red-500' : 'text-white'}`}>{hud.missed}/{MAX_MISSES}</span>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            𝙲𝚘𝚖𝚋𝚘: <span className="font-bold text-cyan-400">{hud.combo}</span> ×{comboMultiplier(hud.combo)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,98 +1,35 @@
-import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
-
-const GRID_SIZE = 15;
-const INITIAL_SPEED = 150;
-
-type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
-type Position = { x: number; y: number };
-
-export function Snake() {
-  const [snake, setSnake] = useState<Position[]>([{ x: 7, y: 7 }]);
-  const [food, setFood] = useState<Position>({ x: 5, y: 5 });
-  const [direction, setDirection] = useState<Direction>('RIGHT');
-  const [isGameOver, setIsGameOver] = useState(false);
-  const [score, setScore] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-
-  const generateFood = useCallback(() => {
-    const newFood = {
-      x: Math.floor(Math.random() * GRID_SIZE),
-      y: Math.floor(Math.random() * GRID_SIZE),
-    };
-    setFood(newFood);
-  }, []);
-
-  const resetGame = () => {
-    setSnake([{ x: 7, y: 7 }]);
-    setDirection('RIGHT');
-    setIsGameOver(false);
-    setScore(0);
-    setIsPlaying(true);
-    generateFood();
+import { useInputActions } from '@/hooks/use-input-actions';
+import { useSimRun } from '@/hooks/use-sim-run';
+import { GRID_SIZE, snakeSim } from '@/lib/sims/snake';
+import type { InputAction } from '@/types/input';
+import { GameProps } from '@/types/session';
+
+// index into the sim's clockwise headings
+const turns: Partial<Record<InputAction, number>> = { up: 0, right: 1, down: 2, left: 3 };
+
+export function Snake({ session, paused }: GameProps) {
+  // the board is drawn in the DOM, so the sim runs without a canvas
+  const { phase, hud, start, send } = useSimRun(snakeSim, null, {
+    session,
+    paused,
+    hud: (s) => ({ snake: s.snake, food: s.food, score: s.score }),
+  });
+  const { snake, food, score } = hud;
+  const isPlaying = phase === 'running';
+  const isGameOver = phase === 'over';
+
+  // Pause hands over to the wrapper's pause menu, which resumes the run
+  const togglePlaying = () => {
+    if (isPlaying) session.pause();
+    else start();
   };
 
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (!isPlaying) return;
-      switch (e.key) {
-        case 'ArrowUp':
-          if (direction !== 'DOWN') setDirection('UP');
-          break;
-        case 'ArrowDown':
-          if (direction !== 'UP') setDirection('DOWN');
-          break;
-        case 'ArrowLeft':
-          if (direction !== 'RIGHT') setDirection('LEFT');
-          break;
-        case 'ArrowRight':
-          if (direction !== 'LEFT') setDirection('RIGHT');
-          break;
-      }
-    };
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [direction, isPlaying]);
-
-  useEffect(() => {
-    if (!isPlaying || isGameOver) return;
-
-    const moveSnake = () => {
-      setSnake(prev => {
-        const head = { ...prev[0] };
-        switch (direction) {
-          case 'UP': head.y -= 1; break;
-          case 'DOWN': head.y += 1; break;
-          case 'LEFT': head.x -= 1; break;
-          case 'RIGHT': head.x += 1; break;
-        }
-
-        if (head.x < 0 || head.x >= GRID_SIZE || head.y < 0 || head.y >= GRID_SIZE) {
-          setIsGameOver(true);
-          setIsPlaying(false);
-          return prev;
-        }
-
-        if (prev.some(segment => segment.x === head.x && segment.y === head.y)) {
-          setIsGameOver(true);
-          setIsPlaying(false);
-          return prev;
-        }
-
-        const newSnake = [head, ...prev];
-        if (head.x === food.x && head.y === food.y) {
-          setScore(s => s + 10);
-          generateFood();
-        } else {
-          newSnake.pop();
-        }
-        return newSnake;
-      });
-    };
-
-    const interval = setInterval(moveSnake, INITIAL_SPEED);
-    return () => clearInterval(interval);
-  }, [direction, food, isPlaying, isGameOver, generateFood]);
+  useInputActions(session.gameId, (action, pressed) => {
+    if (!pressed || paused) return;
+    const heading = turns[action];
+    if (heading !== undefined) send(['turn', heading]);
+  });
 
   return (
     <div className="h-[600px] flex items-center justify-center p-6 bg-black relative overflow-hidden">
@@ -102,10 +39,10 @@ export function Snake() {
         <div className="flex items-center justify-between mb-4 gap-2">
           <h2 className="text-2xl font-display text-white"></h2>
           <div className="flex gap-2">
-            <Button variant={isPlaying ? 'neon' : undefined} onClick={() => setIsPlaying(!isPlaying)}>
+            <Button variant={isPlaying ? 'neon' : undefined} onClick={togglePlaying}>
               {isPlaying ? 'Pause' : 'Play'}
             </Button>
-            <Button variant="neon" onClick={resetGame}>Restart</Button>
+            <Button variant="neon" onClick={start}>Restart</Button>
           </div>
         </div>
 
@@ -0,0 +1,89 @@
+import React, { useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { useSimRun } from "@/hooks/use-sim-run";
+import { usePersonalBest } from "@/hooks/use-stats";
+import { stackSim } from "@/lib/sims/stack-builder";
+import { GameProps } from "@/types/session";
+
+export function StackBuilder({ session, paused }: GameProps): JSX.Element {
+  const CANVAS_W = 335;
+  const CANVAS_H = 425;
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const best = usePersonalBest(session.gameId) ?? 0;
+
+  const { phase, hud, start, reset, send } = useSimRun(stackSim, canvasRef, {
+    session,
+    paused,
+    hud: (s) => ({ score: s.score }),
+    overlay: (ctx, s) => {
+      ctx.fillStyle = "rgba(255,255,255,0.6)";
+      ctx.font = "12px system-ui, sans-serif";
+      ctx.textAlign = "left";
+      ctx.fillText(`Best: ${Math.max(best, s.score)}`, 12, 38);
+    },
+  });
+
+  const startPlay = () => {
+    if (phase !== "running") start();
+  };
+
+  // INPUT HANDLERS — ONLY tap/click outside controls (no Space). Do NOT auto-start on click.
+  useEffect(() => {
+    const press = (target: Element | null) => {
+      if (paused) return;
+      // ignore presses on controls (buttons, inputs) to avoid starting + immediate drop
+      if (target?.closest("button, input, label, .no-drop")) return;
+      if (phase === "running") send(["drop"]);
+      // after game over, a press clears the board for the next run
+      else if (phase === "over") reset();
+      // NOTE: do NOT start the game on click — Start button must be used.
+    };
+
+    const onClick = (e: MouseEvent) => press(e.target instanceof Element ? e.target : null);
+    const onTouch = (e: TouchEvent) => {
+      const touch = e.touches[0];
+      if (touch) press(document.elementFromPoint(touch.clientX, touch.clientY));
+    };
+
+    window.addEventListener("click", onClick);
+    window.addEventListener("touchstart", onTouch);
+
+    return () => {
+      window.removeEventListener("click", onClick);
+      window.removeEventListener("touchstart", onTouch);
+    };
+  }, [phase, paused, send, reset]);
+
+  return (
+    <div className="flex flex-col items-center gap-4 p-4 p-6 bg-black">
+      <div className="relative w-[380px]">
+        <div className="absolute inset-0 -z-10 animate-float bg-gradient-to-br from-purple-700 via-pink-600 to-cyan-500 opacity-20 mix-blend-screen filter blur-2xl" />
+        <div className="h-[510px] bg-white/4 p-3 rounded-2xl border border-white/10 shadow-xl">
+          <div className="flex items-center justify-between mb-2">
+            <div>
+              <div className="text-sm text-muted-foreground"></div>
+              <div className="text-xs text-muted-foreground">𝚃𝚊𝚙 𝚝𝚘 𝚍𝚛𝚘𝚙</div>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="text-sm text-muted-foreground">𝐒𝐂𝐎𝐑𝐄</div>
+              <div className="text-lg font-bold text-primary">{hud.score}</div>
+              <Button variant="neon" onClick={startPlay}>Start</Button>
+              <Button variant="neon" onClick={reset}>Reset</Button>
+            </div>
+          </div>
+
+          <div className="h-[445px] bg-card rounded-xl p-2 border-2 border-border">
+            <canvas ref={canvasRef} style={{ width: CANVAS_W, height: CANVAS_H, display: "block" }} />
+          </div>
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground">𝙰𝚕𝚒𝚐𝚗 𝚋𝚕𝚘𝚌𝚔𝚜 𝚝𝚘 𝚜𝚝𝚊𝚌𝚔 — 𝚖𝚒𝚜𝚜 𝚝𝚘𝚘 𝚖𝚞𝚌𝚑 𝚊𝚗𝚍 𝚒𝚝 𝚌𝚘𝚕𝚕𝚊𝚙𝚜𝚎𝚜.</div>
+
+      <style>{`
+        @keyframes float { 0% { transform: translateY(-8px) } 50% { transform: translateY(8px) } 100% { transform: translateY(-8px) } }
+        .animate-float { animation: float 8s ease-in-out infinite; }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { useInputActions } from "@/hooks/use-input-actions";
+import { useSimRun } from "@/hooks/use-sim-run";
+import { getStickAxes } from "@/lib/gamepad";
+import { quantizeAxis } from "@/lib/sim";
+import { tankSim, WIN_SCORE } from "@/lib/sims/tank-battle";
+import { getVirtualStick } from "@/lib/virtual-controls";
+import type { InputAction } from "@/types/input";
+import { GameProps } from "@/types/session";
+
+/**
+ * 2D Tank Battle - Player vs Computer
+ *
+ * Controls:
+ * Player (Red): up/down to drive, left/right to turn, primary to shoot (WASD + Space unless rebound)
+ * Gamepad: left stick drives and turns proportionally, A shoots
+ * Computer (Blue): Computer controlled
+ *
+ * Mechanics (see lib/sims/tank-battle):
+ * - Tanks can rotate and move forward/backward
+ * - Shoot bullets to damage opponent
+ * - Bullets reflect off walls (up to 2 bounces)
+ * - Destructible and indestructible walls
+ * - First to 5 kills wins
+ */
+
+const GAME_W = 800;
+const GAME_H = 470;
+
+export function TankBattle({ session, paused }: GameProps): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // held actions rather than raw keys, so the sim doesn't care what they are bound to
+  const keysRef = useRef<Set<InputAction>>(new Set());
+
+  const { phase, hud, start, reset, send } = useSimRun(tankSim, canvasRef, {
+    session,
+    paused,
+    hud: (s) => ({ score1: s.score1, score2: s.score2 }),
+    poll: (send, s) => {
+      const stick = getVirtualStick() ?? getStickAxes();
+      const x = quantizeAxis(stick.x);
+      const y = quantizeAxis(stick.y);
+      if (x !== s.stick.x || y !== s.stick.y) send(["stick", x, y]);
+    },
+  });
+
+  const sendDrive = () => {
+    const keys = keysRef.current;
+    const throttle = (keys.has("up") ? 1 : 0) - (keys.has("down") ? 1 : 0);
+    const turn = (keys.has("right") ? 1 : 0) - (keys.has("left") ? 1 : 0);
+    send(["drive", throttle, turn]);
+  };
+
+  useEffect(() => {
+    // keyup never arrives for keys released while the pause menu had focus
+    if (!paused || keysRef.current.size === 0) return;
+    keysRef.current.clear();
+    sendDrive();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paused]);
+
+  // Keyboard / gamepad input
+  useInputActions(session.gameId, (action, pressed, e) => {
+    if (!pressed) {
+      if (keysRef.current.delete(action)) sendDrive();
+      return;
+    }
+    if (paused) return;
+    keysRef.current.add(action);
+    sendDrive();
+
+    if (action === "primary" && phase === "running") {
+      e?.preventDefault();
+      send(["fire"]);
+    }
+  });
+
+  return (
+    <div className="h-[620px] w-full max-w-5xl mx-auto p-4 bg-black rounded-2xl">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-xl font-display text-white"></h3>
+          <div className="text-xs text-muted-foreground">
+            𝚆𝙰𝚂𝙳 𝚝𝚘 𝚖𝚘𝚟𝚎 • 𝚂𝚙𝚊𝚌𝚎 𝚝𝚘 𝚜𝚑𝚘𝚘𝚝 • 𝙱𝚞𝚕𝚕𝚎𝚝𝚜 𝚋𝚘𝚞𝚗𝚌𝚎 𝚝𝚠𝚒𝚌𝚎! • 𝙵𝚒𝚛𝚜𝚝 𝚝𝚘 {WIN_SCORE} 𝚠𝚒𝚗𝚜
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="default" onClick={start} disabled={phase === "running"}>
+            {phase === "over" ? "Play Again" : "Start"}
+          </Button>
+          <Button variant="outline" onClick={reset}>
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <div className="h-[540px] bg-card p-3 rounded-xl border border-border">
+        <div className="h-[480px] rounded-lg overflow-hidden border border-white/6">
+          <canvas
+            ref={canvasRef}
+            style={{
+              width: GAME_W,
+              height: GAME_H,
+              display: "block",
+              imageRendering: "crisp-edges",
+            }}
+          />
+        </div>
+
+        <div className="mt-3 flex items-center justify-between">
+          <div className="text-sm">
+            <span className="text-red-500 font-bold">𝙿𝚕𝚊𝚢𝚎𝚛</span>
+            <span className="text-muted-foreground"> : </span>
+            <span className="font-bold">{hud.score1}</span>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            𝙵𝚒𝚛𝚜𝚝 𝚝𝚘 <span className="font-bold text-white">{WIN_SCORE}</span> 𝚔𝚒𝚕𝚕𝚜
+          </div>
+          <div className="text-sm">
+            <span className="text-blue-500 font-bold">𝙲𝚘𝚖𝚙𝚞𝚝𝚎𝚛</span>
+            <span className="text-muted-foreground"> : </span>
+            <span className="font-bold">{hud.score2}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,24 +1,37 @@
 import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { useAudio } from '@/hooks/use-audio';
+import { calculateWinner, findBestMove, otherMark, type Mark, type Square } from '@/lib/rules/tic-tac-toe';
 import { cn } from '@/lib/utils';
+import { GameProps } from '@/types/session';
 
-type Player = 'X' | 'O' | null;
-
-export function TicTacToe() {
-  const [board, setBoard] = useState<Player[]>(Array(9).fill(null));
+export function TicTacToe({ session }: GameProps) {
+  const [board, setBoard] = useState<Square[]>(Array(9).fill(null));
   const [isXNext, setIsXNext] = useState(true);
   const [mode, setMode] = useState<'single' | 'multi'>('single');
-  const [playerSymbol, setPlayerSymbol] = useState<Player>('X');
+  const [playerSymbol, setPlayerSymbol] = useState<Mark>('X');
+  const audio = useAudio();
   const winner = calculateWinner(board);
+  const isDraw = !winner && board.every(Boolean);
+
+  useEffect(() => {
+    if (!winner && !isDraw) return;
+    if (mode === 'multi') {
+      session.end({ score: 0, outcome: 'completed', stats: { mode, winner: winner ?? 'draw' } });
+      return;
+    }
+    const outcome = isDraw ? 'draw' : winner === playerSymbol ? 'win' : 'loss';
+    session.end({ score: outcome === 'win' ? 1 : 0, outcome, stats: { mode, symbol: playerSymbol } });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [winner, isDraw]);
 
   useEffect(() => {
     // If single player and it's computer's turn, make move
     if (mode === 'single') {
-      const computer = playerSymbol === 'X' ? 'O' : 'X';
       const humanTurn = (playerSymbol === 'X') === isXNext; // true if it's human's turn
       if (!winner && !board.every(Boolean) && !humanTurn) {
         const timeout = setTimeout(() => {
-          const move = findBestMove(board, computer as Player);
+          const move = findBestMove(board, otherMark(playerSymbol));
           if (move !== -1) makeMove(move);
         }, 400); // small delay for UX
         return () => clearTimeout(timeout);
@@ -28,8 +41,10 @@ export function TicTacToe() {
 
   const makeMove = (index: number) => {
     if (board[index] || winner) return;
+    if (board.every(cell => cell === null)) session.start();
     const newBoard = [...board];
     newBoard[index] = isXNext ? 'X' : 'O';
+    audio.play('click');
     setBoard(newBoard);
     setIsXNext(!isXNext);
   };
@@ -37,7 +52,6 @@ export function TicTacToe() {
   const handleClick = (index: number) => {
     if (mode === 'single') {
       // prevent clicking when it's computer's turn
-      const computer = playerSymbol === 'X' ? 'O' : 'X';
       const humanTurn = (playerSymbol === 'X') === isXNext;
       if (!humanTurn) return;
     }
@@ -82,7 +96,8 @@ export function TicTacToe() {
 
         <div className="text-lg text-white/90 mb-6">{status}</div>
 
-        <div className="grid grid-cols-3 gap-3 mb-5">
+        {/* every move ticks, including the computer's, so the squares skip the generic click */}
+        <div className="grid grid-cols-3 gap-3 mb-5" data-sfx="off">
           {board.map((cell, index) => (
             <button
               key={index}
@@ -126,62 +141,3 @@ export function TicTacToe() {
     </div>
   );
 }
-/* ----------------- helper logic ----------------- */
-function calculateWinner(squares: Player[]): Player {
-  const lines = [
-    [0, 1, 2], [3, 4, 5], [6, 7, 8],
-    [0, 3, 6], [1, 4, 7], [2, 5, 8],
-    [0, 4, 8], [2, 4, 6],
-  ];
-  for (const [a, b, c] of lines) {
-    if (squares[a] && squares[a] === squares[b] && squares[a] === squares[c]) {
-      return squares[a];
-    }
-  }
-  return null;
-}
-
-// Minimax algorithm for perfect play (small board — performant)
-function findBestMove(board: Player[], computer: Player): number {
-  // If board empty, pick center for speed
-  if (board.every(cell => cell === null)) return 4;
-
-  const opponent: Player = computer === 'X' ? 'O' : 'X';
-
-  function minimax(b: Player[], isMaximizing: boolean): {score: number, move: number} {
-    const win = calculateWinner(b);
-    if (win === computer) return { score: 10, move: -1 };
-    if (win === opponent) return { score: -10, move: -1 };
-    if (b.every(Boolean)) return { score: 0, move: -1 };
-
-    let bestScore = isMaximizing ? -Infinity : Infinity;
-    let bestMove = -1;
-
-    for (let i = 0; i < 9; i++) {
-      if (!b[i]) {
-        b[i] = isMaximizing ? computer : opponent;
-        const result = minimax(b, !isMaximizing);
-        b[i] = null;
-
-        if (isMaximizing) {
-          if (result.score > bestScore) {
-            bestScore = result.score;
-            bestMove = i;
-          }
-        } else {
-          if (result.score < bestScore) {
-            bestScore = result.score;
-            bestMove = i;
-          }
-        }
-      }
-    }
-
-    return { score: bestScore, move: bestMove };
-  }
-
-  const { move } = minimax([...board], true);
-  return move === -1 ? board.findIndex(c => !c) : move;
-}
-
-
@@ -1,6 +1,9 @@
 import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
+import { useAudio } from '@/hooks/use-audio';
+import { usePersonalBest } from '@/hooks/use-stats';
 import { cn } from '@/lib/utils';
+import { GameProps } from '@/types/session';
 
 const sentences = [
   "The quick brown fox jumps over the lazy dog",
@@ -15,7 +18,7 @@ const sentences = [
 
 type Mode = 'practice' | 'timed';
 
-export function TypingSpeed() {
+export function TypingSpeed({ session, paused }: GameProps) {
   const [text, setText] = useState('');
   const [target, setTarget] = useState('');
   const [isPlaying, setIsPlaying] = useState(false);
@@ -28,23 +31,26 @@ export function TypingSpeed() {
   const [mode, setMode] = useState<Mode>('practice');
   const [duration, setDuration] = useState(60); // for timed mode
   const [timeLeft, setTimeLeft] = useState(60);
-  const [bestWpm, setBestWpm] = useState<number>(() => Number(localStorage.getItem('typing_best_wpm') || 0));
+  const [bestWpm, setBestWpm] = useState<number>(usePersonalBest(session.gameId) ?? 0);
   const [streak, setStreak] = useState(0);
   const [lastWordCorrect, setLastWordCorrect] = useState<boolean | null>(null);
+  const audio = useAudio();
   const [showCelebration, setShowCelebration] = useState(false);
 
   const inputRef = useRef<HTMLInputElement | null>(null);
   const timerRef = useRef<number | null>(null);
   const tickRef = useRef<number | null>(null);
+  const pausedAtRef = useRef<number | null>(null);
 
   // pick a random sentence
   const pickSentence = () => {
-    const idx = Math.floor(Math.random() * sentences.length);
+    const idx = Math.floor(session.random() * sentences.length);
     return sentences[idx];
   };
 
   // start or restart game
   const startGame = (selectedMode: Mode = mode, dur = duration) => {
+    session.start();
     const sentence = pickSentence();
     setTarget(sentence);
     setText('');
@@ -71,10 +77,7 @@ export function TypingSpeed() {
   const finishGame = (auto = false) => {
     setIsPlaying(false);
     setStartTime(null);
-    if (wpm > bestWpm) {
-      setBestWpm(wpm);
-      try { localStorage.setItem('typing_best_wpm', String(wpm)); } catch {}
-    }
+    if (wpm > bestWpm) setBestWpm(wpm);
     if (wpm >= 50) {
       // little celebration
       setShowCelebration(true);
@@ -85,9 +88,22 @@ export function TypingSpeed() {
     if (tickRef.current) { window.clearInterval(tickRef.current); tickRef.current = null; }
   };
 
+  // metrics run off the wall clock, so a pause pushes startTime forward by however long it lasted
+  useEffect(() => {
+    if (paused) {
+      pausedAtRef.current = Date.now();
+      return;
+    }
+    if (pausedAtRef.current === null) return;
+    const pausedFor = Date.now() - pausedAtRef.current;
+    pausedAtRef.current = null;
+    setStartTime(t => (t === null ? t : t + pausedFor));
+    inputRef.current?.focus();
+  }, [paused]);
+
   // main effect: when playing, update timers
   useEffect(() => {
-    if (!isPlaying) return;
+    if (!isPlaying || paused) return;
 
     // tick every 250ms to update live metrics
     tickRef.current = window.setInterval(() => {
@@ -136,7 +152,7 @@ export function TypingSpeed() {
       if (timerRef.current) { window.clearInterval(timerRef.current); timerRef.current = null; }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isPlaying, startTime, target, text, mode, duration]);
+  }, [isPlaying, paused, startTime, target, text, mode, duration]);
 
   // when user types
   useEffect(() => {
@@ -170,6 +186,7 @@ export function TypingSpeed() {
           setWpm(prev => prev + 0); // visual only (calculated periodically)
         } else {
           setStreak(0);
+          audio.play('error');
         }
       }
     } else {
@@ -178,6 +195,13 @@ export function TypingSpeed() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [text, target, isPlaying]);
 
+  // report the finished run (no-op on mount, since no run is active yet)
+  useEffect(() => {
+    if (isPlaying) return;
+    session.end({ score: wpm, outcome: 'completed', stats: { cpm, accuracy, errors, mode, duration } });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isPlaying]);
+
   // utility - progress percent
   const progressPct = Math.min(100, Math.round((text.length / (target.length || 1)) * 100));
 
@@ -228,7 +252,7 @@ export function TypingSpeed() {
                 onChange={(e) => { if (isPlaying) setText(e.target.value); }}
                 className="w-full p-3 bg-muted rounded-lg border border-border focus:border-primary focus:outline-none text-foreground"
                 placeholder={isPlaying ? "𝚃𝚢𝚙𝚎 𝚑𝚎𝚛𝚎..." : "𝙿𝚛𝚎𝚜𝚜 𝚂𝚝𝚊𝚛𝚝 𝚝𝚘 𝚋𝚎𝚐𝚒𝚗"}
-                disabled={!isPlaying}
+                disabled={!isPlaying || paused}
                 autoCapitalize="off"
                 autoCorrect="off"
                 spellCheck={false}
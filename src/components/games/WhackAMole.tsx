@@ -1,46 +1,53 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
+import { useAccessibilitySettings } from '@/hooks/use-accessibility';
+import { useAudio } from '@/hooks/use-audio';
 import { cn } from '@/lib/utils';
+import { GameProps } from '@/types/session';
 
 const GRID_SIZE = 9;
 const GAME_DURATION = 30;
 
-export function WhackAMole() {
+export function WhackAMole({ session, paused }: GameProps) {
   const [molePosition, setMolePosition] = useState<number | null>(null);
   const [score, setScore] = useState(0);
   const [timeLeft, setTimeLeft] = useState(GAME_DURATION);
   const [isPlaying, setIsPlaying] = useState(false);
+  const audio = useAudio();
+  const { gameSpeed } = useAccessibilitySettings();
 
   const startGame = () => {
     setScore(0);
     setTimeLeft(GAME_DURATION);
     setIsPlaying(true);
+    session.start();
   };
 
   const whackMole = (index: number) => {
     if (!isPlaying) return;
     if (index === molePosition) {
+      audio.play('hit');
       setScore(s => s + 1);
       setMolePosition(null);
     }
   };
 
   useEffect(() => {
-    if (!isPlaying) return;
+    if (!isPlaying || paused) return;
 
     const moleInterval = setInterval(() => {
       // mole pops for a short period
-      const next = Math.floor(Math.random() * GRID_SIZE);
+      const next = Math.floor(session.random() * GRID_SIZE);
       setMolePosition(next);
       // hide mole after short pop-time
-      setTimeout(() => setMolePosition(pos => (pos === next ? null : pos)), 650);
-    }, 900);
+      setTimeout(() => setMolePosition(pos => (pos === next ? null : pos)), 650 / gameSpeed);
+    }, 900 / gameSpeed);
 
     return () => clearInterval(moleInterval);
-  }, [isPlaying]);
+  }, [isPlaying, paused, session, gameSpeed]);
 
   useEffect(() => {
-    if (!isPlaying || timeLeft <= 0) return;
+    if (!isPlaying || paused || timeLeft <= 0) return;
 
     const timer = setInterval(() => {
       setTimeLeft(t => {
@@ -53,6 +60,13 @@ export function WhackAMole() {
     }, 1000);
 
     return () => clearInterval(timer);
+  }, [isPlaying, paused, timeLeft]);
+
+  useEffect(() => {
+    if (!isPlaying && timeLeft === 0) {
+      session.end({ score, outcome: 'completed', stats: { duration: GAME_DURATION } });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isPlaying, timeLeft]);
 
   return (
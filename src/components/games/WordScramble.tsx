@@ -1,6 +1,8 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { useAudio } from '@/hooks/use-audio';
+import { GameProps } from '@/types/session';
 
 const WORDS = [
   'JAVASCRIPT', 'PROGRAMMING', 'DEVELOPER', 'COMPUTER', 'ALGORITHM',
@@ -8,8 +10,8 @@ const WORDS = [
   'MONITOR', 'NETWORK', 'BROWSER', 'WEBSITE', 'CODING'
 ];
 
-const scrambleWord = (word: string) => {
-  return word.split('').sort(() => Math.random() - 0.5).join('');
+const scrambleWord = (word: string, random: () => number) => {
+  return word.split('').sort(() => random() - 0.5).join('');
 };
 
 const BASE_POINTS = 10;
@@ -19,7 +21,7 @@ const SKIP_PENALTY = 4;
 const MAX_ATTEMPTS = 3;
 const TIME_PER_WORD = 20; // seconds
 
-export function WordScramble() {
+export function WordScramble({ session, paused }: GameProps) {
   const [currentWord, setCurrentWord] = useState('');
   const [scrambled, setScrambled] = useState('');
   const [guess, setGuess] = useState('');
@@ -31,13 +33,14 @@ export function WordScramble() {
   const [streak, setStreak] = useState(0);
   const [isCorrectAnimating, setIsCorrectAnimating] = useState(false);
   const [isWrongAnimating, setIsWrongAnimating] = useState(false);
+  const audio = useAudio();
 
   // Generate a new word and reset per-word state
   const newWord = (keepScore = true) => {
-    const word = WORDS[Math.floor(Math.random() * WORDS.length)];
-    let scrambledWord = scrambleWord(word);
+    const word = WORDS[Math.floor(session.random() * WORDS.length)];
+    let scrambledWord = scrambleWord(word, session.random);
     // ensure scrambled != original
-    while (scrambledWord === word) scrambledWord = scrambleWord(word);
+    while (scrambledWord === word) scrambledWord = scrambleWord(word, session.random);
 
     setCurrentWord(word);
     setScrambled(scrambledWord);
@@ -52,14 +55,23 @@ export function WordScramble() {
     if (!keepScore) setScore(0);
   };
 
+  // there is no game-over, so a run spans from mount until the player banks it with Finish
   useEffect(() => {
+    session.start();
     newWord();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const finishRun = () => {
+    session.end({ score, outcome: 'completed', stats: { streak } });
+    setStreak(0);
+    session.start();
+    newWord(false);
+  };
+
   // timer
   useEffect(() => {
-    if (!currentWord) return;
+    if (!currentWord || paused) return;
     if (timeLeft <= 0) {
       // time out -> skip word
       setMessage(`⏱️ Time's up! The word was ${currentWord}`);
@@ -71,7 +83,8 @@ export function WordScramble() {
     }
     const timer = setInterval(() => setTimeLeft(t => t - 1), 1000);
     return () => clearInterval(timer);
-  }, [timeLeft, currentWord]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timeLeft, currentWord, paused]);
 
   // character cloud positions (deterministic per scramble)
   const cloud = useMemo(() => {
@@ -114,6 +127,7 @@ export function WordScramble() {
       setMessage(`🎉 Correct! +${totalEarn} (streak +${streakBonus})`);
       setStreak(s => s + 1);
       setIsCorrectAnimating(true);
+      audio.play('score');
 
       // next word after delay
       setTimeout(() => {
@@ -127,6 +141,7 @@ export function WordScramble() {
       setScore(s => Math.max(0, s - WRONG_PENALTY));
       setIsWrongAnimating(true);
       setStreak(0);
+      audio.play('error');
       setTimeout(() => setIsWrongAnimating(false), 450);
 
       if (attemptsLeft - 1 <= 0) {
@@ -192,6 +207,7 @@ export function WordScramble() {
 
           <div className="flex items-center gap-2">
             <Button variant="neon" onClick={() => newWord()}>New Word</Button>
+            <Button variant="outline" onClick={finishRun}>Finish</Button>
             {/*<Button variant="outline" onClick={skipWord}>Skip (-4)</Button>*/}
           </div>
         </div>
@@ -218,6 +234,7 @@ export function WordScramble() {
               value={guess}
               onChange={(e) => setGuess(e.target.value.toUpperCase())}
               onKeyDown={(e) => e.key === 'Enter' && checkAnswer()}
+              disabled={paused}
               placeholder="Type your guess"
               className="w-80 text-center uppercase tracking-wide"
             />
@@ -0,0 +1,58 @@
+import { lazy, type ComponentType, type LazyExoticComponent } from 'react';
+import { games } from '@/data/games';
+import type { Game, GameId } from '@/types/games';
+import type { GameProps } from '@/types/session';
+
+type GameLoader = () => Promise<ComponentType<GameProps>>;
+
+// Keyed by GameId, so adding a catalog entry without a component (or vice versa) fails to type-check.
+// Each game is its own chunk, fetched the first time its route renders.
+const loaders: Record<GameId, GameLoader> = {
+  'memory-match': () => import('./MemoryMatch').then(m => m.MemoryMatch),
+  'tic-tac-toe': () => import('./TicTacToe').then(m => m.TicTacToe),
+  'snake': () => import('./Snake').then(m => m.Snake),
+  'flappy-bird': () => import('./FlappyBird').then(m => m.FlappyBird),
+  'whack-a-mole': () => import('./WhackAMole').then(m => m.WhackAMole),
+  'simon-says': () => import('./SimonSays').then(m => m.SimonSays),
+  'rock-paper-scissors': () => import('./RockPaperScissors').then(m => m.RockPaperScissors),
+  'number-guess': () => import('./Bingo').then(m => m.Bingo),
+  'reaction-time': () => import('./MiniCricket').then(m => m.MiniCricket),
+  'color-match': () => import('./StackBuilder').then(m => m.StackBuilder),
+  'typing-speed': () => import('./TypingSpeed').then(m => m.TypingSpeed),
+  'math-quiz': () => import('./GravitySwayRunner').then(m => m.GravitySwayRunner),
+  'click-speed': () => import('./FlipDash').then(m => m.FlipDash),
+  'word-scramble': () => import('./WordScramble').then(m => m.WordScramble),
+  'hangman': () => import('./MazeGame').then(m => m.MazeGame),
+  'pattern-match': () => import('./SliceDash').then(m => m.SliceDash),
+  'aim-trainer': () => import('./TankBattle').then(m => m.TankBattle),
+  'sequence-memory': () => import('./NeonBreakoutBlitz').then(m => m.NeonBreakoutBlitz),
+  'quick-math': () => import('./QuickMath').then(m => m.QuickMath),
+  'emoji-match': () => import('./BulletDodge').then(m => m.BulletDodge),
+};
+
+const lazyComponents = new Map<GameId, LazyExoticComponent<ComponentType<GameProps>>>();
+
+function getLazyComponent(gameId: GameId) {
+  let component = lazyComponents.get(gameId);
+  if (!component) {
+    component = lazy(() => loaders[gameId]().then(Component => ({ default: Component })));
+    lazyComponents.set(gameId, component);
+  }
+  return component;
+}
+
+export interface RegisteredGame {
+  game: Game;
+  Component: LazyExoticComponent<ComponentType<GameProps>>;
+}
+
+/** Catalog entry and its component for a route param, or null for unknown ids. */
+export function getRegisteredGame(gameId: string | undefined): RegisteredGame | null {
+  const game = games.find(g => g.id === gameId);
+  return game ? { game, Component: getLazyComponent(game.id) } : null;
+}
+
+// React.lazy caches a failed import forever; dropping it lets a restart fetch the chunk again
+export function resetRegisteredGame(gameId: GameId) {
+  lazyComponents.delete(gameId);
+}
@@ -0,0 +1,105 @@
+import { Achievement } from '@/types/achievements';
+import { categoryLabels, GameCategory } from '@/types/games';
+import { games } from '@/data/games';
+
+const isSameDay = (a: number, b: number) => new Date(a).toDateString() === new Date(b).toDateString();
+
+export const achievements: Achievement[] = [
+  {
+    id: 'first-credit',
+    name: 'First Credit',
+    description: 'Finish a run in any game',
+    icon: '🪙',
+    unlocks: () => true,
+  },
+  {
+    id: 'sky-high',
+    name: 'Sky High',
+    description: 'Stack all 15 blocks in Stack Builder',
+    icon: '🏗️',
+    gameIds: ['color-match'],
+    unlocks: ({ run }) => run.outcome === 'win',
+  },
+  {
+    // the computer plays perfect minimax, so a draw streak is the best anyone can do
+    id: 'stalemate',
+    name: 'Stalemate',
+    description: 'Draw the computer at Tic Tac Toe three games in a row',
+    icon: '🤝',
+    gameIds: ['tic-tac-toe'],
+    unlocks: ({ stats }) => {
+      const vsComputer = stats.games['tic-tac-toe'].history.filter(r => r.stats.mode === 'single');
+      const lastThree = vsComputer.slice(-3);
+      return lastThree.length === 3 && lastThree.every(r => r.outcome === 'draw');
+    },
+  },
+  {
+    id: 'long-snake',
+    name: 'Long Snake',
+    description: 'Score 200 in Snake',
+    icon: '🐍',
+    gameIds: ['snake'],
+    unlocks: ({ run }) => run.score >= 200,
+  },
+  {
+    id: 'fast-fingers',
+    name: 'Fast Fingers',
+    description: 'Type at 60 WPM or faster',
+    icon: '⌨️',
+    gameIds: ['typing-speed'],
+    unlocks: ({ run }) => run.score >= 60,
+  },
+  {
+    id: 'perfect-recall',
+    name: 'Perfect Recall',
+    description: 'Reach a score of 10 in Simon Says on hard',
+    icon: '🧠',
+    gameIds: ['simon-says'],
+    unlocks: ({ run }) => run.stats.difficulty === 'hard' && run.score >= 10,
+  },
+  {
+    id: 'minotaur',
+    name: 'Minotaur',
+    description: 'Escape an Insane maze',
+    icon: '🌀',
+    gameIds: ['hangman'],
+    unlocks: ({ run }) => run.outcome === 'win' && run.stats.difficulty === 'Insane',
+  },
+  {
+    id: 'tank-ace',
+    name: 'Tank Ace',
+    description: 'Win a Tank Battle without the computer scoring a round',
+    icon: '🎯',
+    gameIds: ['aim-trainer'],
+    unlocks: ({ run }) => run.outcome === 'win' && run.stats.computer === 0,
+  },
+  {
+    id: 'all-rounder',
+    name: 'All-Rounder',
+    description: `Play a game from every category (${Object.keys(categoryLabels).length}) in one day`,
+    icon: '🌈',
+    unlocks: ({ run, stats }) => {
+      const playedToday = new Set<GameCategory>();
+      for (const game of games) {
+        const history = stats.games[game.id]?.history ?? [];
+        if (history.some(r => isSameDay(r.endedAt, run.endedAt))) playedToday.add(game.category);
+      }
+      return Object.keys(categoryLabels).every(c => playedToday.has(c as GameCategory));
+    },
+  },
+  {
+    id: 'completionist',
+    name: 'Completionist',
+    description: 'Finish a run in every game in the arcade',
+    icon: '🏆',
+    unlocks: ({ stats }) => games.every(g => (stats.games[g.id]?.plays ?? 0) > 0),
+  },
+  {
+    id: 'marathon',
+    name: 'Marathon',
+    description: 'Spend an hour of active play across all games',
+    icon: '⏱️',
+    unlocks: ({ stats }) =>
+      Object.values(stats.games).reduce((sum, g) => sum + g.totalDurationMs, 0) >= 60 * 60 * 1000,
+  },
+];
@@ -9,6 +9,13 @@ export const games: Game[] = [
     category: 'memory',
     difficulty: 'easy',
     color: 'cyan',
+    controls: [
+      { input: 'Click / tap', action: 'Flip a card' },
+    ],
+    inputs: ['mouse', 'touch'],
+    players: { min: 1, max: 1 },
+    modes: ['Custom move limit'],
+    sessionMinutes: 3,
   },
   {
     id: 'tic-tac-toe',
@@ -18,6 +25,13 @@ export const games: Game[] = [
     category: 'strategy',
     difficulty: 'easy',
     color: 'pink',
+    controls: [
+      { input: 'Click / tap', action: 'Place your mark' },
+    ],
+    inputs: ['mouse', 'touch'],
+    players: { min: 1, max: 2 },
+    modes: ['vs Computer', '2 Players'],
+    sessionMinutes: 1,
   },
   {
     id: 'snake',
@@ -27,15 +41,36 @@ export const games: Game[] = [
     category: 'reflex',
     difficulty: 'medium',
     color: 'green',
+    controls: [
+      { input: 'Arrow keys', action: 'Steer' },
+      { input: 'Touch (phones)', action: 'On-screen d-pad or swipe' },
+      { input: 'Gamepad', action: 'Steer with the d-pad or left stick' },
+    ],
+    inputs: ['keyboard', 'touch', 'gamepad'],
+    players: { min: 1, max: 1 },
+    modes: ['Classic'],
+    sessionMinutes: 3,
+    keyActions: { up: 'Steer up', down: 'Steer down', left: 'Steer left', right: 'Steer right' },
+    touchControls: { movement: 'dpad', swipe: true },
   },
   {
     id: 'flappy-bird',
     name: '𝔽𝕃𝔸ℙℙ𝕐 𝔹𝔸𝕃𝕃',
     description: '𝗞𝗲𝗲𝗽 𝘁𝗵𝗲 𝗯𝗮𝗹𝗹 𝗶𝗻 𝘁𝗵𝗲 𝗮𝗶𝗿',
     icon: 'https://res.cloudinary.com/dkeab9fo1/image/upload/v1764791699/woman_lbd3jz.png',
-    category: 'puzzle',
+    category: 'reflex',
     difficulty: 'medium',
     color: 'orange',
+    controls: [
+      { input: 'Space / click / tap', action: 'Flap' },
+      { input: 'R', action: 'Restart after a crash' },
+      { input: 'Gamepad', action: 'A to flap, B to restart' },
+    ],
+    inputs: ['keyboard', 'mouse', 'touch', 'gamepad'],
+    players: { min: 1, max: 1 },
+    modes: ['Endless'],
+    sessionMinutes: 2,
+    keyActions: { primary: 'Flap', secondary: 'Restart after a crash' },
   },
   {
     id: 'whack-a-mole',
@@ -45,6 +80,13 @@ export const games: Game[] = [
     category: 'reflex',
     difficulty: 'easy',
     color: 'yellow',
+    controls: [
+      { input: 'Click / tap', action: 'Whack a mole' },
+    ],
+    inputs: ['mouse', 'touch'],
+    players: { min: 1, max: 1 },
+    modes: ['30 second round'],
+    sessionMinutes: 1,
   },
   {
     id: 'simon-says',
@@ -54,6 +96,15 @@ export const games: Game[] = [
     category: 'memory',
     difficulty: 'medium',
     color: 'purple',
+    controls: [
+      { input: 'Click / tap', action: 'Press a pad' },
+      { input: 'Q W A S', action: 'Red, blue, green, yellow pads' },
+      { input: 'R', action: 'Start' },
+    ],
+    inputs: ['keyboard', 'mouse', 'touch'],
+    players: { min: 1, max: 1 },
+    modes: ['Easy', 'Medium', 'Hard'],
+    sessionMinutes: 3,
   },
   {
     id: 'rock-paper-scissors',
@@ -63,24 +114,45 @@ export const games: Game[] = [
     category: 'strategy',
     difficulty: 'easy',
     color: 'cyan',
+    controls: [
+      { input: 'Click / tap', action: 'Throw a hand' },
+    ],
+    inputs: ['mouse', 'touch'],
+    players: { min: 1, max: 1 },
+    modes: ['First to N rounds'],
+    sessionMinutes: 2,
   },
   {
     id: 'number-guess',
     name: '𝔹𝕀ℕ𝔾𝕆',
     description: '𝗛𝗶𝘁 𝘁𝗵𝗲 𝗰𝗼𝗿𝗿𝗲𝗰𝘁 𝗻𝘂𝗺𝗯𝗲𝗿 𝘁𝗼 𝘄𝗶𝗻',
     icon: 'https://res.cloudinary.com/dkeab9fo1/image/upload/v1764853597/bingo_t3qrf9.png',
-    category: 'puzzle',
+    category: 'strategy',
     difficulty: 'easy',
     color: 'pink',
+    controls: [
+      { input: 'Type a number + Call Number', action: 'Call a number for both boards' },
+    ],
+    inputs: ['keyboard', 'mouse', 'touch'],
+    players: { min: 1, max: 1 },
+    modes: ['vs Computer'],
+    sessionMinutes: 4,
   },
   {
     id: 'reaction-time',
     name: '𝕄𝕀ℕ𝕀 ℂℝ𝕀ℂ𝕂𝔼𝕋',
     description: '𝗣𝗹𝗮𝘆 𝗻𝘂𝗺𝗯𝗲𝗿 𝗰𝗿𝗶𝗰𝗸𝗲𝘁 𝗮𝗴𝗮𝗶𝗻𝘀𝘁 𝗰𝗼𝗺𝗽𝘂𝘁𝗲𝗿',
     icon: 'https://res.cloudinary.com/dkeab9fo1/image/upload/v1764849950/cricket_zfmp13.png',
-    category: 'reflex',
+    category: 'strategy',
     difficulty: 'easy',
     color: 'yellow',
+    controls: [
+      { input: 'Click / tap 1-10', action: 'Bat or bowl a number' },
+    ],
+    inputs: ['mouse', 'touch'],
+    players: { min: 1, max: 1 },
+    modes: ['10 ball innings'],
+    sessionMinutes: 3,
   },
   {
     id: 'color-match',
@@ -90,24 +162,47 @@ export const games: Game[] = [
     category: 'reflex',
     difficulty: 'medium',
     color: 'purple',
+    controls: [
+      { input: 'Click / tap', action: 'Drop the block' },
+    ],
+    inputs: ['mouse', 'touch'],
+    players: { min: 1, max: 1 },
+    modes: ['15 block tower'],
+    sessionMinutes: 2,
   },
   {
     id: 'typing-speed',
     name: '𝕋𝕐ℙ𝕀ℕ𝔾 𝕊ℙ𝔼𝔼𝔻',
     description: '𝗧𝗲𝘀𝘁 𝘆𝗼𝘂𝗿 𝘁𝘆𝗽𝗶𝗻𝗴 𝘀𝗽𝗲𝗲𝗱',
     icon: 'https://res.cloudinary.com/dkeab9fo1/image/upload/v1764875653/content_lycrsi.png',
-    category: 'reflex',
+    category: 'word',
     difficulty: 'medium',
     color: 'cyan',
+    controls: [
+      { input: 'Keyboard', action: 'Type the phrase' },
+    ],
+    inputs: ['keyboard'],
+    players: { min: 1, max: 1 },
+    modes: ['Practice', 'Timed 30s', 'Timed 60s', 'Timed 90s'],
+    sessionMinutes: 1,
   },
   {
     id: 'math-quiz',
     name: '𝔾ℝ𝔸𝕍𝕀𝕋𝕐 ℝ𝕌ℕℕ𝔼ℝ',
     description: '𝗥𝘂𝗻 𝘂𝗽𝘀𝗶𝗱𝗲 𝗱𝗼𝘄𝗻 𝗳𝗮𝘀𝘁',
     icon: 'https://res.cloudinary.com/dkeab9fo1/image/upload/v1764881511/run_ioeaaf.png',
-    category: 'math',
+    category: 'reflex',
     difficulty: 'medium',
     color: 'green',
+    controls: [
+      { input: 'Space / W / Up / click / tap', action: 'Flip gravity' },
+      { input: 'Gamepad', action: 'A or d-pad up to flip' },
+    ],
+    inputs: ['keyboard', 'mouse', 'touch', 'gamepad'],
+    players: { min: 1, max: 1 },
+    modes: ['Endless'],
+    sessionMinutes: 2,
+    keyActions: { primary: 'Flip gravity', up: 'Flip gravity' },
   },
   {
     id: 'click-speed',
@@ -117,6 +212,18 @@ export const games: Game[] = [
     category: 'reflex',
     difficulty: 'easy',
     color: 'orange',
+    controls: [
+      { input: 'Arrow keys / WASD', action: 'Press the opposite direction' },
+      { input: 'On-screen arrows', action: 'Press the opposite direction' },
+      { input: 'Touch (phones)', action: 'On-screen d-pad or swipe' },
+      { input: 'Gamepad', action: 'D-pad or left stick' },
+    ],
+    inputs: ['keyboard', 'mouse', 'touch', 'gamepad'],
+    players: { min: 1, max: 1 },
+    modes: ['Endless'],
+    sessionMinutes: 2,
+    keyActions: { up: 'Up', down: 'Down', left: 'Left', right: 'Right' },
+    touchControls: { movement: 'dpad', swipe: true },
   },
   {
     id: 'word-scramble',
@@ -126,24 +233,50 @@ export const games: Game[] = [
     category: 'word',
     difficulty: 'medium',
     color: 'pink',
+    controls: [
+      { input: 'Keyboard + Enter', action: 'Submit a guess' },
+    ],
+    inputs: ['keyboard'],
+    players: { min: 1, max: 1 },
+    modes: ['Endless'],
+    sessionMinutes: 5,
   },
   {
     id: 'hangman',
     name: '𝕄𝔸ℤ𝔼 𝔾𝔸𝕄𝔼',
     description: '𝗚𝗼 𝘁𝗵𝗿𝗼𝘂𝗴𝗵 𝘁𝗵𝗲 𝗺𝗮𝘇𝗲 𝘁𝗼 𝘄𝗶𝗻',
     icon: 'https://res.cloudinary.com/dkeab9fo1/image/upload/v1764879279/maze_j4saxd.png',
-    category: 'word',
+    category: 'puzzle',
     difficulty: 'medium',
     color: 'purple',
+    controls: [
+      { input: 'Arrow keys / WASD', action: 'Move' },
+      { input: 'On-screen arrows', action: 'Move' },
+      { input: 'Touch (phones)', action: 'Swipe over the maze' },
+      { input: 'Gamepad', action: 'D-pad or left stick to move' },
+    ],
+    inputs: ['keyboard', 'mouse', 'touch', 'gamepad'],
+    players: { min: 1, max: 1 },
+    modes: ['Easy', 'Normal', 'Hard', 'Insane'],
+    sessionMinutes: 4,
+    keyActions: { up: 'Move up', down: 'Move down', left: 'Move left', right: 'Move right' },
+    touchControls: { swipe: true },
   },
   {
     id: 'pattern-match',
     name: '𝕊𝕃𝕀ℂ𝔼 𝕌ℙ',
     description: '𝗦𝗹𝗶𝗰𝗲 𝘁𝗵𝗲 𝘀𝗵𝗮𝗽𝗲𝘀 𝘁𝗼 𝗴𝗮𝗶𝗻 𝗽𝗼𝗶𝗻𝘁𝘀',
     icon: 'https://res.cloudinary.com/dkeab9fo1/image/upload/v1764881511/chop_eseg6s.png',
-    category: 'memory',
+    category: 'reflex',
     difficulty: 'hard',
     color: 'cyan',
+    controls: [
+      { input: 'Drag / swipe', action: 'Slice' },
+    ],
+    inputs: ['mouse', 'touch'],
+    players: { min: 1, max: 1 },
+    modes: ['45 second round'],
+    sessionMinutes: 1,
   },
   {
     id: 'aim-trainer',
@@ -153,15 +286,39 @@ export const games: Game[] = [
     category: 'reflex',
     difficulty: 'medium',
     color: 'green',
+    controls: [
+      { input: 'W / S', action: 'Drive forward / back' },
+      { input: 'A / D', action: 'Turn' },
+      { input: 'Space', action: 'Fire' },
+      { input: 'Touch (phones)', action: 'On-screen stick and Fire button' },
+      { input: 'Gamepad', action: 'Left stick drives and turns, A fires' },
+    ],
+    inputs: ['keyboard', 'touch', 'gamepad'],
+    players: { min: 1, max: 1 },
+    modes: ['vs Computer'],
+    sessionMinutes: 4,
+    keyActions: { up: 'Drive forward', down: 'Reverse', left: 'Turn left', right: 'Turn right', primary: 'Fire' },
+    touchControls: { movement: 'joystick', buttons: ['primary'] },
   },
   {
     id: 'sequence-memory',
     name: '𝔹ℝ𝔼𝔸𝕂𝕆𝕌𝕋 𝔹𝕃𝕆ℂ𝕂',
     description: '𝗕𝗿𝗲𝗮𝗸 𝘁𝗵𝗲 𝗯𝗹𝗼𝗰𝗸𝘀 𝗶𝗻 𝘁𝗵𝗶𝘀 𝗻𝗲𝗼𝗻-𝘁𝗵𝗲𝗺𝗲𝗱 𝗯𝗿𝗲𝗮𝗸𝗼𝘂𝘁 𝗴𝗮𝗺𝗲',
     icon: 'https://res.cloudinary.com/dkeab9fo1/image/upload/v1764884284/cubes_hbauwl.png',
-    category: 'memory',
+    category: 'reflex',
     difficulty: 'hard',
     color: 'yellow',
+    controls: [
+      { input: 'Mouse / touch drag', action: 'Move the paddle' },
+      { input: 'Click / tap', action: 'Launch the ball' },
+      { input: 'Left / right keys', action: 'Move the paddle' },
+      { input: 'Gamepad', action: 'Left stick moves the paddle, A launches' },
+    ],
+    inputs: ['keyboard', 'mouse', 'touch', 'gamepad'],
+    players: { min: 1, max: 1 },
+    modes: ['Levels'],
+    sessionMinutes: 5,
+    keyActions: { left: 'Move paddle left', right: 'Move paddle right', primary: 'Launch the ball' },
   },
   {
     id: 'quick-math',
@@ -171,14 +328,32 @@ export const games: Game[] = [
     category: 'math',
     difficulty: 'easy',
     color: 'orange',
+    controls: [
+      { input: 'Keyboard + Enter', action: 'Submit an answer' },
+    ],
+    inputs: ['keyboard'],
+    players: { min: 1, max: 1 },
+    modes: ['Easy', 'Medium', 'Hard', 'Complex'],
+    sessionMinutes: 1,
   },
   {
     id: 'emoji-match',
     name: '𝔻𝕆𝔾𝔻𝔼 𝕋ℍ𝔼 𝔹𝕌𝕃𝕃𝔼𝕋𝕊',
     description: '𝗗𝗼𝗱𝗴𝗲 𝘁𝗵𝗲 𝗳𝗮𝗹𝗹𝗶𝗻𝗴 𝗯𝘂𝗹𝗹𝗲𝘁𝘀',
     icon: 'https://res.cloudinary.com/dkeab9fo1/image/upload/v1764876688/output-onlinepngtools_pjmn8h.png',
-    category: 'memory',
+    category: 'reflex',
     difficulty: 'easy',
     color: 'pink',
+    controls: [
+      { input: 'Mouse / touch drag', action: 'Move' },
+      { input: 'Arrow keys', action: 'Move' },
+      { input: 'Space / Enter', action: 'Start' },
+      { input: 'Gamepad', action: 'Left stick moves, A starts' },
+    ],
+    inputs: ['keyboard', 'mouse', 'touch', 'gamepad'],
+    players: { min: 1, max: 1 },
+    modes: ['Endless'],
+    sessionMinutes: 2,
+    keyActions: { up: 'Move up', down: 'Move down', left: 'Move left', right: 'Move right', primary: 'Start' },
   },
 ];
@@ -0,0 +1,17 @@
+import * as React from "react";
+
+import {
+  applyAccessibilityToDocument,
+  getAccessibilitySnapshot,
+  subscribeAccessibility,
+} from "@/lib/accessibility-settings";
+
+export function useAccessibilitySettings() {
+  return React.useSyncExternalStore(subscribeAccessibility, getAccessibilitySnapshot);
+}
+
+/** Mirrors contrast, motion and font size onto the document; mounted once at the app root. */
+export function useDocumentAccessibility() {
+  const settings = useAccessibilitySettings();
+  React.useEffect(() => applyAccessibilityToDocument(settings), [settings]);
+}
@@ -0,0 +1,13 @@
+import * as React from "react";
+
+import { achievements } from "@/data/achievements";
+import { getAchievementsSnapshot, subscribeAchievements } from "@/lib/achievements";
+
+export function useAchievements() {
+  const { unlocked } = React.useSyncExternalStore(subscribeAchievements, getAchievementsSnapshot);
+
+  return React.useMemo(
+    () => achievements.map(a => ({ ...a, unlockedAt: unlocked[a.id] ?? null })),
+    [unlocked],
+  );
+}
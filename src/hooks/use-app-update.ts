@@ -0,0 +1,18 @@
+import * as React from "react";
+
+import { toast } from "@/components/ui/sonner";
+import { applyUpdate, getUpdateSnapshot, subscribeAppUpdate } from "@/lib/app-update";
+
+/** Offers a reload once a newer build has installed; the toast stays up until the player picks it or closes it. */
+export function useUpdatePrompt() {
+  const available = React.useSyncExternalStore(subscribeAppUpdate, getUpdateSnapshot, () => false);
+
+  React.useEffect(() => {
+    if (!available) return;
+    toast("A new version of the arcade is ready", {
+      description: "Reload to update. A game in progress will be lost.",
+      duration: Infinity,
+      action: { label: "Reload", onClick: applyUpdate },
+    });
+  }, [available]);
+}
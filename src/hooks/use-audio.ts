@@ -0,0 +1,32 @@
+import * as React from "react";
+
+import { playSfx, playTone } from "@/lib/audio";
+import { getAudioSettingsSnapshot, subscribeAudioSettings } from "@/lib/audio-settings";
+
+// Both functions are module-level, so the object is stable and safe in effect/callback deps
+const audio = { play: playSfx, playTone };
+
+/** Sound for games: `play` fires a library effect, `playTone` a single note. Volumes come from the mixer settings. */
+export function useAudio() {
+  return audio;
+}
+
+export function useAudioSettings() {
+  return React.useSyncExternalStore(subscribeAudioSettings, getAudioSettingsSnapshot);
+}
+
+// Buttons and links anywhere in the app tick when pressed; mark an element (or an ancestor)
+// with data-sfx="off" when it already makes its own sound
+export function useUiClickSounds() {
+  React.useEffect(() => {
+    const onClick = (e: MouseEvent) => {
+      const target = e.target instanceof Element ? e.target : null;
+      const control = target?.closest("button, a, [role='button']");
+      if (!control || control.closest("[data-sfx='off']")) return;
+      if (control instanceof HTMLButtonElement && control.disabled) return;
+      playSfx("click");
+    };
+    document.addEventListener("click", onClick, true);
+    return () => document.removeEventListener("click", onClick, true);
+  }, []);
+}
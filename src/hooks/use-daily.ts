@@ -0,0 +1,44 @@
+import * as React from "react";
+
+import { currentDailyChallenge, dateKey, getDailyChallenge } from "@/lib/daily";
+
+// Time left until the player's next local midnight, plus a moment so the new day has surely begun
+function msUntilMidnight(now = new Date()) {
+  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return midnight.getTime() - now.getTime() + 1000;
+}
+
+/**
+ * Today's challenge, moving on to the next one at local midnight. Timers don't run while a laptop sleeps and
+ * are held back in hidden tabs, so the day is also checked whenever the page comes back into view.
+ * While `runLive` the challenge is held, and `nextDayWaiting` says a new one starts once the run ends.
+ */
+export function useDailyChallenge(runLive: boolean) {
+  const [today, setToday] = React.useState(() => dateKey());
+  const [challenge, setChallenge] = React.useState(() => getDailyChallenge());
+
+  React.useEffect(() => {
+    let timer: number;
+    const check = () => {
+      window.clearTimeout(timer);
+      setToday(dateKey());
+      timer = window.setTimeout(check, msUntilMidnight());
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") check();
+    };
+    timer = window.setTimeout(check, msUntilMidnight());
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.clearTimeout(timer);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, []);
+
+  // runs on a new day and again when the run ends; the same day hands back the same object, so nothing re-renders
+  React.useEffect(() => {
+    setChallenge((current) => currentDailyChallenge(current, runLive));
+  }, [runLive, today]);
+
+  return { challenge, nextDayWaiting: challenge.dateKey !== today };
+}
@@ -0,0 +1,69 @@
+import * as React from "react";
+
+import { getDebugSnapshot, getDebugTarget, subscribeDebug, updateDebug } from "@/lib/debug";
+import type { FrameStats } from "@/lib/engine";
+import type { SimDebugStats } from "@/lib/sim";
+
+// The readout is for reading, not for animating; a few refreshes a second is plenty
+const READOUT_INTERVAL_MS = 250;
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export interface DebugReadout {
+  frame: FrameStats | null;
+  tick: number;
+  seed: number | null;
+  stats: SimDebugStats;
+}
+
+export function useDebugSettings() {
+  return React.useSyncExternalStore(subscribeDebug, getDebugSnapshot);
+}
+
+/** Backtick opens and closes the overlay; pass false to leave the key alone (production builds). */
+export function useDebugToggleKey(enabled: boolean) {
+  React.useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Backquote" || e.repeat || isTextInput(e.target)) return;
+      e.preventDefault();
+      updateDebug({ open: !getDebugSnapshot().open });
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [enabled]);
+}
+
+/** Samples the mounted sim run while `active`; null when the game on screen doesn't run on a sim. */
+export function useDebugReadout(active: boolean): DebugReadout | null {
+  const [readout, setReadout] = React.useState<DebugReadout | null>(null);
+
+  React.useEffect(() => {
+    if (!active) return;
+    const sample = () => {
+      const target = getDebugTarget();
+      if (!target) {
+        setReadout(null);
+        return;
+      }
+      const run = target.run();
+      const loop = target.loop();
+      setReadout({
+        frame: loop ? { ...loop.stats } : null,
+        tick: run.tick,
+        seed: target.seed(),
+        stats: target.sim.debug?.stats(run.state) ?? {},
+      });
+    };
+    sample();
+    const id = window.setInterval(sample, READOUT_INTERVAL_MS);
+    const unsubscribe = subscribeDebug(sample);
+    return () => {
+      window.clearInterval(id);
+      unsubscribe();
+    };
+  }, [active]);
+
+  return active ? readout : null;
+}
@@ -0,0 +1,47 @@
+import * as React from "react";
+
+const subscribeFullscreen = (listener: () => void) => {
+  document.addEventListener("fullscreenchange", listener);
+  return () => document.removeEventListener("fullscreenchange", listener);
+};
+
+const isDocumentFullscreen = () => document.fullscreenElement !== null && document.fullscreenElement !== undefined;
+
+/**
+ * Fullscreen for the game page. The whole document goes fullscreen rather than the game's own element, so dialogs
+ * and toasts (portalled to the body) still show; the caller switches to its immersive layout while `active`.
+ * Browsers without the Fullscreen API for pages (iPhone Safari) or that refuse the request get the immersive
+ * layout alone, which is the next best thing.
+ */
+export function useFullscreen() {
+  const native = React.useSyncExternalStore(subscribeFullscreen, isDocumentFullscreen, () => false);
+  const [fallback, setFallback] = React.useState(false);
+  const active = native || fallback;
+
+  const enter = React.useCallback(async () => {
+    if (!document.fullscreenEnabled) {
+      setFallback(true);
+      return;
+    }
+    try {
+      await document.documentElement.requestFullscreen({ navigationUI: "hide" });
+    } catch {
+      setFallback(true);
+    }
+  }, []);
+
+  const exit = React.useCallback(() => {
+    setFallback(false);
+    if (isDocumentFullscreen()) document.exitFullscreen().catch(() => {});
+  }, []);
+
+  const toggle = React.useCallback(() => {
+    if (active) exit();
+    else enter();
+  }, [active, enter, exit]);
+
+  // leaving the game page leaves fullscreen with it
+  React.useEffect(() => exit, [exit]);
+
+  return { active, toggle, exit };
+}
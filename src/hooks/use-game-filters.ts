@@ -0,0 +1,34 @@
+import * as React from "react";
+import { useSearchParams } from "react-router-dom";
+
+import { parseGameFilters, type GameFilters } from "@/lib/game-filters";
+
+const defaults: GameFilters = { category: "all", query: "", sort: "featured" };
+const paramNames: Record<keyof GameFilters, string> = { category: "category", query: "q", sort: "sort" };
+
+/** Home grid filters, mirrored into the query string so a filtered view can be bookmarked. */
+export function useGameFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = React.useMemo(() => parseGameFilters(searchParams), [searchParams]);
+
+  const update = React.useCallback(
+    (patch: Partial<GameFilters>) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          (Object.keys(patch) as (keyof GameFilters)[]).forEach((key) => {
+            const value = patch[key];
+            if (!value || value === defaults[key]) next.delete(paramNames[key]);
+            else next.set(paramNames[key], value);
+          });
+          return next;
+        },
+        // typing in the search box shouldn't flood the history stack
+        { replace: "query" in patch },
+      );
+    },
+    [setSearchParams],
+  );
+
+  return { filters, update };
+}
@@ -0,0 +1,105 @@
+import * as React from "react";
+
+import { createRng, type Rng } from "@/lib/random";
+import type { GameSession, SessionEnd, SessionResult, SessionStatus } from "@/types/session";
+
+interface SessionOptions {
+  // fixed seed for session.random(); unseeded sessions fall back to Math.random
+  seed?: number | null;
+  onStart?: () => void;
+  onEnd?: (result: SessionResult) => void;
+}
+
+interface RunClock {
+  status: SessionStatus;
+  startedAt: number;
+  pausedAt: number | null;
+  pausedTotal: number;
+}
+
+const idleClock = (): RunClock => ({ status: "idle", startedAt: 0, pausedAt: null, pausedTotal: 0 });
+
+/**
+ * Owns the lifecycle of one game run. Games drive it through the returned `session`;
+ * the wrapper observes `status`/`lastResult` and the listeners.
+ *
+ * `start()` on an active run restarts it, and a run still active on unmount (or on `reset()`) is dropped.
+ * With a `seed`, every `start()` rewinds `session.random()` so each attempt sees the same sequence.
+ */
+export function useGameSession(gameId: string, options: SessionOptions = {}) {
+  const seed = options.seed ?? null;
+  const clockRef = React.useRef<RunClock>(idleClock());
+  const optionsRef = React.useRef(options);
+  const [status, setStatus] = React.useState<SessionStatus>("idle");
+  const [lastResult, setLastResult] = React.useState<SessionResult | null>(null);
+
+  optionsRef.current = options;
+
+  const session = React.useMemo<GameSession>(() => {
+    let rng: Rng = seed === null ? Math.random : createRng(seed);
+
+    const update = (next: SessionStatus) => {
+      clockRef.current.status = next;
+      setStatus(next);
+    };
+
+    return {
+      gameId,
+      seed,
+      get status() {
+        return clockRef.current.status;
+      },
+      random() {
+        return rng();
+      },
+      start() {
+        if (seed !== null) rng = createRng(seed);
+        clockRef.current = { status: "running", startedAt: Date.now(), pausedAt: null, pausedTotal: 0 };
+        setStatus("running");
+        optionsRef.current.onStart?.();
+      },
+      pause() {
+        if (clockRef.current.status !== "running") return;
+        clockRef.current.pausedAt = Date.now();
+        update("paused");
+      },
+      resume() {
+        const clock = clockRef.current;
+        if (clock.status !== "paused" || clock.pausedAt === null) return;
+        clock.pausedTotal += Date.now() - clock.pausedAt;
+        clock.pausedAt = null;
+        update("running");
+      },
+      end({ score, outcome, stats = {}, inputs = null }: SessionEnd) {
+        const clock = clockRef.current;
+        if (clock.status !== "running" && clock.status !== "paused") return;
+        const endedAt = Date.now();
+        const pausedTail = clock.pausedAt === null ? 0 : endedAt - clock.pausedAt;
+        const result: SessionResult = {
+          gameId,
+          score,
+          outcome,
+          stats,
+          seed,
+          startedAt: clock.startedAt,
+          endedAt,
+          durationMs: Math.max(0, endedAt - clock.startedAt - clock.pausedTotal - pausedTail),
+          inputs,
+        };
+        update("ended");
+        setLastResult(result);
+        optionsRef.current.onEnd?.(result);
+      },
+    };
+  }, [gameId, seed]);
+
+  const reset = React.useCallback(() => {
+    clockRef.current = idleClock();
+    setStatus("idle");
+    setLastResult(null);
+  }, []);
+
+  React.useEffect(reset, [gameId, reset]);
+
+  return { session, status, lastResult, reset };
+}
@@ -0,0 +1,8 @@
+import * as React from "react";
+
+import { getConnectedGamepad, subscribeGamepadConnection } from "@/lib/gamepad";
+
+/** Id string of the connected controller, or null when there is none. */
+export function useGamepadConnected() {
+  return React.useSyncExternalStore(subscribeGamepadConnection, getConnectedGamepad);
+}
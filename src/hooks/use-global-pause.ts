@@ -0,0 +1,49 @@
+import * as React from "react";
+
+import { useInputActions } from "@/hooks/use-input-actions";
+import { useKeyBindings } from "@/hooks/use-key-bindings";
+import type { GameSession, SessionStatus } from "@/types/session";
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Wrapper-level pause for whichever game is mounted. The game's pause binding (Escape or P by
+ * default, Start on a gamepad) toggles it, and a running run is paused when the tab is hidden or
+ * the window loses focus. Resuming is always manual, so nobody comes back to a game that is already moving.
+ */
+export function useGlobalPause(session: GameSession, status: SessionStatus) {
+  const paused = status === "paused";
+  const { pause: pauseKeys } = useKeyBindings(session.gameId);
+
+  const togglePause = React.useCallback(() => {
+    if (session.status === "running") session.pause();
+    else if (session.status === "paused") session.resume();
+  }, [session]);
+
+  useInputActions(session.gameId, (action, pressed, e) => {
+    if (action !== "pause" || !pressed) return;
+    if (e) {
+      // a printable pause key (P) is just a letter while typing into a field
+      if (e.repeat || (e.key.length === 1 && isTextInput(e.target))) return;
+      e.preventDefault();
+    }
+    togglePause();
+  });
+
+  React.useEffect(() => {
+    const autoPause = () => session.pause();
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") autoPause();
+    };
+
+    window.addEventListener("blur", autoPause);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("blur", autoPause);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [session]);
+
+  return { paused, togglePause, pauseKeys };
+}
@@ -0,0 +1,42 @@
+import * as React from "react";
+
+import { useKeyBindings } from "@/hooks/use-key-bindings";
+import { subscribeGamepadActions } from "@/lib/gamepad";
+import { actionForKey } from "@/lib/key-bindings";
+import { subscribeVirtualActions } from "@/lib/virtual-controls";
+import type { InputAction } from "@/types/input";
+
+// `event` is only set for keyboard input, for callers that need preventDefault or the target
+export type InputActionHandler = (action: InputAction, pressed: boolean, event?: KeyboardEvent) => void;
+
+/**
+ * Single entry point for logical actions: keys resolved through the game's bindings, buttons
+ * from the first connected gamepad and the on-screen touch controls all arrive here. Key repeats are delivered as further presses.
+ * The handler is read from a ref, so it always sees the latest render's state.
+ */
+export function useInputActions(gameId: string, onAction: InputActionHandler) {
+  const bindings = useKeyBindings(gameId);
+  const handlerRef = React.useRef(onAction);
+  handlerRef.current = onAction;
+
+  React.useEffect(() => {
+    const onKey = (pressed: boolean) => (e: KeyboardEvent) => {
+      const action = actionForKey(bindings, e.code);
+      if (action) handlerRef.current(action, pressed, e);
+    };
+    const onKeyDown = onKey(true);
+    const onKeyUp = onKey(false);
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    const forward = (action: InputAction, pressed: boolean) => handlerRef.current(action, pressed);
+    const unsubscribeGamepad = subscribeGamepadActions(forward);
+    const unsubscribeVirtual = subscribeVirtualActions(forward);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      unsubscribeGamepad();
+      unsubscribeVirtual();
+    };
+  }, [bindings]);
+}
@@ -0,0 +1,9 @@
+import * as React from "react";
+
+import { getKeyBindingsSnapshot, resolveBindings, subscribeKeyBindings } from "@/lib/key-bindings";
+import type { KeyBindings } from "@/types/input";
+
+export function useKeyBindings(gameId: string): KeyBindings {
+  const state = React.useSyncExternalStore(subscribeKeyBindings, getKeyBindingsSnapshot);
+  return React.useMemo(() => resolveBindings(state, gameId), [state, gameId]);
+}
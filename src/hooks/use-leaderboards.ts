@@ -0,0 +1,8 @@
+import * as React from "react";
+
+import { getLeaderboard, getLeaderboardsSnapshot, subscribeLeaderboards } from "@/lib/leaderboards";
+
+export function useLeaderboard(gameId: string, mode: string) {
+  const leaderboards = React.useSyncExternalStore(subscribeLeaderboards, getLeaderboardsSnapshot);
+  return getLeaderboard(leaderboards, gameId, mode);
+}
@@ -0,0 +1,12 @@
+import * as React from "react";
+
+import { getProfilesSnapshot, subscribeProfiles } from "@/lib/profiles";
+
+export function useProfiles() {
+  return React.useSyncExternalStore(subscribeProfiles, getProfilesSnapshot);
+}
+
+export function useActiveProfile() {
+  const { activeId, profiles } = useProfiles();
+  return profiles.find((profile) => profile.id === activeId);
+}
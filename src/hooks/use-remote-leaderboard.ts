@@ -0,0 +1,30 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+
+import { leaderboardProvider, remoteBoardQueryKey } from "@/lib/leaderboard-provider";
+import { getRemotePlayerId, getScoreQueueSnapshot, subscribeScoreQueue } from "@/lib/score-queue";
+
+/** Whether an online leaderboard service is configured at all; without one the hooks below stay idle. */
+export const remoteLeaderboardsEnabled = leaderboardProvider !== null;
+
+export function useRemoteTopScores(board: string, limit = 10) {
+  return useQuery({
+    queryKey: [...remoteBoardQueryKey(board), "top", limit],
+    queryFn: () => leaderboardProvider.top(board, limit),
+    enabled: remoteLeaderboardsEnabled,
+  });
+}
+
+export function useRemoteAroundMe(board: string, span = 2) {
+  const playerId = React.useSyncExternalStore(subscribeScoreQueue, getRemotePlayerId);
+  return useQuery({
+    queryKey: [...remoteBoardQueryKey(board), "around", playerId, span],
+    queryFn: () => leaderboardProvider.aroundMe(board, playerId, span),
+    enabled: remoteLeaderboardsEnabled,
+  });
+}
+
+// Scores still waiting to upload, for the "n pending" hint
+export function usePendingScoreCount() {
+  return React.useSyncExternalStore(subscribeScoreQueue, getScoreQueueSnapshot).pending.length;
+}
@@ -0,0 +1,11 @@
+import * as React from "react";
+
+import { getReplaysSnapshot, subscribeReplays } from "@/lib/replays";
+
+export function useReplays() {
+  return React.useSyncExternalStore(subscribeReplays, getReplaysSnapshot).replays;
+}
+
+export function useReplay(id: string | undefined) {
+  return useReplays().find((replay) => replay.id === id) ?? null;
+}
@@ -0,0 +1,186 @@
+import * as React from "react";
+
+import { getAccessibilitySnapshot } from "@/lib/accessibility-settings";
+import { playSfx } from "@/lib/audio";
+import { debugSettingCommands, debugToolsEnabled, drawHitboxes, getDebugSnapshot, setDebugTarget, subscribeDebug } from "@/lib/debug";
+import { createCanvasSurface, startFixedLoop, type FixedLoop } from "@/lib/engine";
+import { randomSeed } from "@/lib/random";
+import { saveReplay } from "@/lib/replays";
+import {
+  createSimRun,
+  SIM_STEP_MS,
+  stepSimRun,
+  type GameSim,
+  type SimCommand,
+  type SimOptions,
+  type SimRun,
+  type SimState,
+} from "@/lib/sim";
+import type { GameSession } from "@/types/session";
+
+export type SimPhase = "idle" | "running" | "over";
+
+interface SimRunOptions<S extends SimState, H> {
+  session: GameSession;
+  paused: boolean;
+  // values the component shows outside the canvas; a frame that leaves them unchanged doesn't re-render
+  hud: (state: S) => H;
+  // layout handed to `create` on start and reset, for sims sized from the page
+  options?: () => SimOptions;
+  // called every frame before stepping, for inputs that are polled rather than evented (analog sticks)
+  poll?: (send: (command: SimCommand) => void, state: S) => void;
+  // drawn over the sim's own frame for live play only (personal best), so replays don't depend on it
+  overlay?: (ctx: CanvasRenderingContext2D, state: S) => void;
+}
+
+function shallowEqual<H>(a: H, b: H) {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  const keys = Object.keys(a) as (keyof H)[];
+  return keys.length === Object.keys(b).length && keys.every((key) => Object.is(a[key], b[key]));
+}
+
+/**
+ * Drives a game sim on the engine's fixed-step loop: the simulation advances in SIM_STEP_MS ticks (scaled by
+ * slow mode) and is drawn once per frame, so a run plays out the same on any display.
+ * `loop` exposes the frame stats and single-stepping while paused.
+ * Inputs go through `send` and are applied on the next tick; finished runs end the session and are saved as replays.
+ * Between runs an unrecorded preview run keeps the board drawn.
+ * Games drawn in the DOM pass a null canvas and render from `hud`; their sim's `render` is only used by the replay viewer.
+ */
+export function useSimRun<S extends SimState, H>(
+  sim: GameSim<S>,
+  canvasRef: React.RefObject<HTMLCanvasElement> | null,
+  options: SimRunOptions<S, H>,
+) {
+  const optionsRef = React.useRef(options);
+  optionsRef.current = options;
+
+  const runRef = React.useRef<SimRun<S>>(null);
+  if (!runRef.current) runRef.current = createSimRun(sim, randomSeed(), options.options?.() ?? {});
+  // seed and layout of the run being recorded; null while the preview is up or after the run finished
+  const recordingRef = React.useRef<{ seed: number; options: SimOptions } | null>(null);
+  const queueRef = React.useRef<SimCommand[]>([]);
+  const loopRef = React.useRef<FixedLoop>(null);
+  const [phase, setPhase] = React.useState<SimPhase>("idle");
+  const [hud, setHud] = React.useState(() => options.hud(runRef.current.state));
+
+  const send = React.useCallback(
+    (command: SimCommand) => {
+      if (!recordingRef.current) return;
+      const queue = queueRef.current;
+      if (sim.coalesce?.includes(command[0])) {
+        const i = queue.findIndex((queued) => queued[0] === command[0]);
+        if (i !== -1) queue.splice(i, 1);
+      }
+      queue.push(command);
+    },
+    [sim],
+  );
+
+  const start = React.useCallback(() => {
+    const { session, options: layout } = optionsRef.current;
+    session.start();
+    const recording = { seed: session.seed ?? randomSeed(), options: layout?.() ?? {} };
+    runRef.current = createSimRun(sim, recording.seed, recording.options);
+    recordingRef.current = recording;
+    queueRef.current = debugToolsEnabled ? debugSettingCommands(getDebugSnapshot()) : [];
+    setPhase("running");
+  }, [sim]);
+
+  const reset = React.useCallback(() => {
+    runRef.current = createSimRun(sim, randomSeed(), optionsRef.current.options?.() ?? {});
+    recordingRef.current = null;
+    queueRef.current = [];
+    setPhase("idle");
+  }, [sim]);
+
+  // the first layout read happens before the canvas exists; redo the preview once it has mounted
+  React.useEffect(() => {
+    if (optionsRef.current.options) reset();
+  }, [reset]);
+
+  React.useEffect(() => {
+    const surface = createCanvasSurface(() => canvasRef?.current ?? null);
+
+    const finish = (run: SimRun<S>) => {
+      const result = sim.result(run.state);
+      const recording = recordingRef.current;
+      if (!result || !recording) return;
+      recordingRef.current = null;
+      setPhase("over");
+      const inputs = { simVersion: sim.version, seed: recording.seed, options: recording.options, ticks: run.tick, commands: run.commands };
+      optionsRef.current.session.end({ ...result, inputs });
+      saveReplay({
+        gameId: optionsRef.current.session.gameId,
+        ...inputs,
+        score: result.score,
+        outcome: result.outcome,
+        recordedAt: Date.now(),
+      });
+    };
+
+    // the debug overlay's freeze and time scale stack on top of pause and slow mode
+    const debug = () => (debugToolsEnabled ? getDebugSnapshot() : null);
+
+    const loop = startFixedLoop({
+      stepMs: SIM_STEP_MS,
+      running: () => recordingRef.current !== null && !optionsRef.current.paused && !debug()?.frozen,
+      speed: () => getAccessibilitySnapshot().gameSpeed * (debug()?.timeScale ?? 1),
+      beforeSteps: () => optionsRef.current.poll?.(send, runRef.current.state),
+      step: () => {
+        // single steps taken while paused land here too; between runs there is nothing to advance
+        if (!recordingRef.current) return;
+        const run = runRef.current;
+        stepSimRun(sim, run, queueRef.current.splice(0));
+        finish(run);
+      },
+      render: (alpha) => {
+        const { state } = runRef.current;
+        const { overlay, hud: selectHud } = optionsRef.current;
+        state.sounds.splice(0).forEach((sound) => playSfx(sound));
+
+        const ctx = surface.context(state.width, state.height);
+        if (ctx) {
+          sim.render(ctx, state, alpha);
+          overlay?.(ctx, state);
+          if (debug()?.hitboxes && sim.debug?.hitboxes) drawHitboxes(ctx, sim.debug.hitboxes(state));
+        }
+
+        const next = selectHud(state);
+        setHud((prev) => (shallowEqual(prev, next) ? prev : next));
+      },
+    });
+    loopRef.current = loop;
+
+    // a setting changed mid-run is recorded in it like any other input, which keeps the run off the leaderboards
+    let recorded = getDebugSnapshot();
+    const unsubscribeDebug = debugToolsEnabled
+      ? subscribeDebug(() => {
+          const next = getDebugSnapshot();
+          debugSettingCommands(next, recorded).forEach(send);
+          recorded = next;
+        })
+      : null;
+
+    const unregister = debugToolsEnabled
+      ? setDebugTarget({
+          sim,
+          run: () => runRef.current,
+          loop: () => loopRef.current,
+          seed: () => recordingRef.current?.seed ?? null,
+          send,
+        })
+      : null;
+
+    return () => {
+      unregister?.();
+      unsubscribeDebug?.();
+      loop.stop();
+      surface.dispose();
+      loopRef.current = null;
+    };
+  }, [sim, canvasRef, send]);
+
+  return { phase, hud, start, reset, send, run: runRef, loop: loopRef };
+}
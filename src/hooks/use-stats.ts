@@ -0,0 +1,31 @@
+import * as React from "react";
+
+import { emptyGameStats, getStatsSnapshot, subscribeStats, type GameStats } from "@/lib/stats-store";
+
+const EMPTY = emptyGameStats();
+
+export function useStats() {
+  return React.useSyncExternalStore(subscribeStats, getStatsSnapshot);
+}
+
+export function useGameStats(gameId: string): GameStats {
+  return useStats().games[gameId] ?? EMPTY;
+}
+
+export function usePersonalBest(gameId: string) {
+  return useGameStats(gameId).best;
+}
+
+export function useStatsTotals() {
+  const { games } = useStats();
+
+  return React.useMemo(() => {
+    const entries = Object.values(games);
+    return {
+      plays: entries.reduce((sum, g) => sum + g.plays, 0),
+      wins: entries.reduce((sum, g) => sum + g.wins, 0),
+      totalDurationMs: entries.reduce((sum, g) => sum + g.totalDurationMs, 0),
+      gamesPlayed: entries.filter(g => g.plays > 0).length,
+    };
+  }, [games]);
+}
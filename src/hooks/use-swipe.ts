@@ -0,0 +1,55 @@
+import * as React from "react";
+
+export type SwipeDirection = "up" | "down" | "left" | "right";
+
+// A swipe has to travel this far (px) and finish this quickly (ms); anything else is a tap or a drag
+const MIN_DISTANCE = 30;
+const MAX_DURATION = 500;
+
+/**
+ * Calls `onSwipe` with the dominant direction of each quick single-finger swipe that starts inside `ref`.
+ * Listeners are passive, so taps and clicks on the element keep working.
+ */
+export function useSwipe<T extends HTMLElement>(
+  ref: React.RefObject<T>,
+  onSwipe: (direction: SwipeDirection) => void,
+  enabled = true,
+) {
+  const handlerRef = React.useRef(onSwipe);
+  handlerRef.current = onSwipe;
+
+  React.useEffect(() => {
+    const el = ref.current;
+    if (!el || !enabled) return;
+
+    let start: { x: number; y: number; time: number } | null = null;
+
+    const onTouchStart = (e: TouchEvent) => {
+      const touch = e.touches[0];
+      start = e.touches.length === 1 ? { x: touch.clientX, y: touch.clientY, time: e.timeStamp } : null;
+    };
+    const onTouchEnd = (e: TouchEvent) => {
+      const touch = e.changedTouches[0];
+      if (!start || !touch) return;
+      const dx = touch.clientX - start.x;
+      const dy = touch.clientY - start.y;
+      const elapsed = e.timeStamp - start.time;
+      start = null;
+      if (elapsed > MAX_DURATION || Math.max(Math.abs(dx), Math.abs(dy)) < MIN_DISTANCE) return;
+      if (Math.abs(dx) > Math.abs(dy)) handlerRef.current(dx > 0 ? "right" : "left");
+      else handlerRef.current(dy > 0 ? "down" : "up");
+    };
+    const onTouchCancel = () => {
+      start = null;
+    };
+
+    el.addEventListener("touchstart", onTouchStart, { passive: true });
+    el.addEventListener("touchend", onTouchEnd, { passive: true });
+    el.addEventListener("touchcancel", onTouchCancel, { passive: true });
+    return () => {
+      el.removeEventListener("touchstart", onTouchStart);
+      el.removeEventListener("touchend", onTouchEnd);
+      el.removeEventListener("touchcancel", onTouchCancel);
+    };
+  }, [ref, enabled]);
+}
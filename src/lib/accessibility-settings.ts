@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { createProfileStore } from '@/lib/profile-store';
+
+export const ACCESSIBILITY_STORAGE_KEY = 'arcade_accessibility';
+export const ACCESSIBILITY_VERSION = 1;
+
+// Slow mode presets; games multiply their frame step (or divide their tick rate) by this
+export const gameSpeeds = [1, 0.75, 0.5] as const;
+export const fontScales = [0.875, 1, 1.125, 1.25, 1.5] as const;
+
+export const accessibilitySchema = z.object({
+  version: z.literal(ACCESSIBILITY_VERSION),
+  reducedMotion: z.boolean(),
+  highContrast: z.boolean(),
+  colorBlindPalette: z.boolean(),
+  fontScale: z.number().min(0.75).max(2),
+  gameSpeed: z.number().min(0.25).max(1),
+});
+
+export type AccessibilitySettings = z.infer<typeof accessibilitySchema>;
+
+// Okabe-Ito: distinguishable under the common forms of colour blindness, and in greyscale by lightness
+export const colorBlindSafeColors = ['#0072B2', '#E69F00', '#009E73', '#F0E442', '#56B4E9', '#D55E00', '#CC79A7'];
+
+const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+// First visit follows the OS motion preference; after that the stored choice wins
+const defaultSettings = (): AccessibilitySettings => ({
+  version: ACCESSIBILITY_VERSION,
+  reducedMotion: prefersReducedMotion(),
+  highContrast: false,
+  colorBlindPalette: false,
+  fontScale: 1,
+  gameSpeed: 1,
+});
+
+const store = createProfileStore(ACCESSIBILITY_STORAGE_KEY, accessibilitySchema, defaultSettings);
+
+/** Also read directly by game loops, which need the current value every frame without re-rendering. */
+export const getAccessibilitySnapshot = store.get;
+export const subscribeAccessibility = store.subscribe;
+
+export function updateAccessibility(patch: Partial<Omit<AccessibilitySettings, 'version'>>) {
+  store.commit({ ...getAccessibilitySnapshot(), ...patch });
+}
+
+export function resetAccessibility() {
+  store.commit(defaultSettings());
+}
+
+export function replaceAccessibility(next: AccessibilitySettings) {
+  store.commit(next);
+}
+
+// Page-wide parts of the settings live on <html>: contrast and motion as classes (see index.css), font scale as the root size
+export function applyAccessibilityToDocument(settings: AccessibilitySettings) {
+  const root = document.documentElement;
+  root.classList.toggle('high-contrast', settings.highContrast);
+  root.classList.toggle('reduce-motion', settings.reducedMotion);
+  root.style.fontSize = settings.fontScale === 1 ? '' : `${settings.fontScale * 100}%`;
+}
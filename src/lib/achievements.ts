@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { achievements } from '@/data/achievements';
+import { createProfileStore } from '@/lib/profile-store';
+import { getStatsSnapshot } from '@/lib/stats-store';
+import type { Achievement } from '@/types/achievements';
+import type { SessionResult } from '@/types/session';
+
+export const ACHIEVEMENTS_STORAGE_KEY = 'arcade_achievements';
+export const ACHIEVEMENTS_VERSION = 1;
+
+export const achievementsSchema = z.object({
+  version: z.literal(ACHIEVEMENTS_VERSION),
+  // achievement id -> unlock timestamp
+  unlocked: z.record(z.number()),
+});
+
+export type AchievementsState = z.infer<typeof achievementsSchema>;
+
+const emptyState = (): AchievementsState => ({ version: ACHIEVEMENTS_VERSION, unlocked: {} });
+
+const store = createProfileStore(ACHIEVEMENTS_STORAGE_KEY, achievementsSchema, emptyState);
+
+export const getAchievementsSnapshot = store.get;
+export const subscribeAchievements = store.subscribe;
+
+export function replaceAchievements(next: AchievementsState) {
+  store.commit(next);
+}
+
+/**
+ * Runs every still-locked rule that applies to `run` and persists the ones that pass.
+ * Expects the run to have been recorded in the stats store already.
+ */
+export function evaluateAchievements(run: SessionResult): Achievement[] {
+  const current = getAchievementsSnapshot();
+  const ctx = { run, stats: getStatsSnapshot() };
+  const earned = achievements.filter(a =>
+    !current.unlocked[a.id] &&
+    (!a.gameIds || a.gameIds.includes(run.gameId)) &&
+    a.unlocks(ctx)
+  );
+  if (earned.length === 0) return earned;
+
+  const unlocked = { ...current.unlocked };
+  earned.forEach(a => { unlocked[a.id] = run.endedAt; });
+  store.commit({ ...current, unlocked });
+  return earned;
+}
@@ -0,0 +1,62 @@
+// How often an open tab asks the server for a newer build, on top of the check when it comes back into view
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+// the installed worker of a newer build, waiting for the page to let it take over
+let waiting: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+function setWaiting(worker: ServiceWorker) {
+  waiting = worker;
+  listeners.forEach(listener => listener());
+}
+
+export function getUpdateSnapshot() {
+  return waiting !== null;
+}
+
+export function subscribeAppUpdate(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Installs the offline service worker (production builds only) and watches for newer builds. A new build's worker
+ * installs alongside the current one and waits; `applyUpdate` hands it control and reloads into the new version.
+ */
+export async function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  let registration: ServiceWorkerRegistration;
+  try {
+    registration = await navigator.serviceWorker.register('/sw.js');
+  } catch {
+    // no worker means no offline play, but the arcade itself still works
+    return;
+  }
+
+  // with no controller this is the first install, which has nothing to replace
+  const track = (worker: ServiceWorker | null) => {
+    if (!worker) return;
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+    worker.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+    });
+  };
+  track(registration.waiting ?? registration.installing);
+  registration.addEventListener('updatefound', () => track(registration.installing));
+
+  const check = () => {
+    registration.update().catch(() => {});
+  };
+  window.setInterval(check, UPDATE_CHECK_MS);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') check();
+  });
+}
+
+export function applyUpdate() {
+  if (!waiting) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: 'SKIP_WAITING' });
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { createProfileStore } from '@/lib/profile-store';
+
+export const AUDIO_SETTINGS_STORAGE_KEY = 'arcade_audio';
+export const AUDIO_SETTINGS_VERSION = 1;
+
+const volume = z.number().min(0).max(1);
+
+export const audioSettingsSchema = z.object({
+  version: z.literal(AUDIO_SETTINGS_VERSION),
+  master: volume,
+  sfx: volume,
+  music: volume,
+  muted: z.boolean(),
+});
+
+export type AudioSettings = z.infer<typeof audioSettingsSchema>;
+export type AudioBus = 'master' | 'sfx' | 'music';
+
+export const defaultAudioSettings: AudioSettings = {
+  version: AUDIO_SETTINGS_VERSION,
+  master: 0.8,
+  sfx: 0.8,
+  // background loops sit under the effects unless the player turns them up
+  music: 0.4,
+  muted: false,
+};
+
+const store = createProfileStore(AUDIO_SETTINGS_STORAGE_KEY, audioSettingsSchema, () => defaultAudioSettings);
+
+export const getAudioSettingsSnapshot = store.get;
+export const subscribeAudioSettings = store.subscribe;
+
+export function setBusVolume(bus: AudioBus, value: number) {
+  store.commit({ ...getAudioSettingsSnapshot(), [bus]: Math.min(1, Math.max(0, value)) });
+}
+
+export function setMuted(muted: boolean) {
+  store.commit({ ...getAudioSettingsSnapshot(), muted });
+}
+
+export function replaceAudioSettings(next: AudioSettings) {
+  store.commit(next);
+}
@@ -0,0 +1,185 @@
+import { getAudioSettingsSnapshot, subscribeAudioSettings } from '@/lib/audio-settings';
+
+export type SoundEffect =
+  | 'click' | 'hit' | 'score' | 'jump' | 'shoot' | 'explosion' | 'powerUp' | 'error' | 'gameOver' | 'win';
+
+interface ToneOptions {
+  type?: OscillatorType;
+  // sweep target; the pitch slides from `freq` to this over the tone
+  to?: number;
+  gain?: number;
+  // seconds from now, for building short phrases out of single tones
+  delay?: number;
+}
+
+interface Engine {
+  ctx: AudioContext;
+  master: GainNode;
+  sfx: GainNode;
+  music: GainNode;
+}
+
+let engine: Engine | null = null;
+let noiseBuffer: AudioBuffer | null = null;
+
+function createEngine(): Engine | null {
+  const Ctor = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!Ctor) return null;
+  try {
+    const ctx = new Ctor();
+    const master = ctx.createGain();
+    const sfx = ctx.createGain();
+    const music = ctx.createGain();
+    sfx.connect(master);
+    music.connect(master);
+    master.connect(ctx.destination);
+    return { ctx, master, sfx, music };
+  } catch {
+    return null;
+  }
+}
+
+function applySettings() {
+  if (!engine) return;
+  const { master, sfx, music, muted } = getAudioSettingsSnapshot();
+  const now = engine.ctx.currentTime;
+  // short time constant so slider drags don't click
+  engine.master.gain.setTargetAtTime(muted ? 0 : master, now, 0.015);
+  engine.sfx.gain.setTargetAtTime(sfx, now, 0.015);
+  engine.music.gain.setTargetAtTime(music, now, 0.015);
+}
+
+/**
+ * Creates the shared context on first call and resumes it if the browser suspended it.
+ * Browsers only allow this from a user gesture, which is why it is wired to the first input below.
+ */
+export function unlockAudio() {
+  if (!engine) {
+    engine = createEngine();
+    applySettings();
+    if (engine && musicWanted) scheduleMusic();
+  }
+  if (engine?.ctx.state === 'suspended') void engine.ctx.resume();
+}
+
+function tone(bus: GainNode, freq: number, durationMs: number, { type = 'sine', to, gain = 0.4, delay = 0 }: ToneOptions = {}) {
+  const { ctx } = engine;
+  const start = ctx.currentTime + delay;
+  const end = start + durationMs / 1000;
+  const osc = ctx.createOscillator();
+  const env = ctx.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(freq, start);
+  if (to) osc.frequency.exponentialRampToValueAtTime(to, end);
+  env.gain.setValueAtTime(0, start);
+  env.gain.linearRampToValueAtTime(gain, start + 0.01);
+  env.gain.exponentialRampToValueAtTime(0.001, end);
+  osc.connect(env);
+  env.connect(bus);
+  osc.start(start);
+  osc.stop(end + 0.02);
+}
+
+function noise(durationMs: number, gain: number) {
+  const { ctx } = engine;
+  if (!noiseBuffer) {
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = noiseBuffer.getChannelData(0);
+    // audio texture rather than gameplay, so it stays off the session's seeded RNG
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  }
+  const src = ctx.createBufferSource();
+  const env = ctx.createGain();
+  const end = ctx.currentTime + durationMs / 1000;
+  src.buffer = noiseBuffer;
+  env.gain.setValueAtTime(gain, ctx.currentTime);
+  env.gain.exponentialRampToValueAtTime(0.001, end);
+  src.connect(env);
+  env.connect(engine.sfx);
+  src.start();
+  src.stop(end);
+}
+
+// Each effect is a few synthesized tones, so the library ships no audio files
+const effects: Record<SoundEffect, () => void> = {
+  click: () => tone(engine.sfx, 660, 40, { type: 'square', gain: 0.12 }),
+  hit: () => {
+    noise(70, 0.3);
+    tone(engine.sfx, 180, 90, { type: 'square', to: 90, gain: 0.25 });
+  },
+  score: () => {
+    tone(engine.sfx, 880, 70, { type: 'triangle' });
+    tone(engine.sfx, 1320, 90, { type: 'triangle', delay: 0.07 });
+  },
+  jump: () => tone(engine.sfx, 300, 120, { type: 'square', to: 600, gain: 0.18 }),
+  shoot: () => tone(engine.sfx, 900, 110, { type: 'sawtooth', to: 200, gain: 0.15 }),
+  explosion: () => {
+    noise(400, 0.5);
+    tone(engine.sfx, 120, 300, { type: 'sawtooth', to: 40, gain: 0.3 });
+  },
+  powerUp: () => [523, 659, 784, 1047].forEach((freq, i) => tone(engine.sfx, freq, 90, { type: 'triangle', delay: i * 0.06 })),
+  error: () => {
+    tone(engine.sfx, 200, 140, { type: 'square', gain: 0.2 });
+    tone(engine.sfx, 150, 200, { type: 'square', gain: 0.2, delay: 0.12 });
+  },
+  gameOver: () => [392, 330, 262].forEach((freq, i) => tone(engine.sfx, freq, 220, { type: 'triangle', delay: i * 0.18 })),
+  win: () => [523, 659, 784, 1047].forEach((freq, i) => tone(engine.sfx, freq, i === 3 ? 360 : 140, { type: 'triangle', delay: i * 0.12 })),
+};
+
+/** Plays a library effect on the SFX bus; a no-op until the first user gesture has unlocked audio. */
+export function playSfx(effect: SoundEffect) {
+  if (!engine) return;
+  effects[effect]();
+}
+
+/** A single pitched note on the SFX bus, for games whose sounds are tied to their own board (Simon's pads). */
+export function playTone(freq: number, durationMs = 140, options?: ToneOptions) {
+  if (!engine) return;
+  tone(engine.sfx, freq, durationMs, options);
+}
+
+// Background loop: a pentatonic arpeggio scheduled a little ahead on the music bus
+const MUSIC_NOTES = [262, 330, 392, 440, 392, 330, 294, 392];
+const MUSIC_STEP = 0.3;
+let musicWanted = false;
+let musicTimer: number | null = null;
+let musicStep = 0;
+let nextNoteAt = 0;
+
+function scheduleMusic() {
+  if (musicTimer !== null) return;
+  nextNoteAt = engine.ctx.currentTime + 0.05;
+  musicTimer = window.setInterval(() => {
+    while (nextNoteAt < engine.ctx.currentTime + 0.2) {
+      tone(engine.music, MUSIC_NOTES[musicStep % MUSIC_NOTES.length], MUSIC_STEP * 900, {
+        type: 'triangle',
+        gain: 0.12,
+        delay: nextNoteAt - engine.ctx.currentTime,
+      });
+      musicStep++;
+      nextNoteAt += MUSIC_STEP;
+    }
+  }, 100);
+}
+
+export function startMusic() {
+  musicWanted = true;
+  if (engine) scheduleMusic();
+}
+
+export function stopMusic() {
+  musicWanted = false;
+  if (musicTimer !== null) window.clearInterval(musicTimer);
+  musicTimer = null;
+}
+
+if (typeof window !== 'undefined') {
+  // the first gesture anywhere unlocks audio, so sounds fired later from timers and frame loops are heard
+  const gestures = ['pointerdown', 'keydown', 'touchstart'] as const;
+  const onGesture = () => {
+    unlockAudio();
+    if (engine) gestures.forEach(type => window.removeEventListener(type, onGesture, true));
+  };
+  gestures.forEach(type => window.addEventListener(type, onGesture, true));
+  subscribeAudioSettings(applySettings);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { circleIntersectsRect, distanceToSegment, enteredThrough, pointInRect, rectsOverlap } from './collision';
+
+const box = { x: 10, y: 10, w: 20, h: 10 };
+
+describe('distanceToSegment', () => {
+  it('measures to the closest point along the segment', () => {
+    expect(distanceToSegment(5, 3, 0, 0, 10, 0)).toBe(3);
+  });
+
+  it('measures to the nearer end point past either end', () => {
+    expect(distanceToSegment(-3, 4, 0, 0, 10, 0)).toBe(5);
+    expect(distanceToSegment(13, -4, 0, 0, 10, 0)).toBe(5);
+  });
+
+  it('treats a zero-length segment as a point', () => {
+    expect(distanceToSegment(3, 4, 0, 0, 0, 0)).toBe(5);
+  });
+});
+
+describe('circleIntersectsRect', () => {
+  it('hits a circle overlapping an edge or sitting inside', () => {
+    expect(circleIntersectsRect(8, 15, 3, box)).toBe(true);
+    expect(circleIntersectsRect(20, 15, 1, box)).toBe(true);
+  });
+
+  it('misses a circle that only touches an edge', () => {
+    expect(circleIntersectsRect(7, 15, 3, box)).toBe(false);
+  });
+
+  it('measures corners by distance, not by bounding box', () => {
+    // within 3 of both edges' lines, but 4.24 from the corner itself
+    expect(circleIntersectsRect(7, 7, 3, box)).toBe(false);
+    expect(circleIntersectsRect(8, 8, 3, box)).toBe(true);
+  });
+});
+
+describe('rectsOverlap', () => {
+  it('overlaps boxes that share area', () => {
+    expect(rectsOverlap(box, { x: 25, y: 15, w: 10, h: 10 })).toBe(true);
+    expect(rectsOverlap(box, { x: 0, y: 0, w: 100, h: 100 })).toBe(true);
+  });
+
+  it('keeps boxes that only share an edge apart', () => {
+    expect(rectsOverlap(box, { x: 30, y: 10, w: 5, h: 5 })).toBe(false);
+    expect(rectsOverlap(box, { x: 10, y: 20, w: 5, h: 5 })).toBe(false);
+  });
+});
+
+describe('pointInRect', () => {
+  it('counts points strictly inside', () => {
+    expect(pointInRect(20, 15, box)).toBe(true);
+    expect(pointInRect(10, 15, box)).toBe(false);
+    expect(pointInRect(30, 20, box)).toBe(false);
+  });
+});
+
+describe('enteredThrough', () => {
+  it('names the edge a point crossed', () => {
+    expect(enteredThrough(5, 15, box)).toEqual({ left: true, right: false, top: false, bottom: false });
+    expect(enteredThrough(20, 25, box)).toEqual({ left: false, right: false, top: false, bottom: true });
+  });
+
+  it('names both edges when the point came across a corner', () => {
+    expect(enteredThrough(35, 5, box)).toEqual({ left: false, right: true, top: true, bottom: false });
+  });
+});
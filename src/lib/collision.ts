@@ -0,0 +1,46 @@
+/** Axis-aligned box, x/y at its top-left corner. */
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Distance from a point to the nearest point of the segment (x1, y1)–(x2, y2). */
+export function distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number) {
+  const lx = x2 - x1;
+  const ly = y2 - y1;
+  const l2 = lx * lx + ly * ly;
+  // a zero-length segment is just its end point
+  if (l2 === 0) return Math.hypot(px - x1, py - y1);
+  const t = Math.max(0, Math.min(1, ((px - x1) * lx + (py - y1) * ly) / l2));
+  return Math.hypot(px - (x1 + t * lx), py - (y1 + t * ly));
+}
+
+// Overlap rather than contact: a circle that only touches an edge doesn't collide
+export function circleIntersectsRect(cx: number, cy: number, r: number, rect: Rect) {
+  const closestX = Math.max(rect.x, Math.min(cx, rect.x + rect.w));
+  const closestY = Math.max(rect.y, Math.min(cy, rect.y + rect.h));
+  const dx = cx - closestX;
+  const dy = cy - closestY;
+  return dx * dx + dy * dy < r * r;
+}
+
+export const rectsOverlap = (a: Rect, b: Rect) => a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+
+// strictly inside; a point on the edge is out
+export const pointInRect = (x: number, y: number, rect: Rect) =>
+  x > rect.x && x < rect.x + rect.w && y > rect.y && y < rect.y + rect.h;
+
+/**
+ * Which of the box's edges a point moving from (fromX, fromY) came through, judged from where it was before
+ * entering; a point arriving across a corner counts as crossing both edges there.
+ */
+export function enteredThrough(fromX: number, fromY: number, rect: Rect) {
+  return {
+    left: fromX <= rect.x,
+    right: fromX >= rect.x + rect.w,
+    top: fromY <= rect.y,
+    bottom: fromY >= rect.y + rect.h,
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { currentDailyChallenge, getDailyChallenge } from '@/lib/daily';
+
+const beforeMidnight = new Date(2026, 9, 19, 23, 59, 30);
+const afterMidnight = new Date(2026, 9, 20, 0, 0, 30);
+
+describe('currentDailyChallenge', () => {
+  it('keeps the challenge through the day', () => {
+    const shown = getDailyChallenge(beforeMidnight);
+    expect(currentDailyChallenge(shown, false, new Date(2026, 9, 19, 23, 59, 59))).toBe(shown);
+  });
+
+  it('holds a run in progress at midnight on the challenge it started on', () => {
+    const shown = getDailyChallenge(beforeMidnight);
+    expect(currentDailyChallenge(shown, true, afterMidnight)).toBe(shown);
+  });
+
+  it('moves on to the new day once the run ends', () => {
+    const shown = getDailyChallenge(beforeMidnight);
+    const held = currentDailyChallenge(shown, true, afterMidnight);
+    expect(currentDailyChallenge(held, false, afterMidnight)).toEqual(getDailyChallenge(afterMidnight));
+    expect(getDailyChallenge(afterMidnight).dateKey).toBe('2026-10-20');
+  });
+});
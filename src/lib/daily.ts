@@ -0,0 +1,28 @@
+import { games } from '@/data/games';
+import { hashString } from '@/lib/random';
+
+// Local calendar day, so the challenge rolls over at the player's midnight
+export function dateKey(date = new Date()) {
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+export function getDailyChallenge(date = new Date()) {
+  const key = dateKey(date);
+  return {
+    dateKey: key,
+    seed: hashString(`daily:${key}`),
+    game: games[hashString(`daily-game:${key}`) % games.length],
+  };
+}
+
+export type DailyChallenge = ReturnType<typeof getDailyChallenge>;
+
+/**
+ * The challenge the daily page should show on `date`. A run still being played keeps the challenge it started on past
+ * midnight, since switching would throw it away unrecorded; the page moves on once the run ends.
+ */
+export function currentDailyChallenge(shown: DailyChallenge, runLive: boolean, date = new Date()): DailyChallenge {
+  return runLive || shown.dateKey === dateKey(date) ? shown : getDailyChallenge(date);
+}
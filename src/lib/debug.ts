@@ -0,0 +1,95 @@
+import type { FixedLoop } from '@/lib/engine';
+import type { GameSim, Hitbox, SimCommand, SimRun } from '@/lib/sim';
+
+// Vite drops every branch behind this from production bundles
+export const debugToolsEnabled = import.meta.env.DEV;
+
+// Time scales the overlay offers, on top of the player's own slow mode
+export const debugTimeScales = [1, 0.5, 0.25, 0.1] as const;
+
+export interface DebugSettings {
+  open: boolean;
+  timeScale: number;
+  // holds simulated time; frames keep drawing and can be stepped one tick at a time
+  frozen: boolean;
+  hitboxes: boolean;
+  // applied to every run started while it is on, not just the current one
+  invulnerable: boolean;
+}
+
+/** The sim run currently on screen, as the overlay sees it. */
+export interface DebugTarget {
+  sim: GameSim;
+  run(): SimRun;
+  loop(): FixedLoop | null;
+  // null between runs, when the preview's seed means nothing
+  seed(): number | null;
+  send(command: SimCommand): void;
+}
+
+const defaultSettings: DebugSettings = { open: false, timeScale: 1, frozen: false, hitboxes: false, invulnerable: false };
+
+// Kept in memory only: a reload starts from a clean slate, which is what a tuning session usually wants
+let state = defaultSettings;
+let target: DebugTarget | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export function getDebugSnapshot(): DebugSettings {
+  return state;
+}
+
+export function subscribeDebug(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function updateDebug(patch: Partial<DebugSettings>) {
+  state = { ...state, ...patch };
+  notify();
+}
+
+/**
+ * The commands a run records for the settings that change how it plays, going from `prev` (a fresh run's defaults
+ * when it starts) to `next`. Hitboxes only change what is drawn and aren't recorded.
+ */
+export function debugSettingCommands(next: DebugSettings, prev: DebugSettings = defaultSettings): SimCommand[] {
+  const commands: SimCommand[] = [];
+  if (next.timeScale !== prev.timeScale) commands.push(['debug:time-scale', next.timeScale]);
+  if (next.frozen !== prev.frozen) commands.push(['debug:freeze', next.frozen ? 1 : 0]);
+  if (next.invulnerable !== prev.invulnerable) commands.push(['debug:invulnerable', next.invulnerable ? 1 : 0]);
+  return commands;
+}
+
+/** Called by the sim runner when its game mounts; the returned function unregisters it. */
+export function setDebugTarget(next: DebugTarget) {
+  target = next;
+  notify();
+  return () => {
+    if (target !== next) return;
+    target = null;
+    notify();
+  };
+}
+
+export function getDebugTarget() {
+  return target;
+}
+
+export function drawHitboxes(ctx: CanvasRenderingContext2D, boxes: Hitbox[]) {
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = '#22ff88';
+  ctx.fillStyle = 'rgba(34,255,136,0.12)';
+  for (const box of boxes) {
+    ctx.beginPath();
+    if (box.kind === 'circle') ctx.arc(box.x, box.y, box.r, 0, Math.PI * 2);
+    else ctx.rect(box.x, box.y, box.w, box.h);
+    ctx.fill();
+    ctx.stroke();
+  }
+  ctx.restore();
+}
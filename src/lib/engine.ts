@@ -0,0 +1,205 @@
+// A longer gap between frames (a stalled tab, a breakpoint) is only partly caught up instead of fast-forwarding the game
+export const MAX_FRAME_MS = 100;
+// how much frame history the stats average over
+const STATS_WINDOW_MS = 500;
+
+export interface FrameStats {
+  // frames drawn per second, averaged over the last half second
+  fps: number;
+  // average wall time between frames, in milliseconds
+  frameMs: number;
+  // fixed steps taken on the latest frame; 2+ means the display runs slower than the step rate
+  stepsPerFrame: number;
+  // fixed steps taken since the loop started
+  steps: number;
+}
+
+export interface FixedLoopHandlers {
+  stepMs: number;
+  // false holds simulated time (paused, between runs) while frames keep being drawn
+  running(): boolean;
+  // scale on elapsed time, for slow mode and replay speeds
+  speed?(): number;
+  // called once on frames that advance, before their steps, for inputs that are polled rather than evented
+  beforeSteps?(): void;
+  // advances the game by exactly `stepMs`
+  step(): void;
+  // how far the game is between its last step and the next, 0–1; 1 while held, so a frozen frame shows the latest state
+  render(alpha: number): void;
+}
+
+export interface FixedLoop {
+  readonly stats: FrameStats;
+  // takes `count` steps on the next frame even while held, for stepping through a paused game one tick at a time
+  stepFrames(count?: number): void;
+  stop(): void;
+}
+
+/**
+ * Runs a game on a fixed timestep: every animation frame adds the elapsed time to a carry and takes as many
+ * `stepMs` steps as fit, so the game advances at the same rate with the same step size on a 60Hz or a 144Hz display.
+ * The leftover fraction of a step is handed to `render`, which can blend positions for smooth motion in between.
+ */
+export function startFixedLoop(handlers: FixedLoopHandlers): FixedLoop {
+  const { stepMs } = handlers;
+  const stats: FrameStats = { fps: 0, frameMs: 0, stepsPerFrame: 0, steps: 0 };
+  // timestamps of recent frames, for the averages
+  const history: number[] = [];
+  let frame = 0;
+  let last: number | null = null;
+  let carry = 0;
+  let manualSteps = 0;
+
+  const step = () => {
+    handlers.step();
+    stats.steps++;
+    stats.stepsPerFrame++;
+  };
+
+  const loop = (now: number) => {
+    frame = requestAnimationFrame(loop);
+
+    history.push(now);
+    while (history.length > 2 && now - history[0] > STATS_WINDOW_MS) history.shift();
+    const span = now - history[0];
+    stats.frameMs = span > 0 ? span / (history.length - 1) : 0;
+    stats.fps = stats.frameMs > 0 ? 1000 / stats.frameMs : 0;
+    stats.stepsPerFrame = 0;
+
+    let alpha = 1;
+    if (handlers.running()) {
+      handlers.beforeSteps?.();
+      carry += (last === null ? 0 : Math.min(now - last, MAX_FRAME_MS)) * (handlers.speed?.() ?? 1);
+      last = now;
+      while (carry >= stepMs && handlers.running()) {
+        carry -= stepMs;
+        step();
+      }
+      alpha = handlers.running() ? carry / stepMs : 1;
+    } else {
+      // restart the clock on resume, so the held stretch isn't caught up
+      last = null;
+      carry = 0;
+      for (; manualSteps > 0; manualSteps--) step();
+    }
+    manualSteps = 0;
+
+    handlers.render(alpha);
+  };
+
+  frame = requestAnimationFrame(loop);
+
+  return {
+    stats,
+    stepFrames(count = 1) {
+      manualSteps += count;
+    },
+    stop() {
+      cancelAnimationFrame(frame);
+    },
+  };
+}
+
+/** Maps a pointer position to board coordinates, whatever size the canvas is shown at. */
+export function toBoardPoint(canvas: HTMLCanvasElement, clientX: number, clientY: number, width: number, height: number) {
+  const box = canvas.getBoundingClientRect();
+  return {
+    x: Math.round(((clientX - box.left) / (box.width || width)) * width),
+    y: Math.round(((clientY - box.top) / (box.height || height)) * height),
+  };
+}
+
+/** Blends a value between its state on the previous step and the latest one. */
+export function lerp(previous: number, current: number, alpha: number) {
+  return previous + (current - previous) * alpha;
+}
+
+export interface CanvasSurface {
+  // the canvas's 2D context, scaled so a `width` × `height` logical board fills it; null while no canvas is mounted
+  context(width: number, height: number): CanvasRenderingContext2D | null;
+  dispose(): void;
+}
+
+// Surfaces to re-measure when an ancestor's transform changes, which neither resize events nor ResizeObserver report
+const surfaceInvalidators = new Set<() => void>();
+
+/** Has every canvas surface measure its canvas again on its next frame; the game stage calls it when its scale changes. */
+export function remeasureCanvasSurfaces() {
+  surfaceInvalidators.forEach(invalidate => invalidate());
+}
+
+/**
+ * Keeps a canvas's backing store matched to its on-screen size times the device pixel ratio, so boards stay sharp
+ * when the page is zoomed, the window moves to a screen with a different density, or CSS stretches or scales the canvas
+ * (the game stage scales whole games with a transform, which a canvas's layout size doesn't show).
+ * The on-screen size is measured once and kept until a ResizeObserver, the density query or `remeasureCanvasSurfaces`
+ * says it may have changed. The canvas itself is looked up on every frame, so one surface follows a canvas that mounts
+ * late or is swapped out.
+ */
+export function createCanvasSurface(getCanvas: () => HTMLCanvasElement | null): CanvasSurface {
+  let canvas: HTMLCanvasElement | null = null;
+  let ctx: CanvasRenderingContext2D | null = null;
+  let ratio = window.devicePixelRatio || 1;
+  // null while the canvas isn't displayed
+  let shownSize: { width: number; height: number } | null = null;
+  let stale = true;
+  const invalidate = () => {
+    stale = true;
+  };
+  const resizeObserver = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(invalidate);
+  surfaceInvalidators.add(invalidate);
+
+  // a resolution query only matches the ratio it was made for, so it is remade after each change
+  let densityQuery: MediaQueryList | null = null;
+  const watchDensity = () => {
+    densityQuery?.removeEventListener('change', onDensityChange);
+    ratio = window.devicePixelRatio || 1;
+    stale = true;
+    densityQuery = window.matchMedia?.(`(resolution: ${ratio}dppx)`) ?? null;
+    densityQuery?.addEventListener('change', onDensityChange);
+  };
+  function onDensityChange() {
+    watchDensity();
+  }
+  watchDensity();
+
+  const attach = (next: HTMLCanvasElement | null) => {
+    canvas = next;
+    ctx = next?.getContext('2d') ?? null;
+    resizeObserver?.disconnect();
+    if (next) resizeObserver?.observe(next);
+    stale = true;
+  };
+
+  return {
+    context(width, height) {
+      const current = getCanvas();
+      if (current !== canvas) attach(current);
+      if (!canvas || !ctx) return null;
+
+      if (stale) {
+        const box = canvas.getBoundingClientRect();
+        shownSize = box.width > 0 && box.height > 0 ? { width: box.width, height: box.height } : null;
+        // with no ResizeObserver nothing reports a resize, so every frame measures
+        stale = resizeObserver === null;
+      }
+      // a canvas that isn't displayed keeps a backing store at its logical size
+      const shown = shownSize ?? { width, height };
+      const w = Math.max(1, Math.round(shown.width * ratio));
+      const h = Math.max(1, Math.round(shown.height * ratio));
+      if (canvas.width !== w || canvas.height !== h) {
+        canvas.width = w;
+        canvas.height = h;
+      }
+      ctx.setTransform(w / width, 0, 0, h / height, 0, 0);
+      return ctx;
+    },
+    dispose() {
+      densityQuery?.removeEventListener('change', onDensityChange);
+      resizeObserver?.disconnect();
+      surfaceInvalidators.delete(invalidate);
+      canvas = null;
+      ctx = null;
+    },
+  };
+}
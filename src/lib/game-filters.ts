@@ -0,0 +1,64 @@
+import { Game, GameCategory, categoryLabels } from '@/types/games';
+import type { StatsState } from '@/lib/stats-store';
+
+export type GameSort = 'featured' | 'difficulty' | 'recent' | 'plays' | 'best';
+
+export const sortLabels: Record<GameSort, string> = {
+  featured: 'Featured',
+  difficulty: 'Difficulty',
+  recent: 'Recently played',
+  plays: 'Most played',
+  best: 'Personal best',
+};
+
+export interface GameFilters {
+  category: GameCategory | 'all';
+  query: string;
+  sort: GameSort;
+}
+
+const difficultyRank: Record<Game['difficulty'], number> = { easy: 0, medium: 1, hard: 2 };
+
+// Catalog names use styled Unicode letters (𝕊ℕ𝔸𝕂𝔼); NFKC folds them back to plain ASCII for matching
+const fold = (value: string) => value.normalize('NFKC').toLowerCase();
+
+// Higher first; games without a value sort after those with one
+function compareDesc(a: number | null | undefined, b: number | null | undefined) {
+  if (a == null) return b == null ? 0 : 1;
+  if (b == null) return -1;
+  return b - a;
+}
+
+export function parseGameFilters(params: URLSearchParams): GameFilters {
+  const category = params.get('category');
+  const sort = params.get('sort');
+  return {
+    category: Object.keys(categoryLabels).includes(category) ? (category as GameCategory) : 'all',
+    query: params.get('q') ?? '',
+    sort: Object.keys(sortLabels).includes(sort) ? (sort as GameSort) : 'featured',
+  };
+}
+
+export function filterGames(list: Game[], { category, query, sort }: GameFilters, stats: StatsState) {
+  const needle = fold(query.trim());
+  const matches = list.filter(game =>
+    (category === 'all' || game.category === category) &&
+    (!needle || fold(game.name).includes(needle) || fold(game.description).includes(needle))
+  );
+
+  // Array.prototype.sort is stable, so ties keep catalog order
+  const statOf = (game: Game) => stats.games[game.id];
+
+  switch (sort) {
+    case 'difficulty':
+      return matches.sort((a, b) => difficultyRank[a.difficulty] - difficultyRank[b.difficulty]);
+    case 'recent':
+      return matches.sort((a, b) => compareDesc(statOf(a)?.lastPlayedAt, statOf(b)?.lastPlayedAt));
+    case 'plays':
+      return matches.sort((a, b) => compareDesc(statOf(a)?.plays, statOf(b)?.plays));
+    case 'best':
+      return matches.sort((a, b) => compareDesc(statOf(a)?.best, statOf(b)?.best));
+    default:
+      return matches;
+  }
+}
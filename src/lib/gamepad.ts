@@ -0,0 +1,116 @@
+import type { InputAction } from '@/types/input';
+
+// Button indices in the browser's "standard" gamepad mapping (Xbox / PlayStation layouts)
+const BUTTON_ACTIONS: [number, InputAction][] = [
+  [12, 'up'],
+  [13, 'down'],
+  [14, 'left'],
+  [15, 'right'],
+  [0, 'primary'],
+  [1, 'secondary'],
+  [9, 'pause'],
+];
+
+// Stick travel ignored around centre, and the point where it also counts as a d-pad press
+const DEADZONE = 0.2;
+const DIGITAL_THRESHOLD = 0.5;
+
+export type GamepadActionListener = (action: InputAction, pressed: boolean) => void;
+
+export interface StickAxes {
+  // -1 (left/up) .. 1 (right/down), 0 inside the deadzone
+  x: number;
+  y: number;
+}
+
+const actionListeners = new Set<GamepadActionListener>();
+const connectionListeners = new Set<() => void>();
+let held = new Set<InputAction>();
+let frame: number | null = null;
+let connectedId: string | null = null;
+
+const supported = () => typeof navigator !== 'undefined' && typeof navigator.getGamepads === 'function';
+
+function firstPad(): Gamepad | null {
+  if (!supported()) return null;
+  return Array.from(navigator.getGamepads()).find(pad => pad?.connected) ?? null;
+}
+
+const applyDeadzone = (value: number) => (Math.abs(value) < DEADZONE ? 0 : value);
+
+/** Left stick of the first connected pad, read live; callers poll it from their own frame loop. */
+export function getStickAxes(): StickAxes {
+  const pad = firstPad();
+  if (!pad || pad.axes.length < 2) return { x: 0, y: 0 };
+  return { x: applyDeadzone(pad.axes[0]), y: applyDeadzone(pad.axes[1]) };
+}
+
+function readActions(pad: Gamepad) {
+  const next = new Set<InputAction>();
+  BUTTON_ACTIONS.forEach(([index, action]) => {
+    if (pad.buttons[index]?.pressed) next.add(action);
+  });
+  // the stick doubles as a d-pad for games that only understand directions
+  const [x = 0, y = 0] = pad.axes;
+  if (x <= -DIGITAL_THRESHOLD) next.add('left');
+  if (x >= DIGITAL_THRESHOLD) next.add('right');
+  if (y <= -DIGITAL_THRESHOLD) next.add('up');
+  if (y >= DIGITAL_THRESHOLD) next.add('down');
+  return next;
+}
+
+// The Gamepad API has no input events, so pressed/released edges come from diffing each frame
+function poll() {
+  const pad = firstPad();
+  const next = pad ? readActions(pad) : new Set<InputAction>();
+  next.forEach(action => {
+    if (!held.has(action)) actionListeners.forEach(listener => listener(action, true));
+  });
+  held.forEach(action => {
+    if (!next.has(action)) actionListeners.forEach(listener => listener(action, false));
+  });
+  held = next;
+  frame = requestAnimationFrame(poll);
+}
+
+function syncPolling() {
+  const shouldPoll = actionListeners.size > 0 && connectedId !== null;
+  if (shouldPoll && frame === null) {
+    frame = requestAnimationFrame(poll);
+  } else if (!shouldPoll && frame !== null) {
+    cancelAnimationFrame(frame);
+    frame = null;
+    held = new Set();
+  }
+}
+
+export function subscribeGamepadActions(listener: GamepadActionListener) {
+  actionListeners.add(listener);
+  syncPolling();
+  return () => {
+    actionListeners.delete(listener);
+    syncPolling();
+  };
+}
+
+export function getConnectedGamepad() {
+  return connectedId;
+}
+
+export function subscribeGamepadConnection(listener: () => void) {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+}
+
+function updateConnection() {
+  connectedId = firstPad()?.id ?? null;
+  syncPolling();
+  connectionListeners.forEach(listener => listener());
+}
+
+if (typeof window !== 'undefined' && supported()) {
+  window.addEventListener('gamepadconnected', updateConnection);
+  window.addEventListener('gamepaddisconnected', updateConnection);
+}
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { createProfileStore } from '@/lib/profile-store';
+import { inputActions, type InputAction, type KeyBindings } from '@/types/input';
+
+export const KEY_BINDINGS_STORAGE_KEY = 'arcade_key_bindings';
+export const KEY_BINDINGS_VERSION = 1;
+
+export const defaultBindings: KeyBindings = {
+  up: ['ArrowUp', 'KeyW'],
+  down: ['ArrowDown', 'KeyS'],
+  left: ['ArrowLeft', 'KeyA'],
+  right: ['ArrowRight', 'KeyD'],
+  primary: ['Space', 'Enter'],
+  secondary: ['KeyR'],
+  pause: ['Escape', 'KeyP'],
+};
+
+export const bindingsSchema = z.object({
+  version: z.literal(KEY_BINDINGS_VERSION),
+  // game id -> only the actions the player has changed
+  games: z.record(z.record(z.array(z.string()))),
+});
+
+export type KeyBindingsState = z.infer<typeof bindingsSchema>;
+
+const emptyState = (): KeyBindingsState => ({ version: KEY_BINDINGS_VERSION, games: {} });
+
+// bindings follow the player, so switching profiles swaps the whole set
+const store = createProfileStore(KEY_BINDINGS_STORAGE_KEY, bindingsSchema, emptyState);
+
+export const getKeyBindingsSnapshot = store.get;
+export const subscribeKeyBindings = store.subscribe;
+
+/** Defaults with the player's overrides for `gameId` laid over them. */
+export function resolveBindings(current: KeyBindingsState, gameId: string): KeyBindings {
+  const overrides = current.games[gameId] ?? {};
+  const resolved = { ...defaultBindings };
+  inputActions.forEach(action => {
+    if (overrides[action]) resolved[action] = overrides[action];
+  });
+  return resolved;
+}
+
+/**
+ * Binds `code` to `action` for one game. A key only ever drives one action per game,
+ * so it is taken off whichever action had it before.
+ */
+export function addKeyBinding(gameId: string, action: InputAction, code: string) {
+  const current = getKeyBindingsSnapshot();
+  const resolved = resolveBindings(current, gameId);
+  const overrides = { ...current.games[gameId] };
+  inputActions.forEach(other => {
+    if (other !== action && resolved[other].includes(code)) {
+      overrides[other] = resolved[other].filter(c => c !== code);
+    }
+  });
+  if (!resolved[action].includes(code)) overrides[action] = [...resolved[action], code];
+  store.commit({ ...current, games: { ...current.games, [gameId]: overrides } });
+}
+
+export function removeKeyBinding(gameId: string, action: InputAction, code: string) {
+  const current = getKeyBindingsSnapshot();
+  const resolved = resolveBindings(current, gameId);
+  const overrides = { ...current.games[gameId], [action]: resolved[action].filter(c => c !== code) };
+  store.commit({ ...current, games: { ...current.games, [gameId]: overrides } });
+}
+
+export function resetKeyBindings(gameId: string) {
+  const current = getKeyBindingsSnapshot();
+  const games = { ...current.games };
+  delete games[gameId];
+  store.commit({ ...current, games });
+}
+
+export function replaceKeyBindings(next: KeyBindingsState) {
+  store.commit(next);
+}
+
+export function actionForKey(bindings: KeyBindings, code: string): InputAction | null {
+  return inputActions.find(action => bindings[action].includes(code)) ?? null;
+}
+
+const keyNames: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Space: 'Space',
+};
+
+// 'KeyW' -> 'W', 'Digit1' -> '1', 'Numpad8' -> 'Num 8'
+export function formatKeyCode(code: string) {
+  if (keyNames[code]) return keyNames[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return code.replace(/(Left|Right)$/, ' $1');
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createMockLeaderboardServer } from '@/lib/leaderboard-mock-server';
+import { createRestLeaderboardProvider, LeaderboardRequestError, type RemoteScoreSubmission } from '@/lib/leaderboard-provider';
+import { signSessionSummary } from '@/lib/session-integrity';
+
+const BOARD = 'whack-a-mole/all';
+
+// a Whack-a-Mole round, which has no sim, so only its signature and score limits are checked
+async function submission(id: string, score: number, recordedAt: number, playerId = id): Promise<RemoteScoreSubmission> {
+  const session = await signSessionSummary({
+    gameId: 'whack-a-mole',
+    gameVersion: null,
+    seed: null,
+    score,
+    outcome: 'completed',
+    durationMs: 30_000,
+    inputCount: null,
+    endedAt: recordedAt,
+  });
+  return { id, board: BOARD, playerId, initials: 'AAA', score, recordedAt, session, inputs: null };
+}
+
+function setup() {
+  const server = createMockLeaderboardServer({ latencyMs: 0 });
+  return { server, provider: createRestLeaderboardProvider('/mock-api', server.fetch) };
+}
+
+describe('mock leaderboard server', () => {
+  it('ranks scores best first, earlier runs ahead on ties', async () => {
+    const { provider } = setup();
+    await provider.submit(await submission('a', 10, 1));
+    await provider.submit(await submission('b', 20, 2));
+    expect(await provider.submit(await submission('c', 10, 0))).toMatchObject({ rank: 2, playerId: 'c' });
+
+    expect((await provider.top(BOARD, 10)).map(e => [e.rank, e.playerId])).toEqual([[1, 'b'], [2, 'c'], [3, 'a']]);
+    expect((await provider.top(BOARD, 1)).map(e => e.playerId)).toEqual(['b']);
+  });
+
+  it('lists the entries around a player', async () => {
+    const { provider } = setup();
+    for (let i = 0; i < 6; i++) await provider.submit(await submission(`p${i}`, 10 + i, i));
+    expect((await provider.aroundMe(BOARD, 'p2', 1)).map(e => e.playerId)).toEqual(['p3', 'p2', 'p1']);
+    expect(await provider.aroundMe(BOARD, 'nobody', 1)).toEqual([]);
+  });
+
+  it('takes a resent score once', async () => {
+    const { provider } = setup();
+    const score = await submission('a', 10, 1);
+    await provider.submit(score);
+    await provider.submit(score);
+    expect(await provider.top(BOARD, 10)).toHaveLength(1);
+  });
+
+  it('turns down scores the verifier rejects and malformed requests with a 4xx', async () => {
+    const { server, provider } = setup();
+    await expect(provider.submit(await submission('a', 1000, 1))).rejects.toMatchObject({ status: 422, retryable: false });
+    await expect(provider.submit({ ...(await submission('b', 10, 1)), score: 11 })).rejects.toMatchObject({ status: 422 });
+    await expect(provider.submit({ ...(await submission('c', 10, 1)), initials: 'lower' })).rejects.toMatchObject({ status: 400 });
+
+    const response = await server.fetch(`/mock-api/boards/${encodeURIComponent(BOARD)}/scores`, { method: 'POST', body: '{' });
+    expect(response.status).toBe(400);
+    expect(await provider.top(BOARD, 10)).toEqual([]);
+  });
+
+  it('fails like a dropped connection while offline', async () => {
+    const { server, provider } = setup();
+    server.setOnline(false);
+    await expect(server.fetch(`/mock-api/boards/${encodeURIComponent(BOARD)}/top`)).rejects.toThrow(TypeError);
+    const error = await provider.submit(await submission('a', 10, 1)).catch(e => e);
+    expect(error).toBeInstanceOf(LeaderboardRequestError);
+    expect(error).toMatchObject({ status: null, retryable: true });
+
+    server.setOnline(true);
+    await provider.submit(await submission('a', 10, 1));
+    expect(await provider.top(BOARD, 10)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,108 @@
+import type { RemoteLeaderboardEntry, RemoteScoreSubmission } from '@/lib/leaderboard-provider';
+import { SESSION_SIGNING_KEY } from '@/lib/session-integrity';
+import { verifySession } from '@/lib/session-verifier';
+
+interface MockServerOptions {
+  // per-request delay, so loading states show up in development
+  latencyMs?: number;
+  signingKey?: string;
+}
+
+type StoredScore = Pick<RemoteScoreSubmission, 'id' | 'playerId' | 'initials' | 'score' | 'recordedAt'>;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const isSubmission = (body: Partial<RemoteScoreSubmission>) =>
+  typeof body.id === 'string' &&
+  typeof body.playerId === 'string' &&
+  typeof body.initials === 'string' && /^[A-Z0-9]{1,3}$/.test(body.initials) &&
+  Number.isFinite(body.score) &&
+  Number.isFinite(body.recordedAt) &&
+  typeof body.session === 'object' && body.session !== null;
+
+/**
+ * The leaderboard REST API held in memory, exposed as a `fetch` the REST provider can be built on.
+ * Requests fail like a dropped connection while the browser reports itself offline or `setOnline(false)`
+ * is in effect, which is how the submission queue's retries get exercised without a real server.
+ * Submissions go through the session verifier first, and a run it rejects is answered with a 422.
+ */
+export function createMockLeaderboardServer({ latencyMs = 150, signingKey = SESSION_SIGNING_KEY }: MockServerOptions = {}) {
+  const boards = new Map<string, Map<string, StoredScore>>();
+  let online = true;
+
+  // best first; equal scores rank by who got there first
+  const ranked = (board: string): RemoteLeaderboardEntry[] =>
+    [...(boards.get(board)?.values() ?? [])]
+      .sort((a, b) => b.score - a.score || a.recordedAt - b.recordedAt)
+      .map(({ playerId, initials, score, recordedAt }, i) => ({ rank: i + 1, playerId, initials, score, recordedAt }));
+
+  async function handle(method: string, path: string[], params: URLSearchParams, body: string | null): Promise<Response> {
+    const [root, rawBoard, action, rawPlayer] = path;
+    if (root !== 'boards' || !rawBoard) return json({ error: 'Not found' }, 404);
+    const board = decodeURIComponent(rawBoard);
+
+    if (method === 'POST' && action === 'scores') {
+      let submission: Partial<RemoteScoreSubmission>;
+      try {
+        submission = JSON.parse(body ?? '');
+      } catch {
+        return json({ error: 'Invalid JSON' }, 400);
+      }
+      if (!isSubmission(submission)) return json({ error: 'Invalid score' }, 400);
+      const { session } = submission;
+      if (session.score !== submission.score || board.split('/')[0] !== session.gameId) {
+        return json({ error: 'Score does not match its session' }, 422);
+      }
+      const verdict = await verifySession(session, submission.inputs ?? null, signingKey);
+      if (verdict.ok === false) return json({ error: verdict.reason }, 422);
+      const scores = boards.get(board) ?? new Map<string, StoredScore>();
+      // a resend of a score the server already has is accepted and changes nothing
+      if (!scores.has(submission.id)) {
+        const { id, playerId, initials, score, recordedAt } = submission;
+        scores.set(id, { id, playerId, initials, score, recordedAt });
+      }
+      boards.set(board, scores);
+      const stored = scores.get(submission.id);
+      return json(ranked(board).find(e => e.playerId === stored.playerId && e.recordedAt === stored.recordedAt), 201);
+    }
+
+    if (method === 'GET' && action === 'top') {
+      const limit = Math.max(1, Number(params.get('limit')) || 10);
+      return json(ranked(board).slice(0, limit));
+    }
+
+    if (method === 'GET' && action === 'around' && rawPlayer) {
+      const playerId = decodeURIComponent(rawPlayer);
+      const span = Math.max(0, Number(params.get('span')) || 2);
+      const entries = ranked(board);
+      const index = entries.findIndex(e => e.playerId === playerId);
+      return json(index === -1 ? [] : entries.slice(Math.max(0, index - span), index + span + 1));
+    }
+
+    return json({ error: 'Not found' }, 404);
+  }
+
+  const fetchImpl = async (input: string, init: RequestInit = {}): Promise<Response> => {
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+    const reachable = online && (typeof navigator === 'undefined' || navigator.onLine !== false);
+    // what a real fetch does when the network is down
+    if (!reachable) throw new TypeError('Failed to fetch');
+    const url = new URL(input, 'http://mock.local');
+    // drop the mount point (e.g. /mock-api) ahead of the API's own path
+    const path = url.pathname.split('/').filter(Boolean);
+    const start = path.indexOf('boards');
+    return handle((init.method ?? 'GET').toUpperCase(), start === -1 ? [] : path.slice(start), url.searchParams, (init.body as string) ?? null);
+  };
+
+  return {
+    fetch: fetchImpl,
+    setOnline(value: boolean) {
+      online = value;
+    },
+    reset() {
+      boards.clear();
+      online = true;
+    },
+  };
+}
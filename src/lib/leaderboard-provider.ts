@@ -0,0 +1,95 @@
+import { createMockLeaderboardServer } from '@/lib/leaderboard-mock-server';
+import type { SignedSessionSummary } from '@/lib/session-integrity';
+import type { SessionInputs } from '@/types/session';
+
+// A score as the client sends it. `id` makes resubmitting after a lost response harmless.
+export interface RemoteScoreSubmission {
+  id: string;
+  // boardKey() of the local board: `${gameId}/${mode}`
+  board: string;
+  playerId: string;
+  initials: string;
+  score: number;
+  recordedAt: number;
+  // the run behind the score, for the server to check before ranking it
+  session: SignedSessionSummary;
+  inputs: SessionInputs | null;
+}
+
+export interface RemoteLeaderboardEntry {
+  rank: number;
+  playerId: string;
+  initials: string;
+  score: number;
+  recordedAt: number;
+}
+
+/** What the app needs from an online leaderboard service; swap implementations without touching the UI. */
+export interface LeaderboardProvider {
+  submit(submission: RemoteScoreSubmission): Promise<RemoteLeaderboardEntry>;
+  top(board: string, limit: number): Promise<RemoteLeaderboardEntry[]>;
+  // the player's best entry with up to `span` entries either side; empty when they have none on the board
+  aroundMe(board: string, playerId: string, span: number): Promise<RemoteLeaderboardEntry[]>;
+}
+
+/**
+ * A failed request. `retryable` is false when the server answered and turned the request down (4xx),
+ * so resending the same thing would only fail again.
+ */
+export class LeaderboardRequestError extends Error {
+  readonly status: number | null;
+  readonly retryable: boolean;
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = 'LeaderboardRequestError';
+    this.status = status;
+    this.retryable = status === null || status >= 500 || status === 408 || status === 429;
+  }
+}
+
+// Query-cache prefix for one board's online data; uploads invalidate it so the tables refetch
+export const remoteBoardQueryKey = (board: string) => ['remote-leaderboard', board] as const;
+
+type Fetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Talks to a leaderboard service over REST:
+ *   POST {base}/boards/:board/scores
+ *   GET  {base}/boards/:board/top?limit=N
+ *   GET  {base}/boards/:board/around/:playerId?span=N
+ */
+export function createRestLeaderboardProvider(baseUrl: string, fetchImpl: Fetch = (...args) => fetch(...args)): LeaderboardProvider {
+  const base = baseUrl.replace(/\/+$/, '');
+  const boardUrl = (board: string) => `${base}/boards/${encodeURIComponent(board)}`;
+
+  async function request<T>(url: string, init?: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetchImpl(url, { ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+    } catch {
+      // offline, DNS, CORS: the request never got an answer
+      throw new LeaderboardRequestError('Leaderboard service unreachable', null);
+    }
+    if (!response.ok) throw new LeaderboardRequestError(`Leaderboard request failed (${response.status})`, response.status);
+    return response.json() as Promise<T>;
+  }
+
+  return {
+    submit: submission =>
+      request(`${boardUrl(submission.board)}/scores`, { method: 'POST', body: JSON.stringify(submission) }),
+    top: (board, limit) => request(`${boardUrl(board)}/top?limit=${limit}`),
+    aroundMe: (board, playerId, span) =>
+      request(`${boardUrl(board)}/around/${encodeURIComponent(playerId)}?span=${span}`),
+  };
+}
+
+// VITE_LEADERBOARD_URL picks the service: a base URL, `mock` for the in-memory server, or unset for local scores only
+function createConfiguredProvider(): LeaderboardProvider | null {
+  const url = import.meta.env.VITE_LEADERBOARD_URL?.trim();
+  if (!url) return null;
+  if (url === 'mock') return createRestLeaderboardProvider('/mock-api', createMockLeaderboardServer().fetch);
+  return createRestLeaderboardProvider(url);
+}
+
+export const leaderboardProvider = createConfiguredProvider();
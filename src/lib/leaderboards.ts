@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { games } from '@/data/games';
+import { createProfileStore } from '@/lib/profile-store';
+import { getActiveProfile } from '@/lib/profiles';
+import type { GameId } from '@/types/games';
+import type { SessionResult, SessionStats } from '@/types/session';
+
+export const LEADERBOARDS_STORAGE_KEY = 'arcade_leaderboards';
+export const LEADERBOARDS_VERSION = 1;
+export const LEADERBOARD_SIZE = 10;
+export const INITIALS_LENGTH = 3;
+
+const entrySchema = z.object({
+  initials: z.string().regex(/^[A-Z0-9]{1,3}$/),
+  score: z.number(),
+  // the run's endedAt, which also identifies the entry for highlighting
+  recordedAt: z.number(),
+});
+
+export const leaderboardsSchema = z.object({
+  version: z.literal(LEADERBOARDS_VERSION),
+  // keyed by boardKey(); each list is sorted best first
+  boards: z.record(z.array(entrySchema)),
+});
+
+export type LeaderboardEntry = z.infer<typeof entrySchema>;
+export type LeaderboardsState = z.infer<typeof leaderboardsSchema>;
+
+export interface LeaderboardMode {
+  id: string;
+  label: string;
+}
+
+interface ModeRule {
+  modes: LeaderboardMode[];
+  // the mode a finished run was played in, read from the stats the game reports
+  modeOf: (stats: SessionStats) => string;
+}
+
+const byLabel = (...labels: string[]) => labels.map(label => ({ id: label.toLowerCase(), label }));
+
+// Games whose settings change what a score means get one board per setting; the rest share a single board
+const modeRules: Partial<Record<GameId, ModeRule>> = {
+  hangman: {
+    modes: byLabel('Easy', 'Normal', 'Hard', 'Insane'),
+    modeOf: stats => String(stats.difficulty).toLowerCase(),
+  },
+  'quick-math': {
+    modes: byLabel('Easy', 'Medium', 'Hard', 'Complex'),
+    modeOf: stats => String(stats.level),
+  },
+  'simon-says': {
+    modes: byLabel('Easy', 'Medium', 'Hard'),
+    modeOf: stats => String(stats.difficulty),
+  },
+  'typing-speed': {
+    modes: [
+      { id: 'practice', label: 'Practice' },
+      { id: 'timed-30', label: 'Timed 30s' },
+      { id: 'timed-60', label: 'Timed 60s' },
+      { id: 'timed-90', label: 'Timed 90s' },
+    ],
+    // practice runs still carry the timed duration picker's value, which doesn't apply to them
+    modeOf: stats => (stats.mode === 'timed' ? `timed-${stats.duration}` : 'practice'),
+  },
+};
+
+const SINGLE_MODE = 'all';
+
+export function leaderboardModes(gameId: string): LeaderboardMode[] {
+  const rule = modeRules[gameId as GameId];
+  if (rule) return rule.modes;
+  const game = games.find(g => g.id === gameId);
+  return [{ id: SINGLE_MODE, label: game?.modes.length === 1 ? game.modes[0] : 'All modes' }];
+}
+
+/** The board a finished run belongs on, or null when the game reported a mode the rules don't know. */
+export function leaderboardModeOf(result: SessionResult): string | null {
+  const rule = modeRules[result.gameId as GameId];
+  if (!rule) return SINGLE_MODE;
+  const mode = rule.modeOf(result.stats);
+  return rule.modes.some(m => m.id === mode) ? mode : null;
+}
+
+// Also the board's name on the online leaderboard service
+export const boardKey = (gameId: string, mode: string) => `${gameId}/${mode}`;
+
+const emptyState = (): LeaderboardsState => ({ version: LEADERBOARDS_VERSION, boards: {} });
+
+const store = createProfileStore(LEADERBOARDS_STORAGE_KEY, leaderboardsSchema, emptyState);
+
+export const getLeaderboardsSnapshot = store.get;
+export const subscribeLeaderboards = store.subscribe;
+
+/** Swaps in a whole leaderboards state, for restoring a backup. */
+export function replaceLeaderboards(next: LeaderboardsState) {
+  store.commit(next);
+}
+
+export function getLeaderboard(leaderboards: LeaderboardsState, gameId: string, mode: string): LeaderboardEntry[] {
+  return leaderboards.boards[boardKey(gameId, mode)] ?? [];
+}
+
+// Ties go to the score that got there first, so a new entry lands below any equal ones
+function rankOf(board: LeaderboardEntry[], score: number) {
+  const below = board.findIndex(entry => score > entry.score);
+  return below === -1 ? board.length : below;
+}
+
+/** The 1-based place a run would take on its board, or null if it doesn't make the cut. */
+export function leaderboardRankFor(result: SessionResult): number | null {
+  const mode = leaderboardModeOf(result);
+  // zero-point runs (a lost maze, an abandoned round) aren't worth a row
+  if (mode === null || result.outcome === 'abandoned' || result.score <= 0) return null;
+  const rank = rankOf(getLeaderboard(getLeaderboardsSnapshot(), result.gameId, mode), result.score);
+  return rank < LEADERBOARD_SIZE ? rank + 1 : null;
+}
+
+export function cleanInitials(value: string) {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, INITIALS_LENGTH);
+}
+
+// "Player 1" -> "P1", "Ada" -> "ADA"
+export function defaultInitials(name = getActiveProfile()?.name ?? '') {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const initials = cleanInitials(words.length > 1 ? words.map(word => word[0]).join('') : name);
+  return initials || 'AAA';
+}
+
+/** Files a qualifying run under the given initials; returns its 1-based rank, or null if it no longer qualifies. */
+export function addLeaderboardEntry(result: SessionResult, initials: string): number | null {
+  const rank = leaderboardRankFor(result);
+  const clean = cleanInitials(initials);
+  if (rank === null || !clean) return null;
+
+  const current = getLeaderboardsSnapshot();
+  const key = boardKey(result.gameId, leaderboardModeOf(result));
+  const board = current.boards[key] ?? [];
+  const entry: LeaderboardEntry = { initials: clean, score: result.score, recordedAt: result.endedAt };
+  const next = [...board.slice(0, rank - 1), entry, ...board.slice(rank - 1)].slice(0, LEADERBOARD_SIZE);
+  store.commit({ ...current, boards: { ...current.boards, [key]: next } });
+  return rank;
+}
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { createProfileStore } from '@/lib/profile-store';
+import { memoryStorage } from '@/test/memory-storage';
+
+const counterSchema = z.object({ version: z.literal(1), counts: z.record(z.number()) });
+type Counters = z.infer<typeof counterSchema>;
+const emptyCounters = (): Counters => ({ version: 1, counts: {} });
+
+let storage: ReturnType<typeof memoryStorage>;
+
+beforeEach(() => {
+  storage = memoryStorage();
+  vi.stubGlobal('localStorage', storage);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createProfileStore', () => {
+  it('loads what was saved and saves every commit', () => {
+    storage.items.set('test_counters', JSON.stringify({ version: 1, counts: { a: 1 } }));
+    const store = createProfileStore('test_counters', counterSchema, emptyCounters);
+    expect(store.get()).toEqual({ version: 1, counts: { a: 1 } });
+
+    store.commit({ version: 1, counts: { a: 2 } });
+    expect(JSON.parse(storage.items.get('test_counters'))).toEqual({ version: 1, counts: { a: 2 } });
+  });
+
+  it('backs up a value that fails to parse before writing over it', () => {
+    const raw = JSON.stringify({ version: 2, counts: { a: 'lots' } });
+    storage.items.set('test_counters', raw);
+    const store = createProfileStore('test_counters', counterSchema, emptyCounters);
+
+    expect(store.get()).toEqual(emptyCounters());
+    // nothing is written just by reading
+    expect(storage.items.get('test_counters')).toBe(raw);
+    expect(storage.items.get('test_counters_backup')).toBe(raw);
+
+    store.commit({ version: 1, counts: { b: 1 } });
+    expect(JSON.parse(storage.items.get('test_counters'))).toEqual({ version: 1, counts: { b: 1 } });
+    expect(storage.items.get('test_counters_backup')).toBe(raw);
+  });
+
+  it('keeps changes in memory when the unparsed value cannot be backed up', () => {
+    storage.items.set('test_counters', '{"version":1,');
+    storage.fill(true);
+    const store = createProfileStore('test_counters', counterSchema, emptyCounters);
+
+    store.commit({ version: 1, counts: { b: 1 } });
+    storage.fill(false);
+    store.commit({ version: 1, counts: { b: 2 } });
+
+    expect(store.get()).toEqual({ version: 1, counts: { b: 2 } });
+    expect(storage.items.get('test_counters')).toBe('{"version":1,');
+  });
+
+  it('starts from what repair salvages', () => {
+    storage.items.set('test_counters', JSON.stringify({ version: 1, counts: { a: 3, b: 'three' } }));
+    const store = createProfileStore('test_counters', counterSchema, emptyCounters, {
+      repair: stored => ({
+        version: 1 as const,
+        counts: Object.fromEntries(
+          Object.entries((stored as { counts: Record<string, unknown> }).counts).filter(([, n]) => typeof n === 'number'),
+        ) as Record<string, number>,
+      }),
+    });
+    expect(store.get()).toEqual({ version: 1, counts: { a: 3 } });
+  });
+});
+
+describe('stats store', () => {
+  it('keeps the games and runs that still read when the stats fail to parse', async () => {
+    const run = { score: 40, outcome: 'loss', stats: {}, seed: 1, startedAt: 0, endedAt: 1000, durationMs: 1000 };
+    const totals = { best: 40, plays: 2, wins: 0, totalScore: 50, totalDurationMs: 2000, lastPlayedAt: 1000 };
+    const raw = JSON.stringify({
+      version: 1,
+      games: {
+        snake: { ...totals, history: [run, { ...run, outcome: 'exploded' }] },
+        'flappy-bird': { ...totals, plays: -1, history: [] },
+      },
+    });
+    storage.items.set('arcade_stats', raw);
+    vi.resetModules();
+    const { getStatsSnapshot } = await import('@/lib/stats-store');
+
+    expect(getStatsSnapshot()).toEqual({ version: 1, games: { snake: { ...totals, history: [run] } } });
+    expect(storage.items.get('arcade_stats_backup')).toBe(raw);
+  });
+});
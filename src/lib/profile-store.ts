@@ -0,0 +1,122 @@
+import type { z } from 'zod';
+import { profileStorageKey, registerProfileStore } from '@/lib/profiles';
+
+interface ProfileStoreOptions<T> {
+  // state for a profile with nothing saved yet, written out straight away (a legacy migration, a generated id);
+  // without it such a profile reads as `empty` and nothing is written until the first change
+  initial?: () => T;
+  // salvages what it can from a stored value the schema turned down (a damaged entry, an unknown version);
+  // without it, or when it returns null, the profile starts over from `empty`
+  repair?: (stored: unknown) => T | null;
+  // a smaller state to try when a write doesn't fit in storage, or null to settle for the in-memory copy
+  shrink?: (rejected: T) => T | null;
+  // runs after a profile switch, once the subscribers have been told
+  onProfileSwitch?: () => void;
+}
+
+export interface ProfileStore<T> {
+  get: () => T;
+  subscribe: (listener: () => void) => () => void;
+  // swaps in the next state, saves it and tells the subscribers
+  commit: (next: T) => void;
+}
+
+/**
+ * One localStorage entry per profile, checked against `schema` when read. The state is loaded on first use and saved
+ * on every commit; a profile switch drops it so the next read loads the new profile's key, and a write from another
+ * tab reloads it.
+ *
+ * A stored value that doesn't parse is never written over as it is: it is copied to a backup key first (`<key>_backup`,
+ * which goes with the profile when it is deleted), and if even that fails the store keeps its changes in memory only.
+ */
+export function createProfileStore<T>(
+  baseKey: string,
+  schema: z.ZodTypeAny,
+  empty: () => T,
+  { initial, repair, shrink, onProfileSwitch }: ProfileStoreOptions<T> = {},
+): ProfileStore<T> {
+  let state: T | null = null;
+  // false while the stored value failed to parse and couldn't be backed up
+  let writable = true;
+  const listeners = new Set<() => void>();
+  const emit = () => listeners.forEach(listener => listener());
+
+  // the state that ended up in storage, which `shrink` may have cut down
+  function persist(next: T): T {
+    if (!writable) return next;
+    let kept = next;
+    for (;;) {
+      try {
+        localStorage.setItem(profileStorageKey(baseKey), JSON.stringify(kept));
+        return kept;
+      } catch {
+        // storage full or unavailable - keep the in-memory copy
+        const smaller = shrink?.(kept) ?? null;
+        if (smaller === null) return kept;
+        kept = smaller;
+      }
+    }
+  }
+
+  function keepBackup(raw: string) {
+    try {
+      localStorage.setItem(profileStorageKey(`${baseKey}_backup`), raw);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  function load(): T {
+    writable = true;
+    try {
+      const raw = localStorage.getItem(profileStorageKey(baseKey));
+      if (raw === null) return initial ? persist(initial()) : empty();
+      let stored: unknown;
+      try {
+        stored = JSON.parse(raw);
+      } catch {
+        stored = undefined;
+      }
+      const parsed = schema.safeParse(stored);
+      if (parsed.success) return parsed.data as T;
+      writable = keepBackup(raw);
+      return (stored !== undefined && repair?.(stored)) || empty();
+    } catch {
+      return empty();
+    }
+  }
+
+  registerProfileStore(() => {
+    state = null;
+    emit();
+    onProfileSwitch?.();
+  });
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (e) => {
+      if (e.key !== profileStorageKey(baseKey)) return;
+      state = load();
+      emit();
+    });
+  }
+
+  return {
+    get() {
+      if (state === null) state = load();
+      return state;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    commit(next) {
+      // a store written before it was ever read still has to check whether the stored value may be written over
+      if (state === null) load();
+      state = persist(next);
+      emit();
+    },
+  };
+}
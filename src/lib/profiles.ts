@@ -0,0 +1,161 @@
+import { z } from 'zod';
+
+export const PROFILES_STORAGE_KEY = 'arcade_profiles';
+export const PROFILES_VERSION = 1;
+export const PROFILE_NAME_MAX = 24;
+
+// The profile that owns the data saved before profiles existed; its stores keep their original keys
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const profileAvatars = ['🎮', '🦊', '🐼', '🐸', '🦄', '🐙', '🚀', '👾', '🌵', '🍕'];
+export const profileColors = ['cyan', 'pink', 'purple', 'green', 'orange', 'yellow'] as const;
+
+const profileSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(PROFILE_NAME_MAX),
+  avatar: z.string(),
+  color: z.enum(profileColors),
+  createdAt: z.number(),
+});
+
+const profilesSchema = z.object({
+  version: z.literal(PROFILES_VERSION),
+  activeId: z.string(),
+  profiles: z.array(profileSchema).min(1),
+});
+
+export type Profile = z.infer<typeof profileSchema>;
+export type ProfilesState = z.infer<typeof profilesSchema>;
+export type ProfileColor = Profile['color'];
+
+const defaultState = (): ProfilesState => ({
+  version: PROFILES_VERSION,
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Player 1', avatar: profileAvatars[0], color: 'cyan', createdAt: Date.now() }],
+});
+
+function load(): ProfilesState {
+  try {
+    const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (raw === null) return defaultState();
+    const parsed = profilesSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) return defaultState();
+    // an active id pointing at a deleted profile falls back to the first one
+    const { activeId, profiles } = parsed.data;
+    return profiles.some(p => p.id === activeId) ? parsed.data : { ...parsed.data, activeId: profiles[0].id };
+  } catch {
+    return defaultState();
+  }
+}
+
+function persist(next: ProfilesState) {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // keep the in-memory copy
+  }
+}
+
+let state: ProfilesState | null = null;
+const listeners = new Set<() => void>();
+// per-profile stores, told to drop their cached state when the active profile changes
+const profileStores = new Set<() => void>();
+
+function commit(next: ProfilesState) {
+  const switched = next.activeId !== getProfilesSnapshot().activeId;
+  state = next;
+  persist(next);
+  if (switched) profileStores.forEach(reload => reload());
+  listeners.forEach(listener => listener());
+}
+
+export function getProfilesSnapshot(): ProfilesState {
+  if (!state) state = load();
+  return state;
+}
+
+export function subscribeProfiles(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getActiveProfile(): Profile {
+  const { activeId, profiles } = getProfilesSnapshot();
+  return profiles.find(p => p.id === activeId);
+}
+
+/**
+ * The localStorage key a store uses for the active profile. The default profile keeps the bare key,
+ * so data saved before profiles existed stays where it was.
+ */
+export function profileStorageKey(baseKey: string, profileId = getProfilesSnapshot().activeId) {
+  return profileId === DEFAULT_PROFILE_ID ? baseKey : `${baseKey}:${profileId}`;
+}
+
+/** Registers a store's reload hook; it runs after every profile switch, before the profile listeners. */
+export function registerProfileStore(reload: () => void) {
+  profileStores.add(reload);
+}
+
+const cleanName = (name: string) => name.trim().slice(0, PROFILE_NAME_MAX);
+
+export function createProfile(name: string, avatar: string, color: ProfileColor) {
+  const current = getProfilesSnapshot();
+  const profile: Profile = {
+    id: `p-${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`,
+    name: cleanName(name) || `Player ${current.profiles.length + 1}`,
+    avatar,
+    color,
+    createdAt: Date.now(),
+  };
+  commit({ ...current, activeId: profile.id, profiles: [...current.profiles, profile] });
+  return profile;
+}
+
+export function updateProfile(id: string, patch: Partial<Pick<Profile, 'name' | 'avatar' | 'color'>>) {
+  const current = getProfilesSnapshot();
+  const next = { ...patch };
+  if (next.name !== undefined) {
+    next.name = cleanName(next.name);
+    // an emptied name keeps the old one rather than leaving a blank row in the switcher
+    if (!next.name) delete next.name;
+  }
+  commit({ ...current, profiles: current.profiles.map(p => (p.id === id ? { ...p, ...next } : p)) });
+}
+
+export function switchProfile(id: string) {
+  const current = getProfilesSnapshot();
+  if (id === current.activeId || !current.profiles.some(p => p.id === id)) return;
+  commit({ ...current, activeId: id });
+}
+
+/** Removes a profile and everything saved under it. The last remaining profile can't be deleted. */
+export function deleteProfile(id: string) {
+  const current = getProfilesSnapshot();
+  const profiles = current.profiles.filter(p => p.id !== id);
+  if (profiles.length === 0 || profiles.length === current.profiles.length) return;
+
+  try {
+    const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i));
+    const owned = id === DEFAULT_PROFILE_ID
+      ? keys.filter(key => key.startsWith('arcade_') && !key.includes(':') && key !== PROFILES_STORAGE_KEY)
+      : keys.filter(key => key.startsWith('arcade_') && key.endsWith(`:${id}`));
+    owned.forEach(key => localStorage.removeItem(key));
+  } catch {
+    // storage unavailable; nothing to clean up
+  }
+
+  commit({ ...current, activeId: current.activeId === id ? profiles[0].id : current.activeId, profiles });
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== PROFILES_STORAGE_KEY) return;
+    const previous = getProfilesSnapshot().activeId;
+    state = load();
+    if (state.activeId !== previous) profileStores.forEach(reload => reload());
+    listeners.forEach(listener => listener());
+  });
+}
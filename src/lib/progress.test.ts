@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { LEADERBOARD_SIZE, type LeaderboardEntry } from '@/lib/leaderboards';
+import {
+  diffProgress,
+  parseProgressFile,
+  PROGRESS_FILE_FORMAT,
+  resolveImport,
+  type Progress,
+  type ProgressFile,
+} from '@/lib/progress';
+import { REPLAYS_PER_GAME, type Replay } from '@/lib/replays';
+
+const entry = (score: number, recordedAt: number): LeaderboardEntry => ({ initials: 'AAA', score, recordedAt });
+
+const replay = (gameId: string, recordedAt: number): Replay => ({
+  id: `${gameId}-${recordedAt.toString(36)}`,
+  gameId,
+  simVersion: 1,
+  seed: 1,
+  options: {},
+  ticks: 60,
+  commands: [],
+  score: 10,
+  outcome: 'loss',
+  recordedAt,
+});
+
+const progress = ({ boards = {}, replays = [] }: { boards?: Record<string, LeaderboardEntry[]>; replays?: Replay[] } = {}): Progress => ({
+  stats: { version: 1, games: {} },
+  achievements: { version: 1, unlocked: {} },
+  keyBindings: { version: 1, games: {} },
+  accessibility: { version: 1, reducedMotion: false, highContrast: false, colorBlindPalette: false, fontScale: 1, gameSpeed: 1 },
+  audio: { version: 1, master: 1, sfx: 1, music: 1, muted: false },
+  leaderboards: { version: 1, boards },
+  replays: { version: 1, replays },
+});
+
+const file = (p: Progress): ProgressFile => ({ format: PROGRESS_FILE_FORMAT, version: 2, exportedAt: 0, ...p });
+
+describe('importing leaderboards and replays', () => {
+  it('merges boards in rank order without doubling entries both sides have', () => {
+    const local = progress({ boards: { 'snake/all': [entry(50, 3), entry(20, 1)] } });
+    const incoming = progress({ boards: { 'snake/all': [entry(50, 2), entry(20, 1)], 'tetris/all': [entry(9, 4)] } });
+
+    const merged = resolveImport(local, file(incoming), 'merge');
+    expect(merged.leaderboards.boards).toEqual({
+      'snake/all': [entry(50, 2), entry(50, 3), entry(20, 1)],
+      'tetris/all': [entry(9, 4)],
+    });
+    expect(resolveImport(merged, file(incoming), 'merge')).toEqual(merged);
+  });
+
+  it('keeps a merged board to the board size', () => {
+    const scores = (from: number) => Array.from({ length: LEADERBOARD_SIZE }, (_, i) => entry(from - i * 2, i));
+    const merged = resolveImport(progress({ boards: { b: scores(100) } }), file(progress({ boards: { b: scores(99) } })), 'merge');
+    expect(merged.leaderboards.boards.b.map(e => e.score)).toEqual([100, 99, 98, 97, 96, 95, 94, 93, 92, 91]);
+  });
+
+  it('keeps the newest replays of each game from both sides', () => {
+    const local = progress({ replays: [replay('snake', 1), replay('snake', 4)] });
+    const incoming = progress({ replays: [replay('snake', 2), replay('snake', 3), replay('snake', 4), replay('tetris', 1)] });
+
+    const merged = resolveImport(local, file(incoming), 'merge').replays.replays;
+    expect(merged.filter(r => r.gameId === 'snake')).toHaveLength(REPLAYS_PER_GAME);
+    expect(merged.map(r => r.id)).toEqual(['tetris-1', 'snake-2', 'snake-3', 'snake-4']);
+  });
+
+  it('lists the boards and replays an import changes', () => {
+    const local = progress({ boards: { 'snake/all': [entry(20, 1)] }, replays: [replay('snake', 1)] });
+    const incoming = progress({ boards: { 'snake/all': [entry(30, 2)] }, replays: [replay('tetris', 2)] });
+
+    const diff = diffProgress(local, resolveImport(local, file(incoming), 'replace'));
+    expect(diff.leaderboards).toEqual([{ board: 'snake/all', before: [entry(20, 1)], after: [entry(30, 2)] }]);
+    expect(diff.replaysAdded.map(r => r.id)).toEqual(['tetris-2']);
+    expect(diff.replaysRemoved.map(r => r.id)).toEqual(['snake-1']);
+  });
+
+  it('leaves leaderboards and replays alone when restoring a version 1 backup', () => {
+    const local = progress({ boards: { 'snake/all': [entry(20, 1)] }, replays: [replay('snake', 1)] });
+    const { leaderboards: _leaderboards, replays: _replays, ...rest } = progress();
+    const parsed = parseProgressFile(JSON.stringify({ format: PROGRESS_FILE_FORMAT, version: 1, exportedAt: 0, ...rest }));
+    if (parsed.ok === false) throw new Error(parsed.error);
+
+    const restored = resolveImport(local, parsed.file, 'replace');
+    expect(restored.leaderboards).toEqual(local.leaderboards);
+    expect(restored.replays).toEqual(local.replays);
+  });
+});
@@ -0,0 +1,322 @@
+import { z } from 'zod';
+import { achievementsSchema, getAchievementsSnapshot, replaceAchievements, type AchievementsState } from '@/lib/achievements';
+import {
+  accessibilitySchema,
+  getAccessibilitySnapshot,
+  replaceAccessibility,
+  type AccessibilitySettings,
+} from '@/lib/accessibility-settings';
+import { audioSettingsSchema, getAudioSettingsSnapshot, replaceAudioSettings, type AudioSettings } from '@/lib/audio-settings';
+import { dateKey } from '@/lib/daily';
+import { bindingsSchema, getKeyBindingsSnapshot, replaceKeyBindings, type KeyBindingsState } from '@/lib/key-bindings';
+import {
+  getLeaderboardsSnapshot,
+  LEADERBOARD_SIZE,
+  leaderboardsSchema,
+  replaceLeaderboards,
+  type LeaderboardEntry,
+  type LeaderboardsState,
+} from '@/lib/leaderboards';
+import {
+  getReplaysSnapshot,
+  replaceReplays,
+  REPLAYS_PER_GAME,
+  replaysSchema,
+  type Replay,
+  type ReplaysState,
+} from '@/lib/replays';
+import {
+  emptyGameStats,
+  getStatsSnapshot,
+  HISTORY_LIMIT,
+  replaceStats,
+  statsSchema,
+  type GameStats,
+  type RunRecord,
+  type StatsState,
+} from '@/lib/stats-store';
+
+// Marks a JSON file as one of ours before any of its contents are trusted
+export const PROGRESS_FILE_FORMAT = 'minigames-progress';
+export const PROGRESS_FILE_VERSION = 2;
+
+const progressFileFields = {
+  format: z.literal(PROGRESS_FILE_FORMAT),
+  exportedAt: z.number(),
+  stats: statsSchema,
+  achievements: achievementsSchema,
+  keyBindings: bindingsSchema,
+  accessibility: accessibilitySchema,
+  audio: audioSettingsSchema,
+};
+
+const progressFileSchema = z.discriminatedUnion('version', [
+  // version 1 backups predate the local leaderboards and saved replays
+  z.object({ ...progressFileFields, version: z.literal(1) }),
+  z.object({
+    ...progressFileFields,
+    version: z.literal(PROGRESS_FILE_VERSION),
+    leaderboards: leaderboardsSchema,
+    replays: replaysSchema,
+  }),
+]);
+
+export type ProgressFile = z.infer<typeof progressFileSchema>;
+
+/** Everything a backup carries, one entry per store. */
+export interface Progress {
+  stats: StatsState;
+  achievements: AchievementsState;
+  keyBindings: KeyBindingsState;
+  accessibility: AccessibilitySettings;
+  audio: AudioSettings;
+  leaderboards: LeaderboardsState;
+  replays: ReplaysState;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export function readProgress(): Progress {
+  return {
+    stats: getStatsSnapshot(),
+    achievements: getAchievementsSnapshot(),
+    keyBindings: getKeyBindingsSnapshot(),
+    accessibility: getAccessibilitySnapshot(),
+    audio: getAudioSettingsSnapshot(),
+    leaderboards: getLeaderboardsSnapshot(),
+    replays: getReplaysSnapshot(),
+  };
+}
+
+export function exportProgress(): ProgressFile {
+  return { format: PROGRESS_FILE_FORMAT, version: PROGRESS_FILE_VERSION, exportedAt: Date.now(), ...readProgress() };
+}
+
+/** Saves the current progress as a dated JSON file through the browser's download flow. */
+export function downloadProgress() {
+  const blob = new Blob([JSON.stringify(exportProgress(), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${PROGRESS_FILE_FORMAT}-${dateKey()}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export type ParsedProgressFile = { ok: true; file: ProgressFile } | { ok: false; error: string };
+
+/** Validates a backup's text; the error is worded for the player, not for debugging. */
+export function parseProgressFile(text: string): ParsedProgressFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "That file isn't valid JSON." };
+  }
+
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(json);
+  if (!header.success || header.data.format !== PROGRESS_FILE_FORMAT) {
+    return { ok: false, error: "That file isn't a MiniGames progress backup." };
+  }
+  if (header.data.version > PROGRESS_FILE_VERSION) {
+    return { ok: false, error: 'That backup was made by a newer version of MiniGames. Update the page and try again.' };
+  }
+
+  const parsed = progressFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { ok: false, error: `The backup is damaged (${issue.path.join('.') || 'file'}: ${issue.message}).` };
+  }
+  return { ok: true, file: parsed.data };
+}
+
+// Two copies of the same run share their start and end times
+const runKey = (run: RunRecord) => `${run.startedAt}:${run.endedAt}`;
+
+// Adds the file's runs this device hasn't seen to its totals. Totals never drop below either side's own,
+// since runs that aged out of a history are still counted there; importing the same file twice changes nothing.
+function mergeGameStats(local: GameStats, incoming: GameStats): GameStats {
+  const seen = new Set(local.history.map(runKey));
+  const added = incoming.history.filter(run => !seen.has(runKey(run)));
+  const history = [...local.history, ...added].sort((a, b) => a.endedAt - b.endedAt).slice(-HISTORY_LIMIT);
+  const sum = (pick: (run: RunRecord) => number) => added.reduce((total, run) => total + pick(run), 0);
+  const max = (a: number | null, b: number | null) => (a === null ? b : b === null ? a : Math.max(a, b));
+
+  return {
+    best: max(local.best, incoming.best),
+    plays: Math.max(local.plays + added.length, incoming.plays),
+    wins: Math.max(local.wins + sum(run => (run.outcome === 'win' ? 1 : 0)), incoming.wins),
+    totalScore: Math.max(local.totalScore + sum(run => run.score), incoming.totalScore),
+    totalDurationMs: Math.max(local.totalDurationMs + sum(run => run.durationMs), incoming.totalDurationMs),
+    lastPlayedAt: max(local.lastPlayedAt, incoming.lastPlayedAt),
+    history,
+  };
+}
+
+// Two copies of the same leaderboard entry share the run's end time and score
+const entryKey = (entry: LeaderboardEntry) => `${entry.recordedAt}:${entry.score}`;
+
+// Both sides' entries in rank order, ties going to the earlier run as they do when a run is filed
+function mergeBoard(local: LeaderboardEntry[], incoming: LeaderboardEntry[]) {
+  const seen = new Set(local.map(entryKey));
+  return [...local, ...incoming.filter(entry => !seen.has(entryKey(entry)))]
+    .sort((a, b) => b.score - a.score || a.recordedAt - b.recordedAt)
+    .slice(0, LEADERBOARD_SIZE);
+}
+
+// Both sides' replays, keeping the newest few of each game as saving one does
+function mergeReplays(local: Replay[], incoming: Replay[]) {
+  const ids = new Set(local.map(replay => replay.id));
+  const all = [...local, ...incoming.filter(replay => !ids.has(replay.id))].sort((a, b) => a.recordedAt - b.recordedAt);
+  const perGame = new Map<string, number>();
+  const kept = new Set<Replay>();
+  for (const replay of [...all].reverse()) {
+    const count = perGame.get(replay.gameId) ?? 0;
+    perGame.set(replay.gameId, count + 1);
+    if (count < REPLAYS_PER_GAME) kept.add(replay);
+  }
+  return all.filter(replay => kept.has(replay));
+}
+
+/**
+ * Keeps everything on this device and adds what is new in the backup: runs and totals are combined,
+ * achievements keep their earliest unlock, leaderboards keep the best entries of both, replays keep the newest
+ * of both, and key bindings are only taken for games not customised here. Accessibility and audio settings stay
+ * as they are.
+ */
+export function mergeProgress(local: Progress, incoming: Progress): Progress {
+  const games = { ...local.stats.games };
+  for (const [gameId, stats] of Object.entries(incoming.stats.games)) {
+    games[gameId] = mergeGameStats(games[gameId] ?? emptyGameStats(), stats);
+  }
+
+  const unlocked = { ...local.achievements.unlocked };
+  for (const [id, at] of Object.entries(incoming.achievements.unlocked)) {
+    unlocked[id] = id in unlocked ? Math.min(unlocked[id], at) : at;
+  }
+
+  const boards = { ...local.leaderboards.boards };
+  for (const [key, entries] of Object.entries(incoming.leaderboards.boards)) {
+    boards[key] = mergeBoard(boards[key] ?? [], entries);
+  }
+
+  return {
+    stats: { ...local.stats, games },
+    achievements: { ...local.achievements, unlocked },
+    keyBindings: { ...local.keyBindings, games: { ...incoming.keyBindings.games, ...local.keyBindings.games } },
+    accessibility: local.accessibility,
+    audio: local.audio,
+    leaderboards: { ...local.leaderboards, boards },
+    replays: { ...local.replays, replays: mergeReplays(local.replays.replays, incoming.replays.replays) },
+  };
+}
+
+export function resolveImport(local: Progress, file: ProgressFile, mode: ImportMode): Progress {
+  const { stats, achievements, keyBindings, accessibility, audio } = file;
+  // a version 1 backup has nothing to say about leaderboards or replays, so even a replace leaves this device's alone
+  const incoming: Progress = {
+    stats,
+    achievements,
+    keyBindings,
+    accessibility,
+    audio,
+    leaderboards: file.version === 1 ? local.leaderboards : file.leaderboards,
+    replays: file.version === 1 ? local.replays : (file.replays as ReplaysState),
+  };
+  return mode === 'merge' ? mergeProgress(local, incoming) : incoming;
+}
+
+export interface StatsChange {
+  gameId: string;
+  before: GameStats | null;
+  after: GameStats | null;
+}
+
+export interface SettingChange {
+  store: 'accessibility' | 'audio';
+  key: string;
+  before: number | boolean;
+  after: number | boolean;
+}
+
+export interface LeaderboardChange {
+  // a boardKey()
+  board: string;
+  before: LeaderboardEntry[];
+  after: LeaderboardEntry[];
+}
+
+/** What applying `next` would change, for the import preview. */
+export interface ProgressDiff {
+  stats: StatsChange[];
+  achievementsGained: string[];
+  achievementsLost: string[];
+  keyBindingGames: string[];
+  settings: SettingChange[];
+  leaderboards: LeaderboardChange[];
+  replaysAdded: Replay[];
+  replaysRemoved: Replay[];
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function diffProgress(before: Progress, after: Progress): ProgressDiff {
+  const gameIds = new Set([...Object.keys(before.stats.games), ...Object.keys(after.stats.games)]);
+  const stats = [...gameIds]
+    .map(gameId => ({ gameId, before: before.stats.games[gameId] ?? null, after: after.stats.games[gameId] ?? null }))
+    .filter(change => !sameJson(change.before, change.after));
+
+  const had = before.achievements.unlocked;
+  const has = after.achievements.unlocked;
+
+  const bindingGames = new Set([...Object.keys(before.keyBindings.games), ...Object.keys(after.keyBindings.games)]);
+
+  const settings: SettingChange[] = [];
+  for (const store of ['accessibility', 'audio'] as const) {
+    const from = before[store] as Record<string, number | boolean>;
+    const to = after[store] as Record<string, number | boolean>;
+    for (const key of Object.keys(to)) {
+      if (key !== 'version' && from[key] !== to[key]) settings.push({ store, key, before: from[key], after: to[key] });
+    }
+  }
+
+  const boardKeys = new Set([...Object.keys(before.leaderboards.boards), ...Object.keys(after.leaderboards.boards)]);
+  const leaderboards = [...boardKeys]
+    .map(board => ({ board, before: before.leaderboards.boards[board] ?? [], after: after.leaderboards.boards[board] ?? [] }))
+    .filter(change => !sameJson(change.before, change.after));
+
+  const hadReplays = new Set(before.replays.replays.map(replay => replay.id));
+  const hasReplays = new Set(after.replays.replays.map(replay => replay.id));
+
+  return {
+    stats,
+    achievementsGained: Object.keys(has).filter(id => !(id in had)),
+    achievementsLost: Object.keys(had).filter(id => !(id in has)),
+    keyBindingGames: [...bindingGames].filter(gameId => !sameJson(before.keyBindings.games[gameId], after.keyBindings.games[gameId])),
+    settings,
+    leaderboards,
+    replaysAdded: after.replays.replays.filter(replay => !hadReplays.has(replay.id)),
+    replaysRemoved: before.replays.replays.filter(replay => !hasReplays.has(replay.id)),
+  };
+}
+
+export const isEmptyDiff = (diff: ProgressDiff) =>
+  diff.stats.length +
+    diff.achievementsGained.length +
+    diff.achievementsLost.length +
+    diff.keyBindingGames.length +
+    diff.settings.length +
+    diff.leaderboards.length +
+    diff.replaysAdded.length +
+    diff.replaysRemoved.length ===
+  0;
+
+export function applyProgress(next: Progress) {
+  replaceStats(next.stats);
+  replaceAchievements(next.achievements);
+  replaceKeyBindings(next.keyBindings);
+  replaceAccessibility(next.accessibility);
+  replaceAudioSettings(next.audio);
+  replaceLeaderboards(next.leaderboards);
+  replaceReplays(next.replays);
+}
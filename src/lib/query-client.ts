@@ -0,0 +1,11 @@
+import { QueryClient } from '@tanstack/react-query';
+
+// Shared with code outside React (the score queue invalidates boards after an upload)
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // online boards change slowly; a minute avoids refetching on every panel mount
+      staleTime: 60_000,
+    },
+  },
+});
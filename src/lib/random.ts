@@ -0,0 +1,28 @@
+export type Rng = () => number;
+
+// mulberry32 - 32-bit state, plenty for gameplay and identical across browsers
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a, used to turn date keys and other strings into seeds
+export function hashString(value: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// A fresh seed for runs that aren't pinned to one, so they can still be replayed from it
+export function randomSeed() {
+  return Math.floor(Math.random() * 0x100000000);
+}
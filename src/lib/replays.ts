@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { createProfileStore } from '@/lib/profile-store';
+
+export const REPLAYS_STORAGE_KEY = 'arcade_replays';
+export const REPLAYS_VERSION = 1;
+// Newest runs kept per game; pointer-driven games record a command most ticks, so these add up quickly
+export const REPLAYS_PER_GAME = 3;
+
+const replaySchema = z.object({
+  id: z.string(),
+  gameId: z.string(),
+  // the sim's rule version at record time; playback on a newer version may drift
+  simVersion: z.number().int(),
+  seed: z.number(),
+  options: z.record(z.number()),
+  ticks: z.number().int().nonnegative(),
+  commands: z.array(z.tuple([z.number().int(), z.string()]).rest(z.number())),
+  score: z.number(),
+  outcome: z.enum(['win', 'loss', 'draw', 'completed', 'abandoned']),
+  recordedAt: z.number(),
+});
+
+export const replaysSchema = z.object({
+  version: z.literal(REPLAYS_VERSION),
+  replays: z.array(replaySchema),
+});
+
+// Without strictNullChecks zod infers every key as optional; replays are handed to the sim player, which needs them all
+export type Replay = Required<z.infer<typeof replaySchema>>;
+export interface ReplaysState {
+  version: typeof REPLAYS_VERSION;
+  replays: Replay[];
+}
+
+const emptyState = (): ReplaysState => ({ version: REPLAYS_VERSION, replays: [] });
+
+// A full quota drops the oldest replays until the rest fit, rather than losing the newest run.
+function dropOldest(rejected: ReplaysState): ReplaysState | null {
+  if (rejected.replays.length <= 1) return null;
+  const oldest = rejected.replays.reduce((a, b) => (b.recordedAt < a.recordedAt ? b : a));
+  return { ...rejected, replays: rejected.replays.filter(r => r !== oldest) };
+}
+
+const store = createProfileStore(REPLAYS_STORAGE_KEY, replaysSchema, emptyState, { shrink: dropOldest });
+
+export const getReplaysSnapshot = store.get;
+export const subscribeReplays = store.subscribe;
+
+/** Swaps in a whole replays state, for restoring a backup. */
+export function replaceReplays(next: ReplaysState) {
+  store.commit(next);
+}
+
+export function getReplay(id: string) {
+  return getReplaysSnapshot().replays.find(r => r.id === id) ?? null;
+}
+
+export function saveReplay(replay: Omit<Replay, 'id'>) {
+  const id = `${replay.gameId}-${replay.recordedAt.toString(36)}`;
+  const current = getReplaysSnapshot().replays;
+  const sameGame = current.filter(r => r.gameId === replay.gameId).sort((a, b) => b.recordedAt - a.recordedAt);
+  const dropped = new Set(sameGame.slice(REPLAYS_PER_GAME - 1));
+  store.commit({ version: REPLAYS_VERSION, replays: [...current.filter(r => !dropped.has(r)), { ...replay, id }] });
+  return id;
+}
+
+export function deleteReplay(id: string) {
+  const current = getReplaysSnapshot();
+  store.commit({ ...current, replays: current.replays.filter(r => r.id !== id) });
+}
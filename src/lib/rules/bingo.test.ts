@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createRng } from '@/lib/random';
+import {
+  BINGO_NUMBERS,
+  bingoLines,
+  chooseCpuNumber,
+  hasBingo,
+  longestLine,
+  makeBingoBoard,
+  markNumber,
+  type BingoCell,
+} from './bingo';
+
+// a card numbered 1–25 in order, so number n sits at index n - 1
+const ordered: BingoCell[] = BINGO_NUMBERS.map((n, idx) => ({ n, idx }));
+const marks = (...indices: number[]) => new Set(indices);
+
+describe('bingo lines', () => {
+  it('counts five rows, five columns and two diagonals', () => {
+    expect(bingoLines).toHaveLength(12);
+    expect(bingoLines).toContainEqual([0, 6, 12, 18, 24]);
+    expect(bingoLines).toContainEqual([4, 8, 12, 16, 20]);
+  });
+
+  it('needs a complete line for bingo', () => {
+    expect(hasBingo(marks(0, 1, 2, 3, 4))).toBe(true);
+    expect(hasBingo(marks(2, 7, 12, 17, 22))).toBe(true);
+    expect(hasBingo(marks(4, 8, 12, 16, 20))).toBe(true);
+    expect(hasBingo(marks(0, 1, 2, 3, 9))).toBe(false);
+    // five marks that wrap from one row onto the next aren't a line
+    expect(hasBingo(marks(3, 4, 5, 6, 7))).toBe(false);
+    expect(hasBingo(marks())).toBe(false);
+  });
+
+  it('measures the fullest line', () => {
+    expect(longestLine(marks())).toBe(0);
+    expect(longestLine(marks(0, 6, 12, 3))).toBe(3);
+  });
+});
+
+describe('cards', () => {
+  it('deal every number exactly once', () => {
+    const card = makeBingoBoard(createRng(9));
+    expect(card.map(c => c.n).sort((a, b) => a - b)).toEqual(BINGO_NUMBERS);
+    expect(card.map(c => c.idx)).toEqual(BINGO_NUMBERS.map(n => n - 1));
+  });
+
+  it('mark called numbers without touching the previous marks', () => {
+    const before = marks(0);
+    const after = markNumber(ordered, before, 13);
+    expect([...after].sort((a, b) => a - b)).toEqual([0, 12]);
+    expect([...before]).toEqual([0]);
+    expect(markNumber(ordered, before, 99)).toEqual(before);
+  });
+});
+
+describe('chooseCpuNumber', () => {
+  it('completes a line when it can', () => {
+    // 1–4 marked on the top row; calling 5 finishes it
+    expect(chooseCpuNumber([5, 13, 25], ordered, marks(0, 1, 2, 3), createRng(1))).toBe(5);
+  });
+
+  it('picks among the equally good calls', () => {
+    const picks = new Set(Array.from({ length: 40 }, (_, seed) => chooseCpuNumber([7, 19], ordered, marks(), createRng(seed))));
+    expect(picks).toEqual(new Set([7, 19]));
+  });
+
+  it('falls back to any number in the pool, and gives up on an empty one', () => {
+    const smallCard = ordered.slice(0, 5);
+    expect([20, 21]).toContain(chooseCpuNumber([20, 21], smallCard, marks(), createRng(3)));
+    expect(chooseCpuNumber([], ordered, marks(), createRng(3))).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import type { Rng } from '@/lib/random';
+
+export const BINGO_SIZE = 5;
+// the numbers on a card and in the draw: 1–25
+export const BINGO_NUMBERS = Array.from({ length: BINGO_SIZE * BINGO_SIZE }, (_, i) => i + 1);
+
+export type BingoCell = {
+  n: number;
+  idx: number; // 0..24, row by row
+};
+
+// every row, every column and both diagonals, as cell indices
+export const bingoLines: number[][] = [
+  ...Array.from({ length: BINGO_SIZE }, (_, r) => Array.from({ length: BINGO_SIZE }, (_, c) => r * BINGO_SIZE + c)),
+  ...Array.from({ length: BINGO_SIZE }, (_, c) => Array.from({ length: BINGO_SIZE }, (_, r) => r * BINGO_SIZE + c)),
+  Array.from({ length: BINGO_SIZE }, (_, i) => i * BINGO_SIZE + i),
+  Array.from({ length: BINGO_SIZE }, (_, i) => i * BINGO_SIZE + (BINGO_SIZE - 1 - i)),
+];
+
+export function shuffle<T>(arr: T[], random: Rng) {
+  const a = arr.slice();
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+export const makeBingoBoard = (random: Rng): BingoCell[] => shuffle(BINGO_NUMBERS, random).map((n, idx) => ({ n, idx }));
+
+/** The marks with a called number added, if it is on the board; the set passed in is left as it was. */
+export function markNumber(board: BingoCell[], marks: Set<number>, n: number) {
+  const next = new Set(marks);
+  const found = board.find(c => c.n === n);
+  if (found) next.add(found.idx);
+  return next;
+}
+
+// marked cells on the fullest line
+export const longestLine = (marks: Set<number>) => Math.max(...bingoLines.map(line => line.filter(i => marks.has(i)).length));
+
+export const hasBingo = (marks: Set<number>) => longestLine(marks) === BINGO_SIZE;
+
+/**
+ * The CPU's call: a number still in the pool that is on its own card and leaves its fullest line longest,
+ * with ties broken at random; when none of its numbers are left, any number from the pool. Null once the pool is empty.
+ */
+export function chooseCpuNumber(pool: number[], board: BingoCell[], marks: Set<number>, random: Rng): number | null {
+  const candidates = pool.filter(n => board.some(c => c.n === n));
+  if (candidates.length === 0) return pool.length > 0 ? pool[Math.floor(random() * pool.length)] : null;
+
+  let bestScore = -1;
+  let best: number[] = [];
+  for (const candidate of candidates) {
+    const score = longestLine(markNumber(board, marks, candidate));
+    if (score > bestScore) {
+      bestScore = score;
+      best = [candidate];
+    } else if (score === bestScore) {
+      best.push(candidate);
+    }
+  }
+  return best[Math.floor(random() * best.length)];
+}
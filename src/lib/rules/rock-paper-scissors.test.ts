@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { decideWinner, matchWinner, type Choice } from './rock-paper-scissors';
+
+describe('decideWinner', () => {
+  it.each<[Choice, Choice]>([
+    ['rock', 'scissors'],
+    ['paper', 'rock'],
+    ['scissors', 'paper'],
+  ])('%s beats %s', (winner, loser) => {
+    expect(decideWinner(winner, loser)).toBe('player');
+    expect(decideWinner(loser, winner)).toBe('computer');
+  });
+
+  it('ties on the same choice', () => {
+    for (const choice of ['rock', 'paper', 'scissors'] as Choice[]) {
+      expect(decideWinner(choice, choice)).toBe('tie');
+    }
+  });
+});
+
+describe('matchWinner', () => {
+  it('is undecided until someone reaches the target', () => {
+    expect(matchWinner({ player: 0, computer: 0 }, 3)).toBeNull();
+    expect(matchWinner({ player: 2, computer: 2 }, 3)).toBeNull();
+  });
+
+  it('goes to whoever reaches the target first', () => {
+    expect(matchWinner({ player: 3, computer: 2 }, 3)).toBe('player');
+    expect(matchWinner({ player: 1, computer: 3 }, 3)).toBe('computer');
+  });
+});
@@ -0,0 +1,17 @@
+export type Choice = 'rock' | 'paper' | 'scissors';
+export type RoundWinner = 'player' | 'computer' | 'tie';
+
+// what each choice beats
+const beats: Record<Choice, Choice> = { rock: 'scissors', paper: 'rock', scissors: 'paper' };
+
+export function decideWinner(player: Choice, computer: Choice): RoundWinner {
+  if (player === computer) return 'tie';
+  return beats[player] === computer ? 'player' : 'computer';
+}
+
+/** Who has taken the match, first to `roundsToWin` rounds; null while it is still going. */
+export function matchWinner(score: { player: number; computer: number }, roundsToWin: number): 'player' | 'computer' | null {
+  if (score.player >= roundsToWin) return 'player';
+  if (score.computer >= roundsToWin) return 'computer';
+  return null;
+}
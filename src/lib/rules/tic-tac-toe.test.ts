@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { calculateWinner, findBestMove, isDraw, type Square } from './tic-tac-toe';
+
+// boards written as nine characters, '.' for an empty square
+const board = (cells: string): Square[] => [...cells].map(c => (c === '.' ? null : (c as Square)));
+
+describe('calculateWinner', () => {
+  it('finds rows, columns and both diagonals', () => {
+    expect(calculateWinner(board('XXX......'))).toBe('X');
+    expect(calculateWinner(board('.O..O..O.'))).toBe('O');
+    expect(calculateWinner(board('X...X...X'))).toBe('X');
+    expect(calculateWinner(board('..O.O.O..'))).toBe('O');
+  });
+
+  it('has no winner for an empty, unfinished or mixed line', () => {
+    expect(calculateWinner(board('.........'))).toBeNull();
+    expect(calculateWinner(board('XX.OO....'))).toBeNull();
+    expect(calculateWinner(board('XOX......'))).toBeNull();
+  });
+
+  it('tells a full board without a line apart from a win on the last move', () => {
+    expect(isDraw(board('XOXXOOOXX'))).toBe(true);
+    expect(isDraw(board('XOXOXOOXX'))).toBe(false);
+    expect(calculateWinner(board('XOXOXOOXX'))).toBe('X');
+  });
+});
+
+describe('findBestMove', () => {
+  it('opens in the centre', () => {
+    expect(findBestMove(board('.........'), 'X')).toBe(4);
+  });
+
+  it('takes a win when one is open', () => {
+    expect(findBestMove(board('OO.XX....'), 'O')).toBe(2);
+  });
+
+  it('prefers winning over blocking', () => {
+    expect(findBestMove(board('XX.OO....'), 'O')).toBe(5);
+  });
+
+  it('blocks the opponent’s line', () => {
+    expect(findBestMove(board('XX..O....'), 'O')).toBe(2);
+  });
+
+  it('answers a corner opening with the centre', () => {
+    expect(findBestMove(board('X........'), 'O')).toBe(4);
+  });
+
+  it('returns -1 once the game is over', () => {
+    expect(findBestMove(board('XXXOO....'), 'O')).toBe(-1);
+    expect(findBestMove(board('XOXXOOOXX'), 'O')).toBe(-1);
+  });
+
+  it('never loses against any line of play', () => {
+    // plays every possible human move against the computer's replies
+    const losses: string[] = [];
+    const explore = (squares: Square[], human: 'X' | 'O', toMove: 'X' | 'O') => {
+      const winner = calculateWinner(squares);
+      if (winner === human) losses.push(squares.map(c => c ?? '.').join(''));
+      if (winner || squares.every(Boolean)) return;
+      if (toMove === human) {
+        squares.forEach((cell, i) => {
+          if (cell) return;
+          const next = [...squares];
+          next[i] = human;
+          explore(next, human, human === 'X' ? 'O' : 'X');
+        });
+      } else {
+        const next = [...squares];
+        next[findBestMove(squares, toMove)] = toMove;
+        explore(next, human, human);
+      }
+    };
+    explore(board('.........'), 'X', 'X');
+    explore(board('.........'), 'O', 'X');
+    expect(losses).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+export type Mark = 'X' | 'O';
+export type Square = Mark | null;
+
+// rows, columns, then the two diagonals, as board indices (0–8, row by row)
+export const winLines = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8],
+  [0, 3, 6], [1, 4, 7], [2, 5, 8],
+  [0, 4, 8], [2, 4, 6],
+];
+
+export const otherMark = (mark: Mark): Mark => (mark === 'X' ? 'O' : 'X');
+
+export function calculateWinner(squares: Square[]): Mark | null {
+  for (const [a, b, c] of winLines) {
+    if (squares[a] && squares[a] === squares[b] && squares[a] === squares[c]) {
+      return squares[a];
+    }
+  }
+  return null;
+}
+
+export const isDraw = (squares: Square[]) => !calculateWinner(squares) && squares.every(Boolean);
+
+/**
+ * The computer's move by full minimax, so it never loses; -1 on a finished board.
+ * Results are weighed by how soon they come, so it takes a win now over a forced win later and drags out a loss.
+ * Equal outcomes go to the lowest index, and an empty board opens in the centre without searching.
+ */
+export function findBestMove(board: Square[], computer: Mark): number {
+  if (calculateWinner(board) || board.every(Boolean)) return -1;
+  if (board.every(cell => cell === null)) return 4;
+
+  const opponent = otherMark(computer);
+
+  function minimax(b: Square[], isMaximizing: boolean, depth: number): { score: number; move: number } {
+    const win = calculateWinner(b);
+    if (win === computer) return { score: 10 - depth, move: -1 };
+    if (win === opponent) return { score: depth - 10, move: -1 };
+    if (b.every(Boolean)) return { score: 0, move: -1 };
+
+    let bestScore = isMaximizing ? -Infinity : Infinity;
+    let bestMove = -1;
+
+    for (let i = 0; i < 9; i++) {
+      if (b[i]) continue;
+      b[i] = isMaximizing ? computer : opponent;
+      const { score } = minimax(b, !isMaximizing, depth + 1);
+      b[i] = null;
+
+      if (isMaximizing ? score > bestScore : score < bestScore) {
+        bestScore = score;
+        bestMove = i;
+      }
+    }
+
+    return { score: bestScore, move: bestMove };
+  }
+
+  return minimax([...board], true, 0).move;
+}
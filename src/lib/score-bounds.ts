@@ -0,0 +1,79 @@
+import type { GameId } from '@/types/games';
+
+/**
+ * How far the rules of a game let a score go. Games without a sim can't be played out again, so the verifier holds
+ * their scores to what a flawless player could have reached, both per run and per second of play. A sim game can have
+ * bounds too, checked before its re-simulation as a sanity check on the sim itself.
+ */
+export type ScoreBounds = {
+  // best score a single run can reach; endless games are held to the run-length limit instead
+  maxScore: number;
+  // best score a flawless player could have reached after this many seconds of play
+  maxScoreAfter: (seconds: number) => number;
+};
+
+// Twenty key presses or taps a second is past the fastest typists on record, so no input comes quicker
+const FASTEST_INPUT_MS = 50;
+const INPUTS_PER_SECOND = 1000 / FASTEST_INPUT_MS;
+
+const perSecond = (rate: number) => (seconds: number) => rate * seconds;
+
+// points for `answers` answers in a row when every third one adds a point to each answer after it (Simon Says, Flip Dash)
+const streakPoints = (answers: number) => {
+  let points = 0;
+  for (let i = 0; i < answers; i++) points += 1 + Math.floor(i / 3);
+  return points;
+};
+
+// Flip Dash shows the next arrow no sooner than 120 ms after an answer
+const FLIP_DASH_ANSWER_MS = 120;
+// Word Scramble: 10 points a word plus 2 per word of streak; the shortest word (CODING) and Enter are 7 key presses
+const WORD_SCRAMBLE_ANSWER_MS = 7 * FASTEST_INPUT_MS;
+// Quick Math: the longest round is 60 s, a streak answer is worth at most 5, and an answer is a digit and Enter
+const QUICK_MATH_ANSWER_MS = 2 * FASTEST_INPUT_MS;
+const QUICK_MATH_ROUND_SECONDS = 60;
+// Flappy Bird: a pipe every 1.2 s, each worth a point as it passes the bird
+const FLAPPY_PIPE_INTERVAL_SECONDS = 1.2;
+// Typing Speed: one sentence a run, the longest 54 characters; words per minute count five characters a word
+// over at least one second
+const TYPING_LONGEST_SENTENCE = 54;
+
+export const scoreBounds: Partial<Record<GameId, ScoreBounds>> = {
+  // a single-player win is worth 1 and takes at least two of the computer's 400 ms replies
+  'tic-tac-toe': { maxScore: 1, maxScoreAfter: perSecond(1 / 0.8) },
+  // a mole pops every 900 ms for the 30 s of a round, and each is worth 1
+  'whack-a-mole': { maxScore: Math.ceil(30 / 0.9), maxScoreAfter: perSecond(1 / 0.9) },
+  // playing back a sequence on the fastest settings outlasts the streak bonus, which keeps rounds under 1.1 points a second
+  'simon-says': { maxScore: Infinity, maxScoreAfter: perSecond(1.1) },
+  // first to at most 7 rounds, each at least the computer's 600 ms of thinking
+  'rock-paper-scissors': { maxScore: 7, maxScoreAfter: perSecond(1 / 0.6) },
+  // a 5×5 card; a call is two inputs (a number and Enter) and marks two numbers, the player's and the computer's reply
+  'number-guess': { maxScore: 25, maxScoreAfter: perSecond(INPUTS_PER_SECOND) },
+  // ten balls of at most 10 runs, one pick each
+  'reaction-time': { maxScore: 100, maxScoreAfter: perSecond(10 * INPUTS_PER_SECOND) },
+  // the first pipe is already on screen when the run starts
+  'flappy-bird': {
+    maxScore: Infinity,
+    maxScoreAfter: seconds => Math.floor(seconds / FLAPPY_PIPE_INTERVAL_SECONDS) + 1,
+  },
+  'typing-speed': {
+    maxScore: (INPUTS_PER_SECOND * 60) / 5,
+    maxScoreAfter: seconds =>
+      Math.round((Math.min(TYPING_LONGEST_SENTENCE, seconds * INPUTS_PER_SECOND) / 5) * (60 / Math.max(1, seconds))),
+  },
+  'click-speed': {
+    maxScore: Infinity,
+    maxScoreAfter: seconds => streakPoints(Math.floor((seconds * 1000) / FLIP_DASH_ANSWER_MS) + 1),
+  },
+  'word-scramble': {
+    maxScore: Infinity,
+    maxScoreAfter: seconds => {
+      const words = Math.floor((seconds * 1000) / WORD_SCRAMBLE_ANSWER_MS);
+      return 10 * words + words * (words - 1);
+    },
+  },
+  'quick-math': {
+    maxScore: ((QUICK_MATH_ROUND_SECONDS * 1000) / QUICK_MATH_ANSWER_MS) * 5,
+    maxScoreAfter: perSecond((1000 / QUICK_MATH_ANSWER_MS) * 5),
+  },
+};
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { createMockLeaderboardServer } from '@/lib/leaderboard-mock-server';
+import { memoryStorage } from '@/test/memory-storage';
+import type { SessionResult } from '@/types/session';
+
+// the configured provider, swapped for one on the mock server
+const mock = vi.hoisted(() => ({ server: null as ReturnType<typeof createMockLeaderboardServer> | null }));
+
+vi.mock('@/lib/leaderboard-provider', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/leaderboard-provider')>();
+  const { createMockLeaderboardServer } = await import('@/lib/leaderboard-mock-server');
+  mock.server = createMockLeaderboardServer({ latencyMs: 0 });
+  return { ...actual, leaderboardProvider: actual.createRestLeaderboardProvider('/mock-api', mock.server.fetch) };
+});
+
+// retries are only scheduled here, and fired by hand; the latest one is the one the queue is waiting on
+let timers: { delay: number; run: () => void }[];
+
+beforeEach(() => {
+  timers = [];
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.stubGlobal('window', {
+    setTimeout: (run: () => void, delay: number) => timers.push({ delay, run }),
+    clearTimeout: () => {},
+    addEventListener: () => {},
+  });
+  vi.resetModules();
+  mock.server?.reset();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+async function load() {
+  const queue = await import('@/lib/score-queue');
+  const profiles = await import('@/lib/profiles');
+  return { ...queue, ...profiles, server: mock.server };
+}
+
+// a Whack-a-Mole round, which the verifier holds to at most 34 points
+const round = (score: number, endedAt: number): SessionResult => ({
+  gameId: 'whack-a-mole',
+  score,
+  outcome: 'completed',
+  stats: {},
+  seed: null,
+  startedAt: endedAt - 30_000,
+  endedAt,
+  durationMs: 30_000,
+  inputs: null,
+});
+
+const BOARD = 'whack-a-mole/all';
+
+describe('score queue', () => {
+  it('uploads queued scores in order', async () => {
+    const { queueRemoteScore, flushScoreQueue, getScoreQueueSnapshot, server } = await load();
+    await queueRemoteScore(BOARD, 'AAA', round(10, 1));
+    await queueRemoteScore(BOARD, 'AAA', round(20, 2));
+    await flushScoreQueue();
+
+    expect(getScoreQueueSnapshot().pending).toEqual([]);
+    const top = await server.fetch(`/mock-api/boards/${encodeURIComponent(BOARD)}/top`);
+    expect((await top.json()).map((e: { score: number }) => e.score)).toEqual([20, 10]);
+  });
+
+  it('backs off while offline, doubling the delay up to the cap', async () => {
+    const { queueRemoteScore, flushScoreQueue, getScoreQueueSnapshot, server } = await load();
+    server.setOnline(false);
+    await queueRemoteScore(BOARD, 'AAA', round(10, 1));
+    await flushScoreQueue();
+    expect(getScoreQueueSnapshot()).toMatchObject({ attempts: 1, pending: [{ score: 10 }] });
+
+    for (let i = 0; i < 10; i++) {
+      timers.at(-1).run();
+      await flushScoreQueue();
+    }
+    expect(timers.map(t => t.delay)).toEqual([2_000, 4_000, 8_000, 16_000, 32_000, 64_000, 128_000, 256_000, 300_000, 300_000, 300_000]);
+    expect(getScoreQueueSnapshot().attempts).toBe(11);
+
+    server.setOnline(true);
+    timers.at(-1).run();
+    await flushScoreQueue();
+    expect(getScoreQueueSnapshot()).toMatchObject({ attempts: 0, pending: [] });
+  });
+
+  it('uploads scores left waiting by the last page load', async () => {
+    const first = await load();
+    first.server.setOnline(false);
+    await first.queueRemoteScore(BOARD, 'AAA', round(10, 1));
+    await first.flushScoreQueue();
+    const { playerId } = first.getScoreQueueSnapshot();
+
+    first.server.setOnline(true);
+    vi.resetModules();
+    const { getScoreQueueSnapshot, flushScoreQueue, server } = await load();
+    // joins the upload the module started when it loaded
+    await flushScoreQueue();
+    expect(getScoreQueueSnapshot()).toMatchObject({ playerId, attempts: 0, pending: [] });
+    const top = await server.fetch(`/mock-api/boards/${encodeURIComponent(BOARD)}/top`);
+    expect(await top.json()).toMatchObject([{ playerId, score: 10 }]);
+  });
+
+  it('drops a score the server turns down and carries on with the rest', async () => {
+    const { queueRemoteScore, flushScoreQueue, getScoreQueueSnapshot, server } = await load();
+    server.setOnline(false);
+    await queueRemoteScore(BOARD, 'AAA', round(500, 1));
+    await queueRemoteScore(BOARD, 'AAA', round(20, 2));
+
+    server.setOnline(true);
+    await flushScoreQueue();
+    expect(getScoreQueueSnapshot()).toMatchObject({ attempts: 0, pending: [] });
+    const top = await server.fetch(`/mock-api/boards/${encodeURIComponent(BOARD)}/top`);
+    expect((await top.json()).map((e: { score: number }) => e.score)).toEqual([20]);
+  });
+
+  it('keeps a queue and player id per profile and uploads what a profile left waiting when it comes back', async () => {
+    const { queueRemoteScore, flushScoreQueue, getScoreQueueSnapshot, createProfile, switchProfile, DEFAULT_PROFILE_ID, server } =
+      await load();
+    server.setOnline(false);
+    await queueRemoteScore(BOARD, 'AAA', round(10, 1));
+    await flushScoreQueue();
+    const first = getScoreQueueSnapshot();
+
+    createProfile('Second', '🦊', 'pink');
+    const second = getScoreQueueSnapshot();
+    expect(second.playerId).not.toBe(first.playerId);
+    expect(second.pending).toEqual([]);
+
+    server.setOnline(true);
+    switchProfile(DEFAULT_PROFILE_ID);
+    await flushScoreQueue();
+    expect(getScoreQueueSnapshot()).toMatchObject({ playerId: first.playerId, pending: [] });
+    const top = await server.fetch(`/mock-api/boards/${encodeURIComponent(BOARD)}/top`);
+    expect(await top.json()).toMatchObject([{ playerId: first.playerId, score: 10 }]);
+  });
+});
@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import {
+  leaderboardProvider,
+  LeaderboardRequestError,
+  remoteBoardQueryKey,
+  type RemoteScoreSubmission,
+} from '@/lib/leaderboard-provider';
+import { createProfileStore } from '@/lib/profile-store';
+import { queryClient } from '@/lib/query-client';
+import { signSessionSummary, summarizeSession, type SignedSessionSummary } from '@/lib/session-integrity';
+import type { SessionResult } from '@/types/session';
+
+export const SCORE_QUEUE_STORAGE_KEY = 'arcade_score_queue';
+export const SCORE_QUEUE_VERSION = 1;
+// Backoff between upload attempts doubles from the first delay up to the cap
+const RETRY_BASE_MS = 2_000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+const sessionSchema = z.object({
+  gameId: z.string(),
+  gameVersion: z.number().nullable(),
+  seed: z.number().nullable(),
+  score: z.number(),
+  outcome: z.enum(['win', 'loss', 'draw', 'completed', 'abandoned']),
+  durationMs: z.number(),
+  inputCount: z.number().nullable(),
+  endedAt: z.number(),
+  signature: z.string(),
+});
+
+const inputsSchema = z.object({
+  simVersion: z.number(),
+  seed: z.number(),
+  options: z.record(z.number()),
+  ticks: z.number(),
+  commands: z.array(z.tuple([z.number(), z.string()]).rest(z.number())),
+});
+
+const submissionSchema = z.object({
+  id: z.string(),
+  board: z.string(),
+  playerId: z.string(),
+  initials: z.string(),
+  score: z.number(),
+  recordedAt: z.number(),
+  session: sessionSchema,
+  inputs: inputsSchema.nullable(),
+});
+
+const queueSchema = z.object({
+  version: z.literal(SCORE_QUEUE_VERSION),
+  // how this profile is known to the online boards; made up on first use
+  playerId: z.string(),
+  pending: z.array(submissionSchema),
+  // failed attempts at the head of the queue since the last successful upload
+  attempts: z.number().int().nonnegative(),
+});
+
+// Stored submissions pass the schema above on load, so they are handed to the provider as they are
+export type QueuedScore = RemoteScoreSubmission;
+export interface ScoreQueueState {
+  version: typeof SCORE_QUEUE_VERSION;
+  playerId: string;
+  pending: QueuedScore[];
+  attempts: number;
+}
+
+const newPlayerId = () => `pl-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+const emptyState = (): ScoreQueueState => ({
+  version: SCORE_QUEUE_VERSION,
+  playerId: newPlayerId(),
+  pending: [],
+  attempts: 0,
+});
+
+let flushing: Promise<void> | null = null;
+// set when a flush is asked for while one is finishing, which may already have looked at the queue
+let flushAgain = false;
+let retryTimer: number | null = null;
+
+// Each profile keeps its own queue and player id, made up and saved on first use; a switch picks up whatever
+// the new profile left waiting
+const store = createProfileStore(SCORE_QUEUE_STORAGE_KEY, queueSchema, emptyState, {
+  initial: emptyState,
+  onProfileSwitch: () => void flushScoreQueue(),
+});
+
+export const getScoreQueueSnapshot = store.get;
+export const subscribeScoreQueue = store.subscribe;
+
+export function getRemotePlayerId() {
+  return getScoreQueueSnapshot().playerId;
+}
+
+function scheduleRetry(attempts: number) {
+  if (retryTimer !== null) window.clearTimeout(retryTimer);
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null;
+    void flushScoreQueue();
+  }, delay);
+}
+
+// Uploads oldest first and stops at the first retryable failure, so scores reach the server in the order they were set.
+// Resolves true once the queue is empty, false when it backed off to retry later.
+async function drain() {
+  for (;;) {
+    const current = getScoreQueueSnapshot();
+    const [head] = current.pending;
+    if (!head) return true;
+    try {
+      await leaderboardProvider.submit(head);
+    } catch (error) {
+      const retryable = !(error instanceof LeaderboardRequestError) || error.retryable;
+      if (retryable) {
+        const attempts = getScoreQueueSnapshot().attempts + 1;
+        store.commit({ ...getScoreQueueSnapshot(), attempts });
+        scheduleRetry(attempts);
+        return false;
+      }
+      // the server turned it down; resending won't change its mind
+    }
+    const latest = getScoreQueueSnapshot();
+    store.commit({ ...latest, pending: latest.pending.filter(s => s.id !== head.id), attempts: 0 });
+    void queryClient.invalidateQueries({ queryKey: remoteBoardQueryKey(head.board) });
+  }
+}
+
+/** Tries to upload everything waiting; concurrent calls share the one attempt in flight. */
+export function flushScoreQueue(): Promise<void> {
+  if (!leaderboardProvider) return Promise.resolve();
+  if (flushing) {
+    flushAgain = true;
+    return flushing;
+  }
+  flushing = (async () => {
+    do {
+      flushAgain = false;
+    } while ((await drain()) && flushAgain);
+  })().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+}
+
+/**
+ * Signs the run and queues its score for the online board, then starts uploading.
+ * A no-op when no online service is configured.
+ */
+export async function queueRemoteScore(board: string, initials: string, result: SessionResult) {
+  if (!leaderboardProvider) return;
+  let session: SignedSessionSummary;
+  try {
+    session = await signSessionSummary(summarizeSession(result));
+  } catch {
+    // no Web Crypto (plain http); an unsigned score would only be turned away
+    return;
+  }
+  const current = getScoreQueueSnapshot();
+  const id = `${current.playerId}:${board}:${result.endedAt}`;
+  if (current.pending.some(s => s.id === id)) return;
+  const submission: QueuedScore = {
+    id,
+    board,
+    playerId: current.playerId,
+    initials,
+    score: result.score,
+    recordedAt: result.endedAt,
+    session,
+    inputs: result.inputs,
+  };
+  store.commit({ ...current, pending: [...current.pending, submission] });
+  void flushScoreQueue();
+}
+
+if (typeof window !== 'undefined' && leaderboardProvider) {
+  window.addEventListener('online', () => void flushScoreQueue());
+  // scores left over from a session that closed while offline
+  void flushScoreQueue();
+}
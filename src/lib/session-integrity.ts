@@ -0,0 +1,62 @@
+import type { SessionOutcome, SessionResult } from '@/types/session';
+
+/** The facts about a finished run that travel with a shared score. */
+export interface SessionSummary {
+  gameId: string;
+  // the sim's rule version, for games played on one
+  gameVersion: number | null;
+  seed: number | null;
+  score: number;
+  outcome: SessionOutcome;
+  durationMs: number;
+  // recorded commands, for games played on a sim
+  inputCount: number | null;
+  endedAt: number;
+}
+
+export interface SignedSessionSummary extends SessionSummary {
+  signature: string;
+}
+
+// Fixed field order, so the signed bytes don't depend on how the object was built
+const SIGNED_FIELDS: (keyof SessionSummary)[] = [
+  'gameId', 'gameVersion', 'seed', 'score', 'outcome', 'durationMs', 'inputCount', 'endedAt',
+];
+
+/**
+ * The key ships with the client, so a signature only shows the summary wasn't edited after the run
+ * (a hand-written localStorage score has none). Catching a forged run is the verifier's re-simulation.
+ */
+export const SESSION_SIGNING_KEY = import.meta.env.VITE_SCORE_SIGNING_KEY || 'minigames-dev-signing-key';
+
+export function summarizeSession(result: SessionResult): SessionSummary {
+  const { inputs } = result;
+  return {
+    gameId: result.gameId,
+    gameVersion: inputs?.simVersion ?? null,
+    seed: inputs?.seed ?? result.seed,
+    score: result.score,
+    outcome: result.outcome,
+    durationMs: result.durationMs,
+    inputCount: inputs?.commands.length ?? null,
+    endedAt: result.endedAt,
+  };
+}
+
+// HMAC-SHA-256 through Web Crypto, which browsers only expose on https and localhost
+async function hmac(message: string, key: string) {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const signedBytes = (summary: SessionSummary) => JSON.stringify(summary, SIGNED_FIELDS);
+
+export async function signSessionSummary(summary: SessionSummary, key = SESSION_SIGNING_KEY): Promise<SignedSessionSummary> {
+  return { ...summary, signature: await hmac(signedBytes(summary), key) };
+}
+
+export async function hasValidSignature(signed: SignedSessionSummary, key = SESSION_SIGNING_KEY) {
+  return typeof signed.signature === 'string' && signed.signature === (await hmac(signedBytes(signed), key));
+}
@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import { createMockLeaderboardServer } from '@/lib/leaderboard-mock-server';
+import type { RemoteScoreSubmission } from '@/lib/leaderboard-provider';
+import { signSessionSummary, type SessionSummary } from '@/lib/session-integrity';
+import { verifySession } from '@/lib/session-verifier';
+import { createSimRun, SIM_STEP_MS, stepSimRun, type GameSim, type SimCommand, type SimRun, type SimState } from '@/lib/sim';
+import { flappySim, type FlappyState } from '@/lib/sims/flappy-bird';
+import { memoryMatchSim, type MemoryState } from '@/lib/sims/memory-match';
+import { snakeSim, type SnakeState } from '@/lib/sims/snake';
+import { stackSim, type StackState } from '@/lib/sims/stack-builder';
+import type { GameId } from '@/types/games';
+import type { SessionInputs } from '@/types/session';
+
+// a signed summary of a game without a sim, which has no inputs to replay
+const signed = (summary: Pick<SessionSummary, 'gameId' | 'score' | 'durationMs'>) =>
+  signSessionSummary({ gameVersion: null, seed: 1, outcome: 'completed', inputCount: null, endedAt: 0, ...summary });
+
+describe('games without a sim', () => {
+  it('accepts scores the rules allow', async () => {
+    expect(await verifySession(await signed({ gameId: 'whack-a-mole', score: 25, durationMs: 30_000 }), null)).toEqual({ ok: true });
+    expect(await verifySession(await signed({ gameId: 'click-speed', score: 40, durationMs: 20_000 }), null)).toEqual({ ok: true });
+    expect(await verifySession(await signed({ gameId: 'typing-speed', score: 75, durationMs: 8_000 }), null)).toEqual({ ok: true });
+  });
+
+  it('rejects a signed score past the maximum', async () => {
+    expect(await verifySession(await signed({ gameId: 'click-speed', score: 1e9, durationMs: 60_000 }), null)).toEqual({
+      ok: false,
+      reason: 'Score came in faster than the game allows',
+    });
+    expect(await verifySession(await signed({ gameId: 'rock-paper-scissors', score: 8, durationMs: 60_000 }), null)).toEqual({
+      ok: false,
+      reason: 'Score is higher than the game allows',
+    });
+  });
+
+  it('rejects a score reached faster than the rules allow', async () => {
+    expect(await verifySession(await signed({ gameId: 'whack-a-mole', score: 30, durationMs: 5_000 }), null)).toEqual({
+      ok: false,
+      reason: 'Score came in faster than the game allows',
+    });
+    expect(await verifySession(await signed({ gameId: 'typing-speed', score: 200, durationMs: 10_000 }), null)).toEqual({
+      ok: false,
+      reason: 'Score came in faster than the game allows',
+    });
+  });
+
+  it('holds Flappy Bird to a point per pipe before re-simulating it', async () => {
+    expect(await verifySession(await signed({ gameId: 'flappy-bird', score: 63, durationMs: 10_000 }), null)).toEqual({
+      ok: false,
+      reason: 'Score came in faster than the game allows',
+    });
+  });
+
+  it('rejects runs longer than any game lasts', async () => {
+    expect(await verifySession(await signed({ gameId: 'simon-says', score: 10, durationMs: 2 * 60 * 60 * 1000 }), null)).toEqual({
+      ok: false,
+      reason: 'Run length is out of range',
+    });
+  });
+});
+
+interface RecordedRun {
+  gameId: GameId;
+  sim: GameSim;
+  seed: number;
+  run: SimRun;
+}
+
+// plays a sim to its end, queueing whatever `play` returns on each tick
+function record<S extends SimState>(gameId: GameId, sim: GameSim<S>, seed: number, play: (state: S, tick: number) => SimCommand[]): RecordedRun {
+  const run = createSimRun(sim, seed, {});
+  while (!sim.result(run.state) && run.tick < 36_000) stepSimRun(sim, run, play(run.state, run.tick));
+  return { gameId, sim: sim as GameSim, seed, run };
+}
+
+// turns down, left and up around the middle of the board, then runs into the top wall
+const snakeRun = () =>
+  record('snake', snakeSim, 5, (_s: SnakeState, tick) =>
+    tick === 20 ? [['turn', 2]] : tick === 50 ? [['turn', 3]] : tick === 80 ? [['turn', 0]] : []);
+
+// drops each block as it lines up with the one below, which tops out the tower
+const stackRun = () =>
+  record('color-match', stackSim, 5, (s: StackState) => {
+    const top = s.stack[s.stack.length - 1];
+    return Math.abs(s.moving.x - top.x) < 3 ? [['drop']] : [];
+  });
+
+// turns over each pair in turn, a card every half second
+const memoryRun = () => {
+  let order: number[] = [];
+  return record('memory-match', memoryMatchSim, 5, (s: MemoryState, tick) => {
+    if (tick === 0) order = s.cards.map((card, i) => ({ face: card.face, i })).sort((a, b) => a.face - b.face).map(c => c.i);
+    return tick % 30 === 0 && tick / 30 < order.length ? [['flip', order[tick / 30]]] : [];
+  });
+};
+
+// flaps toward the middle of the next gap until it misjudges one (on this seed, after 19 pipes)
+const flappyRun = () => {
+  const passed = new Set<FlappyState['pipes'][number]>();
+  // a pipe is past once its centre is behind the bird, which sits at x = 100
+  const countPassed = (s: FlappyState) => {
+    for (const p of s.pipes) if (p.x + 30 < 100) passed.add(p);
+  };
+  const recorded = record('flappy-bird', flappySim, 2, (s: FlappyState) => {
+    countPassed(s);
+    const next = s.pipes.find(p => p.x + 60 > 86);
+    return s.birdY > (next ? next.gapY + 25 : s.height / 2) && s.birdV >= 0 ? [['flap']] : [];
+  });
+  countPassed(recorded.run.state as FlappyState);
+  return { recorded, pipesPassed: passed.size };
+};
+
+interface Tampering {
+  summary?: Partial<SessionSummary>;
+  inputs?: Partial<SessionInputs>;
+  key?: string;
+}
+
+const server = createMockLeaderboardServer({ latencyMs: 0 });
+let submissions = 0;
+
+// posts the run to the mock leaderboard the way the score queue does
+async function submit({ gameId, sim, seed, run }: RecordedRun, { summary = {}, inputs = {}, key }: Tampering = {}) {
+  const result = sim.result(run.state);
+  const session = await signSessionSummary(
+    {
+      gameId,
+      gameVersion: sim.version,
+      seed,
+      score: result.score,
+      outcome: result.outcome,
+      durationMs: run.tick * SIM_STEP_MS,
+      inputCount: run.commands.length,
+      endedAt: 0,
+      ...summary,
+    },
+    key,
+  );
+  const submission: RemoteScoreSubmission = {
+    id: `run-${++submissions}`,
+    board: `${gameId}/classic`,
+    playerId: 'player-1',
+    initials: 'AAA',
+    score: session.score,
+    recordedAt: submissions,
+    session,
+    inputs: { simVersion: sim.version, seed, options: {}, ticks: run.tick, commands: run.commands, ...inputs },
+  };
+  const response = await server.fetch(`/mock-api/boards/${encodeURIComponent(submission.board)}/scores`, {
+    method: 'POST',
+    body: JSON.stringify(submission),
+  });
+  return { status: response.status, error: response.ok ? null : ((await response.json()) as { error: string }).error };
+}
+
+describe.each([
+  ['Snake', snakeRun],
+  ['StackBuilder', stackRun],
+  ['MemoryMatch', memoryRun],
+])('re-simulating %s', (_name, play) => {
+  const recorded = play();
+  const { run } = recorded;
+
+  it('accepts the run as played', async () => {
+    expect(run.commands.length).toBeGreaterThan(1);
+    expect(await submit(recorded)).toEqual({ status: 201, error: null });
+  });
+
+  it('rejects a tampered score', async () => {
+    const score = recorded.sim.result(run.state).score + 10;
+    const { status, error } = await submit(recorded, { summary: { score } });
+    expect(status).toBe(422);
+    expect(error).toMatch(/^Re-simulation scores \d+/);
+  });
+
+  it('rejects a summary signed with another key', async () => {
+    expect(await submit(recorded, { key: 'not-the-signing-key' })).toEqual({ status: 422, error: 'Signature does not match the summary' });
+  });
+
+  it('rejects reordered inputs', async () => {
+    const commands = [...run.commands].reverse();
+    expect(await submit(recorded, { inputs: { commands } })).toEqual({ status: 422, error: 'Inputs are out of order' });
+  });
+
+  it('rejects a recording that goes on after the run ended', async () => {
+    const ticks = run.tick + 60;
+    expect(await submit(recorded, { summary: { durationMs: ticks * SIM_STEP_MS }, inputs: { ticks } })).toEqual({
+      status: 422,
+      error: 'Run ended earlier than recorded',
+    });
+  });
+
+  it('rejects a run that took less time than its ticks', async () => {
+    expect(await submit(recorded, { summary: { durationMs: (run.tick * SIM_STEP_MS) / 2 } })).toEqual({
+      status: 422,
+      error: 'Run finished faster than it can be played',
+    });
+  });
+});
+
+describe('re-simulating Flappy Bird', () => {
+  const { recorded, pipesPassed } = flappyRun();
+  const score = recorded.sim.result(recorded.run.state).score;
+
+  it('scores a point for each pipe the bird got past', async () => {
+    expect(pipesPassed).toBeGreaterThan(5);
+    expect(score).toBe(pipesPassed);
+    expect(await submit(recorded)).toEqual({ status: 201, error: null });
+  });
+
+  it('rejects a score a pipe higher than the run earned', async () => {
+    expect(await submit(recorded, { summary: { score: score + 1 } })).toEqual({
+      status: 422,
+      error: `Re-simulation scores ${score} (loss), not ${score + 1} (loss)`,
+    });
+  });
+
+  it('rejects a score past a point per pipe without re-simulating it', async () => {
+    expect(await submit(recorded, { summary: { score: score * 3 } })).toEqual({
+      status: 422,
+      error: 'Score came in faster than the game allows',
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { hasValidSignature, SESSION_SIGNING_KEY, type SignedSessionSummary } from '@/lib/session-integrity';
+import { createReplayPlayer, isDebugCommand, SIM_STEP_MS } from '@/lib/sim';
+import { scoreBounds, type ScoreBounds } from '@/lib/score-bounds';
+import { loadSim } from '@/lib/sims';
+import type { GameId } from '@/types/games';
+import type { SessionInputs } from '@/types/session';
+
+export type SessionVerdict = { ok: true } | { ok: false; reason: string };
+
+// Longest run worth accepting; nothing in the catalog comes close
+const MAX_RUN_MS = 60 * 60 * 1000;
+const MAX_TICKS = MAX_RUN_MS / SIM_STEP_MS;
+// Wall time can't be shorter than the simulated time (slow mode and stalls only make it longer), give or take a frame or two
+const DURATION_SLACK_MS = 250;
+
+const reject = (reason: string): SessionVerdict => ({ ok: false, reason });
+
+// the score has to be one the rules allow in the time the run took
+function checkBounds(summary: SignedSessionSummary, bounds: ScoreBounds): SessionVerdict {
+  if (summary.durationMs > MAX_RUN_MS) return reject('Run length is out of range');
+  if (summary.score > bounds.maxScore) return reject('Score is higher than the game allows');
+  if (summary.score > bounds.maxScoreAfter((summary.durationMs + DURATION_SLACK_MS) / 1000)) {
+    return reject('Score came in faster than the game allows');
+  }
+  return { ok: true };
+}
+
+/**
+ * Checks a shared session the way a leaderboard server would. Every summary needs a valid signature and a sane score;
+ * games played on a sim (Snake, StackBuilder, MemoryMatch and the other replayable games) are then played out again
+ * from the recorded seed and inputs, and the score is rejected unless the re-run ends on the same tick with the same result.
+ * Other games are held to the score limits of their rules (see score-bounds.ts), as are sim games that have them.
+ */
+export async function verifySession(
+  summary: SignedSessionSummary,
+  inputs: SessionInputs | null,
+  key = SESSION_SIGNING_KEY,
+): Promise<SessionVerdict> {
+  if (!(await hasValidSignature(summary, key))) return reject('Signature does not match the summary');
+  if (!Number.isFinite(summary.score) || summary.score < 0) return reject('Score is out of range');
+  if (!Number.isFinite(summary.durationMs) || summary.durationMs < 0) return reject('Duration is out of range');
+
+  const bounds = scoreBounds[summary.gameId as GameId];
+  const loading = loadSim(summary.gameId);
+  if (!loading) return bounds ? checkBounds(summary, bounds) : reject(`No score limits for ${summary.gameId}`);
+  if (bounds) {
+    const verdict = checkBounds(summary, bounds);
+    if (verdict.ok === false) return verdict;
+  }
+
+  if (!inputs) return reject('Recorded inputs are missing');
+  const sim = await loading;
+  if (inputs.simVersion !== sim.version || summary.gameVersion !== sim.version) {
+    return reject(`Recorded on rules version ${inputs.simVersion}, the verifier runs ${sim.version}`);
+  }
+  if (inputs.seed !== summary.seed || inputs.commands.length !== summary.inputCount) {
+    return reject('Inputs do not match the summary');
+  }
+  if (!Number.isInteger(inputs.ticks) || inputs.ticks < 1 || inputs.ticks > MAX_TICKS) return reject('Run length is out of range');
+  if (inputs.commands.some(([tick], i) => tick < 0 || tick >= inputs.ticks || (i > 0 && tick < inputs.commands[i - 1][0]))) {
+    return reject('Inputs are out of order');
+  }
+  if (inputs.commands.some(([, kind]) => isDebugCommand(kind))) return reject('Run was played with debug tools');
+  if (summary.durationMs + DURATION_SLACK_MS < inputs.ticks * SIM_STEP_MS) return reject('Run finished faster than it can be played');
+
+  const player = createReplayPlayer(sim, inputs);
+  // the live loop stops on the first tick with a result, so the run may only end on its last one
+  while (player.tick < inputs.ticks - 1) {
+    player.advance();
+    player.state.sounds.length = 0;
+    if (sim.result(player.state)) return reject('Run ended earlier than recorded');
+  }
+  player.advance();
+  const result = sim.result(player.state);
+  if (!result) return reject('Run had not ended when the recording stops');
+  if (result.score !== summary.score || result.outcome !== summary.outcome) {
+    return reject(`Re-simulation scores ${result.score} (${result.outcome}), not ${summary.score} (${summary.outcome})`);
+  }
+  return { ok: true };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { signSessionSummary } from '@/lib/session-integrity';
+import { verifySession } from '@/lib/session-verifier';
+import { createReplayPlayer, createSimRun, SIM_STEP_MS, stepSimRun, type GameSim, type SimCommand, type SimRun, type SimState } from '@/lib/sim';
+import { gravityRunnerSim } from '@/lib/sims/gravity-runner';
+import { breakoutSim } from '@/lib/sims/neon-breakout';
+
+// steps until the run ends, giving up after a simulated minute
+function playOut<S extends SimState>(sim: GameSim<S>, run: SimRun<S>, inputs: Record<number, SimCommand[]> = {}) {
+  while (!sim.result(run.state) && run.tick < 3600) stepSimRun(sim, run, inputs[run.tick]);
+  return sim.result(run.state);
+}
+
+describe('debug commands', () => {
+  it('lets an invulnerable runner through obstacles until it is switched off', () => {
+    const baseline = createSimRun(gravityRunnerSim, 3, {});
+    expect(playOut(gravityRunnerSim, baseline)).not.toBeNull();
+
+    const run = createSimRun(gravityRunnerSim, 3, {});
+    const offAt = baseline.tick + 120;
+    const result = playOut(gravityRunnerSim, run, { 0: [['debug:invulnerable', 1]], [offAt]: [['debug:invulnerable', 0]] });
+    expect(result).not.toBeNull();
+    expect(run.tick).toBeGreaterThan(offAt);
+    expect(run.commands).toEqual([[0, 'debug:invulnerable', 1], [offAt, 'debug:invulnerable', 0]]);
+  });
+
+  it('replays a run that used them', () => {
+    const run = createSimRun(gravityRunnerSim, 3, {});
+    playOut(gravityRunnerSim, run, { 0: [['debug:invulnerable', 1]], 400: [['debug:invulnerable', 0]] });
+    const player = createReplayPlayer(gravityRunnerSim, { seed: 3, options: {}, ticks: run.tick, commands: run.commands });
+    player.seek(run.tick);
+    expect(gravityRunnerSim.result(player.state)).toEqual(gravityRunnerSim.result(run.state));
+  });
+
+  it('jumps to a level in sims that have them', () => {
+    const run = createSimRun(breakoutSim, 1, {});
+    stepSimRun(breakoutSim, run, [['debug:level', 7]]);
+    expect(run.state.level).toBe(7);
+    stepSimRun(breakoutSim, run, [['debug:level', 99]]);
+    expect(run.state.level).toBe(breakoutSim.debug.maxLevel);
+  });
+
+  it('leaves the sim alone for time scale, freeze and single steps', () => {
+    const baseline = createSimRun(gravityRunnerSim, 3, {});
+    const run = createSimRun(gravityRunnerSim, 3, {});
+    const expected = playOut(gravityRunnerSim, baseline);
+    expect(playOut(gravityRunnerSim, run, { 0: [['debug:time-scale', 0.25]], 100: [['debug:freeze', 1]], 101: [['debug:step', 1]] })).toEqual(expected);
+    expect(run.tick).toBe(baseline.tick);
+  });
+
+  it('makes the verifier refuse the run', async () => {
+    const verify = async (inputs: Record<number, SimCommand[]>) => {
+      const run = createSimRun(gravityRunnerSim, 3, {});
+      const result = playOut(gravityRunnerSim, run, inputs);
+      const summary = await signSessionSummary({
+        gameId: 'math-quiz',
+        gameVersion: gravityRunnerSim.version,
+        seed: 3,
+        score: result.score,
+        outcome: result.outcome,
+        durationMs: run.tick * SIM_STEP_MS,
+        inputCount: run.commands.length,
+        endedAt: 0,
+      });
+      return verifySession(summary, { simVersion: gravityRunnerSim.version, seed: 3, options: {}, ticks: run.tick, commands: run.commands });
+    };
+
+    expect(await verify({})).toEqual({ ok: true });
+    expect(await verify({ 0: [['debug:invulnerable', 1]], 300: [['debug:invulnerable', 0]] })).toEqual({
+      ok: false,
+      reason: 'Run was played with debug tools',
+    });
+    expect(await verify({ 0: [['debug:time-scale', 0.1]] })).toEqual({ ok: false, reason: 'Run was played with debug tools' });
+    expect(await verify({ 200: [['debug:freeze', 1]], 201: [['debug:step', 1]], 260: [['debug:freeze', 0]] })).toEqual({
+      ok: false,
+      reason: 'Run was played with debug tools',
+    });
+  });
+});
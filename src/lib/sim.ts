@@ -0,0 +1,160 @@
+import type { Rect } from '@/lib/collision';
+import { createRng, type Rng } from '@/lib/random';
+import type { SoundEffect } from '@/lib/audio';
+import type { SessionEnd } from '@/types/session';
+
+// Simulated time per tick. Replayable games always step by exactly this, whatever the display's refresh rate.
+export const SIM_STEP_MS = 1000 / 60;
+
+/** One input as the simulation sees it: a kind plus numeric arguments, e.g. ['flap'] or ['aim', 212]. */
+export type SimCommand = [kind: string, ...args: number[]];
+
+// What a replay stores per input: the tick it was applied on, then the command
+export type RecordedCommand = [tick: number, kind: string, ...args: number[]];
+
+// Recorded with the replay and handed back to `create`, for runs whose layout depends on the page (Flappy's canvas size)
+export type SimOptions = Record<string, number>;
+
+/** State every sim carries; games extend it with their own entities. */
+export interface SimState {
+  // logical canvas size the renderer draws in
+  width: number;
+  height: number;
+  // simulated milliseconds since the run started; sims use this instead of performance.now()
+  time: number;
+  random: Rng;
+  // effects triggered this tick, drained by whoever is driving the sim
+  sounds: SoundEffect[];
+  // set from the debug overlay; sims that support it let hits on the player land without costing anything
+  invulnerable?: boolean;
+}
+
+/** A collision shape exactly as the sim tests it, for the debug overlay to outline. */
+export type Hitbox = { kind: 'circle'; x: number; y: number; r: number } | ({ kind: 'rect' } & Rect);
+
+// Values worth watching while tuning: entity counts, difficulty ramps, timers
+export type SimDebugStats = Record<string, number | string | boolean>;
+
+/** Hooks a sim offers the development overlay. None of them are reachable in production builds. */
+export interface SimDebug<S extends SimState = SimState> {
+  stats(state: S): SimDebugStats;
+  hitboxes?(state: S): Hitbox[];
+  // whether the sim honours `state.invulnerable`
+  invulnerability?: boolean;
+  // levels run 1..maxLevel; sims without levels leave both unset
+  maxLevel?: number;
+  jumpToLevel?(state: S, level: number): void;
+}
+
+/**
+ * A game's rules as plain functions over a state object, so a run can be stepped by the frame loop,
+ * fast-forwarded by the replay viewer or re-run anywhere else from its seed and recorded commands.
+ * `step` may depend on nothing outside the state, so identical commands on identical ticks always give identical runs.
+ */
+export interface GameSim<S extends SimState = SimState> {
+  // bumped whenever a rule change makes older replays play out differently
+  version: number;
+  // command kinds where only the latest one in a tick matters (pointer positions, stick axes)
+  coalesce?: string[];
+  create(random: Rng, options: SimOptions): S;
+  command(state: S, command: SimCommand): void;
+  step(state: S, dtMs: number): void;
+  // `alpha` is how far the frame falls between the last tick and the next (see startFixedLoop); sims that keep
+  // their entities' previous positions blend by it, the rest draw the latest tick as it is
+  render(ctx: CanvasRenderingContext2D, state: S, alpha: number): void;
+  // null until the run is over
+  result(state: S): SessionEnd | null;
+  debug?: SimDebug<S>;
+}
+
+// Commands sent by the debug overlay. They are recorded with the rest so a tuned run still replays, but the
+// verifier refuses any run that contains one. Time scale, freeze and single steps only change how fast the run
+// was played, so they leave the sim alone and are there to mark the run.
+const DEBUG_PREFIX = 'debug:';
+
+export const isDebugCommand = (kind: string) => kind.startsWith(DEBUG_PREFIX);
+
+function applyCommand<S extends SimState>(sim: GameSim<S>, state: S, command: SimCommand) {
+  const [kind, value = 0] = command;
+  if (!isDebugCommand(kind)) sim.command(state, command);
+  else if (kind === 'debug:invulnerable') state.invulnerable = value !== 0;
+  else if (kind === 'debug:level') sim.debug?.jumpToLevel?.(state, value);
+}
+
+// Analog values (stick axes) are snapped before they are sent, so a noisy stick doesn't record a command every tick
+export function quantizeAxis(value: number) {
+  return Math.round(value * 20) / 20;
+}
+
+export interface SimRun<S extends SimState = SimState> {
+  state: S;
+  tick: number;
+  commands: RecordedCommand[];
+}
+
+export function createSimRun<S extends SimState>(sim: GameSim<S>, seed: number, options: SimOptions): SimRun<S> {
+  return { state: sim.create(createRng(seed), options), tick: 0, commands: [] };
+}
+
+/** Applies the commands queued for this tick, records them and advances the simulation one step. */
+export function stepSimRun<S extends SimState>(sim: GameSim<S>, run: SimRun<S>, queued: SimCommand[] = []) {
+  for (const command of queued) {
+    applyCommand(sim, run.state, command);
+    run.commands.push([run.tick, ...command]);
+  }
+  sim.step(run.state, SIM_STEP_MS);
+  run.tick++;
+}
+
+export interface ReplaySource {
+  seed: number;
+  options: SimOptions;
+  ticks: number;
+  commands: RecordedCommand[];
+}
+
+export interface ReplayPlayer<S extends SimState = SimState> {
+  readonly state: S;
+  readonly tick: number;
+  // steps one tick; false once the recording has run out
+  advance(): boolean;
+  // jumps to a tick without collecting the sounds of the skipped stretch
+  seek(tick: number): void;
+}
+
+/**
+ * Plays a recorded run back by feeding its commands in on their original ticks.
+ * Seeking backwards rebuilds the run from the seed, since sims can only step forwards.
+ */
+export function createReplayPlayer<S extends SimState>(sim: GameSim<S>, replay: ReplaySource): ReplayPlayer<S> {
+  let run = createSimRun(sim, replay.seed, replay.options);
+  let cursor = 0;
+
+  const advance = () => {
+    if (run.tick >= replay.ticks) return false;
+    const queued: SimCommand[] = [];
+    while (cursor < replay.commands.length && replay.commands[cursor][0] === run.tick) {
+      const [, ...command] = replay.commands[cursor++];
+      queued.push(command);
+    }
+    stepSimRun(sim, run, queued);
+    return true;
+  };
+
+  return {
+    get state() {
+      return run.state;
+    },
+    get tick() {
+      return run.tick;
+    },
+    advance,
+    seek(tick: number) {
+      if (tick < run.tick) {
+        run = createSimRun(sim, replay.seed, replay.options);
+        cursor = 0;
+      }
+      while (run.tick < tick && advance()) run.state.sounds.length = 0;
+    },
+  };
+}
@@ -0,0 +1,337 @@
+import { getAccessibilitySnapshot } from '@/lib/accessibility-settings';
+import type { Rng } from '@/lib/random';
+import type { GameSim, SimState } from '@/lib/sim';
+
+type Bullet = { id: number; x: number; y: number; vx: number; vy: number; r: number; color: string; from?: string };
+type PowerUp = { id: number; x: number; y: number; type: 'shield' | 'slow'; r: number; picked?: boolean };
+type Flash = { x: number; y: number; color: string; until: number };
+// aimed volleys fire their shots a beat apart, at wherever the player is by then
+type PendingShot = { at: number; side: -1 | 1; baseY: number; diff: number };
+
+const W = 520;
+const H = 490;
+const PLAYER_R = 14;
+const START_LIVES = 3;
+const STICK_SPEED = 320; // px/s at full stick tilt
+const SLOW_MS = 1400;
+const FLASH_MS = 220;
+// points per second survived
+const SCORE_RATE = 16;
+
+export interface DodgeState extends SimState {
+  player: { x: number; y: number };
+  stick: { x: number; y: number };
+  bullets: Bullet[];
+  powerUps: PowerUp[];
+  pendingShots: PendingShot[];
+  flashes: Flash[];
+  nextId: number;
+  spawnTimer: number;
+  patternTimer: number;
+  // grows with score; drives spawn rate and bullet speed
+  difficulty: number;
+  score: number;
+  scoreCarry: number;
+  lives: number;
+  shield: boolean;
+  slowUntil: number;
+  over: boolean;
+}
+
+const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
+
+function movePlayer(s: DodgeState, x: number, y: number) {
+  s.player.x = clamp(x, PLAYER_R + 6, W - PLAYER_R - 6);
+  s.player.y = clamp(y, PLAYER_R + 6, H - PLAYER_R - 6);
+}
+
+function circleCircleCollide(x1: number, y1: number, r1: number, x2: number, y2: number, r2: number) {
+  const dx = x1 - x2, dy = y1 - y2;
+  const r = r1 + r2;
+  return dx * dx + dy * dy <= r * r;
+}
+
+// the difficulty ramp: both spawn clocks shorten as the score climbs
+const spawnInterval = (s: DodgeState) => Math.max(420 - s.difficulty * 8, 180);
+const patternInterval = (s: DodgeState) => Math.max(900 - s.difficulty * 24, 420);
+
+function spawnBulletPattern(s: DodgeState) {
+  const rand = (a: number, b: number) => a + s.random() * (b - a);
+  const diff = 1 + s.difficulty * 0.08;
+  const pattern = s.random() < 0.6 ? 'fall' : s.random() < 0.5 ? 'aim' : 'radial';
+
+  if (pattern === 'fall') {
+    // a cluster of falling bullets from the top
+    const count = 1 + Math.floor(rand(0, 2 + s.difficulty * 0.2));
+    for (let i = 0; i < count; i++) {
+      const r = rand(6, 10);
+      const x = rand(30, W - 30);
+      const vy = rand(80, 160) * diff;
+      s.bullets.push({ id: s.nextId++, x, y: -20 - s.random() * 40, vx: 0, vy, r, color: '#fb7185', from: 'top' });
+    }
+  } else if (pattern === 'aim') {
+    // shots from the left or right, aimed at the player
+    const side = s.random() < 0.5 ? -1 : 1;
+    const baseY = rand(60, H - 200);
+    const shots = 3 + Math.floor(s.difficulty * 0.15);
+    for (let i = 0; i < shots; i++) s.pendingShots.push({ at: s.time + i * 80, side, baseY, diff });
+  } else {
+    // radial burst around a random point in the upper half
+    const cx = rand(120, W - 120);
+    const cy = rand(80, H / 2);
+    const pieces = 6 + Math.floor(s.difficulty * 0.2);
+    for (let i = 0; i < pieces; i++) {
+      const a = (i / pieces) * Math.PI * 2 + rand(-0.12, 0.12);
+      const speed = rand(90, 160) * diff;
+      s.bullets.push({ id: s.nextId++, x: cx, y: cy, vx: Math.cos(a) * speed, vy: Math.sin(a) * speed, r: 7, color: '#f59e0b', from: 'radial' });
+    }
+  }
+
+  // occasional power-up
+  if (s.random() < 0.09) {
+    const type = s.random() < 0.55 ? 'shield' : 'slow';
+    s.powerUps.push({ id: s.nextId++, x: rand(60, W - 60), y: rand(60, H - 200), type, r: 12 });
+  }
+}
+
+function fireAimedShot(s: DodgeState, shot: PendingShot) {
+  const rand = (a: number, b: number) => a + s.random() * (b - a);
+  const sx = shot.side === -1 ? -20 : W + 20;
+  const sy = shot.baseY + rand(-20, 20);
+  const angle = Math.atan2(s.player.y - sy, s.player.x - sx);
+  const speed = rand(120, 220) * shot.diff;
+  s.bullets.push({ id: s.nextId++, x: sx, y: sy, vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed, r: 8, color: '#60a5fa', from: 'aim' });
+}
+
+function roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r = 8) {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+}
+
+export const bulletDodgeSim: GameSim<DodgeState> = {
+  version: 1,
+  coalesce: ['move', 'stick'],
+
+  create(random: Rng) {
+    return {
+      width: W,
+      height: H,
+      time: 0,
+      random,
+      sounds: [],
+      player: { x: W / 2, y: H - 80 },
+      stick: { x: 0, y: 0 },
+      bullets: [],
+      powerUps: [],
+      pendingShots: [],
+      flashes: [],
+      nextId: 1,
+      spawnTimer: 0,
+      patternTimer: 0,
+      difficulty: 0,
+      score: 0,
+      scoreCarry: 0,
+      lives: START_LIVES,
+      shield: false,
+      slowUntil: 0,
+      over: false,
+    };
+  },
+
+  // move: drag to an absolute point; nudge: a key press's step; stick: analog axes held until the next one
+  command(s, [kind, a = 0, b = 0]) {
+    if (s.over) return;
+    if (kind === 'move') movePlayer(s, a, b);
+    if (kind === 'nudge') movePlayer(s, s.player.x + a, s.player.y + b);
+    if (kind === 'stick') s.stick = { x: a, y: b };
+  },
+
+  step(s, dtMs) {
+    if (s.over) return;
+    const dt = dtMs / 1000;
+    s.time += dtMs;
+    const rand = (a: number, b: number) => a + s.random() * (b - a);
+
+    s.difficulty = Math.min(18, Math.floor(s.score / 120));
+
+    if (s.stick.x !== 0 || s.stick.y !== 0) {
+      movePlayer(s, s.player.x + s.stick.x * STICK_SPEED * dt, s.player.y + s.stick.y * STICK_SPEED * dt);
+    }
+
+    s.spawnTimer += dtMs;
+    s.patternTimer += dtMs;
+    if (s.spawnTimer >= spawnInterval(s)) {
+      // small single bullets from the top keep the pressure on
+      const r = rand(6, 10);
+      const x = rand(24, W - 24);
+      const vy = rand(80, 160) + s.difficulty * 6;
+      s.bullets.push({ id: s.nextId++, x, y: -20, vx: 0, vy, r, color: '#fb7185', from: 'top' });
+      s.spawnTimer = 0;
+    }
+    if (s.patternTimer >= patternInterval(s)) {
+      spawnBulletPattern(s);
+      s.patternTimer = 0;
+    }
+    const due = s.pendingShots.filter(shot => shot.at <= s.time);
+    s.pendingShots = s.pendingShots.filter(shot => shot.at > s.time);
+    due.forEach(shot => fireAimedShot(s, shot));
+
+    const slow = s.time < s.slowUntil ? 0.45 : 1;
+    for (const b of s.bullets) {
+      b.x += b.vx * slow * dt;
+      b.y += b.vy * slow * dt;
+    }
+    s.bullets = s.bullets.filter(b => b.x > -80 && b.x < W + 80 && b.y > -120 && b.y < H + 120);
+
+    // power-ups float gently
+    for (const pu of s.powerUps) pu.y += Math.sin(s.time / 600 + pu.id) * 0.2;
+
+    const p = s.player;
+    for (const b of s.bullets.slice()) {
+      if (s.invulnerable || !circleCircleCollide(p.x, p.y, PLAYER_R, b.x, b.y, b.r)) continue;
+      s.bullets = s.bullets.filter(bb => bb.id !== b.id);
+      if (s.shield) {
+        s.shield = false;
+        s.sounds.push('click');
+        s.flashes.push({ x: b.x, y: b.y, color: '#ffffff', until: s.time + FLASH_MS });
+        continue;
+      }
+      s.sounds.push('hit');
+      s.lives--;
+      // small penalty
+      s.score = Math.max(0, s.score - 30);
+      s.flashes.push({ x: b.x, y: b.y, color: '#ff4444', until: s.time + FLASH_MS });
+      if (s.lives <= 0) {
+        s.over = true;
+        return;
+      }
+    }
+
+    for (const pu of s.powerUps) {
+      if (pu.picked || !circleCircleCollide(p.x, p.y, PLAYER_R, pu.x, pu.y, pu.r)) continue;
+      pu.picked = true;
+      s.sounds.push('powerUp');
+      if (pu.type === 'shield') {
+        s.shield = true;
+        s.score += 20;
+      } else {
+        s.slowUntil = s.time + SLOW_MS;
+        s.score += 30;
+      }
+      s.flashes.push({ x: pu.x, y: pu.y, color: pu.type === 'shield' ? '#60a5fa' : '#f59e0b', until: s.time + FLASH_MS });
+    }
+    s.powerUps = s.powerUps.filter(pu => !pu.picked && pu.x > -40 && pu.x < W + 40);
+    s.flashes = s.flashes.filter(f => f.until > s.time);
+
+    // survival points accrue fractionally, so the rate doesn't depend on the tick length
+    s.scoreCarry += SCORE_RATE * dt;
+    const whole = Math.floor(s.scoreCarry);
+    s.score += whole;
+    s.scoreCarry -= whole;
+  },
+
+  render(ctx, s) {
+    ctx.clearRect(0, 0, W, H);
+    const g = ctx.createLinearGradient(0, 0, 0, H);
+    g.addColorStop(0, '#061018');
+    g.addColorStop(1, '#07132a');
+    ctx.fillStyle = g;
+    ctx.fillRect(0, 0, W, H);
+
+    // arena border
+    ctx.strokeStyle = 'rgba(255,255,255,0.04)';
+    ctx.lineWidth = 2;
+    roundRect(ctx, 4, 4, W - 8, H - 8, 12);
+    ctx.stroke();
+
+    for (const b of s.bullets) {
+      ctx.beginPath();
+      ctx.fillStyle = b.color;
+      ctx.arc(b.x, b.y, b.r, 0, Math.PI * 2);
+      ctx.fill();
+      // small glow
+      ctx.fillStyle = 'rgba(255,255,255,0.06)';
+      ctx.beginPath();
+      ctx.arc(b.x, b.y, b.r + 6, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    for (const pu of s.powerUps) {
+      ctx.fillStyle = pu.type === 'shield' ? '#60a5fa' : '#f59e0b';
+      ctx.beginPath();
+      ctx.arc(pu.x, pu.y, pu.r, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#ffffff';
+      ctx.font = '12px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(pu.type === 'shield' ? 'S' : 'T', pu.x, pu.y + 4);
+    }
+
+    // hit and pickup flashes are decoration only, so reduced motion just doesn't draw them
+    if (!getAccessibilitySnapshot().reducedMotion) {
+      for (const f of s.flashes) {
+        ctx.globalAlpha = Math.max(0, (f.until - s.time) / FLASH_MS);
+        ctx.strokeStyle = f.color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(f.x, f.y, 6 + (1 - ctx.globalAlpha) * 14, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    const p = s.player;
+    // shadow
+    ctx.beginPath();
+    ctx.fillStyle = 'rgba(0,0,0,0.35)';
+    ctx.arc(p.x + 6, p.y + 8, PLAYER_R + 3, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.fillStyle = '#34d399';
+    ctx.arc(p.x, p.y, PLAYER_R, 0, Math.PI * 2);
+    ctx.fill();
+    if (s.shield) {
+      ctx.beginPath();
+      ctx.strokeStyle = 'rgba(96,165,250,0.9)';
+      ctx.lineWidth = 3;
+      ctx.arc(p.x, p.y, PLAYER_R + 8, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    if (s.over) {
+      ctx.fillStyle = 'rgba(0,0,0,0.5)';
+      ctx.fillRect(0, 0, W, H);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 28px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('Game Over', W / 2, H / 2 - 18);
+      ctx.font = '14px system-ui, sans-serif';
+      ctx.fillText(`Score: ${s.score}`, W / 2, H / 2 + 8);
+    }
+  },
+
+  result: s => (s.over ? { score: s.score, outcome: 'loss' } : null),
+
+  debug: {
+    stats: s => ({
+      bullets: s.bullets.length,
+      powerUps: s.powerUps.length,
+      difficulty: s.difficulty,
+      spawnMs: spawnInterval(s),
+      patternMs: patternInterval(s),
+      lives: s.lives,
+      shield: s.shield,
+    }),
+    hitboxes: s => [
+      { kind: 'circle', x: s.player.x, y: s.player.y, r: PLAYER_R },
+      ...s.bullets.map(b => ({ kind: 'circle' as const, x: b.x, y: b.y, r: b.r })),
+      ...s.powerUps.map(pu => ({ kind: 'circle' as const, x: pu.x, y: pu.y, r: pu.r })),
+    ],
+    invulnerability: true,
+  },
+};
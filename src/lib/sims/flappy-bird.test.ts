@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createSimRun, stepSimRun, type SimCommand } from '@/lib/sim';
+import { flappySim, type FlappyState } from './flappy-bird';
+
+// matches the sim's layout: the bird sits at a quarter of the width (at least 80px), pipes are 60px wide
+const BIRD_X = 100;
+const PIPE_WIDTH = 60;
+
+// flaps whenever the bird drops below the middle of the next gap, which clears every pipe on these seeds
+function autopilot(s: FlappyState): SimCommand[] {
+  const next = s.pipes.find(p => p.x + PIPE_WIDTH > BIRD_X - 14);
+  const target = next ? next.gapY + 25 : s.height / 2;
+  return s.birdY > target && s.birdV >= 0 ? [['flap']] : [];
+}
+
+// steps until `pipes` pipes have had their centre pass the bird, counting them by hand alongside the sim
+function flyPast(pipes: number, { invulnerable = false } = {}) {
+  const run = createSimRun(flappySim, 1, { width: 400, height: 450 });
+  const passed = new Set<FlappyState['pipes'][number]>();
+  if (invulnerable) stepSimRun(flappySim, run, [['debug:invulnerable', 1]]);
+  while (passed.size < pipes && !flappySim.result(run.state)) {
+    stepSimRun(flappySim, run, invulnerable ? [] : autopilot(run.state));
+    for (const p of run.state.pipes) if (p.x + PIPE_WIDTH / 2 < BIRD_X) passed.add(p);
+  }
+  return { run, passed: passed.size };
+}
+
+describe('flappySim', () => {
+  it('scores each pipe once as it passes the bird', () => {
+    const { run, passed } = flyPast(8);
+    expect(flappySim.result(run.state)).toBeNull();
+    expect(passed).toBe(8);
+    expect(run.state.score).toBe(8);
+  });
+
+  it("doesn't score a pipe again as it slides on off the screen", () => {
+    const { run } = flyPast(3, { invulnerable: true });
+    // long enough for the third pipe to leave the screen, but not for a fourth to reach the bird
+    for (let i = 0; i < 60; i++) stepSimRun(flappySim, run);
+    expect(run.state.score).toBe(3);
+  });
+
+  it('ends the run when the bird hits the floor', () => {
+    const run = createSimRun(flappySim, 1, { width: 400, height: 450 });
+    while (!flappySim.result(run.state) && run.tick < 600) stepSimRun(flappySim, run);
+    expect(flappySim.result(run.state)).toEqual({ score: 0, outcome: 'loss' });
+  });
+});
@@ -0,0 +1,199 @@
+import { circleIntersectsRect, type Rect } from '@/lib/collision';
+import { lerp } from '@/lib/engine';
+import type { Rng } from '@/lib/random';
+import type { GameSim, SimOptions, SimState } from '@/lib/sim';
+
+const BG_COLOR = '#081018';
+const PIPE_COLOR = '#0ea5a4'; // neon-cyan
+const BIRD_COLOR = '#fb7185'; // neon-pink
+const GRAVITY = 900; // px/s^2
+const JUMP_V = -330; // px/s (instantaneous velocity applied on flap)
+const PIPE_SPEED = 160; // px/s
+const PIPE_INTERVAL = 1200; // ms between pipes
+const GAP_SIZE = 140; // px gap between top/bottom pipe
+const PIPE_WIDTH = 60; // px
+const BIRD_RADIUS = 14; // px
+const FLOOR_PADDING = 24; // px bottom safe margin
+
+export interface FlappyState extends SimState {
+  birdY: number;
+  // where the bird and pipes were a tick ago, for drawing frames that fall between ticks
+  prevBirdY: number;
+  birdV: number;
+  // `scored` once the pipe's centre has passed the bird, so each pipe counts exactly once
+  pipes: Array<{ x: number; prevX: number; gapY: number; scored: boolean }>;
+  lastPipeTime: number;
+  score: number;
+  over: boolean;
+}
+
+const birdX = (s: FlappyState) => Math.max(80, s.width * 0.25);
+
+function spawnPipe(s: FlappyState) {
+  const margin = 60;
+  const minGapY = margin + GAP_SIZE / 2;
+  const maxGapY = s.height - margin - GAP_SIZE / 2 - FLOOR_PADDING;
+  const gapY = Math.floor(s.random() * (maxGapY - minGapY + 1)) + minGapY;
+  s.pipes.push({ x: s.width + PIPE_WIDTH, prevX: s.width + PIPE_WIDTH, gapY, scored: false });
+}
+
+// the two solid halves of a pipe, above and below its gap
+const pipeRects = (s: FlappyState, p: FlappyState['pipes'][number]): Rect[] => {
+  const bottomY = p.gapY + GAP_SIZE / 2;
+  return [
+    { x: p.x, y: 0, w: PIPE_WIDTH, h: p.gapY - GAP_SIZE / 2 },
+    { x: p.x, y: bottomY, w: PIPE_WIDTH, h: s.height - bottomY - FLOOR_PADDING },
+  ];
+};
+
+function crash(s: FlappyState) {
+  s.over = true;
+  s.sounds.push('hit');
+}
+
+export const flappySim: GameSim<FlappyState> = {
+  // 2: a pipe scores once, rather than on every tick after its centre passes the bird
+  version: 2,
+
+  // the bird's world is as big as the canvas the run started on
+  create(random: Rng, { width = 400, height = 450 }: SimOptions) {
+    const s: FlappyState = {
+      width,
+      height,
+      time: 0,
+      random,
+      sounds: [],
+      birdY: height / 3,
+      prevBirdY: height / 3,
+      birdV: 0,
+      pipes: [],
+      lastPipeTime: 0,
+      score: 0,
+      over: false,
+    };
+    spawnPipe(s);
+    return s;
+  },
+
+  command(s, [kind]) {
+    if (kind !== 'flap' || s.over) return;
+    s.birdV = JUMP_V;
+    s.sounds.push('jump');
+  },
+
+  step(s, dtMs) {
+    if (s.over) return;
+    const dt = dtMs / 1000;
+    s.time += dtMs;
+    s.prevBirdY = s.birdY;
+    for (const p of s.pipes) p.prevX = p.x;
+
+    s.birdV += GRAVITY * dt;
+    s.birdY += s.birdV * dt;
+
+    if (s.time - s.lastPipeTime > PIPE_INTERVAL) {
+      spawnPipe(s);
+      s.lastPipeTime = s.time;
+    }
+
+    const bx = birdX(s);
+    for (const p of s.pipes) p.x -= PIPE_SPEED * dt;
+    s.pipes = s.pipes.filter(p => {
+      if (p.x + PIPE_WIDTH < -40) return false;
+      // scores once the pipe's centre passes the bird
+      if (!p.scored && p.x + PIPE_WIDTH / 2 < bx) {
+        p.scored = true;
+        s.score++;
+        s.sounds.push('score');
+      }
+      return true;
+    });
+
+    if (s.birdY - BIRD_RADIUS < 0 || s.birdY + BIRD_RADIUS > s.height - FLOOR_PADDING) {
+      if (!s.invulnerable) {
+        crash(s);
+        return;
+      }
+      // an invulnerable bird rests on the floor (or the ceiling) instead
+      s.birdY = Math.max(BIRD_RADIUS, Math.min(s.height - FLOOR_PADDING - BIRD_RADIUS, s.birdY));
+      s.birdV = 0;
+    }
+
+    if (s.invulnerable) return;
+    if (s.pipes.some(p => pipeRects(s, p).some(rect => circleIntersectsRect(bx, s.birdY, BIRD_RADIUS, rect)))) crash(s);
+  },
+
+  render(ctx, s, alpha = 1) {
+    const { width: w, height: h } = s;
+    ctx.fillStyle = BG_COLOR;
+    ctx.fillRect(0, 0, w, h);
+
+    // subtle background grid / glow
+    for (let i = 0; i < 6; i++) {
+      ctx.fillStyle = 'rgba(255,255,255,0.01)';
+      ctx.fillRect(0, i * 60 + ((s.time / 150) % 60), w, 2);
+    }
+
+    for (const p of s.pipes) {
+      const x = lerp(p.prevX, p.x, alpha);
+      ctx.fillStyle = PIPE_COLOR;
+      const topH = p.gapY - GAP_SIZE / 2;
+      ctx.fillRect(x, 0, PIPE_WIDTH, topH);
+      const bottomY = p.gapY + GAP_SIZE / 2;
+      ctx.fillRect(x, bottomY, PIPE_WIDTH, h - bottomY - FLOOR_PADDING);
+
+      // pipe rim
+      ctx.fillStyle = 'rgba(255,255,255,0.06)';
+      ctx.fillRect(x, topH - 4, PIPE_WIDTH, 4);
+      ctx.fillRect(x, bottomY, PIPE_WIDTH, 4);
+    }
+
+    // floor
+    ctx.fillStyle = 'rgba(0,0,0,0.35)';
+    ctx.fillRect(0, h - FLOOR_PADDING, w, FLOOR_PADDING);
+
+    // bird: glow, body, eye
+    ctx.save();
+    ctx.translate(birdX(s), lerp(s.prevBirdY, s.birdY, alpha));
+    ctx.beginPath();
+    ctx.fillStyle = 'rgba(251,113,133,0.14)';
+    ctx.arc(0, 0, BIRD_RADIUS + 8, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.fillStyle = BIRD_COLOR;
+    ctx.arc(0, 0, BIRD_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.fillStyle = '#fff';
+    ctx.arc(5, -4, 3, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 18px system-ui, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.fillText(`Score: ${s.score}`, 14, 26);
+
+    if (s.over) {
+      ctx.fillStyle = 'rgba(0,0,0,0.45)';
+      ctx.fillRect(0, 0, w, h);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 28px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('Game Over', w / 2, h / 2 - 10);
+      ctx.font = '16px system-ui, sans-serif';
+      ctx.fillText(`Score: ${s.score}`, w / 2, h / 2 + 20);
+    }
+  },
+
+  result: s => (s.over ? { score: s.score, outcome: 'loss' } : null),
+
+  debug: {
+    stats: s => ({ pipes: s.pipes.length, birdY: Math.round(s.birdY), birdV: Math.round(s.birdV) }),
+    hitboxes: s => [
+      { kind: 'circle', x: birdX(s), y: s.birdY, r: BIRD_RADIUS },
+      ...s.pipes.flatMap(p => pipeRects(s, p).map(rect => ({ kind: 'rect' as const, ...rect }))),
+    ],
+    invulnerability: true,
+  },
+};
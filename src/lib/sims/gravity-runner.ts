@@ -0,0 +1,193 @@
+import { rectsOverlap, type Rect } from '@/lib/collision';
+import { lerp } from '@/lib/engine';
+import type { Rng } from '@/lib/random';
+import type { GameSim, SimState } from '@/lib/sim';
+
+const WIDTH = 1135;
+const HEIGHT = 200;
+const PLAYER_X = WIDTH * 0.22;
+const PLAYER_SIZE = 18;
+// keeps the player off the very edge of the board
+const EDGE_MARGIN = 6;
+const GRAVITY = 900; // px/s^2
+const FLIP_V = 320; // px/s kick away from the old floor on a flip
+// difficulty ramp: obstacles grow over the first 30s, spawn faster and move quicker over the first minute
+const MIN_OBSTACLE_H = 80;
+const MAX_OBSTACLE_H = 110;
+const SLOW_SPAWN_MS = 700;
+const FAST_SPAWN_MS = 600;
+const BASE_SPEED = 180; // px/s
+const SPEED_RAMP = 150; // px/s added at full ramp
+
+type Obstacle = { x: number; prevX: number; y: number; width: number; height: number; passed: boolean };
+
+export interface GravityRunnerState extends SimState {
+  y: number;
+  // where the player was a tick ago, for drawing frames that fall between ticks
+  prevY: number;
+  vy: number;
+  gravityDown: boolean;
+  obstacles: Obstacle[];
+  spawnClock: number;
+  score: number;
+  over: boolean;
+}
+
+function spawnObstacle(s: GravityRunnerState) {
+  const t = Math.min(1, s.time / 30000);
+  const height = Math.round(MIN_OBSTACLE_H + t * (MAX_OBSTACLE_H - MIN_OBSTACLE_H));
+  const onGround = s.random() > 0.5;
+  const width = 40 + s.random() * 30;
+  const x = WIDTH + width + 10;
+  s.obstacles.push({ x, prevX: x, y: onGround ? HEIGHT - height : 0, width, height, passed: false });
+}
+
+const playerRect = (s: GravityRunnerState): Rect => ({ x: PLAYER_X - PLAYER_SIZE / 2, y: s.y - PLAYER_SIZE / 2, w: PLAYER_SIZE, h: PLAYER_SIZE });
+const obstacleRect = (o: Obstacle): Rect => ({ x: o.x, y: o.y, w: o.width, h: o.height });
+
+const hits = (s: GravityRunnerState, o: Obstacle) => rectsOverlap(playerRect(s), obstacleRect(o));
+
+// difficulty ramps: 0 at the start, 1 once fully ramped
+const rampOf = (s: GravityRunnerState) => Math.min(1, s.time / 60000);
+const spawnInterval = (s: GravityRunnerState) => Math.round(SLOW_SPAWN_MS - rampOf(s) * (SLOW_SPAWN_MS - FAST_SPAWN_MS));
+const scrollSpeed = (s: GravityRunnerState) => BASE_SPEED + rampOf(s) * SPEED_RAMP;
+
+export const gravityRunnerSim: GameSim<GravityRunnerState> = {
+  version: 1,
+
+  create(random: Rng) {
+    const s: GravityRunnerState = {
+      width: WIDTH,
+      height: HEIGHT,
+      time: 0,
+      random,
+      sounds: [],
+      y: HEIGHT / 2,
+      prevY: HEIGHT / 2,
+      vy: 0,
+      gravityDown: true,
+      obstacles: [],
+      spawnClock: 0,
+      score: 0,
+      over: false,
+    };
+    // the first obstacle is already on its way when the run starts
+    spawnObstacle(s);
+    return s;
+  },
+
+  command(s, [kind]) {
+    if (kind !== 'flip' || s.over) return;
+    s.gravityDown = !s.gravityDown;
+    s.vy = s.gravityDown ? FLIP_V : -FLIP_V;
+    s.sounds.push('jump');
+  },
+
+  step(s, dtMs) {
+    if (s.over) return;
+    const dt = dtMs / 1000;
+    s.time += dtMs;
+    s.prevY = s.y;
+    for (const o of s.obstacles) o.prevX = o.x;
+
+    s.spawnClock += dtMs;
+    if (s.spawnClock >= spawnInterval(s)) {
+      spawnObstacle(s);
+      s.spawnClock = 0;
+    }
+
+    s.vy += (s.gravityDown ? GRAVITY : -GRAVITY) * dt;
+    s.y += s.vy * dt;
+    const top = PLAYER_SIZE / 2 + EDGE_MARGIN;
+    const bottom = HEIGHT - PLAYER_SIZE / 2 - EDGE_MARGIN;
+    if (s.y < top || s.y > bottom) {
+      s.y = Math.max(top, Math.min(bottom, s.y));
+      s.vy = 0;
+    }
+
+    const speed = scrollSpeed(s);
+    for (const o of s.obstacles) {
+      o.x -= speed * dt;
+      if (!o.passed && o.x + o.width < PLAYER_X) {
+        o.passed = true;
+        s.score++;
+        s.sounds.push('score');
+      }
+    }
+    s.obstacles = s.obstacles.filter(o => o.x + o.width > -50);
+
+    if (!s.invulnerable && s.obstacles.some(o => hits(s, o))) {
+      s.over = true;
+      s.sounds.push('hit');
+    }
+  },
+
+  render(ctx, s, alpha = 1) {
+    ctx.fillStyle = '#04060a';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+    ctx.save();
+    ctx.globalAlpha = 0.06;
+    ctx.fillStyle = '#0b2a33';
+    for (let gx = 0; gx < WIDTH; gx += 28) ctx.fillRect(gx, 0, 2, HEIGHT);
+    for (let gy = 0; gy < HEIGHT; gy += 28) ctx.fillRect(0, gy, WIDTH, 1);
+    ctx.restore();
+
+    for (const o of s.obstacles) {
+      const x = lerp(o.prevX, o.x, alpha);
+      const onGround = o.y > HEIGHT / 2;
+
+      // glow, body, darker core
+      ctx.fillStyle = 'rgba(14,165,164,0.08)';
+      ctx.fillRect(x - 6, o.y - 4, o.width + 12, o.height + 8);
+      ctx.fillStyle = '#0ea5a4';
+      ctx.fillRect(x, o.y, o.width, o.height);
+      ctx.fillStyle = 'rgba(0,0,0,0.3)';
+      ctx.fillRect(x + 4, o.y + 4, Math.max(2, o.width - 8), Math.max(2, o.height - 8));
+
+      // highlight on the face the player runs along
+      ctx.fillStyle = 'rgba(255,255,255,0.15)';
+      ctx.fillRect(x, onGround ? o.y : o.y + o.height - 3, o.width, 3);
+
+      ctx.strokeStyle = 'rgba(255,255,255,0.08)';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(x + 0.5, o.y + 0.5, o.width - 1, o.height - 1);
+    }
+
+    // the player, with a notch on the side gravity pulls towards
+    ctx.save();
+    ctx.translate(PLAYER_X, lerp(s.prevY, s.y, alpha));
+    ctx.fillStyle = 'rgba(251,113,133,0.14)';
+    ctx.fillRect(-PLAYER_SIZE * 0.9, -PLAYER_SIZE * 0.9, PLAYER_SIZE * 1.8, PLAYER_SIZE * 1.8);
+    ctx.fillStyle = '#fb7185';
+    ctx.fillRect(-PLAYER_SIZE / 2, -PLAYER_SIZE / 2, PLAYER_SIZE, PLAYER_SIZE);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(-3, (s.gravityDown ? PLAYER_SIZE / 4 : -PLAYER_SIZE / 4) - 2, 6, 4);
+    ctx.restore();
+
+    if (s.over) {
+      ctx.fillStyle = 'rgba(0,0,0,0.45)';
+      ctx.fillRect(0, 0, WIDTH, HEIGHT);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 28px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('Game Over', WIDTH / 2, HEIGHT / 2 - 6);
+      ctx.font = '14px system-ui, sans-serif';
+      ctx.fillText(`Score: ${s.score}`, WIDTH / 2, HEIGHT / 2 + 20);
+      ctx.textAlign = 'left';
+    }
+  },
+
+  result: s => (s.over ? { score: s.score, outcome: 'loss', stats: { survivedMs: Math.round(s.time) } } : null),
+
+  debug: {
+    stats: s => ({
+      obstacles: s.obstacles.length,
+      ramp: Number(rampOf(s).toFixed(2)),
+      spawnMs: spawnInterval(s),
+      speed: Math.round(scrollSpeed(s)),
+    }),
+    hitboxes: s => [playerRect(s), ...s.obstacles.map(obstacleRect)].map(rect => ({ kind: 'rect' as const, ...rect })),
+    invulnerability: true,
+  },
+};
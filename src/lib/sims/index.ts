@@ -0,0 +1,28 @@
+import type { GameSim } from '@/lib/sim';
+import type { GameId } from '@/types/games';
+
+type SimLoader = () => Promise<GameSim>;
+
+// Games whose runs are recorded as replays. Each sim is fetched on demand, so the replay viewer
+// only downloads the rules of the game it is showing.
+const loaders: Partial<Record<GameId, SimLoader>> = {
+  'memory-match': () => import('./memory-match').then(m => m.memoryMatchSim),
+  snake: () => import('./snake').then(m => m.snakeSim),
+  'flappy-bird': () => import('./flappy-bird').then(m => m.flappySim),
+  'color-match': () => import('./stack-builder').then(m => m.stackSim),
+  'pattern-match': () => import('./slice-dash').then(m => m.sliceDashSim),
+  'aim-trainer': () => import('./tank-battle').then(m => m.tankSim),
+  'sequence-memory': () => import('./neon-breakout').then(m => m.breakoutSim),
+  'emoji-match': () => import('./bullet-dodge').then(m => m.bulletDodgeSim),
+  'math-quiz': () => import('./gravity-runner').then(m => m.gravityRunnerSim),
+  hangman: () => import('./maze').then(m => m.mazeSim),
+};
+
+export function isReplayable(gameId: string): gameId is GameId {
+  return gameId in loaders;
+}
+
+/** The sim a replay was recorded with, or null for games that don't record replays. */
+export function loadSim(gameId: string): Promise<GameSim> | null {
+  return isReplayable(gameId) ? loaders[gameId]() : null;
+}
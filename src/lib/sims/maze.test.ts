@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { createRng } from '@/lib/random';
+import { createSimRun, SIM_STEP_MS, stepSimRun } from '@/lib/sim';
+import { findPath, generateMaze, mazeSim, type MazeCell } from './maze';
+
+// N, E, S, W
+const offsets = [[-1, 0], [0, 1], [1, 0], [0, -1]];
+
+const openPassages = (grid: MazeCell[][]) =>
+  grid.flat().reduce((sum, cell) => sum + cell.walls.filter(wall => !wall).length, 0) / 2;
+
+describe('generateMaze', () => {
+  it('builds the same maze from the same seed', () => {
+    expect(generateMaze(11, 11, createRng(5))).toEqual(generateMaze(11, 11, createRng(5)));
+    expect(generateMaze(11, 11, createRng(5))).not.toEqual(generateMaze(11, 11, createRng(6)));
+  });
+
+  it('keeps the outer walls closed', () => {
+    const grid = generateMaze(7, 9, createRng(1));
+    grid[0].forEach(cell => expect(cell.walls[0]).toBe(true));
+    grid[6].forEach(cell => expect(cell.walls[2]).toBe(true));
+    grid.forEach(row => {
+      expect(row[0].walls[3]).toBe(true);
+      expect(row[8].walls[1]).toBe(true);
+    });
+  });
+
+  it('opens passages from both sides', () => {
+    const grid = generateMaze(9, 9, createRng(2));
+    grid.flat().forEach(cell =>
+      cell.walls.forEach((wall, dir) => {
+        const [dr, dc] = offsets[dir];
+        const neighbour = grid[cell.r + dr]?.[cell.c + dc];
+        if (neighbour) expect(neighbour.walls[(dir + 2) % 4]).toBe(wall);
+      }),
+    );
+  });
+
+  it('carves a perfect maze: every cell reachable, no loops', () => {
+    for (const seed of [1, 2, 3]) {
+      const grid = generateMaze(15, 21, createRng(seed));
+      // a tree over all cells has exactly one passage fewer than cells
+      expect(openPassages(grid)).toBe(15 * 21 - 1);
+      grid.flat().forEach(cell => expect(findPath(grid, { r: 0, c: 0 }, cell).length).toBeGreaterThan(0));
+    }
+  });
+
+  it('handles a single cell', () => {
+    const [[cell]] = generateMaze(1, 1, createRng(1));
+    expect(cell.walls).toEqual([true, true, true, true]);
+  });
+});
+
+describe('findPath', () => {
+  const grid = generateMaze(11, 11, createRng(8));
+
+  it('runs from start to goal through open walls only', () => {
+    const path = findPath(grid, { r: 0, c: 0 }, { r: 10, c: 10 });
+    expect(path[0]).toEqual({ r: 0, c: 0 });
+    expect(path[path.length - 1]).toEqual({ r: 10, c: 10 });
+    path.slice(1).forEach((to, i) => {
+      const from = path[i];
+      const dir = offsets.findIndex(([dr, dc]) => from.r + dr === to.r && from.c + dc === to.c);
+      expect(grid[from.r][from.c].walls[dir]).toBe(false);
+    });
+  });
+
+  it('is just the cell itself when already there', () => {
+    expect(findPath(grid, { r: 3, c: 3 }, { r: 3, c: 3 })).toEqual([{ r: 3, c: 3 }]);
+  });
+});
+
+describe('mazeSim', () => {
+  const newRun = (difficulty = 0) => createSimRun(mazeSim, 1, { difficulty, mazeSeed: 4 });
+  const route = (run: ReturnType<typeof newRun>) => {
+    const path = findPath(run.state.grid, run.state.player, run.state.exit);
+    return path.slice(1).map((to, i) => offsets.findIndex(([dr, dc]) => path[i].r + dr === to.r && path[i].c + dc === to.c));
+  };
+
+  it('scores a win by time and moves left', () => {
+    const run = newRun();
+    const moves = route(run);
+    moves.forEach(dir => stepSimRun(mazeSim, run, [['move', dir]]));
+    const result = mazeSim.result(run.state);
+    // Easy: 120s and 300 moves; the walk takes a tick per move, and the clock counts started seconds
+    const timeLeft = Math.ceil(120 - (moves.length * SIM_STEP_MS) / 1000);
+    expect(result).toMatchObject({ outcome: 'win', score: timeLeft * 10 + (300 - moves.length) });
+    expect(result.stats).toMatchObject({ difficulty: 'Easy', timeLeft, movesLeft: 300 - moves.length });
+  });
+
+  it('charges a move for walking into a wall', () => {
+    const run = newRun();
+    // north of the start is always the outer wall
+    stepSimRun(mazeSim, run, [['move', 0]]);
+    expect(run.state.player).toEqual({ r: 0, c: 0 });
+    expect(run.state.movesLeft).toBe(299);
+    expect(run.state.sounds).toContain('hit');
+  });
+
+  it('loses when the moves run out', () => {
+    const run = newRun();
+    for (let i = 0; i < 300; i++) stepSimRun(mazeSim, run, [['move', 0]]);
+    expect(mazeSim.result(run.state)).toMatchObject({ outcome: 'loss', score: 0 });
+  });
+
+  it('loses when the clock runs out', () => {
+    const run = newRun();
+    const ticks = Math.ceil((120 * 1000) / SIM_STEP_MS);
+    for (let i = 0; i < ticks - 1; i++) stepSimRun(mazeSim, run);
+    expect(mazeSim.result(run.state)).toBeNull();
+    stepSimRun(mazeSim, run);
+    expect(mazeSim.result(run.state)).toMatchObject({ outcome: 'loss', stats: { timeLeft: 0 } });
+  });
+
+  it('spends hints and clears the hint on the next step', () => {
+    const run = newRun(3);
+    stepSimRun(mazeSim, run, [['hint']]);
+    expect(run.state.hintsLeft).toBe(0);
+    expect(run.state.hint.length).toBeGreaterThan(1);
+    stepSimRun(mazeSim, run, [['hint']]);
+    expect(run.state.hintsLeft).toBe(0);
+    stepSimRun(mazeSim, run, [['move', route(run)[0]]]);
+    expect(run.state.hint).toEqual([]);
+  });
+});
@@ -0,0 +1,252 @@
+import { createRng, type Rng } from '@/lib/random';
+import type { GameSim, SimOptions, SimState } from '@/lib/sim';
+
+const CANVAS_W = 620;
+const CANVAS_H = 435;
+// longest hint shown, however big the maze
+const MAX_HINT_STEPS = 18;
+
+export type MazeDifficulty = 'Easy' | 'Normal' | 'Hard' | 'Insane';
+
+// Runs pass the difficulty as its index here, since sim options are numbers
+export const mazeDifficulties: MazeDifficulty[] = ['Easy', 'Normal', 'Hard', 'Insane'];
+
+const mazePresets: Record<
+  MazeDifficulty,
+  { rows: number; cols: number; timeLimit: number; moveLimit: number; hintUses: number; visRadius: number }
+> = {
+  Easy: { rows: 11, cols: 11, timeLimit: 120, moveLimit: 300, hintUses: 3, visRadius: 4 },
+  Normal: { rows: 21, cols: 21, timeLimit: 150, moveLimit: 500, hintUses: 2, visRadius: 3 },
+  Hard: { rows: 31, cols: 31, timeLimit: 240, moveLimit: 900, hintUses: 1, visRadius: 3 },
+  Insane: { rows: 41, cols: 41, timeLimit: 420, moveLimit: 2000, hintUses: 1, visRadius: 2 },
+};
+
+// N, E, S, W; move commands carry the index, and opposite sides are two apart
+const steps = [
+  { r: -1, c: 0 },
+  { r: 0, c: 1 },
+  { r: 1, c: 0 },
+  { r: 0, c: -1 },
+];
+
+export type MazeCell = {
+  r: number;
+  c: number;
+  walls: [boolean, boolean, boolean, boolean]; // N, E, S, W
+};
+
+type Spot = { r: number; c: number };
+
+export interface MazeState extends SimState {
+  difficulty: MazeDifficulty;
+  mazeSeed: number;
+  grid: MazeCell[][];
+  player: Spot;
+  exit: Spot;
+  movesLeft: number;
+  hintsLeft: number;
+  // the next stretch of the way out, shown until the player moves
+  hint: Spot[];
+  won: boolean;
+  lost: boolean;
+}
+
+/** Carves a perfect maze (exactly one path between any two cells) with a randomized depth-first backtracker. */
+export function generateMaze(rows: number, cols: number, random: Rng): MazeCell[][] {
+  const grid: MazeCell[][] = Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ r, c, walls: [true, true, true, true] as MazeCell['walls'] })),
+  );
+  const visited = new Set<MazeCell>([grid[0][0]]);
+  const stack = [grid[0][0]];
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const open = steps
+      .map((d, dir) => ({ cell: grid[current.r + d.r]?.[current.c + d.c], dir }))
+      .filter(n => n.cell && !visited.has(n.cell));
+    if (open.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const { cell, dir } = open[Math.floor(random() * open.length)];
+    current.walls[dir] = false;
+    cell.walls[(dir + 2) % 4] = false;
+    visited.add(cell);
+    stack.push(cell);
+  }
+  return grid;
+}
+
+const key = (r: number, c: number) => `${r}:${c}`;
+
+// Breadth-first search through open passages; each reached cell maps to its distance and the cell it was reached from
+function explore(grid: MazeCell[][], from: Spot, maxDistance = Infinity) {
+  const reached = new Map<string, { distance: number; previous: string | null }>([[key(from.r, from.c), { distance: 0, previous: null }]]);
+  const queue: Spot[] = [from];
+  while (queue.length > 0) {
+    const { r, c } = queue.shift();
+    const { distance } = reached.get(key(r, c));
+    if (distance >= maxDistance) continue;
+    grid[r][c].walls.forEach((wall, dir) => {
+      const next = { r: r + steps[dir].r, c: c + steps[dir].c };
+      if (wall || reached.has(key(next.r, next.c))) return;
+      reached.set(key(next.r, next.c), { distance: distance + 1, previous: key(r, c) });
+      queue.push(next);
+    });
+  }
+  return reached;
+}
+
+/** The shortest way from one cell to another, both ends included; empty if the walls cut them off. */
+export function findPath(grid: MazeCell[][], from: Spot, to: Spot): Spot[] {
+  const reached = explore(grid, from);
+  const path: Spot[] = [];
+  for (let at = reached.has(key(to.r, to.c)) ? key(to.r, to.c) : null; at; at = reached.get(at).previous) {
+    const [r, c] = at.split(':').map(Number);
+    path.push({ r, c });
+  }
+  return path.reverse();
+}
+
+// Fog of war: cells the player could walk to within the difficulty's sight radius
+const visibleCells = (s: MazeState) => explore(s.grid, s.player, mazePresets[s.difficulty].visRadius);
+
+const timeLeftMs = (s: MazeState) => Math.max(0, mazePresets[s.difficulty].timeLimit * 1000 - s.time);
+
+// whole seconds, counted down the way the on-screen clock shows them
+export const mazeTimeLeft = (s: MazeState) => Math.ceil(timeLeftMs(s) / 1000);
+
+function move(s: MazeState, dir: number) {
+  const { r, c } = s.player;
+  s.movesLeft--;
+  if (s.grid[r][c].walls[dir]) {
+    // walking into a wall still costs the move
+    s.sounds.push('hit');
+  } else {
+    s.player = { r: r + steps[dir].r, c: c + steps[dir].c };
+    s.hint = [];
+  }
+  // reaching the exit on the last move still counts
+  if (s.player.r === s.exit.r && s.player.c === s.exit.c) s.won = true;
+  else if (s.movesLeft <= 0) s.lost = true;
+}
+
+function showHint(s: MazeState) {
+  if (s.hintsLeft <= 0) return;
+  const { rows, cols } = mazePresets[s.difficulty];
+  const length = Math.min(Math.max(6, Math.floor(Math.max(rows, cols) / 6)), MAX_HINT_STEPS);
+  s.hint = findPath(s.grid, s.player, s.exit).slice(0, length);
+  s.hintsLeft--;
+}
+
+export const mazeSim: GameSim<MazeState> = {
+  version: 1,
+
+  // the layout comes from `mazeSeed` rather than the run's own seed, so the maze previewed before a run is the one it is played on
+  create(random: Rng, { difficulty = 0, mazeSeed = 0 }: SimOptions) {
+    const level = mazeDifficulties[difficulty] ?? 'Easy';
+    const preset = mazePresets[level];
+    return {
+      width: CANVAS_W,
+      height: CANVAS_H,
+      time: 0,
+      random,
+      sounds: [],
+      difficulty: level,
+      mazeSeed,
+      grid: generateMaze(preset.rows, preset.cols, createRng(mazeSeed)),
+      player: { r: 0, c: 0 },
+      exit: { r: preset.rows - 1, c: preset.cols - 1 },
+      movesLeft: preset.moveLimit,
+      hintsLeft: preset.hintUses,
+      hint: [],
+      won: false,
+      lost: false,
+    };
+  },
+
+  command(s, [kind, dir]) {
+    if (s.won || s.lost) return;
+    if (kind === 'move' && steps[dir]) move(s, dir);
+    if (kind === 'hint') showHint(s);
+  },
+
+  step(s, dtMs) {
+    if (s.won || s.lost) return;
+    s.time += dtMs;
+    if (timeLeftMs(s) <= 0) s.lost = true;
+  },
+
+  render(ctx, s) {
+    ctx.fillStyle = '#071124';
+    ctx.fillRect(0, 0, CANVAS_W, CANVAS_H);
+
+    const rows = s.grid.length;
+    const cols = s.grid[0].length;
+    const cellW = Math.floor(CANVAS_W / cols);
+    const cellH = Math.floor(CANVAS_H / rows);
+    const visible = visibleCells(s);
+    const onHint = new Set(s.hint.map(h => key(h.r, h.c)));
+
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const { walls } = s.grid[r][c];
+        const x = c * cellW;
+        const y = r * cellH;
+        const isVisible = visible.has(key(r, c));
+
+        ctx.fillStyle = isVisible ? '#071B28' : '#03050A';
+        ctx.fillRect(x, y, cellW, cellH);
+
+        if (isVisible && r === s.exit.r && c === s.exit.c) {
+          ctx.fillStyle = '#0ea5a4';
+          ctx.globalAlpha = 0.16;
+          ctx.fillRect(x + 2, y + 2, cellW - 4, cellH - 4);
+          ctx.globalAlpha = 1;
+        }
+        if (isVisible && onHint.has(key(r, c))) {
+          ctx.fillStyle = 'rgba(99,102,241,0.12)';
+          ctx.fillRect(x + 2, y + 2, cellW - 4, cellH - 4);
+        }
+
+        // walls outside the player's sight are barely there
+        ctx.strokeStyle = isVisible ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.02)';
+        ctx.lineWidth = Math.max(1, Math.min(3, Math.floor(Math.min(cellW, cellH) / 10)));
+        ctx.beginPath();
+        const half = 0.5;
+        if (walls[0]) { ctx.moveTo(x + half, y + half); ctx.lineTo(x + cellW - half, y + half); }
+        if (walls[1]) { ctx.moveTo(x + cellW - half, y + half); ctx.lineTo(x + cellW - half, y + cellH - half); }
+        if (walls[2]) { ctx.moveTo(x + half, y + cellH - half); ctx.lineTo(x + cellW - half, y + cellH - half); }
+        if (walls[3]) { ctx.moveTo(x + half, y + half); ctx.lineTo(x + half, y + cellH - half); }
+        ctx.stroke();
+      }
+    }
+
+    // the hint line, only along the stretch the player can see
+    ctx.strokeStyle = 'rgba(99,102,241,0.9)';
+    ctx.lineWidth = 2;
+    for (let i = 0; i < s.hint.length - 1; i++) {
+      const a = s.hint[i];
+      const b = s.hint[i + 1];
+      if (!visible.has(key(a.r, a.c)) || !visible.has(key(b.r, b.c))) continue;
+      ctx.beginPath();
+      ctx.moveTo(a.c * cellW + cellW / 2, a.r * cellH + cellH / 2);
+      ctx.lineTo(b.c * cellW + cellW / 2, b.r * cellH + cellH / 2);
+      ctx.stroke();
+    }
+
+    ctx.beginPath();
+    ctx.fillStyle = '#fb7185';
+    ctx.arc(s.player.c * cellW + cellW / 2, s.player.r * cellH + cellH / 2, Math.max(2, Math.min(cellW, cellH) * 0.12), 0, Math.PI * 2);
+    ctx.fill();
+  },
+
+  result(s) {
+    if (!s.won && !s.lost) return null;
+    const timeLeft = mazeTimeLeft(s);
+    return {
+      score: s.won ? timeLeft * 10 + s.movesLeft : 0,
+      outcome: s.won ? 'win' : 'loss',
+      stats: { difficulty: s.difficulty, seed: s.mazeSeed, timeLeft, movesLeft: s.movesLeft },
+    };
+  },
+};
@@ -0,0 +1,154 @@
+import type { Rng } from '@/lib/random';
+import type { GameSim, SimOptions, SimState } from '@/lib/sim';
+
+export const PAIRS = 8;
+export const DEFAULT_MOVE_LIMIT = 30;
+export const MIN_MOVE_LIMIT = 8;
+export const MAX_MOVE_LIMIT = 100;
+const PAIR_POINTS = 10;
+// how long a mismatched pair stays face up
+const FLIP_BACK_MS = 900;
+const COLUMNS = 4;
+// replay canvas tile size and gap
+const TILE_W = 96;
+const TILE_H = 80;
+const GAP = 6;
+// stand-ins for the card pictures in the replay viewer, which draws without the images
+const FACE_COLORS = ['#22d3ee', '#ec4899', '#a78bfa', '#4ade80', '#fb923c', '#facc15', '#60a5fa', '#f87171'];
+
+export interface MemoryCard {
+  // which picture; each appears on exactly two cards
+  face: number;
+  flipped: boolean;
+  matched: boolean;
+}
+
+export interface MemoryState extends SimState {
+  // replaced rather than mutated on every change, so the DOM board can tell when to redraw
+  cards: MemoryCard[];
+  // the cards turned this move, at most two
+  open: number[];
+  // when a mismatched pair turns back face down, in sim time
+  flipBackAt: number | null;
+  moves: number;
+  moveLimit: number;
+  won: boolean;
+  lost: boolean;
+}
+
+const clampLimit = (limit: number) => Math.max(MIN_MOVE_LIMIT, Math.min(MAX_MOVE_LIMIT, Math.round(limit)));
+
+function deal(random: Rng): MemoryCard[] {
+  const faces = [...Array(PAIRS).keys(), ...Array(PAIRS).keys()];
+  return faces
+    .map(face => ({ face, sort: random() }))
+    .sort((a, b) => a.sort - b.sort)
+    .map(({ face }) => ({ face, flipped: false, matched: false }));
+}
+
+function flip(s: MemoryState, index: number) {
+  const card = s.cards[index];
+  if (!card || card.flipped || card.matched || s.open.length === 2) return;
+
+  s.cards = s.cards.map((c, i) => (i === index ? { ...c, flipped: true } : c));
+  s.open = [...s.open, index];
+  s.moves++;
+
+  if (s.open.length === 2) {
+    const [a, b] = s.open;
+    if (s.cards[a].face === s.cards[b].face) {
+      s.cards = s.cards.map((c, i) => (i === a || i === b ? { ...c, matched: true } : c));
+      s.open = [];
+      s.sounds.push('score');
+      s.won = s.cards.every(c => c.matched);
+    } else {
+      s.sounds.push('error');
+      s.flipBackAt = s.time + FLIP_BACK_MS;
+    }
+  }
+
+  // matching the last pair on the final move still counts as a win
+  if (!s.won && s.moves >= s.moveLimit) {
+    s.lost = true;
+    s.cards = s.cards.map(c => ({ ...c, flipped: false }));
+    s.open = [];
+    s.flipBackAt = null;
+  }
+}
+
+export const memoryMatchSim: GameSim<MemoryState> = {
+  version: 1,
+
+  create(random: Rng, { moveLimit = DEFAULT_MOVE_LIMIT }: SimOptions) {
+    return {
+      width: COLUMNS * TILE_W + (COLUMNS + 1) * GAP,
+      height: (PAIRS * 2 / COLUMNS) * TILE_H + (PAIRS * 2 / COLUMNS + 1) * GAP,
+      time: 0,
+      random,
+      sounds: [],
+      cards: deal(random),
+      open: [],
+      flipBackAt: null,
+      moves: 0,
+      moveLimit: clampLimit(moveLimit),
+      won: false,
+      lost: false,
+    };
+  },
+
+  command(s, [kind, index]) {
+    if (kind === 'flip' && !s.won && !s.lost) flip(s, index);
+  },
+
+  step(s, dtMs) {
+    if (s.won || s.lost) return;
+    s.time += dtMs;
+    if (s.flipBackAt !== null && s.time >= s.flipBackAt) {
+      const open = s.open;
+      s.cards = s.cards.map((c, i) => (open.includes(i) ? { ...c, flipped: false } : c));
+      s.open = [];
+      s.flipBackAt = null;
+    }
+  },
+
+  render(ctx, s) {
+    ctx.fillStyle = '#0b1020';
+    ctx.fillRect(0, 0, s.width, s.height);
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    s.cards.forEach((card, i) => {
+      const x = GAP + (i % COLUMNS) * (TILE_W + GAP);
+      const y = GAP + Math.floor(i / COLUMNS) * (TILE_H + GAP);
+      const up = card.flipped || card.matched;
+      ctx.globalAlpha = card.matched ? 0.5 : 1;
+      ctx.fillStyle = up ? FACE_COLORS[card.face] : 'rgba(255,255,255,0.1)';
+      ctx.fillRect(x, y, TILE_W, TILE_H);
+      if (up) {
+        ctx.fillStyle = '#0b1020';
+        ctx.font = 'bold 28px system-ui, sans-serif';
+        ctx.fillText(String(card.face + 1), x + TILE_W / 2, y + TILE_H / 2);
+      }
+    });
+    ctx.globalAlpha = 1;
+    ctx.textBaseline = 'alphabetic';
+
+    if (s.won || s.lost) {
+      ctx.fillStyle = 'rgba(0,0,0,0.5)';
+      ctx.fillRect(0, 0, s.width, s.height);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 26px system-ui, sans-serif';
+      ctx.fillText(s.won ? 'You win!' : 'Out of moves', s.width / 2, s.height / 2);
+    }
+  },
+
+  result(s) {
+    if (!s.won && !s.lost) return null;
+    const pairs = s.cards.filter(c => c.matched).length / 2;
+    return {
+      score: pairs * PAIR_POINTS + (s.won ? s.moveLimit - s.moves : 0),
+      outcome: s.won ? 'win' : 'loss',
+      stats: { moves: s.moves, moveLimit: s.moveLimit },
+    };
+  },
+};
@@ -0,0 +1,491 @@
+import { colorBlindSafeColors, getAccessibilitySnapshot } from '@/lib/accessibility-settings';
+import { lerp } from '@/lib/engine';
+import type { Rng } from '@/lib/random';
+import type { GameSim, SimState } from '@/lib/sim';
+
+// `prevX`/`prevY` are where the ball was a tick ago, for drawing between ticks; unset on a ball added this tick
+type Ball = { x: number; y: number; prevX?: number; prevY?: number; vx: number; vy: number; radius: number; active: boolean };
+// `hue` picks the block's colour from whichever palette is active when it is drawn
+type Block = { x: number; y: number; w: number; h: number; health: number; maxHealth: number; hue: number; type: 'normal' | 'explosive' | 'tough' | 'moving'; moveDir?: number };
+type PowerUp = { x: number; y: number; vy: number; type: 'multiball' | 'laser' | 'expand' | 'slowmo'; active: boolean };
+type Particle = { x: number; y: number; vx: number; vy: number; life: number; maxLife: number; size: number; color: string };
+
+const GAME_W = 600, GAME_H = 490, PADDLE_W = 100, PADDLE_H = 12;
+const PADDLE_SPEED = 560; // px/s for keys and full stick tilt
+const START_LIVES = 3;
+const LEVEL_CLEAR_DELAY = 1000;
+// past this the layouts stop getting denser, only tougher
+const MAX_DEBUG_LEVEL = 20;
+const COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#ec4899', '#06b6d4', '#f97316'];
+const POWER_UP_COLORS = { multiball: '#ef4444', laser: '#22c55e', expand: '#3b82f6', slowmo: '#a855f7' };
+const POWER_UP_SAFE_COLORS = { multiball: '#D55E00', laser: '#009E73', expand: '#0072B2', slowmo: '#CC79A7' };
+const POWER_UP_LABELS = { multiball: '⚫⚫', laser: '⚡', expand: '↔', slowmo: '⏱' };
+
+export interface BreakoutState extends SimState {
+  paddle: { x: number; prevX?: number; y: number; w: number; h: number };
+  // where the pointer wants the paddle's centre; keys and sticks move it too, so mixing them doesn't fight
+  targetX: number;
+  // -1..1 from held direction keys, and the stick's x axis
+  steer: number;
+  stick: number;
+  balls: Ball[];
+  blocks: Block[];
+  powerUps: PowerUp[];
+  particles: Particle[];
+  powerUpTimers: { laser: number; expand: number; slowmo: number };
+  combo: number;
+  comboTimer: number;
+  score: number;
+  lives: number;
+  level: number;
+  levelClearAt: number | null;
+  over: boolean;
+}
+
+const restingBall = (): Ball => ({ x: GAME_W / 2, y: GAME_H - 60, vx: 0, vy: 0, radius: 6, active: false });
+
+function initLevel(s: BreakoutState) {
+  const blocks: Block[] = [];
+  const rows = Math.min(5 + Math.floor(s.level / 2), 10);
+  const cols = 10;
+  const blockW = (GAME_W - 40) / cols;
+  const blockH = 20;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (s.random() < 0.15) continue;
+      const x = 20 + col * blockW;
+      const y = 60 + row * (blockH + 4);
+      const hue = s.random();
+      let type: Block['type'] = 'normal';
+      let health = 1;
+      if (s.level > 2 && s.random() < 0.1) { type = 'explosive'; health = 1; }
+      else if (s.level > 1 && s.random() < 0.15) { type = 'tough'; health = 2 + Math.floor(s.level / 3); }
+      else if (s.level > 3 && s.random() < 0.08) { type = 'moving'; health = 1; }
+      blocks.push({ x, y, w: blockW - 2, h: blockH, health, maxHealth: health, hue, type, moveDir: type === 'moving' ? (s.random() > 0.5 ? 1 : -1) : 0 });
+    }
+  }
+  s.blocks = blocks;
+}
+
+function nextLevel(s: BreakoutState) {
+  s.level++;
+  initLevel(s);
+  s.balls = [restingBall()];
+  s.paddle.w = PADDLE_W;
+  s.powerUpTimers = { laser: 0, expand: 0, slowmo: 0 };
+  s.levelClearAt = null;
+}
+
+function launch(s: BreakoutState) {
+  const ball = s.balls.find(b => !b.active);
+  if (!ball) return;
+  const angle = -Math.PI / 2 + (s.random() - 0.5) * 0.4;
+  const speed = 350;
+  ball.vx = Math.cos(angle) * speed;
+  ball.vy = Math.sin(angle) * speed;
+  ball.active = true;
+}
+
+function spawnPowerUp(s: BreakoutState, x: number, y: number) {
+  if (s.random() > 0.3) return;
+  const types: PowerUp['type'][] = ['multiball', 'laser', 'expand', 'slowmo'];
+  const type = types[Math.floor(s.random() * types.length)];
+  s.powerUps.push({ x, y, vy: 100, type, active: true });
+}
+
+function activatePowerUp(s: BreakoutState, type: PowerUp['type']) {
+  switch (type) {
+    case 'multiball': {
+      const ball = s.balls.find(b => b.active);
+      if (!ball) break;
+      for (let i = 0; i < 2; i++) {
+        const angle = s.random() * Math.PI * 2;
+        const speed = Math.hypot(ball.vx, ball.vy);
+        s.balls.push({ x: ball.x, y: ball.y, vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed, radius: ball.radius, active: true });
+      }
+      break;
+    }
+    case 'laser': s.powerUpTimers.laser = 5000; break;
+    case 'expand': s.paddle.w = PADDLE_W * 1.5; s.powerUpTimers.expand = 8000; break;
+    case 'slowmo': s.powerUpTimers.slowmo = 4000; break;
+  }
+}
+
+// Debris is decoration, so it takes Math.random and leaves the run's stream alone
+function explode(s: BreakoutState, x: number, y: number, color: string, count = 20) {
+  for (let i = 0; i < count; i++) {
+    const angle = Math.random() * Math.PI * 2;
+    const speed = 50 + Math.random() * 200;
+    s.particles.push({ x, y, vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed, life: 0, maxLife: 400 + Math.random() * 400, size: 2 + Math.random() * 4, color });
+  }
+}
+
+const blockColor = (block: Block) => COLORS[Math.floor(block.hue * COLORS.length)];
+
+function loseBall(s: BreakoutState) {
+  s.sounds.push('error');
+  if (!s.invulnerable) s.lives--;
+  s.combo = 0;
+  s.comboTimer = 0;
+  if (s.lives <= 0) s.over = true;
+  else s.balls.push(restingBall());
+}
+
+export const breakoutSim: GameSim<BreakoutState> = {
+  version: 1,
+  coalesce: ['aim', 'steer', 'stick'],
+
+  create(random: Rng) {
+    const s: BreakoutState = {
+      width: GAME_W,
+      height: GAME_H,
+      time: 0,
+      random,
+      sounds: [],
+      paddle: { x: GAME_W / 2, y: GAME_H - 40, w: PADDLE_W, h: PADDLE_H },
+      targetX: GAME_W / 2,
+      steer: 0,
+      stick: 0,
+      balls: [restingBall()],
+      blocks: [],
+      powerUps: [],
+      particles: [],
+      powerUpTimers: { laser: 0, expand: 0, slowmo: 0 },
+      combo: 0,
+      comboTimer: 0,
+      score: 0,
+      lives: START_LIVES,
+      level: 1,
+      levelClearAt: null,
+      over: false,
+    };
+    initLevel(s);
+    return s;
+  },
+
+  // aim: pointer x on the board; steer and stick: -1..1 held until the next one; launch: release the waiting ball
+  command(s, [kind, value = 0]) {
+    if (s.over) return;
+    if (kind === 'aim') s.targetX = Math.max(0, Math.min(GAME_W, value));
+    if (kind === 'steer') s.steer = value;
+    if (kind === 'stick') s.stick = value;
+    if (kind === 'launch') launch(s);
+  },
+
+  step(s, dtMs) {
+    if (s.over) return;
+    s.time += dtMs;
+    let dt = dtMs / 1000;
+    const timers = s.powerUpTimers;
+
+    if (timers.slowmo > 0) {
+      dt *= 0.5;
+      timers.slowmo -= dt * 2000;
+    }
+
+    const { paddle, balls, blocks, powerUps, particles } = s;
+    paddle.prevX = paddle.x;
+    for (const ball of balls) {
+      ball.prevX = ball.x;
+      ball.prevY = ball.y;
+    }
+
+    if (timers.laser > 0) timers.laser -= dt * 1000;
+    if (timers.expand > 0) {
+      timers.expand -= dt * 1000;
+      if (timers.expand <= 0) paddle.w = PADDLE_W;
+    }
+
+    if (s.comboTimer > 0) {
+      s.comboTimer -= dt * 1000;
+      if (s.comboTimer <= 0) s.combo = 0;
+    }
+
+    const steer = s.stick !== 0 ? s.stick : s.steer;
+    if (steer !== 0) s.targetX = Math.max(0, Math.min(GAME_W, s.targetX + steer * PADDLE_SPEED * dt));
+    paddle.x = Math.max(0, Math.min(GAME_W - paddle.w, s.targetX - paddle.w / 2));
+
+    for (const block of blocks) {
+      if (block.type === 'moving' && block.moveDir) {
+        block.x += block.moveDir * 80 * dt;
+        if (block.x < 20 || block.x + block.w > GAME_W - 20) block.moveDir *= -1;
+      }
+    }
+
+    for (let i = balls.length - 1; i >= 0; i--) {
+      const ball = balls[i];
+      if (!ball.active) {
+        // a waiting ball rides on the paddle
+        ball.x = paddle.x + paddle.w / 2;
+        ball.y = paddle.y - 20;
+        continue;
+      }
+
+      ball.x += ball.vx * dt;
+      ball.y += ball.vy * dt;
+
+      if (ball.x - ball.radius < 0 || ball.x + ball.radius > GAME_W) {
+        ball.vx *= -1;
+        ball.x = ball.x < GAME_W / 2 ? ball.radius : GAME_W - ball.radius;
+      }
+      if (ball.y - ball.radius < 0) {
+        ball.vy *= -1;
+        ball.y = ball.radius;
+      }
+
+      if (ball.y + ball.radius > paddle.y && ball.y - ball.radius < paddle.y + paddle.h && ball.x > paddle.x && ball.x < paddle.x + paddle.w && ball.vy > 0) {
+        // where it lands on the paddle sets the rebound angle
+        ball.y = paddle.y - ball.radius;
+        const hitPos = (ball.x - paddle.x) / paddle.w;
+        const angle = (hitPos - 0.5) * 1.2;
+        const speed = Math.hypot(ball.vx, ball.vy);
+        ball.vx = Math.sin(angle) * speed;
+        ball.vy = -Math.abs(Math.cos(angle) * speed);
+        s.sounds.push('click');
+      }
+
+      if (ball.y - ball.radius > GAME_H) {
+        balls.splice(i, 1);
+        if (!balls.some(b => b.active)) {
+          loseBall(s);
+          if (s.over) return;
+        }
+        continue;
+      }
+
+      for (let j = blocks.length - 1; j >= 0; j--) {
+        const block = blocks[j];
+        if (!(ball.x + ball.radius > block.x && ball.x - ball.radius < block.x + block.w && ball.y + ball.radius > block.y && ball.y - ball.radius < block.y + block.h)) continue;
+
+        const fromSide = ball.x < block.x || ball.x > block.x + block.w;
+        const fromEnd = ball.y < block.y || ball.y > block.y + block.h;
+        if (fromSide) ball.vx *= -1;
+        if (fromEnd) ball.vy *= -1;
+
+        block.health--;
+        s.comboTimer = 1000;
+        s.combo++;
+
+        if (block.health > 0) {
+          explode(s, ball.x, ball.y, blockColor(block), 5);
+          s.sounds.push('hit');
+          break;
+        }
+
+        const multiplier = 1 + Math.floor(s.combo / 5);
+        s.score += 10 * multiplier;
+        explode(s, block.x + block.w / 2, block.y + block.h / 2, blockColor(block));
+        s.sounds.push(block.type === 'explosive' ? 'explosion' : 'score');
+
+        if (block.type === 'explosive') {
+          // takes out its neighbours for a smaller bonus each
+          for (let k = blocks.length - 1; k >= 0; k--) {
+            if (k === j) continue;
+            const other = blocks[k];
+            const dist = Math.hypot(other.x + other.w / 2 - (block.x + block.w / 2), other.y + other.h / 2 - (block.y + block.h / 2));
+            if (dist < 80) {
+              explode(s, other.x + other.w / 2, other.y + other.h / 2, blockColor(other), 10);
+              blocks.splice(k, 1);
+              if (k < j) j--;
+              s.score += 5 * multiplier;
+            }
+          }
+        }
+
+        spawnPowerUp(s, block.x + block.w / 2, block.y + block.h / 2);
+        blocks.splice(j, 1);
+        break;
+      }
+    }
+
+    if (timers.laser > 0) {
+      for (let j = blocks.length - 1; j >= 0; j--) {
+        const block = blocks[j];
+        if (block.x < paddle.x + paddle.w && block.x + block.w > paddle.x && block.y + block.h > paddle.y) {
+          block.health -= dt * 3;
+          if (block.health <= 0) {
+            explode(s, block.x + block.w / 2, block.y + block.h / 2, blockColor(block));
+            s.score += 5;
+            blocks.splice(j, 1);
+          }
+        }
+      }
+    }
+
+    for (let i = powerUps.length - 1; i >= 0; i--) {
+      const pu = powerUps[i];
+      pu.y += pu.vy * dt;
+      if (pu.y + 10 > paddle.y && pu.y < paddle.y + paddle.h && pu.x > paddle.x && pu.x < paddle.x + paddle.w) {
+        activatePowerUp(s, pu.type);
+        s.sounds.push('powerUp');
+        powerUps.splice(i, 1);
+        explode(s, pu.x, pu.y, '#fff', 15);
+        continue;
+      }
+      if (pu.y > GAME_H + 20) powerUps.splice(i, 1);
+    }
+
+    for (let i = particles.length - 1; i >= 0; i--) {
+      const p = particles[i];
+      p.x += p.vx * dt;
+      p.y += p.vy * dt;
+      p.vy += 300 * dt;
+      p.life += dt * 1000;
+      if (p.life >= p.maxLife) particles.splice(i, 1);
+    }
+
+    // a cleared board gives the player a beat before the next level drops in
+    if (blocks.length === 0 && s.levelClearAt === null) s.levelClearAt = s.time + LEVEL_CLEAR_DELAY;
+    if (s.levelClearAt !== null && s.time >= s.levelClearAt) nextLevel(s);
+  },
+
+  render(ctx, s, alpha = 1) {
+    const safe = getAccessibilitySnapshot().colorBlindPalette;
+    const palette = safe ? colorBlindSafeColors : COLORS;
+    const colorOf = (block: Block) => palette[Math.floor(block.hue * palette.length)];
+    const powerUpColors = safe ? POWER_UP_SAFE_COLORS : POWER_UP_COLORS;
+
+    ctx.fillStyle = '#0a0a0a';
+    ctx.fillRect(0, 0, GAME_W, GAME_H);
+    const grad = ctx.createLinearGradient(0, 0, 0, GAME_H);
+    grad.addColorStop(0, 'rgba(139,92,246,0.05)');
+    grad.addColorStop(1, 'rgba(59,130,246,0.05)');
+    ctx.fillStyle = grad;
+    ctx.fillRect(0, 0, GAME_W, GAME_H);
+
+    for (const block of s.blocks) {
+      const color = colorOf(block);
+      ctx.fillStyle = color + '33';
+      ctx.fillRect(block.x - 2, block.y - 2, block.w + 4, block.h + 4);
+      ctx.fillStyle = color;
+      ctx.fillRect(block.x, block.y, block.w, block.h);
+      if (block.health < block.maxHealth) {
+        const healthPct = block.health / block.maxHealth;
+        ctx.fillStyle = 'rgba(0,0,0,0.5)';
+        ctx.fillRect(block.x, block.y, block.w, block.h);
+        ctx.fillStyle = color;
+        ctx.fillRect(block.x, block.y, block.w * healthPct, block.h);
+      }
+      if (block.type === 'explosive') {
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 12px system-ui';
+        ctx.textAlign = 'center';
+        ctx.fillText('💥', block.x + block.w / 2, block.y + block.h / 2 + 4);
+      }
+      ctx.strokeStyle = 'rgba(255,255,255,0.2)';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(block.x, block.y, block.w, block.h);
+    }
+
+    // debris is the one thing reduced motion leaves out
+    if (!getAccessibilitySnapshot().reducedMotion) {
+      for (const p of s.particles) {
+        ctx.globalAlpha = 1 - p.life / p.maxLife;
+        ctx.fillStyle = p.color;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    for (const pu of s.powerUps) {
+      ctx.fillStyle = powerUpColors[pu.type] + '44';
+      ctx.fillRect(pu.x - 12, pu.y - 12, 24, 24);
+      ctx.fillStyle = powerUpColors[pu.type];
+      ctx.fillRect(pu.x - 10, pu.y - 10, 20, 20);
+      ctx.fillStyle = '#fff';
+      ctx.font = '14px system-ui';
+      ctx.textAlign = 'center';
+      ctx.fillText(POWER_UP_LABELS[pu.type], pu.x, pu.y + 5);
+    }
+
+    const { paddle } = s;
+    const paddleX = lerp(paddle.prevX ?? paddle.x, paddle.x, alpha);
+    ctx.fillStyle = '#06b6d4' + '44';
+    ctx.fillRect(paddleX - 3, paddle.y - 3, paddle.w + 6, paddle.h + 6);
+    ctx.fillStyle = '#06b6d4';
+    ctx.fillRect(paddleX, paddle.y, paddle.w, paddle.h);
+
+    if (s.powerUpTimers.laser > 0) {
+      ctx.strokeStyle = '#22c55e';
+      ctx.lineWidth = 3;
+      ctx.globalAlpha = 0.6;
+      for (const offset of [-10, 10]) {
+        ctx.beginPath();
+        ctx.moveTo(paddleX + paddle.w / 2 + offset, paddle.y);
+        ctx.lineTo(paddleX + paddle.w / 2 + offset, 0);
+        ctx.stroke();
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    for (const ball of s.balls) {
+      const x = lerp(ball.prevX ?? ball.x, ball.x, alpha);
+      const y = lerp(ball.prevY ?? ball.y, ball.y, alpha);
+      ctx.fillStyle = '#fb7185' + '44';
+      ctx.beginPath();
+      ctx.arc(x, y, ball.radius + 4, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#fb7185';
+      ctx.beginPath();
+      ctx.arc(x, y, ball.radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 18px system-ui';
+    ctx.textAlign = 'left';
+    ctx.fillText(`Score: ${s.score}`, 20, 30);
+    ctx.fillText(`Lives: ${'❤️'.repeat(Math.max(0, s.lives))}`, 20, 50);
+    ctx.fillText(`Level: ${s.level}`, GAME_W - 120, 30);
+    if (s.combo > 0) {
+      ctx.fillStyle = '#fbbf24';
+      ctx.font = 'bold 16px system-ui';
+      ctx.fillText(`Combo: x${s.combo}`, GAME_W / 2 - 50, 30);
+    }
+
+    let puY = GAME_H - 30;
+    if (s.powerUpTimers.laser > 0) { ctx.fillStyle = '#22c55e'; ctx.fillText('⚡ LASER', 20, puY); puY -= 20; }
+    if (s.powerUpTimers.expand > 0) { ctx.fillStyle = '#3b82f6'; ctx.fillText('↔ EXPAND', 20, puY); puY -= 20; }
+    if (s.powerUpTimers.slowmo > 0) { ctx.fillStyle = '#a855f7'; ctx.fillText('⏱ SLOWMO', 20, puY); }
+
+    if (s.over) {
+      ctx.fillStyle = 'rgba(0,0,0,0.8)';
+      ctx.fillRect(0, 0, GAME_W, GAME_H);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 48px system-ui';
+      ctx.textAlign = 'center';
+      ctx.fillText('Game Over', GAME_W / 2, GAME_H / 2 - 40);
+      ctx.font = '24px system-ui';
+      ctx.fillText(`Score: ${s.score}`, GAME_W / 2, GAME_H / 2 + 10);
+      ctx.fillText(`Level: ${s.level}`, GAME_W / 2, GAME_H / 2 + 45);
+    }
+    ctx.textAlign = 'left';
+  },
+
+  result: s => (s.over ? { score: s.score, outcome: 'loss', stats: { level: s.level } } : null),
+
+  debug: {
+    stats: s => ({
+      blocks: s.blocks.length,
+      balls: s.balls.length,
+      powerUps: s.powerUps.length,
+      level: s.level,
+      lives: s.lives,
+      combo: s.combo,
+    }),
+    hitboxes: s => [
+      { kind: 'rect', x: s.paddle.x, y: s.paddle.y, w: s.paddle.w, h: s.paddle.h },
+      ...s.blocks.map(b => ({ kind: 'rect' as const, x: b.x, y: b.y, w: b.w, h: b.h })),
+      ...s.balls.map(b => ({ kind: 'circle' as const, x: b.x, y: b.y, r: b.radius })),
+    ],
+    invulnerability: true,
+    maxLevel: MAX_DEBUG_LEVEL,
+    jumpToLevel(s, level) {
+      s.level = Math.max(1, Math.min(MAX_DEBUG_LEVEL, Math.floor(level))) - 1;
+      nextLevel(s);
+    },
+  },
+};
@@ -0,0 +1,340 @@
+import { getAccessibilitySnapshot } from '@/lib/accessibility-settings';
+import { distanceToSegment } from '@/lib/collision';
+import type { Rng } from '@/lib/random';
+import type { GameSim, SimState } from '@/lib/sim';
+
+type Fruit = {
+  id: number;
+  x: number;
+  y: number;
+  r: number;
+  vy: number;
+  color: string;
+  sliced: boolean;
+  spawnAt: number;
+  kind: 'circle' | 'bomb';
+  counted: boolean; // track if already counted as miss
+};
+
+type Particle = { x: number; y: number; vx: number; vy: number; life: number; size: number; color: string; born: number };
+
+type Point = { x: number; y: number; t: number };
+
+const GAME_W = 480;
+const GAME_H = 500;
+const ROUND_MS = 45000;
+const MAX_MISSES = 10;
+const SPAWN_INTERVAL_BASE = 900; // ms
+const COMBO_DECAY = 1400; // ms to keep combo alive
+const BOMB_PENALTY = 500;
+// palette of neon-ish colors
+const COLORS = ['#fb7185', '#60a5fa', '#34d399', '#f59e0b', '#a78bfa', '#f472b6'];
+
+export interface SliceState extends SimState {
+  fruits: Fruit[];
+  particles: Particle[];
+  swipe: Point[];
+  cutting: boolean;
+  // a released swipe lingers briefly so a fast flick still slices
+  swipeClearAt: number | null;
+  nextId: number;
+  spawnTimer: number;
+  score: number;
+  combo: number;
+  comboAt: number;
+  missed: number;
+  over: boolean;
+}
+
+export const comboMultiplier = (combo: number) => 1 + Math.floor(Math.min(combo, 20) / 4);
+
+// spawns speed up as the score climbs
+const spawnInterval = (s: SliceState) =>
+  SPAWN_INTERVAL_BASE * (1 - Math.min(0.9, Math.sqrt(Math.max(0, s.score) / 200) * 0.25));
+
+function spawnFruit(s: SliceState) {
+  const r = 12 + s.random() * 22;
+  const x = r + s.random() * (GAME_W - r * 2);
+  const vy = 90 + s.random() * 160 + (s.random() < 0.08 ? 140 : 0); // occasional fast ones
+  const color = COLORS[Math.floor(s.random() * COLORS.length)];
+  const kind = s.random() < 0.2 ? 'bomb' : 'circle';
+  s.fruits.push({ id: s.nextId++, x, y: -r - 10, r, vy, color, sliced: false, spawnAt: s.time, kind, counted: false });
+}
+
+// Burst pieces are decoration, so they take Math.random and leave the run's stream alone
+function spawnParticles(s: SliceState, x: number, y: number, color: string, count: number) {
+  for (let i = 0; i < count; i++) {
+    const angle = Math.random() * Math.PI * 2;
+    const speed = 60 + Math.random() * 180;
+    s.particles.push({
+      x,
+      y,
+      vx: Math.cos(angle) * speed,
+      vy: Math.sin(angle) * speed,
+      life: 600 + Math.random() * 600,
+      size: 2 + Math.random() * 3,
+      color,
+      born: s.time,
+    });
+  }
+}
+
+// checks the recent swipe segments against every fruit
+function processSlicing(s: SliceState) {
+  const pts = s.swipe.filter(p => p.t >= s.time - 280);
+  if (pts.length < 2) return;
+
+  for (const f of s.fruits) {
+    if (f.sliced) continue;
+    // ignore very new fruit briefly to prevent accidental immediate slices
+    if (s.time - f.spawnAt < 80) continue;
+
+    for (let i = 0; i < pts.length - 1; i++) {
+      const a = pts[i];
+      const b = pts[i + 1];
+      if (distanceToSegment(f.x, f.y, a.x, a.y, b.x, b.y) > f.r * 0.9) continue;
+      f.sliced = true;
+      spawnParticles(s, f.x, f.y, f.color, 14);
+      if (f.kind === 'bomb' && s.invulnerable) {
+        s.sounds.push('click');
+      } else if (f.kind === 'bomb') {
+        // bombs cost points and the combo, but the round goes on
+        spawnParticles(s, f.x, f.y, '#ff0000', 26);
+        s.sounds.push('explosion');
+        s.score = Math.max(0, s.score - BOMB_PENALTY);
+        s.combo = 0;
+      } else {
+        s.sounds.push('hit');
+        s.combo++;
+        s.comboAt = s.time;
+        s.score += Math.round(5 + f.r * 0.25) * comboMultiplier(s.combo);
+      }
+      break;
+    }
+  }
+}
+
+function drawTrail(ctx: CanvasRenderingContext2D, pts: Point[]) {
+  ctx.beginPath();
+  ctx.moveTo(pts[0].x, pts[0].y);
+  for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y);
+  ctx.stroke();
+}
+
+export const sliceDashSim: GameSim<SliceState> = {
+  version: 1,
+
+  create(random: Rng) {
+    return {
+      width: GAME_W,
+      height: GAME_H,
+      time: 0,
+      random,
+      sounds: [],
+      fruits: [],
+      particles: [],
+      swipe: [],
+      cutting: false,
+      swipeClearAt: null,
+      nextId: 1,
+      spawnTimer: 0,
+      score: 0,
+      combo: 0,
+      comboAt: 0,
+      missed: 0,
+      over: false,
+    };
+  },
+
+  // cut-start / cut carry the pointer position on the board, cut-end lifts it
+  command(s, [kind, x = 0, y = 0]) {
+    if (s.over) return;
+    if (kind === 'cut-start') {
+      s.cutting = true;
+      s.swipeClearAt = null;
+      s.swipe = [{ x, y, t: s.time }];
+    } else if (kind === 'cut' && s.cutting) {
+      s.swipe.push({ x, y, t: s.time });
+      // limit swipe length
+      if (s.swipe.length > 28) s.swipe.shift();
+    } else if (kind === 'cut-end') {
+      s.cutting = false;
+      s.swipeClearAt = s.time + 200;
+    }
+  },
+
+  step(s, dtMs) {
+    if (s.over) return;
+    const dt = dtMs / 1000;
+    s.time += dtMs;
+
+    s.spawnTimer += dtMs;
+    if (s.spawnTimer >= spawnInterval(s)) {
+      spawnFruit(s);
+      s.spawnTimer = 0;
+    }
+
+    for (const f of s.fruits) {
+      if (f.sliced) {
+        // sliced halves drop away
+        f.y += 180 * dt;
+        continue;
+      }
+      f.y += f.vy * dt;
+      // slight wobble
+      f.x += Math.sin((s.time + f.id * 37) / 300) * 6 * dt;
+
+      // fell off the bottom unsliced; bombs are meant to be let through
+      if (f.y > GAME_H + f.r && !f.counted && f.kind !== 'bomb') {
+        f.counted = true;
+        s.sounds.push('error');
+        if (s.invulnerable) continue;
+        s.missed++;
+        s.combo = 0;
+        if (s.missed >= MAX_MISSES) s.over = true;
+      }
+    }
+    s.fruits = s.fruits.filter(f => f.y < GAME_H + 120 && !(f.sliced && f.y > GAME_H + 80 && f.kind !== 'bomb'));
+
+    for (const p of s.particles) {
+      p.x += p.vx * dt;
+      p.y += p.vy * dt;
+      p.vy += 300 * dt; // gravity on particles
+    }
+    s.particles = s.particles.filter(p => s.time - p.born < p.life);
+
+    // the trail only keeps its last moments
+    s.swipe = s.swipe.filter(pt => s.time - pt.t < 350);
+    if (s.swipeClearAt !== null && s.time >= s.swipeClearAt) {
+      s.swipe = [];
+      s.swipeClearAt = null;
+    }
+
+    if (s.combo > 0 && s.time - s.comboAt > COMBO_DECAY) s.combo = 0;
+
+    processSlicing(s);
+
+    if (s.time >= ROUND_MS) s.over = true;
+  },
+
+  render(ctx, s) {
+    ctx.clearRect(0, 0, GAME_W, GAME_H);
+    ctx.fillStyle = '#04060a';
+    ctx.fillRect(0, 0, GAME_W, GAME_H);
+
+    // subtle neon gradient
+    const g = ctx.createLinearGradient(0, 0, GAME_W, GAME_H);
+    g.addColorStop(0, 'rgba(99,102,241,0.02)');
+    g.addColorStop(1, 'rgba(249,115,22,0.02)');
+    ctx.fillStyle = g;
+    ctx.fillRect(0, 0, GAME_W, GAME_H);
+
+    for (const f of s.fruits) {
+      if (f.sliced) {
+        // faint halo where the fruit was cut
+        ctx.globalAlpha = 0.55;
+        ctx.fillStyle = f.color;
+        ctx.beginPath();
+        ctx.ellipse(f.x, f.y, f.r * 0.9, f.r * 0.6, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.globalAlpha = 1;
+        continue;
+      }
+
+      if (f.kind === 'bomb') {
+        // bombs are white squares
+        const size = Math.max(12, f.r);
+        const half = size / 2;
+        ctx.fillStyle = 'rgba(255,255,255,0.12)';
+        ctx.fillRect(f.x - half - 6, f.y - half - 6, size + 12, size + 12);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(f.x - half, f.y - half, size, size);
+        continue;
+      }
+
+      // glow
+      ctx.fillStyle = f.color;
+      ctx.beginPath();
+      ctx.arc(f.x, f.y, f.r + 8, 0, Math.PI * 2);
+      ctx.globalAlpha = 0.12;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+
+      // main circle
+      ctx.beginPath();
+      ctx.arc(f.x, f.y, f.r, 0, Math.PI * 2);
+      ctx.fill();
+
+      // core shine
+      ctx.fillStyle = 'rgba(255,255,255,0.12)';
+      ctx.beginPath();
+      ctx.ellipse(f.x - f.r * 0.28, f.y - f.r * 0.32, f.r * 0.45, f.r * 0.25, -0.4, 0, Math.PI * 2);
+      ctx.fill();
+
+      // rim
+      ctx.strokeStyle = 'rgba(255,255,255,0.06)';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    }
+
+    if (!getAccessibilitySnapshot().reducedMotion) {
+      for (const p of s.particles) {
+        const lifeFrac = Math.max(0, 1 - (s.time - p.born) / p.life);
+        ctx.globalAlpha = lifeFrac;
+        ctx.fillStyle = p.color;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, p.size * lifeFrac, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    if (s.swipe.length > 1) {
+      ctx.lineJoin = 'round';
+      ctx.lineCap = 'round';
+      // outer glow, then the core
+      ctx.strokeStyle = 'rgba(99,102,241,0.12)';
+      ctx.lineWidth = 18;
+      drawTrail(ctx, s.swipe);
+      ctx.strokeStyle = 'rgba(99,102,241,0.95)';
+      ctx.lineWidth = 6;
+      drawTrail(ctx, s.swipe);
+    }
+
+    if (s.over) {
+      ctx.fillStyle = 'rgba(0,0,0,0.7)';
+      ctx.fillRect(0, 0, GAME_W, GAME_H);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 32px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('Game Over', GAME_W / 2, GAME_H / 2 - 20);
+      ctx.font = '18px system-ui, sans-serif';
+      ctx.fillText(`Final Score: ${s.score}`, GAME_W / 2, GAME_H / 2 + 20);
+      ctx.font = '14px system-ui, sans-serif';
+      ctx.fillStyle = 'rgba(255,255,255,0.7)';
+      ctx.fillText(`Missed ${s.missed} objects`, GAME_W / 2, GAME_H / 2 + 50);
+      ctx.textAlign = 'left';
+    }
+  },
+
+  // running out the clock finishes the round; too many misses ends it early
+  result: s =>
+    s.over
+      ? { score: s.score, outcome: s.missed >= MAX_MISSES ? 'loss' : 'completed', stats: { missed: s.missed } }
+      : null,
+
+  debug: {
+    stats: s => ({
+      fruits: s.fruits.filter(f => !f.sliced).length,
+      bombs: s.fruits.filter(f => !f.sliced && f.kind === 'bomb').length,
+      particles: s.particles.length,
+      spawnMs: Math.round(spawnInterval(s)),
+      combo: s.combo,
+      missed: s.missed,
+      timeLeft: Math.ceil(Math.max(0, ROUND_MS - s.time) / 1000),
+    }),
+    // the slice test reaches 90% of the drawn radius
+    hitboxes: s => s.fruits.filter(f => !f.sliced).map(f => ({ kind: 'circle' as const, x: f.x, y: f.y, r: f.r * 0.9 })),
+    invulnerability: true,
+  },
+};
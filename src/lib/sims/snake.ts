@@ -0,0 +1,129 @@
+import type { Rng } from '@/lib/random';
+import type { GameSim, SimState } from '@/lib/sim';
+
+export const GRID_SIZE = 15;
+const MOVE_MS = 150;
+const FOOD_POINTS = 10;
+// replay canvas: one cell plus its gap, around a small margin
+const CELL = 26;
+const MARGIN = 8;
+
+export interface Cell {
+  x: number;
+  y: number;
+}
+
+// Turn commands carry one of these; the order is clockwise so opposite headings are two apart
+export const headings: Cell[] = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+export interface SnakeState extends SimState {
+  // head first; replaced rather than mutated on each move, so the DOM board can tell when to redraw
+  snake: Cell[];
+  food: Cell;
+  heading: number;
+  // heading the next move will take; turns made between moves overwrite it
+  nextHeading: number;
+  moveClock: number;
+  score: number;
+  over: boolean;
+}
+
+const placeFood = (random: Rng): Cell => ({
+  x: Math.floor(random() * GRID_SIZE),
+  y: Math.floor(random() * GRID_SIZE),
+});
+
+function move(s: SnakeState) {
+  s.heading = s.nextHeading;
+  const step = headings[s.heading];
+  const head = { x: s.snake[0].x + step.x, y: s.snake[0].y + step.y };
+
+  const offGrid = head.x < 0 || head.x >= GRID_SIZE || head.y < 0 || head.y >= GRID_SIZE;
+  if (offGrid || s.snake.some(c => c.x === head.x && c.y === head.y)) {
+    s.over = true;
+    return;
+  }
+
+  if (head.x === s.food.x && head.y === s.food.y) {
+    s.snake = [head, ...s.snake];
+    s.score += FOOD_POINTS;
+    s.food = placeFood(s.random);
+    s.sounds.push('score');
+  } else {
+    s.snake = [head, ...s.snake.slice(0, -1)];
+  }
+}
+
+export const snakeSim: GameSim<SnakeState> = {
+  version: 1,
+
+  create(random: Rng) {
+    return {
+      width: GRID_SIZE * CELL + MARGIN * 2,
+      height: GRID_SIZE * CELL + MARGIN * 2,
+      time: 0,
+      random,
+      sounds: [],
+      snake: [{ x: 7, y: 7 }],
+      food: placeFood(random),
+      heading: 1,
+      nextHeading: 1,
+      moveClock: 0,
+      score: 0,
+      over: false,
+    };
+  },
+
+  command(s, [kind, heading]) {
+    if (kind !== 'turn' || s.over || !headings[heading]) return;
+    // checked against the heading last moved in, so two quick turns can't fold the snake back on itself
+    if (s.snake.length > 1 && (heading + 2) % 4 === s.heading) return;
+    s.nextHeading = heading;
+  },
+
+  step(s, dtMs) {
+    if (s.over) return;
+    s.time += dtMs;
+    s.moveClock += dtMs;
+    while (s.moveClock >= MOVE_MS && !s.over) {
+      s.moveClock -= MOVE_MS;
+      move(s);
+    }
+  },
+
+  render(ctx, s) {
+    ctx.fillStyle = '#0b1020';
+    ctx.fillRect(0, 0, s.width, s.height);
+
+    const cell = (c: Cell, color: string) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(MARGIN + c.x * CELL + 1, MARGIN + c.y * CELL + 1, CELL - 2, CELL - 2);
+    };
+    for (let y = 0; y < GRID_SIZE; y++) {
+      for (let x = 0; x < GRID_SIZE; x++) cell({ x, y }, 'rgba(255,255,255,0.06)');
+    }
+    cell(s.food, '#ec4899');
+    s.snake.forEach((c, i) => cell(c, i === 0 ? '#22d3ee' : '#4ade80'));
+
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 14px system-ui, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.fillText(`Score: ${s.score}`, MARGIN + 4, MARGIN + 16);
+
+    if (s.over) {
+      ctx.fillStyle = 'rgba(0,0,0,0.5)';
+      ctx.fillRect(0, 0, s.width, s.height);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 26px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('Game Over', s.width / 2, s.height / 2);
+    }
+  },
+
+  result: s => (s.over ? { score: s.score, outcome: 'loss', stats: { length: s.snake.length } } : null),
+};
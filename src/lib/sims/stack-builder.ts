@@ -0,0 +1,153 @@
+import { colorBlindSafeColors, getAccessibilitySnapshot } from '@/lib/accessibility-settings';
+import type { Rng } from '@/lib/random';
+import type { GameSim, SimState } from '@/lib/sim';
+
+const CANVAS_W = 335;
+const CANVAS_H = 425;
+const START_BLOCK_W = 220;
+const BLOCK_HEIGHT = 28;
+const MOVE_SPEED = 160; // px/s
+const MIN_BLOCK_WIDTH = 18; // loss threshold
+const MAX_BLOCKS = 15;
+const COLORS = ['#06b6d4', '#60a5fa', '#fb7185', '#f59e0b', '#a78bfa'];
+
+interface Block {
+  x: number;
+  w: number;
+  // index into the palette, so switching palettes recolours the tower already built
+  color: number;
+}
+
+export interface StackState extends SimState {
+  stack: Block[];
+  moving: { dir: 1 | -1; x: number; w: number };
+  score: number;
+  over: boolean;
+}
+
+function roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  const radius = Math.min(r, h / 2, w / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + w, y, x + w, y + h, radius);
+  ctx.arcTo(x + w, y + h, x, y + h, radius);
+  ctx.arcTo(x, y + h, x, y, radius);
+  ctx.arcTo(x, y, x + w, y, radius);
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drop(s: StackState) {
+  const { moving } = s;
+  const top = s.stack[s.stack.length - 1];
+  const overlapStart = Math.max(moving.x, top.x);
+  const overlapW = Math.max(0, Math.min(moving.x + moving.w, top.x + top.w) - overlapStart);
+
+  if (overlapW < MIN_BLOCK_WIDTH) {
+    s.sounds.push('hit');
+    s.over = true;
+    return;
+  }
+
+  s.stack.push({ x: overlapStart, w: overlapW, color: s.stack.length % COLORS.length });
+  s.score++;
+  s.sounds.push('score');
+  // topping out is the only way to beat the tower
+  if (s.stack.length >= MAX_BLOCKS) {
+    s.over = true;
+    return;
+  }
+
+  const dir: 1 | -1 = s.random() > 0.5 ? 1 : -1;
+  s.moving = { dir, x: dir === 1 ? -overlapW : CANVAS_W, w: overlapW };
+}
+
+export const stackSim: GameSim<StackState> = {
+  version: 1,
+
+  create(random: Rng) {
+    return {
+      width: CANVAS_W,
+      height: CANVAS_H,
+      time: 0,
+      random,
+      sounds: [],
+      stack: [{ x: (CANVAS_W - START_BLOCK_W) / 2, w: START_BLOCK_W, color: 0 }],
+      // the first block slides in from off-screen left
+      moving: { dir: 1, x: -START_BLOCK_W, w: START_BLOCK_W },
+      score: 0,
+      over: false,
+    };
+  },
+
+  command(s, [kind]) {
+    if (kind === 'drop' && !s.over) drop(s);
+  },
+
+  step(s, dtMs) {
+    if (s.over) return;
+    s.time += dtMs;
+    const m = s.moving;
+    let nextX = m.x + MOVE_SPEED * (dtMs / 1000) * m.dir;
+    // wraps around rather than bouncing
+    if (m.dir === 1 && nextX > CANVAS_W) nextX = -m.w;
+    else if (m.dir === -1 && nextX + m.w < 0) nextX = CANVAS_W;
+    m.x = nextX;
+  },
+
+  render(ctx, s) {
+    const colors = getAccessibilitySnapshot().colorBlindPalette ? colorBlindSafeColors.slice(0, COLORS.length) : COLORS;
+
+    ctx.fillStyle = '#071124';
+    ctx.fillRect(0, 0, CANVAS_W, CANVAS_H);
+
+    // soft floating gradient
+    const grad = ctx.createLinearGradient(0, 0, CANVAS_W, CANVAS_H);
+    grad.addColorStop(0, 'rgba(167,139,250,0.04)');
+    grad.addColorStop(1, 'rgba(96,165,250,0.02)');
+    ctx.fillStyle = grad;
+    ctx.fillRect(0, 0, CANVAS_W, CANVAS_H);
+
+    s.stack.forEach((blk, i) => {
+      const y = CANVAS_H - (i + 1) * BLOCK_HEIGHT - 20;
+      ctx.fillStyle = colors[blk.color];
+      roundRect(ctx, blk.x + 1, y + 1, Math.max(0, blk.w - 2), BLOCK_HEIGHT - 2, 6);
+      ctx.fillStyle = 'rgba(255,255,255,0.05)';
+      roundRect(ctx, blk.x + 6, y + 6, Math.max(0, blk.w - 12), BLOCK_HEIGHT / 2 - 6, 4);
+    });
+
+    // the finished tower has no block left in play
+    if (!(s.over && s.stack.length >= MAX_BLOCKS)) {
+      const m = s.moving;
+      const yTop = CANVAS_H - (s.stack.length + 1) * BLOCK_HEIGHT - 20;
+      ctx.fillStyle = 'rgba(0,0,0,0.3)';
+      roundRect(ctx, m.x + 3, yTop + 6, m.w, BLOCK_HEIGHT, 6);
+      ctx.fillStyle = colors[s.stack.length % colors.length];
+      roundRect(ctx, m.x, yTop, m.w, BLOCK_HEIGHT, 6);
+      ctx.strokeStyle = 'rgba(255,255,255,0.06)';
+      ctx.lineWidth = 1.5;
+      ctx.strokeRect(m.x + 1, yTop + 1, Math.max(0, m.w - 2), BLOCK_HEIGHT - 2);
+    }
+
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 14px system-ui, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.fillText(`Score: ${s.score}`, 12, 20);
+
+    if (s.over) {
+      ctx.fillStyle = 'rgba(0,0,0,0.5)';
+      ctx.fillRect(0, 0, CANVAS_W, CANVAS_H);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 26px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('Game Over', CANVAS_W / 2, CANVAS_H / 2 - 6);
+      ctx.font = '14px system-ui, sans-serif';
+      ctx.fillText(`Score: ${s.score}`, CANVAS_W / 2, CANVAS_H / 2 + 18);
+    }
+  },
+
+  result: s =>
+    s.over
+      ? { score: s.score, outcome: s.stack.length >= MAX_BLOCKS ? 'win' : 'loss', stats: { blocks: s.stack.length } }
+      : null,
+};
@@ -0,0 +1,558 @@
+import { circleIntersectsRect, enteredThrough, pointInRect } from '@/lib/collision';
+import type { Rng } from '@/lib/random';
+import type { GameSim, SimState } from '@/lib/sim';
+
+type Tank = {
+  x: number;
+  y: number;
+  angle: number;
+  vx: number;
+  vy: number;
+  health: number;
+  maxHealth: number;
+  size: number;
+  color: string;
+  cooldown: number;
+};
+
+type Bullet = {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  owner: number;
+  size: number;
+  bounces: number;
+  maxBounces: number;
+};
+
+type Wall = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  destructible: boolean;
+  health: number;
+};
+
+type Computer = {
+  targetX: number;
+  targetY: number;
+  moveTimer: number;
+  shootTimer: number;
+  strafeDirection: number;
+  strafeTimer: number;
+  dodgeTimer: number;
+};
+
+const GAME_W = 800;
+const GAME_H = 470;
+export const WIN_SCORE = 5;
+const ROUND_BREAK = 1500;
+
+export interface TankState extends SimState {
+  tank1: Tank;
+  tank2: Tank;
+  bullets: Bullet[];
+  walls: Wall[];
+  computer: Computer;
+  // -1..1 from held actions, and the analog stick (on-screen or gamepad) which wins when tilted
+  drive: { throttle: number; turn: number };
+  stick: { x: number; y: number };
+  score1: number;
+  score2: number;
+  // sim time the next round starts at, after a kill
+  nextRoundAt: number | null;
+  winner: 1 | 2 | null;
+}
+
+function createWalls(): Wall[] {
+  return [
+    // Border walls (indestructible)
+    { x: 0, y: 0, w: GAME_W, h: 20, destructible: false, health: 999 },
+    { x: 0, y: GAME_H - 20, w: GAME_W, h: 20, destructible: false, health: 999 },
+    { x: 0, y: 0, w: 20, h: GAME_H, destructible: false, health: 999 },
+    { x: GAME_W - 20, y: 0, w: 20, h: GAME_H, destructible: false, health: 999 },
+
+    // Center cover (destructible)
+    { x: GAME_W / 2 - 60, y: GAME_H / 2 - 60, w: 120, h: 30, destructible: true, health: 5 },
+    { x: GAME_W / 2 - 60, y: GAME_H / 2 + 30, w: 120, h: 30, destructible: true, health: 5 },
+
+    // Side covers
+    { x: 200, y: 150, w: 30, h: 70, destructible: true, health: 5 },
+    { x: GAME_W - 230, y: 150, w: 30, h: 70, destructible: true, health: 5 },
+    { x: 200, y: GAME_H - 200, w: 30, h: 70, destructible: true, health: 5 },
+    { x: GAME_W - 230, y: GAME_H - 200, w: 30, h: 70, destructible: true, health: 5 },
+  ];
+}
+
+const createTank = (x: number, angle: number, color: string): Tank => ({
+  x,
+  y: GAME_H / 2,
+  angle,
+  vx: 0,
+  vy: 0,
+  health: 100,
+  maxHealth: 100,
+  size: 24,
+  color,
+  cooldown: 0,
+});
+
+const createComputer = (): Computer => ({
+  targetX: GAME_W - 100,
+  targetY: GAME_H / 2,
+  moveTimer: 0,
+  shootTimer: 0,
+  strafeDirection: 1,
+  strafeTimer: 0,
+  dodgeTimer: 0,
+});
+
+function newRound(s: TankState) {
+  s.tank1 = createTank(100, 0, '#ef4444');
+  s.tank2 = createTank(GAME_W - 100, Math.PI, '#3b82f6');
+  s.bullets = [];
+  s.walls = createWalls();
+  s.computer = createComputer();
+  s.nextRoundAt = null;
+}
+
+function shoot(s: TankState, tank: Tank, owner: number) {
+  if (tank.cooldown > 0 || tank.health <= 0) return;
+
+  const speed = 350;
+  s.bullets.push({
+    x: tank.x + Math.cos(tank.angle) * (tank.size + 5),
+    y: tank.y + Math.sin(tank.angle) * (tank.size + 5),
+    vx: Math.cos(tank.angle) * speed,
+    vy: Math.sin(tank.angle) * speed,
+    owner,
+    size: 4,
+    bounces: 0,
+    maxBounces: 2,
+  });
+  tank.cooldown = 600;
+  s.sounds.push('shoot');
+}
+
+// The computer keeps a medium range, circle-strafes, dodges incoming fire and leads its shots
+function updateComputer(s: TankState, dt: number) {
+  const { tank1, tank2, computer: ai } = s;
+
+  ai.moveTimer -= dt * 1000;
+  ai.shootTimer -= dt * 1000;
+  ai.strafeTimer -= dt * 1000;
+  ai.dodgeTimer -= dt * 1000;
+
+  let closestBulletDist = Infinity;
+  let closestBullet: Bullet | null = null;
+  for (const b of s.bullets) {
+    if (b.owner === 2) continue;
+    const dist = Math.hypot(b.x - tank2.x, b.y - tank2.y);
+    if (dist < closestBulletDist) {
+      closestBulletDist = dist;
+      closestBullet = b;
+    }
+  }
+
+  if (closestBullet && closestBulletDist < 250 && ai.dodgeTimer <= 0) {
+    // step off the bullet's line, alternating sides
+    const dodgeAngle = Math.atan2(closestBullet.vy, closestBullet.vx) + Math.PI / 2;
+    ai.strafeDirection *= -1;
+    const finalDodgeAngle = dodgeAngle + ai.strafeDirection * Math.PI;
+    const dodgeDist = 120;
+    const margin = 80;
+    ai.targetX = Math.max(margin, Math.min(GAME_W - margin, tank2.x + Math.cos(finalDodgeAngle) * dodgeDist));
+    ai.targetY = Math.max(margin, Math.min(GAME_H - margin, tank2.y + Math.sin(finalDodgeAngle) * dodgeDist));
+    ai.dodgeTimer = 500;
+    ai.moveTimer = 1500;
+  }
+
+  if (ai.moveTimer <= 0) {
+    const margin = 100;
+    const distToPlayer = Math.hypot(tank1.x - tank2.x, tank1.y - tank2.y);
+
+    if (distToPlayer < 180) {
+      const awayAngle = Math.atan2(tank2.y - tank1.y, tank2.x - tank1.x);
+      ai.targetX = tank2.x + Math.cos(awayAngle) * 150;
+      ai.targetY = tank2.y + Math.sin(awayAngle) * 150;
+    } else if (distToPlayer > 400) {
+      const toPlayerAngle = Math.atan2(tank1.y - tank2.y, tank1.x - tank2.x);
+      ai.targetX = tank2.x + Math.cos(toPlayerAngle) * 100;
+      ai.targetY = tank2.y + Math.sin(toPlayerAngle) * 100;
+    } else {
+      if (ai.strafeTimer <= 0) {
+        ai.strafeDirection *= -1;
+        ai.strafeTimer = 1500 + s.random() * 1000;
+      }
+      const angleToPlayer = Math.atan2(tank1.y - tank2.y, tank1.x - tank2.x);
+      const strafeAngle = angleToPlayer + (Math.PI / 2) * ai.strafeDirection;
+      ai.targetX = tank2.x + Math.cos(strafeAngle) * 100;
+      ai.targetY = tank2.y + Math.sin(strafeAngle) * 100;
+    }
+
+    ai.targetX = Math.max(margin, Math.min(GAME_W - margin, ai.targetX));
+    ai.targetY = Math.max(margin, Math.min(GAME_H - margin, ai.targetY));
+    ai.moveTimer = 1200 + s.random() * 800;
+  }
+
+  const dx = ai.targetX - tank2.x;
+  const dy = ai.targetY - tank2.y;
+
+  if (Math.hypot(dx, dy) > 25) {
+    let angleDiff = Math.atan2(dy, dx) - tank2.angle;
+    while (angleDiff > Math.PI) angleDiff -= Math.PI * 2;
+    while (angleDiff < -Math.PI) angleDiff += Math.PI * 2;
+
+    const rotSpeed = 5.0;
+    if (Math.abs(angleDiff) > 0.08) tank2.angle += (angleDiff > 0 ? rotSpeed : -rotSpeed) * dt;
+
+    // only drive when roughly facing the target
+    if (Math.abs(angleDiff) < 0.8) {
+      const speed = 170;
+      tank2.vx = Math.cos(tank2.angle) * speed;
+      tank2.vy = Math.sin(tank2.angle) * speed;
+    } else {
+      tank2.vx *= 0.85;
+      tank2.vy *= 0.85;
+    }
+  } else {
+    tank2.vx *= 0.85;
+    tank2.vy *= 0.85;
+  }
+
+  // lead the player by the bullet's travel time
+  const distToPlayer = Math.hypot(tank1.x - tank2.x, tank1.y - tank2.y);
+  const leadTime = distToPlayer / 350;
+  const predictedX = tank1.x + tank1.vx * leadTime;
+  const predictedY = tank1.y + tank1.vy * leadTime;
+
+  let aimDiff = Math.atan2(predictedY - tank2.y, predictedX - tank2.x) - tank2.angle;
+  while (aimDiff > Math.PI) aimDiff -= Math.PI * 2;
+  while (aimDiff < -Math.PI) aimDiff += Math.PI * 2;
+
+  const aimThreshold = 0.18;
+  const minShootCooldown = 300;
+  const maxShootCooldown = 500;
+
+  if (Math.abs(aimDiff) < aimThreshold && ai.shootTimer <= 0 && distToPlayer < 500) {
+    shoot(s, tank2, 2);
+    ai.shootTimer = minShootCooldown + s.random() * (maxShootCooldown - minShootCooldown);
+  }
+}
+
+// A tank that is already down can't be hit again while the round winds down
+function hitTank(s: TankState, tank: Tank, shooter: 1 | 2) {
+  // the shell is still used up, so an invulnerable player sees where the computer's fire lands
+  if (shooter === 2 && s.invulnerable) return;
+  tank.health -= 34;
+  s.sounds.push(tank.health <= 0 ? 'explosion' : 'hit');
+  if (tank.health > 0) return;
+
+  const score = shooter === 1 ? ++s.score1 : ++s.score2;
+  if (score >= WIN_SCORE) {
+    s.winner = shooter;
+  } else if (s.nextRoundAt === null) {
+    s.nextRoundAt = s.time + ROUND_BREAK;
+  }
+}
+
+const drawTank = (ctx: CanvasRenderingContext2D, tank: Tank, label: string) => {
+  if (tank.health <= 0) return;
+
+  ctx.save();
+  ctx.translate(tank.x, tank.y);
+  ctx.rotate(tank.angle);
+
+  // Shadow
+  ctx.fillStyle = 'rgba(0,0,0,0.3)';
+  ctx.fillRect(-tank.size + 2, -tank.size + 2, tank.size * 2, tank.size * 2);
+
+  // Body
+  ctx.fillStyle = tank.color;
+  ctx.fillRect(-tank.size, -tank.size, tank.size * 2, tank.size * 2);
+
+  // Turret
+  ctx.fillStyle = tank.color;
+  ctx.fillRect(0, -6, tank.size + 8, 12);
+
+  // Barrel tip
+  ctx.fillStyle = '#222';
+  ctx.fillRect(tank.size + 6, -3, 4, 6);
+
+  ctx.strokeStyle = 'rgba(0,0,0,0.4)';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(-tank.size, -tank.size, tank.size * 2, tank.size * 2);
+
+  ctx.restore();
+
+  ctx.fillStyle = 'rgba(255,255,255,0.8)';
+  ctx.font = '12px system-ui, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText(label, tank.x, tank.y - tank.size - 20);
+  ctx.textAlign = 'left';
+
+  const barW = tank.size * 2;
+  const barH = 4;
+  const barX = tank.x - barW / 2;
+  const barY = tank.y - tank.size - 12;
+
+  ctx.fillStyle = '#333';
+  ctx.fillRect(barX, barY, barW, barH);
+
+  const healthPct = Math.max(0, tank.health / tank.maxHealth);
+  ctx.fillStyle = healthPct > 0.5 ? '#22c55e' : healthPct > 0.25 ? '#eab308' : '#ef4444';
+  ctx.fillRect(barX, barY, barW * healthPct, barH);
+
+  ctx.strokeStyle = 'rgba(255,255,255,0.3)';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(barX, barY, barW, barH);
+};
+
+export const tankSim: GameSim<TankState> = {
+  version: 1,
+  coalesce: ['drive', 'stick'],
+
+  create(random: Rng) {
+    const s = {
+      width: GAME_W,
+      height: GAME_H,
+      time: 0,
+      random,
+      sounds: [],
+      drive: { throttle: 0, turn: 0 },
+      stick: { x: 0, y: 0 },
+      score1: 0,
+      score2: 0,
+      winner: null,
+    } as TankState;
+    newRound(s);
+    return s;
+  },
+
+  // drive: throttle and turn from held actions; stick: analog x y; fire: the player's cannon
+  command(s, [kind, a = 0, b = 0]) {
+    if (s.winner) return;
+    if (kind === 'drive') s.drive = { throttle: a, turn: b };
+    if (kind === 'stick') s.stick = { x: a, y: b };
+    if (kind === 'fire') shoot(s, s.tank1, 1);
+  },
+
+  step(s, dtMs) {
+    if (s.winner) return;
+    s.time += dtMs;
+    if (s.nextRoundAt !== null && s.time >= s.nextRoundAt) newRound(s);
+
+    const dt = dtMs / 1000;
+    const { tank1, tank2, walls, bullets } = s;
+
+    if (tank1.cooldown > 0) tank1.cooldown -= dtMs;
+    if (tank2.cooldown > 0) tank2.cooldown -= dtMs;
+
+    const speed = 150;
+    const rotSpeed = 3;
+
+    // a tilted stick gives partial throttle and turn rate; held actions are all-or-nothing
+    const throttle = s.stick.y !== 0 ? -s.stick.y : s.drive.throttle;
+    const turn = s.stick.x !== 0 ? s.stick.x : s.drive.turn;
+
+    if (throttle > 0) {
+      tank1.vx = Math.cos(tank1.angle) * speed * throttle;
+      tank1.vy = Math.sin(tank1.angle) * speed * throttle;
+    } else if (throttle < 0) {
+      tank1.vx = Math.cos(tank1.angle) * speed * 0.7 * throttle;
+      tank1.vy = Math.sin(tank1.angle) * speed * 0.7 * throttle;
+    } else {
+      tank1.vx *= 0.9;
+      tank1.vy *= 0.9;
+    }
+
+    tank1.angle += turn * rotSpeed * dt;
+
+    updateComputer(s, dt);
+
+    tank1.x += tank1.vx * dt;
+    tank1.y += tank1.vy * dt;
+    tank2.x += tank2.vx * dt;
+    tank2.y += tank2.vy * dt;
+
+    for (const wall of walls) {
+      for (const tank of [tank1, tank2]) {
+        if (circleIntersectsRect(tank.x, tank.y, tank.size, wall)) {
+          tank.x -= tank.vx * dt;
+          tank.y -= tank.vy * dt;
+          tank.vx = 0;
+          tank.vy = 0;
+        }
+      }
+    }
+
+    for (let i = bullets.length - 1; i >= 0; i--) {
+      const b = bullets[i];
+      const oldX = b.x;
+      const oldY = b.y;
+      b.x += b.vx * dt;
+      b.y += b.vy * dt;
+
+      // walls absorb a bullet once it has used up its bounces
+      let hitWall = false;
+      for (let j = walls.length - 1; j >= 0; j--) {
+        const wall = walls[j];
+        if (!pointInRect(b.x, b.y, wall)) continue;
+        hitWall = true;
+
+        if (wall.destructible) {
+          wall.health--;
+          if (wall.health <= 0) walls.splice(j, 1);
+        }
+
+        if (b.bounces < b.maxBounces) {
+          b.bounces++;
+          const from = enteredThrough(oldX, oldY, wall);
+          if (from.left || from.right) {
+            b.vx = -b.vx;
+            b.x = from.left ? wall.x - 1 : wall.x + wall.w + 1;
+          }
+          if (from.top || from.bottom) {
+            b.vy = -b.vy;
+            b.y = from.top ? wall.y - 1 : wall.y + wall.h + 1;
+          }
+          hitWall = false;
+        }
+        break;
+      }
+
+      if (hitWall) {
+        bullets.splice(i, 1);
+        continue;
+      }
+
+      if (b.owner !== 1 && tank1.health > 0 && Math.hypot(b.x - tank1.x, b.y - tank1.y) < tank1.size) {
+        bullets.splice(i, 1);
+        hitTank(s, tank1, 2);
+        if (s.winner) return;
+        continue;
+      }
+
+      if (b.owner !== 2 && tank2.health > 0 && Math.hypot(b.x - tank2.x, b.y - tank2.y) < tank2.size) {
+        bullets.splice(i, 1);
+        hitTank(s, tank2, 1);
+        if (s.winner) return;
+        continue;
+      }
+
+      if (b.x < -20 || b.x > GAME_W + 20 || b.y < -20 || b.y > GAME_H + 20) bullets.splice(i, 1);
+    }
+  },
+
+  render(ctx, s) {
+    ctx.fillStyle = '#1a1a1a';
+    ctx.fillRect(0, 0, GAME_W, GAME_H);
+
+    ctx.strokeStyle = 'rgba(255,255,255,0.05)';
+    ctx.lineWidth = 1;
+    for (let x = 0; x < GAME_W; x += 40) {
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, GAME_H);
+      ctx.stroke();
+    }
+    for (let y = 0; y < GAME_H; y += 40) {
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(GAME_W, y);
+      ctx.stroke();
+    }
+
+    for (const wall of s.walls) {
+      ctx.fillStyle = wall.destructible ? '#666' : '#333';
+      ctx.fillRect(wall.x, wall.y, wall.w, wall.h);
+      ctx.strokeStyle = wall.destructible ? '#888' : '#555';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(wall.x, wall.y, wall.w, wall.h);
+      // damage shows as a red tint
+      if (wall.destructible && wall.health < 5) {
+        const damagePct = 1 - wall.health / 5;
+        ctx.fillStyle = `rgba(255,100,100,${damagePct * 0.5})`;
+        ctx.fillRect(wall.x, wall.y, wall.w, wall.h);
+      }
+    }
+
+    for (const b of s.bullets) {
+      // Trail
+      ctx.strokeStyle = b.owner === 1 ? 'rgba(239,68,68,0.4)' : 'rgba(59,130,246,0.4)';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(b.x - b.vx * 0.02, b.y - b.vy * 0.02);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+
+      ctx.fillStyle = b.owner === 1 ? '#ef4444' : '#3b82f6';
+      ctx.beginPath();
+      ctx.arc(b.x, b.y, b.size, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Glow
+      ctx.fillStyle = b.owner === 1 ? 'rgba(239,68,68,0.3)' : 'rgba(59,130,246,0.3)';
+      ctx.beginPath();
+      ctx.arc(b.x, b.y, b.size * 2, 0, Math.PI * 2);
+      ctx.fill();
+
+      if (b.bounces > 0) {
+        ctx.fillStyle = 'rgba(255,255,255,0.7)';
+        ctx.font = '10px system-ui';
+        ctx.fillText(`${b.bounces}`, b.x + 8, b.y - 8);
+      }
+    }
+
+    drawTank(ctx, s.tank1, 'PLAYER');
+    drawTank(ctx, s.tank2, 'COMPUTER');
+
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 20px system-ui, sans-serif';
+    ctx.fillText(`Player: ${s.score1}`, 30, 40);
+    ctx.fillText(`Computer: ${s.score2}`, GAME_W - 160, 40);
+
+    ctx.font = '14px system-ui, sans-serif';
+    ctx.fillStyle = 'rgba(255,255,255,0.6)';
+    ctx.fillText(`First to ${WIN_SCORE} wins`, GAME_W / 2 - 60, 30);
+
+    if (s.winner) {
+      ctx.fillStyle = 'rgba(0,0,0,0.7)';
+      ctx.fillRect(0, 0, GAME_W, GAME_H);
+
+      ctx.fillStyle = s.winner === 1 ? '#ef4444' : '#3b82f6';
+      ctx.font = 'bold 48px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(s.winner === 1 ? 'You Win!' : 'Computer Wins!', GAME_W / 2, GAME_H / 2 - 20);
+
+      ctx.fillStyle = '#fff';
+      ctx.font = '20px system-ui, sans-serif';
+      ctx.fillText(`Final Score: ${s.score1} - ${s.score2}`, GAME_W / 2, GAME_H / 2 + 30);
+      ctx.textAlign = 'left';
+    }
+  },
+
+  result: s =>
+    s.winner ? { score: s.score1, outcome: s.winner === 1 ? 'win' : 'loss', stats: { computer: s.score2 } } : null,
+
+  debug: {
+    stats: s => ({
+      bullets: s.bullets.length,
+      walls: s.walls.length,
+      playerHealth: s.tank1.health,
+      computerHealth: s.tank2.health,
+      playerCooldown: Math.round(s.tank1.cooldown),
+      computerShootIn: Math.round(s.computer.shootTimer),
+    }),
+    hitboxes: s => [
+      ...s.walls.map(w => ({ kind: 'rect' as const, x: w.x, y: w.y, w: w.w, h: w.h })),
+      ...[s.tank1, s.tank2]
+        .filter(t => t.health > 0)
+        .map(t => ({ kind: 'circle' as const, x: t.x, y: t.y, r: t.size })),
+      ...s.bullets.map(b => ({ kind: 'circle' as const, x: b.x, y: b.y, r: b.size })),
+    ],
+    invulnerability: true,
+  },
+};
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { createProfileStore } from '@/lib/profile-store';
+import type { SessionResult } from '@/types/session';
+
+export const STATS_STORAGE_KEY = 'arcade_stats';
+export const STATS_VERSION = 1;
+// Older runs are dropped past this point; aggregates still count them.
+export const HISTORY_LIMIT = 100;
+
+// Hardcoded best-score keys the games used before the store existed, mapped to their Game.id
+const LEGACY_BEST_KEYS: Record<string, string> = {
+  flappy_best: 'flappy-bird',
+  stack_best: 'color-match',
+  typing_best_wpm: 'typing-speed',
+  flipdash_best: 'click-speed',
+  bullet_best: 'emoji-match',
+};
+
+const runSchema = z.object({
+  score: z.number(),
+  outcome: z.enum(['win', 'loss', 'draw', 'completed', 'abandoned']),
+  stats: z.record(z.union([z.number(), z.string(), z.boolean()])),
+  // runs recorded before seeding existed have no seed field
+  seed: z.number().nullable().default(null),
+  startedAt: z.number(),
+  endedAt: z.number(),
+  durationMs: z.number().nonnegative(),
+});
+
+const gameStatsSchema = z.object({
+  best: z.number().nullable(),
+  plays: z.number().int().nonnegative(),
+  wins: z.number().int().nonnegative(),
+  totalScore: z.number(),
+  totalDurationMs: z.number().nonnegative(),
+  lastPlayedAt: z.number().nullable(),
+  history: z.array(runSchema),
+});
+
+export const statsSchema = z.object({
+  version: z.literal(STATS_VERSION),
+  games: z.record(gameStatsSchema),
+});
+
+export type RunRecord = z.infer<typeof runSchema>;
+export type GameStats = z.infer<typeof gameStatsSchema>;
+export type StatsState = z.infer<typeof statsSchema>;
+
+export const emptyGameStats = (): GameStats => ({
+  best: null,
+  plays: 0,
+  wins: 0,
+  totalScore: 0,
+  totalDurationMs: 0,
+  lastPlayedAt: null,
+  history: [],
+});
+
+const emptyState = (): StatsState => ({ version: STATS_VERSION, games: {} });
+
+// Pulls the pre-store best scores in as version 1 entries and clears the old keys.
+function migrateLegacyKeys(): StatsState {
+  const state = emptyState();
+  for (const [key, gameId] of Object.entries(LEGACY_BEST_KEYS)) {
+    const raw = localStorage.getItem(key);
+    const best = Number(raw);
+    if (raw !== null && Number.isFinite(best) && best > 0) {
+      state.games[gameId] = { ...emptyGameStats(), best };
+    }
+    localStorage.removeItem(key);
+  }
+  return state;
+}
+
+// Salvages stats the schema turned down: every game and run that still reads is kept, the rest dropped.
+// The stored value itself is kept as a backup by the store.
+function repairStats(stored: unknown): StatsState | null {
+  const games = (stored as { games?: unknown } | null)?.games;
+  if (typeof games !== 'object' || games === null) return null;
+  const state = emptyState();
+  for (const [gameId, entry] of Object.entries(games)) {
+    const whole = gameStatsSchema.safeParse(entry);
+    if (whole.success) {
+      state.games[gameId] = whole.data;
+      continue;
+    }
+    const totals = gameStatsSchema.omit({ history: true }).safeParse(entry);
+    if (!totals.success) continue;
+    const history = (entry as { history?: unknown }).history;
+    const runs = Array.isArray(history) ? history.map(run => runSchema.safeParse(run)).filter(run => run.success) : [];
+    state.games[gameId] = { ...totals.data, history: runs.map(run => run.data) };
+  }
+  return state;
+}
+
+const store = createProfileStore(STATS_STORAGE_KEY, statsSchema, emptyState, {
+  initial: migrateLegacyKeys,
+  repair: repairStats,
+});
+
+export const getStatsSnapshot = store.get;
+export const subscribeStats = store.subscribe;
+
+export function recordRun(result: SessionResult) {
+  // the inputs can run to thousands of commands; replays keep the few worth keeping
+  const { gameId, inputs, ...run } = result;
+  const current = getStatsSnapshot();
+  const prev = current.games[gameId] ?? emptyGameStats();
+  const next: GameStats = {
+    best: prev.best === null ? run.score : Math.max(prev.best, run.score),
+    plays: prev.plays + 1,
+    wins: prev.wins + (run.outcome === 'win' ? 1 : 0),
+    totalScore: prev.totalScore + run.score,
+    totalDurationMs: prev.totalDurationMs + run.durationMs,
+    lastPlayedAt: run.endedAt,
+    history: [...prev.history, run].slice(-HISTORY_LIMIT),
+  };
+  store.commit({ ...current, games: { ...current.games, [gameId]: next } });
+}
+
+/** Swaps in a whole stats state, for restoring a backup. */
+export function replaceStats(next: StatsState) {
+  store.commit(next);
+}
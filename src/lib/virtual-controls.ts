@@ -0,0 +1,28 @@
+import type { StickAxes } from '@/lib/gamepad';
+import type { InputAction } from '@/types/input';
+
+export type VirtualActionListener = (action: InputAction, pressed: boolean) => void;
+
+const listeners = new Set<VirtualActionListener>();
+// null while no finger is on the on-screen joystick, so games can fall back to the gamepad
+let stick: StickAxes | null = null;
+
+/** Called by the on-screen d-pad, buttons and swipe recogniser; delivered like any other input source. */
+export function pressVirtualAction(action: InputAction, pressed: boolean) {
+  listeners.forEach(listener => listener(action, pressed));
+}
+
+export function subscribeVirtualActions(listener: VirtualActionListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setVirtualStick(axes: StickAxes | null) {
+  stick = axes;
+}
+
+export function getVirtualStick() {
+  return stick;
+}
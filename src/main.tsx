@@ -1,5 +1,19 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { registerServiceWorker } from "./lib/app-update";
+// the latin subsets of the two UI fonts, bundled so they work offline
+import "@fontsource/orbitron/latin-400.css";
+import "@fontsource/orbitron/latin-500.css";
+import "@fontsource/orbitron/latin-600.css";
+import "@fontsource/orbitron/latin-700.css";
+import "@fontsource/orbitron/latin-800.css";
+import "@fontsource/orbitron/latin-900.css";
+import "@fontsource/inter/latin-300.css";
+import "@fontsource/inter/latin-400.css";
+import "@fontsource/inter/latin-500.css";
+import "@fontsource/inter/latin-600.css";
+import "@fontsource/inter/latin-700.css";
 import "./index.css";
 
 createRoot(document.getElementById("root")!).render(<App />);
+registerServiceWorker();
@@ -0,0 +1,57 @@
+import { Lock } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { useAchievements } from '@/hooks/use-achievements';
+import { cn } from '@/lib/utils';
+
+const Achievements = () => {
+  const list = useAchievements();
+  const unlockedCount = list.filter(a => a.unlockedAt !== null).length;
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <section className="py-12">
+        <div className="container mx-auto px-4">
+          <h1 className="text-5xl font-display font-bold mb-2">
+            <span className="bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+              Achievements
+            </span>
+          </h1>
+          <p className="text-muted-foreground mb-10">
+            {unlockedCount} of {list.length} unlocked
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {list.map(a => {
+              const unlocked = a.unlockedAt !== null;
+              return (
+                <div
+                  key={a.id}
+                  className={cn(
+                    'game-card border-2',
+                    unlocked ? 'border-primary' : 'border-transparent opacity-60'
+                  )}
+                >
+                  <div className="flex items-center justify-between mb-3">
+                    <span className={cn('text-4xl', !unlocked && 'grayscale')}>{a.icon}</span>
+                    {!unlocked && <Lock className="w-5 h-5 text-muted-foreground" />}
+                  </div>
+                  <h3 className="font-display text-lg font-bold text-foreground mb-1">{a.name}</h3>
+                  <p className="text-sm text-muted-foreground">{a.description}</p>
+                  {unlocked && (
+                    <p className="mt-3 text-xs text-primary">
+                      Unlocked {new Date(a.unlockedAt).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Achievements;
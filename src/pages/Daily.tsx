@@ -0,0 +1,29 @@
+import { useState } from 'react';
+import { Header } from '@/components/Header';
+import { GameWrapper } from '@/components/GameWrapper';
+import { useDailyChallenge } from '@/hooks/use-daily';
+import { useGameStats } from '@/hooks/use-stats';
+import type { SessionStatus } from '@/types/session';
+
+const Daily = () => {
+  const [status, setStatus] = useState<SessionStatus>('idle');
+  const { challenge, nextDayWaiting } = useDailyChallenge(status === 'running' || status === 'paused');
+  const { dateKey, seed, game } = challenge;
+  const { history } = useGameStats(game.id);
+  const todays = history.filter(run => run.seed === seed);
+  const best = todays.length ? Math.max(...todays.map(run => run.score)) : null;
+
+  const subtitle =
+    `Daily Challenge · ${dateKey}` +
+    (best === null ? '' : ` · Today's best: ${best}`) +
+    (nextDayWaiting ? ' · A new challenge starts when this run ends' : '');
+
+  return (
+    <div className="h-dvh flex flex-col overflow-hidden">
+      <Header />
+      <GameWrapper gameId={game.id} seed={seed} subtitle={subtitle} onStatusChange={setStatus} />
+    </div>
+  );
+};
+
+export default Daily;
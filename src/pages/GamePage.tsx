@@ -3,7 +3,7 @@ import { GameWrapper } from '@/components/GameWrapper';
 
 const GamePage = () => {
   return (
-    <div className="h-screen overflow-hidden">
+    <div className="h-dvh flex flex-col overflow-hidden">
       <Header />
       <GameWrapper />
     </div>
@@ -1,8 +1,19 @@
+import { Search } from 'lucide-react';
 import { Header } from '@/components/Header';
 import { GameCard } from '@/components/GameCard';
+import { CategoryFilter } from '@/components/CategoryFilter';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { games } from '@/data/games';
+import { useGameFilters } from '@/hooks/use-game-filters';
+import { useStats } from '@/hooks/use-stats';
+import { filterGames, GameSort, sortLabels } from '@/lib/game-filters';
 
 const Index = () => {
+  const { filters, update } = useGameFilters();
+  const stats = useStats();
+  const visible = filterGames(games, filters, stats);
+
   return (
     <div className="min-h-screen">
       <Header />
@@ -47,11 +58,41 @@ const Index = () => {
       {/* Games Section */}
       <section className="py-12">
         <div className="container mx-auto px-4">
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
-            {games.map((game, index) => (
-              <GameCard key={game.id} game={game} index={index} />
-            ))}
+          <div className="flex flex-col gap-4 mb-8">
+            <CategoryFilter selected={filters.category} onChange={(category) => update({ category })} />
+            <div className="flex flex-col sm:flex-row gap-3 justify-center">
+              <div className="relative sm:w-80">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={filters.query}
+                  onChange={(e) => update({ query: e.target.value })}
+                  placeholder="Search games..."
+                  className="pl-9"
+                  aria-label="Search games"
+                />
+              </div>
+              <Select value={filters.sort} onValueChange={(sort) => update({ sort: sort as GameSort })}>
+                <SelectTrigger className="sm:w-48" aria-label="Sort games">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(sortLabels) as GameSort[]).map(key => (
+                    <SelectItem key={key} value={key}>{sortLabels[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
+
+          {visible.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No games match your filters.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+              {visible.map((game, index) => (
+                <GameCard key={game.id} game={game} index={index} />
+              ))}
+            </div>
+          )}
         </div>
       </section>
 
@@ -0,0 +1,83 @@
+import { Link, useSearchParams } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { LeaderboardTable } from '@/components/LeaderboardTable';
+import { RemoteLeaderboard } from '@/components/RemoteLeaderboard';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { games } from '@/data/games';
+import { useLeaderboard } from '@/hooks/use-leaderboards';
+import { remoteLeaderboardsEnabled } from '@/hooks/use-remote-leaderboard';
+import { boardKey, LEADERBOARD_SIZE, leaderboardModes } from '@/lib/leaderboards';
+
+const Leaderboards = () => {
+  // the board on show lives in the query string, so the in-game panel can link straight to it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const game = games.find(g => g.id === searchParams.get('game')) ?? games[0];
+  const modes = leaderboardModes(game.id);
+  const mode = modes.find(m => m.id === searchParams.get('mode')) ?? modes[0];
+  const entries = useLeaderboard(game.id, mode.id);
+
+  const show = (gameId: string, modeId?: string) => {
+    const next = new URLSearchParams({ game: gameId });
+    if (modeId) next.set('mode', modeId);
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <section className="py-12">
+        <div className="container mx-auto px-4 max-w-3xl">
+          <h1 className="text-5xl font-display font-bold mb-2">
+            <span className="bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+              Leaderboards
+            </span>
+          </h1>
+          <p className="text-muted-foreground mb-10">
+            The top {LEADERBOARD_SIZE} scores in each game and mode on this device
+          </p>
+
+          <div className="game-card">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+              <Select value={game.id} onValueChange={value => show(value)}>
+                <SelectTrigger className="w-64" aria-label="Game">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {games.map(g => (
+                    <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button asChild variant="outline">
+                <Link to={`/game/${game.id}`}>Play {game.name}</Link>
+              </Button>
+            </div>
+
+            {modes.length > 1 && (
+              <Tabs value={mode.id} onValueChange={value => show(game.id, value)} className="mb-4">
+                <TabsList>
+                  {modes.map(m => (
+                    <TabsTrigger key={m.id} value={m.id}>{m.label}</TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+            )}
+
+            <LeaderboardTable entries={entries} showDates />
+          </div>
+
+          {remoteLeaderboardsEnabled && (
+            <div className="mt-6">
+              <RemoteLeaderboard board={boardKey(game.id, mode.id)} />
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Leaderboards;
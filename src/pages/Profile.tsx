@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { GameStatsCard } from '@/components/GameStatsCard';
+import { ProfilesPanel } from '@/components/ProfilesPanel';
+import { games } from '@/data/games';
+import { useActiveProfile } from '@/hooks/use-profiles';
+import { useStatsTotals } from '@/hooks/use-stats';
+import { formatDuration } from '@/lib/utils';
+
+const Profile = () => {
+  const totals = useStatsTotals();
+  const profile = useActiveProfile();
+  const { hash } = useLocation();
+
+  // the router doesn't scroll to fragments itself; the header's "Manage profiles" links to one
+  useEffect(() => {
+    if (hash) document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+  }, [hash]);
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <section className="py-12">
+        <div className="container mx-auto px-4">
+          <h1 className="text-5xl font-display font-bold mb-6">
+            <span className="bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+              {profile.name}
+            </span>
+          </h1>
+
+          <div className="flex flex-wrap gap-8 mb-10 text-muted-foreground">
+            <div>Runs played: <span className="text-foreground font-bold">{totals.plays}</span></div>
+            <div>Wins: <span className="text-foreground font-bold">{totals.wins}</span></div>
+            <div>Games tried: <span className="text-foreground font-bold">{totals.gamesPlayed} / {games.length}</span></div>
+            <div>Time played: <span className="text-foreground font-bold">{formatDuration(totals.totalDurationMs)}</span></div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+            {games.map(game => (
+              <GameStatsCard key={game.id} game={game} />
+            ))}
+          </div>
+
+          <h2 id="profiles" className="text-2xl font-display font-bold text-foreground mt-12 mb-4 scroll-mt-24">
+            Profiles on this device
+          </h2>
+          <div className="max-w-3xl">
+            <ProfilesPanel />
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AlertTriangle, ArrowLeft } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { ReplayViewer } from '@/components/ReplayViewer';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { games } from '@/data/games';
+import { useReplay } from '@/hooks/use-replays';
+import type { GameSim } from '@/lib/sim';
+import { loadSim } from '@/lib/sims';
+
+const ReplayPage = () => {
+  const { replayId } = useParams();
+  const replay = useReplay(replayId);
+  const gameId = replay?.gameId;
+  const [sim, setSim] = useState<GameSim | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    setSim(null);
+    setLoadFailed(false);
+    if (!gameId) return;
+    const loading = loadSim(gameId);
+    if (!loading) {
+      setLoadFailed(true);
+      return;
+    }
+    let cancelled = false;
+    loading.then(
+      loaded => !cancelled && setSim(() => loaded),
+      () => !cancelled && setLoadFailed(true),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId]);
+
+  const game = games.find(g => g.id === gameId);
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <section className="py-8">
+        <div className="container mx-auto px-4">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link to="/replays">
+              <ArrowLeft className="w-4 h-4" />
+              All replays
+            </Link>
+          </Button>
+
+          {!replay ? (
+            <p className="text-muted-foreground">This replay no longer exists.</p>
+          ) : (
+            <>
+              <h1 className="text-3xl font-display font-bold mb-1">{game?.name ?? replay.gameId}</h1>
+              <p className="text-muted-foreground mb-6">
+                Score {replay.score} · {new Date(replay.recordedAt).toLocaleString()}
+              </p>
+
+              {sim && sim.version !== replay.simVersion && (
+                <Alert className="mb-6">
+                  <AlertTriangle className="w-4 h-4" />
+                  <AlertTitle>Recorded with an older version of this game</AlertTitle>
+                  <AlertDescription>The rules have changed since, so playback may not match what happened.</AlertDescription>
+                </Alert>
+              )}
+
+              {loadFailed ? (
+                <p className="text-muted-foreground">This replay couldn't be loaded. Check your connection and reload the page.</p>
+              ) : sim ? (
+                <ReplayViewer replay={replay} sim={sim} />
+              ) : (
+                <Skeleton className="h-[400px] w-full max-w-2xl mx-auto" />
+              )}
+            </>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ReplayPage;
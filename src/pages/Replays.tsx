@@ -0,0 +1,79 @@
+import { Link } from 'react-router-dom';
+import { Play, Trash2 } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { games } from '@/data/games';
+import { useReplays } from '@/hooks/use-replays';
+import { deleteReplay, REPLAYS_PER_GAME } from '@/lib/replays';
+import { SIM_STEP_MS } from '@/lib/sim';
+import { formatDuration } from '@/lib/utils';
+
+const Replays = () => {
+  const replays = useReplays();
+  const newestFirst = [...replays].sort((a, b) => b.recordedAt - a.recordedAt);
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <section className="py-12">
+        <div className="container mx-auto px-4">
+          <h1 className="text-5xl font-display font-bold mb-2">
+            <span className="bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+              Replays
+            </span>
+          </h1>
+          <p className="text-muted-foreground mb-10">
+            Your last {REPLAYS_PER_GAME} runs of each replayable game are kept on this device
+          </p>
+
+          {newestFirst.length === 0 ? (
+            <p className="text-muted-foreground">No replays yet. Finish a run of a replayable game to record one.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {newestFirst.map(replay => {
+                const game = games.find(g => g.id === replay.gameId);
+                return (
+                  <div key={replay.id} className="game-card border-2 border-transparent">
+                    <div className="flex items-center gap-3 mb-4">
+                      {game && <img src={game.icon} alt={game.name} className="w-12 h-12 object-contain" />}
+                      <div>
+                        <div className="font-display text-lg font-bold text-foreground">{game?.name ?? replay.gameId}</div>
+                        <div className="text-xs text-muted-foreground">{new Date(replay.recordedAt).toLocaleString()}</div>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2 mb-4 text-center">
+                      <div>
+                        <div className="text-xs text-muted-foreground">Score</div>
+                        <div className="text-lg font-bold text-primary">{replay.score}</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-muted-foreground">Length</div>
+                        <div className="text-lg font-bold text-foreground">{formatDuration(replay.ticks * SIM_STEP_MS)}</div>
+                      </div>
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Button asChild className="flex-1">
+                        <Link to={`/replays/${replay.id}`}>
+                          <Play className="w-4 h-4" />
+                          Watch
+                        </Link>
+                      </Button>
+                      <Button variant="outline" size="icon" aria-label="Delete replay" onClick={() => deleteReplay(replay.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Replays;
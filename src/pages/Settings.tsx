@@ -0,0 +1,37 @@
+import { AccessibilitySettingsPanel } from '@/components/AccessibilitySettingsPanel';
+import { AudioSettingsPanel } from '@/components/AudioSettingsPanel';
+import { Header } from '@/components/Header';
+import { KeyBindingsPanel } from '@/components/KeyBindingsPanel';
+import { ProgressTransferPanel } from '@/components/ProgressTransferPanel';
+
+const Settings = () => {
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <section className="py-12">
+        <div className="container mx-auto px-4 max-w-3xl">
+          <h1 className="text-5xl font-display font-bold mb-10">
+            <span className="bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+              Settings
+            </span>
+          </h1>
+
+          <h2 className="text-2xl font-display font-bold text-foreground mb-4">Controls</h2>
+          <KeyBindingsPanel />
+
+          <h2 className="text-2xl font-display font-bold text-foreground mt-12 mb-4">Audio</h2>
+          <AudioSettingsPanel />
+
+          <h2 className="text-2xl font-display font-bold text-foreground mt-12 mb-4">Accessibility</h2>
+          <AccessibilitySettingsPanel />
+
+          <h2 className="text-2xl font-display font-bold text-foreground mt-12 mb-4">Backup</h2>
+          <ProgressTransferPanel />
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Settings;
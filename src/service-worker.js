@@ -0,0 +1,81 @@
+// Service worker template. The build fills in the placeholders below and emits the result as /sw.js
+// (see the serviceWorker plugin in vite.config.ts); it is never loaded in development.
+
+// every file of this build, including each game's chunk, its images and fonts, plus the public files
+const PRECACHE = __PRECACHE__;
+// the catalog icons and card art, which are still served from Cloudinary
+const REMOTE_IMAGES = __REMOTE_IMAGES__;
+const SHELL_CACHE = `arcade-shell-${__BUILD_ID__}`;
+// a Cloudinary URL names one version of a file, so these outlive builds
+const IMAGE_CACHE = 'arcade-images-v1';
+
+// Only an image that came back OK over CORS is kept: an opaque response could be an error page and can't be checked
+async function fetchImage(url) {
+  try {
+    const response = await fetch(url, { mode: 'cors', credentials: 'omit' });
+    return response.ok ? response : null;
+  } catch {
+    return null;
+  }
+}
+
+async function cacheImage(cache, url) {
+  const response = await fetchImage(url);
+  if (response) await cache.put(url, response.clone());
+  return response;
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll(PRECACHE);
+      // an image that can't be fetched right now doesn't hold up the install; it is cached when first shown
+      const images = await caches.open(IMAGE_CACHE);
+      await Promise.allSettled(REMOTE_IMAGES.map(async url => (await images.match(url)) ?? cacheImage(images, url)));
+    })(),
+  );
+  // a new build waits for the page to accept it (the update prompt), so a run in progress isn't reloaded underneath the player
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    (async () => {
+      // older builds' shells, and the remote cache earlier builds kept for images and fonts on a CDN
+      const keys = await caches.keys();
+      const current = [SHELL_CACHE, IMAGE_CACHE];
+      await Promise.all(keys.filter(key => key.startsWith('arcade-') && !current.includes(key)).map(key => caches.delete(key)));
+      await self.clients.claim();
+    })(),
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // every route is the same single-page app
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match('/index.html').then(cached => cached ?? fetch(request)));
+    return;
+  }
+
+  if (REMOTE_IMAGES.includes(url.href)) {
+    event.respondWith(
+      (async () => {
+        const images = await caches.open(IMAGE_CACHE);
+        return (await images.match(url.href)) ?? (await cacheImage(images, url.href)) ?? fetch(request);
+      })(),
+    );
+    return;
+  }
+
+  // leaderboard APIs and anything else cross-origin go straight to the network
+  if (url.origin !== self.location.origin) return;
+  event.respondWith(caches.match(request).then(cached => cached ?? fetch(request)));
+});
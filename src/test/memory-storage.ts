@@ -0,0 +1,24 @@
+/**
+ * A localStorage stand-in for specs, which run without a DOM. `fill(true)` makes writes throw the way a full quota
+ * does; `items` is the backing map, for setting up and checking raw stored values.
+ */
+export function memoryStorage() {
+  const items = new Map<string, string>();
+  let full = false;
+  return {
+    items,
+    fill: (value: boolean) => {
+      full = value;
+    },
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (full) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem: (key: string) => items.delete(key),
+    key: (i: number) => [...items.keys()][i] ?? null,
+    get length() {
+      return items.size;
+    },
+  };
+}
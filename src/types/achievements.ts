@@ -0,0 +1,18 @@
+import type { StatsState } from '@/lib/stats-store';
+import type { SessionResult } from '@/types/session';
+
+export interface AchievementContext {
+  // the run that just finished, already included in `stats`
+  run: SessionResult;
+  stats: StatsState;
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  // only evaluated for runs of these games; omit for cross-game rules
+  gameIds?: string[];
+  unlocks: (ctx: AchievementContext) => boolean;
+}
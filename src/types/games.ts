@@ -1,11 +1,37 @@
+import type { InputAction, TouchLayout } from '@/types/input';
+
+// Ids are persisted (stats, achievements, URLs), so a few keep the name of the game that used to live there
+export type GameId =
+  | 'memory-match' | 'tic-tac-toe' | 'snake' | 'flappy-bird' | 'whack-a-mole'
+  | 'simon-says' | 'rock-paper-scissors' | 'number-guess' | 'reaction-time' | 'color-match'
+  | 'typing-speed' | 'math-quiz' | 'click-speed' | 'word-scramble' | 'hangman'
+  | 'pattern-match' | 'aim-trainer' | 'sequence-memory' | 'quick-math' | 'emoji-match';
+
+export type InputDevice = 'keyboard' | 'mouse' | 'touch' | 'gamepad';
+
+export interface GameControl {
+  input: string;
+  action: string;
+}
+
 export interface Game {
-  id: string;
+  id: GameId;
   name: string;
   description: string;
   icon: string;
   category: GameCategory;
   difficulty: 'easy' | 'medium' | 'hard';
   color: 'cyan' | 'pink' | 'purple' | 'green' | 'orange' | 'yellow';
+  controls: GameControl[];
+  inputs: InputDevice[];
+  players: { min: number; max: number };
+  modes: string[];
+  // rough length of one run, in minutes
+  sessionMinutes: number;
+  // remappable keyboard actions this game reads, with what each does; pause is handled by the wrapper for every game
+  keyActions?: Partial<Record<InputAction, string>>;
+  // on-screen controls shown on phones, for games that can't be played by tapping the board
+  touchControls?: TouchLayout;
 }
 
 export type GameCategory = 'puzzle' | 'memory' | 'reflex' | 'strategy' | 'word' | 'math';
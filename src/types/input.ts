@@ -0,0 +1,26 @@
+// Logical actions games listen for; which physical keys trigger them is up to the player's bindings
+export type InputAction = 'up' | 'down' | 'left' | 'right' | 'primary' | 'secondary' | 'pause';
+
+// Keys are KeyboardEvent.code values, so a binding names a physical key whatever the layout (AZERTY, Dvorak, ...)
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const inputActions: InputAction[] = ['up', 'down', 'left', 'right', 'primary', 'secondary', 'pause'];
+
+export const actionLabels: Record<InputAction, string> = {
+  up: 'Up',
+  down: 'Down',
+  left: 'Left',
+  right: 'Right',
+  primary: 'Primary',
+  secondary: 'Secondary',
+  pause: 'Pause',
+};
+
+// On-screen controls a game opts into on phones; each one feeds the same actions as the keyboard
+export interface TouchLayout {
+  // a four-way d-pad for grid games, or an analog thumb stick for free movement
+  movement?: 'dpad' | 'joystick';
+  buttons?: InputAction[];
+  // swipes anywhere over the game count as a direction press
+  swipe?: boolean;
+}
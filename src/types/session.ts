@@ -0,0 +1,57 @@
+import type { RecordedCommand, SimOptions } from '@/lib/sim';
+
+export type SessionStatus = 'idle' | 'running' | 'paused' | 'ended';
+
+export type SessionOutcome = 'win' | 'loss' | 'draw' | 'completed' | 'abandoned';
+
+// Game-specific numbers and labels attached to a finished run (wpm, level, mode, ...)
+export type SessionStats = Record<string, number | string | boolean>;
+
+// The recorded inputs behind a run played on a sim, enough to play it out again from scratch
+export interface SessionInputs {
+  simVersion: number;
+  seed: number;
+  options: SimOptions;
+  ticks: number;
+  commands: RecordedCommand[];
+}
+
+export interface SessionEnd {
+  score: number;
+  outcome: SessionOutcome;
+  stats?: SessionStats;
+  inputs?: SessionInputs;
+}
+
+export interface SessionResult {
+  gameId: string;
+  score: number;
+  outcome: SessionOutcome;
+  stats: SessionStats;
+  // set when the run was played from a fixed seed (daily challenge)
+  seed: number | null;
+  startedAt: number;
+  endedAt: number;
+  // active play time, paused stretches excluded
+  durationMs: number;
+  // null for games that aren't played on a sim
+  inputs: SessionInputs | null;
+}
+
+export interface GameSession {
+  readonly gameId: string;
+  readonly status: SessionStatus;
+  readonly seed: number | null;
+  // Use instead of Math.random() for anything that shapes gameplay; replays the same stream each run when seeded
+  random(): number;
+  start(): void;
+  pause(): void;
+  resume(): void;
+  end(result: SessionEnd): void;
+}
+
+export interface GameProps {
+  session: GameSession;
+  // true while the wrapper's pause menu is up; games freeze their loops, timers and input
+  paused: boolean;
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // base URL of the online leaderboard service, or `mock` for the in-memory one; unset keeps scores local
+  readonly VITE_LEADERBOARD_URL?: string;
+  // HMAC key for session summaries; the mock server checks against the same value
+  readonly VITE_SCORE_SIGNING_KEY?: string;
+}
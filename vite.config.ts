@@ -1,15 +1,60 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// The catalog icons and card art still live on Cloudinary; their URLs are collected from the build for the worker
+const REMOTE_IMAGE = /https:\/\/res\.cloudinary\.com\/[^"'`\s()\\]+/g;
+
+/**
+ * Emits /sw.js from src/service-worker.js with the precache list of this build: every emitted file
+ * (the shell, each game's lazy chunk, styles, images and fonts), the public folder and the remote images the code
+ * refers to. The build id changes whenever any of those does, which is what triggers the update prompt.
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: "arcade-service-worker",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_, bundle) {
+      const files = Object.keys(bundle).filter((file) => !file.endsWith(".map"));
+      const publicFiles = readdirSync(path.resolve(__dirname, "public"));
+      const precache = [...new Set([...files, ...publicFiles, "index.html"])].sort().map((file) => `/${file}`);
+
+      const remote = new Set<string>();
+      for (const output of Object.values(bundle)) {
+        const text = output.type === "chunk" ? output.code : typeof output.source === "string" ? output.source : "";
+        for (const [url] of text.matchAll(REMOTE_IMAGE)) remote.add(url);
+      }
+      const remoteImages = [...remote].sort();
+
+      const hash = createHash("sha256");
+      for (const output of Object.values(bundle)) {
+        hash.update(output.fileName);
+        hash.update(output.type === "chunk" ? output.code : output.source);
+      }
+      const template = readFileSync(path.resolve(__dirname, "src/service-worker.js"), "utf8");
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: template
+          .replace("__PRECACHE__", JSON.stringify(precache))
+          .replace("__REMOTE_IMAGES__", JSON.stringify(remoteImages))
+          .replace("__BUILD_ID__", JSON.stringify(hash.digest("hex").slice(0, 12))),
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), mode === "development" && componentTagger(), serviceWorker()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),